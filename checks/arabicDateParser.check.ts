@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseArabicAppointment } from "../src/lib/arabicDateParser.ts";
+
+// الاثنين 19 أكتوبر 2026
+const now = new Date(2026, 9, 19, 9, 0);
+
+test("مثنى الوحدة يُحسب قبل المفرد", () => {
+  assert.equal(parseArabicAppointment("اجتماع بعد يومين", now)?.date, "2026-10-21");
+  assert.equal(parseArabicAppointment("اجتماع بعد أسبوعين", now)?.date, "2026-11-02");
+  assert.equal(parseArabicAppointment("اجتماع بعد اسبوعين", now)?.date, "2026-11-02");
+  assert.equal(parseArabicAppointment("اجتماع بعد شهرين", now)?.date, "2026-12-19");
+});
+
+test("بعد أسبوعين ثم يوم محدد", () => {
+  assert.equal(parseArabicAppointment("اجتماع بعد أسبوعين يوم الأحد", now)?.date, "2026-11-01");
+});
+
+test("التكرار بالمثنى", () => {
+  assert.deepEqual(parseArabicAppointment("رياضة كل أسبوعين", now)?.recurrence, { pattern: "weekly", every: 2 });
+  assert.deepEqual(parseArabicAppointment("رياضة كل يومين", now)?.recurrence, { pattern: "daily", every: 2 });
+});
+
+test("اليوم المذكور بعد مهلة بالأيام لا يسبقها", () => {
+  assert.equal(parseArabicAppointment("اجتماع بعد يومين يوم الأحد", now)?.date, "2026-10-25");
+  assert.equal(parseArabicAppointment("اجتماع بعد أسبوع يوم الخميس", now)?.date, "2026-10-29");
+});
@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { chatWithAssistant } from "../src/atlasClient.ts";
+import { recentAssistantHistory, type AssistantEntry } from "../src/lib/assistant.ts";
+import { setLlmProvider, type LlmMessage } from "../src/lib/llmProviders.ts";
+
+const context = { now: new Date(2026, 9, 19, 9, 0), timeZone: "Asia/Riyadh" };
+
+function conversation(turns: number): AssistantEntry[] {
+  return Array.from({ length: turns }, (_, i): AssistantEntry[] => [
+    { role: "user", text: `سؤال ${i}` },
+    { role: "assistant", text: "أبحث", call: { name: "list_appointments", arguments: {} } },
+    { role: "tool", text: JSON.stringify({ tool: "list_appointments", result: [] }) },
+    { role: "assistant", text: `جواب ${i}`, call: null },
+  ]).flat();
+}
+
+test("محادثة طويلة لا تتجاوز حد رسائل الوكيل حتى مع محاولات الإصلاح", async () => {
+  const sent: LlmMessage[][] = [];
+  const replies = ["ليس JSON", "ليس JSON أيضًا", JSON.stringify({ reply: "تم", tool: null })];
+  setLlmProvider({
+    name: "mock",
+    complete: async (messages) => {
+      sent.push([...messages]);
+      return { content: replies.shift()!, raw: null };
+    },
+  });
+  try {
+    const history = [...conversation(20), { role: "user", text: "ما مواعيدي غدًا؟" } as const];
+    const reply = await chatWithAssistant(history, context);
+    assert.equal(reply.reply, "تم");
+    assert.equal(sent.length, 3);
+    for (const messages of sent) assert.ok(messages.length <= 12, `أُرسلت ${messages.length} رسالة`);
+    // آخر سؤال حاضر دائمًا، والنافذة لا تبدأ بنتيجة أداة
+    assert.equal(sent[0].at(-1)?.content, "ما مواعيدي غدًا؟");
+    assert.equal(sent[0][1].role, "user");
+    assert.ok(!sent[0][1].content.startsWith("نتيجة الأداة"));
+  } finally {
+    setLlmProvider(null);
+  }
+});
+
+test("سلسلة أدوات أطول من النافذة تحتفظ بسؤالها", () => {
+  const chain: AssistantEntry[] = [
+    { role: "user", text: "قديم" },
+    { role: "assistant", text: "جواب", call: null },
+    { role: "user", text: "انقل موعد الطبيب" },
+    ...Array.from({ length: 5 }, (): AssistantEntry[] => [
+      { role: "assistant", text: "أبحث", call: { name: "list_appointments", arguments: {} } },
+      { role: "tool", text: "[]" },
+    ]).flat(),
+  ];
+  const window = recentAssistantHistory(chain, 7);
+  assert.equal(window.length, 7);
+  assert.deepEqual(window[0], { role: "user", text: "انقل موعد الطبيب" });
+  assert.deepEqual(window.at(-1), chain.at(-1));
+});
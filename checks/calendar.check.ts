@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { layoutDay, moveEvent, resizeEvent, shiftAnchor, visibleDays, type CalendarEvent } from "../src/lib/calendar.ts";
+
+const zone = "Asia/Riyadh";
+const event = (key: string, from: string, to?: string): CalendarEvent => ({
+  key,
+  priority: "medium",
+  start_at: new Date(`2026-10-19T${from}:00+03:00`).toISOString(),
+  end_at: to ? new Date(`2026-10-19T${to}:00+03:00`).toISOString() : undefined,
+});
+const columnsOf = (events: CalendarEvent[]) =>
+  Object.fromEntries(layoutDay(events, "2026-10-19", zone).map((p) => [p.event.key, [p.column, p.columns]]));
+
+test("المواعيد المتداخلة تتوزع على أعمدة والمنفصلة تأخذ العرض كاملًا", () => {
+  const layout = columnsOf([event("a", "09:00", "10:00"), event("b", "09:30", "10:30"), event("c", "10:00", "11:00"), event("d", "12:00", "13:00")]);
+  // c يبدأ عند نهاية a فيأخذ عموده
+  assert.deepEqual(layout, { a: [0, 2], b: [1, 2], c: [0, 2], d: [0, 1] });
+});
+
+test("الموعد بلا نهاية يأخذ المدة الافتراضية", () => {
+  const [positioned] = layoutDay([event("a", "09:00")], "2026-10-19", zone);
+  assert.equal(positioned.top, 9 * 60);
+  assert.equal(positioned.height, 30);
+});
+
+test("الموعد الممتد بعد منتصف الليل يُقص ويُعلَّم بالاستمرار", () => {
+  const late: CalendarEvent = { key: "late", priority: "low", start_at: new Date("2026-10-19T23:00:00+03:00").toISOString(), end_at: new Date("2026-10-20T01:00:00+03:00").toISOString() };
+  const [today] = layoutDay([late], "2026-10-19", zone);
+  assert.deepEqual([today.top, today.height, today.continuesBefore, today.continuesAfter], [23 * 60, 60, false, true]);
+  const [tomorrow] = layoutDay([late], "2026-10-20", zone);
+  assert.deepEqual([tomorrow.top, tomorrow.height, tomorrow.continuesBefore, tomorrow.continuesAfter], [0, 60, true, false]);
+});
+
+test("أيام العرض تبدأ من أول الأسبوع وتغطي الشهر بأسابيع كاملة", () => {
+  assert.deepEqual(visibleDays("week", "2026-10-21", "saturday").slice(0, 2), ["2026-10-17", "2026-10-18"]);
+  const month = visibleDays("month", "2026-10-19", "sunday");
+  assert.equal(month[0], "2026-09-27");
+  assert.equal(month.at(-1), "2026-10-31");
+  assert.equal(month.length % 7, 0);
+  assert.equal(shiftAnchor("month", "2026-01-31", 1), "2026-02-01");
+});
+
+test("السحب ينقل الموعد بخطوات 15 دقيقة ويحافظ على مدته، والتمديد لا يقل عن خطوة", () => {
+  const moved = moveEvent(event("a", "09:00", "10:00"), "2026-10-21", 37, zone);
+  assert.deepEqual(moved, { start_at: "2026-10-21T06:30:00.000Z", end_at: "2026-10-21T07:30:00.000Z" });
+  assert.equal(resizeEvent(event("a", "09:00", "10:00"), -120).end_at, "2026-10-19T06:15:00.000Z");
+});
@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkSchedule, defaultWorkingHours, isWithinWorkingHours, type SchedulingPolicy } from "../src/lib/conflicts.ts";
+
+// الأوقات بتوقيت الرياض (UTC+3)؛ 2026-10-19 يوم اثنين
+const zone = "Asia/Riyadh";
+const at = (day: string, time: string) => new Date(`${day}T${time}:00+03:00`);
+const slot = (day: string, from: string, to: string) => ({ start_at: at(day, from).toISOString(), end_at: at(day, to).toISOString() });
+const policy = (bufferMinutes: number): SchedulingPolicy => ({ bufferMinutes, workingHours: defaultWorkingHours, timeZone: zone, weekStart: "sunday" });
+
+const meeting = { id: "m", status: "scheduled", ...slot("2026-10-19", "10:00", "11:00") };
+const now = at("2026-10-19", "07:00");
+
+test("الفاصل بين المواعيد يجعل الموعد القريب متعارضًا", () => {
+  const candidate = { id: "new", ...slot("2026-10-19", "11:10", "11:40") };
+  assert.deepEqual(checkSchedule(candidate, [meeting], policy(15), { now }).conflicts.map((c) => c.id), ["m"]);
+  assert.deepEqual(checkSchedule(candidate, [meeting], policy(5), { now }).conflicts, []);
+  // الموعد الملاصق بلا فاصل لا يتعارض
+  assert.deepEqual(checkSchedule({ id: "new", ...slot("2026-10-19", "11:00", "11:30") }, [meeting], policy(0), { now }).conflicts, []);
+});
+
+test("المواعيد الملغاة والموعد المعدَّل نفسه لا تُحسب مشغولة", () => {
+  const candidate = { id: "new", ...slot("2026-10-19", "10:30", "11:30") };
+  assert.deepEqual(checkSchedule(candidate, [{ ...meeting, status: "canceled" }], policy(0), { now }).conflicts, []);
+  assert.deepEqual(checkSchedule(candidate, [meeting], policy(0), { now, excludeId: "m" }).conflicts, []);
+});
+
+test("الاقتراحات لا تتعارض ولا تخرج عن ساعات العمل ولا تقع في الماضي", () => {
+  const check = checkSchedule({ id: "new", ...slot("2026-10-19", "10:30", "11:30") }, [meeting], policy(15), { now });
+  assert.equal(check.suggestions.length, 3);
+  for (const s of check.suggestions) {
+    const start = new Date(s.start_at);
+    const end = new Date(s.end_at);
+    assert.equal(end.getTime() - start.getTime(), 60 * 60000);
+    assert.ok(start >= now);
+    assert.ok(isWithinWorkingHours(start, end, defaultWorkingHours, zone));
+    assert.deepEqual(checkSchedule({ id: "new", ...s }, [meeting], policy(15), { now }).conflicts, []);
+  }
+});
+
+test("ساعات العمل تشمل الأيام والحدود", () => {
+  assert.equal(isWithinWorkingHours(at("2026-10-19", "19:00"), at("2026-10-19", "20:00"), defaultWorkingHours, zone), true);
+  assert.equal(isWithinWorkingHours(at("2026-10-19", "19:30"), at("2026-10-19", "20:30"), defaultWorkingHours, zone), false);
+  assert.equal(isWithinWorkingHours(at("2026-10-19", "07:30"), at("2026-10-19", "08:30"), defaultWorkingHours, zone), false);
+  // الجمعة ليست من أيام العمل الافتراضية
+  assert.equal(isWithinWorkingHours(at("2026-10-23", "10:00"), at("2026-10-23", "11:00"), defaultWorkingHours, zone), false);
+  assert.equal(isWithinWorkingHours(at("2026-10-23", "10:00"), at("2026-10-23", "11:00"), null, zone), true);
+});
+
+test("النهاية عند منتصف الليل تبقى في اليوم نفسه، وتجاوزه يخرج عن ساعات العمل", () => {
+  const lateHours = { ...defaultWorkingHours, end: "24:00" };
+  assert.equal(isWithinWorkingHours(at("2026-10-19", "23:00"), at("2026-10-20", "00:00"), lateHours, zone), true);
+  assert.equal(isWithinWorkingHours(at("2026-10-19", "23:00"), at("2026-10-20", "00:30"), lateHours, zone), false);
+  const check = checkSchedule({ id: "new", ...slot("2026-10-19", "23:00", "23:59") }, [], { ...policy(0), workingHours: lateHours }, { now });
+  assert.equal(check.outsideWorkingHours, false);
+});
@@ -0,0 +1,85 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { extractAppointments } from "../src/atlasClient.ts";
+import { createMockProvider, getLlmProvider, setLlmProvider, type LlmProvider } from "../src/lib/llmProviders.ts";
+
+// الاستخراج كاملًا دون شبكة: المزود الوهمي من LLM_PROVIDER=mock، وأي طلب شبكة يُفشل الفحص
+const now = new Date(2026, 9, 19, 9, 0);
+const realFetch = globalThis.fetch;
+
+before(() => {
+  process.env.LLM_PROVIDER = "mock";
+  setLlmProvider(null);
+  globalThis.fetch = () => Promise.reject(new Error("لا شبكة في الفحوص"));
+});
+
+after(() => {
+  globalThis.fetch = realFetch;
+  setLlmProvider(null);
+});
+
+test("المزود يُقرأ من البيئة", () => {
+  assert.equal(getLlmProvider().name, "mock");
+});
+
+test("استخراج موعد بالمزود الوهمي مع التدفق", async () => {
+  const streamed: string[] = [];
+  const { appointments } = await extractAppointments("مراجعة طبيب الأسنان\nغدًا الساعة 5 مساءً", now, {
+    onAppointment: (appointment) => streamed.push(appointment.title ?? ""),
+  });
+  assert.equal(appointments.length, 1);
+  assert.equal(appointments[0].title, "مراجعة طبيب الأسنان");
+  assert.deepEqual(streamed, ["مراجعة طبيب الأسنان"]);
+});
+
+test("الرد غير الصالح يُعاد طلب تصحيحه", async () => {
+  const mock = createMockProvider({ responses: ["هذا ليس JSON"] });
+  const calls: number[] = [];
+  const counting: LlmProvider = { ...mock, complete: (messages, options) => (calls.push(messages.length), mock.complete(messages, options)) };
+  setLlmProvider(counting);
+  try {
+    const { appointments } = await extractAppointments("اجتماع الفريق", now);
+    assert.equal(appointments[0].title, "اجتماع الفريق");
+    // المحاولة الثانية تحمل الرد السابق وطلب التصحيح
+    assert.deepEqual(calls, [2, 4]);
+  } finally {
+    setLlmProvider(null);
+  }
+});
+
+test("انقطاع الشبكة بعد أول جزء لا يُعاد حتى لا تتكرر المعاينة", async () => {
+  const mock = createMockProvider();
+  let calls = 0;
+  const dropping: LlmProvider = {
+    name: "mock",
+    complete: async (messages, options = {}) => {
+      if (++calls > 1) return mock.complete(messages, options);
+      options.onDelta?.('{"appointments": [');
+      throw new TypeError("network error");
+    },
+  };
+  setLlmProvider(dropping);
+  try {
+    await assert.rejects(extractAppointments("زيارة العائلة", now, { onAppointment: () => {} }), /انقطع الاتصال/);
+    assert.equal(calls, 1);
+  } finally {
+    setLlmProvider(null);
+  }
+});
+
+test("انقطاع الشبكة قبل أي جزء يُعاد", async () => {
+  const mock = createMockProvider();
+  let calls = 0;
+  const flaky: LlmProvider = {
+    name: "mock",
+    complete: async (messages, options = {}) => (++calls > 1 ? mock.complete(messages, options) : Promise.reject(new TypeError("network error"))),
+  };
+  setLlmProvider(flaky);
+  try {
+    const { appointments } = await extractAppointments("حصة السباحة", now, { onAppointment: () => {} });
+    assert.equal(appointments[0].title, "حصة السباحة");
+    assert.equal(calls, 2);
+  } finally {
+    setLlmProvider(null);
+  }
+});
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseIcs } from "../src/lib/ics.ts";
+
+const calendar = (...events: string[]) => ["BEGIN:VCALENDAR", "VERSION:2.0", ...events, "END:VCALENDAR"].join("\r\n");
+
+const master = ["BEGIN:VEVENT", "UID:weekly@example.com", "DTSTART:20261019T050000Z", "DTEND:20261019T060000Z", "SUMMARY:اجتماع", "RRULE:FREQ=DAILY;COUNT=5", "END:VEVENT"].join("\r\n");
+
+const override = (extra: string[]) =>
+  ["BEGIN:VEVENT", "UID:weekly@example.com", "RECURRENCE-ID:20261021T050000Z", "DTSTART:20261021T090000Z", "DTEND:20261021T100000Z", "SUMMARY:اجتماع منقول", ...extra, "END:VEVENT"].join("\r\n");
+
+test("التكرار المعدّل يُستثنى من السلسلة ويُستورد موعدًا منفصلًا", () => {
+  // التعديل قبل السلسلة في الملف لا يغير النتيجة
+  const events = parseIcs(calendar(override([]), master), "Asia/Riyadh");
+  assert.equal(events.length, 2);
+  const series = events.find((e) => e.uid === "weekly@example.com");
+  assert.deepEqual(series?.recurrence?.exceptions, ["2026-10-21"]);
+  const moved = events.find((e) => e.series_uid === "weekly@example.com");
+  assert.equal(moved?.uid, "weekly@example.com#2026-10-21");
+  assert.equal(moved?.start_at, "2026-10-21T09:00:00.000Z");
+  assert.equal(moved?.recurrence, null);
+});
+
+test("التكرار الملغى يكفيه الاستثناء", () => {
+  const events = parseIcs(calendar(master, override(["STATUS:CANCELLED"])), "Asia/Riyadh");
+  assert.deepEqual(events.map((e) => e.uid), ["weekly@example.com"]);
+  assert.deepEqual(events[0].recurrence?.exceptions, ["2026-10-21"]);
+});
+
+test("التعديل بلا سلسلة في الملف لا يُهمل", () => {
+  const events = parseIcs(calendar(override([])), "Asia/Riyadh");
+  assert.deepEqual(events.map((e) => e.uid), ["weekly@example.com#2026-10-21"]);
+});
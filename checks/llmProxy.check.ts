@@ -0,0 +1,140 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createLlmProxyHandler, createWhisperTranscriber } from "../server/llmProxy.ts";
+import { createMockProvider, createProxyProvider, type LlmProvider } from "../src/lib/llmProviders.ts";
+
+type Row = Record<string, unknown> & { id: string };
+
+// بديل في الذاكرة لجدول llm_usage بالقدر الذي يستخدمه الوكيل؛ كل عملية تنتظر دورة حتى تتداخل الطلبات المتزامنة
+function fakeClient() {
+  const rows: Row[] = [];
+  let seq = 0;
+  const from = () => {
+    let op: "select" | "insert" | "update" | "delete" = "select";
+    let payload: Record<string, unknown> = {};
+    const filters: ((row: Row) => boolean)[] = [];
+    const run = () => {
+      const matching = rows.filter((row) => filters.every((f) => f(row)));
+      if (op === "insert") {
+        seq++;
+        const row: Row = { ...payload, id: String(seq), created_at: new Date(Date.now() + seq).toISOString() };
+        rows.push(row);
+        return { data: row, error: null };
+      }
+      if (op === "update") matching.forEach((row) => Object.assign(row, payload));
+      if (op === "delete") matching.forEach((row) => rows.splice(rows.indexOf(row), 1));
+      return { data: null, count: matching.length, error: null };
+    };
+    const query = {
+      insert: (value: Record<string, unknown>) => ((op = "insert"), (payload = value), query),
+      update: (value: Record<string, unknown>) => ((op = "update"), (payload = value), query),
+      delete: () => ((op = "delete"), query),
+      select: () => query,
+      single: () => query,
+      eq: (key: string, value: unknown) => (filters.push((row) => row[key] === value), query),
+      neq: (key: string, value: unknown) => (filters.push((row) => row[key] !== value), query),
+      gte: (key: string, value: string) => (filters.push((row) => String(row[key]) >= value), query),
+      lte: (key: string, value: string) => (filters.push((row) => String(row[key]) <= value), query),
+      then: (resolve: (result: ReturnType<typeof run>) => void) => setImmediate(() => resolve(run())),
+    };
+    return query;
+  };
+  const auth = { getUser: async (token: string) => ({ data: { user: { id: token } }, error: null }) };
+  return { rows, client: { from, auth } as unknown as SupabaseClient };
+}
+
+async function startProxy(provider: LlmProvider, perMinute = 10) {
+  const fake = fakeClient();
+  const server = createServer(createLlmProxyHandler(fake.client, provider, { perMinute, perDay: 100, allowedOrigin: "*" }));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/llm/chat`;
+  return { ...fake, url, close: () => new Promise((resolve) => server.close(resolve)) };
+}
+
+const chat = (url: string, stream = false) =>
+  fetch(url, {
+    method: "POST",
+    headers: { Authorization: "Bearer user-1", "Content-Type": "application/json" },
+    body: JSON.stringify({ messages: [{ role: "user", content: "موعد" }], stream }),
+  });
+
+test("الطلبات المتزامنة لا تتجاوز حصة الدقيقة", async () => {
+  const proxy = await startProxy(createMockProvider(), 2);
+  try {
+    const statuses = (await Promise.all([1, 2, 3, 4].map(() => chat(proxy.url)))).map((res) => res.status);
+    assert.deepEqual([...statuses].sort(), [200, 200, 429, 429]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    // المرفوض بالحصة لا يبقى محجوزًا والمقبول يُحدَّث بنتيجته
+    assert.deepEqual(proxy.rows.map((row) => row.status), ["ok", "ok"]);
+  } finally {
+    await proxy.close();
+  }
+});
+
+test("الطلب الأكبر من الحد يُرد عليه 413 ولا يُحسب من الحصة", async () => {
+  const proxy = await startProxy(createMockProvider());
+  try {
+    const res = await fetch(proxy.url, {
+      method: "POST",
+      headers: { Authorization: "Bearer user-1", "Content-Type": "application/json" },
+      body: JSON.stringify({ messages: [{ role: "user", content: "م".repeat(70_000) }] }),
+    });
+    assert.equal(res.status, 413);
+    await res.text();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.deepEqual(proxy.rows, []);
+  } finally {
+    await proxy.close();
+  }
+});
+
+test("خطأ المزود قبل أول جزء يصل برمز خطأ لا 200 فارغ", async () => {
+  const failing: LlmProvider = { name: "mock", complete: async () => Promise.reject(new Error("upstream down")) };
+  const proxy = await startProxy(failing);
+  try {
+    const res = await chat(proxy.url, true);
+    assert.equal(res.status, 502);
+    await res.text();
+  } finally {
+    await proxy.close();
+  }
+});
+
+test("خطأ المزود أثناء التدفق يصل حدثًا ترميه الواجهة", async () => {
+  const failing: LlmProvider = {
+    name: "mock",
+    complete: async (_messages, options = {}) => {
+      options.onDelta?.("جزء");
+      throw new Error("upstream dropped");
+    },
+  };
+  const proxy = await startProxy(failing);
+  try {
+    const deltas: string[] = [];
+    const client = createProxyProvider(proxy.url, async () => "user-1");
+    await assert.rejects(client.complete([{ role: "user", content: "موعد" }], { onDelta: (d) => deltas.push(d) }), /انقطع الرد/);
+    assert.deepEqual(deltas, ["جزء"]);
+  } finally {
+    await proxy.close();
+  }
+});
+
+test("التفريغ الصوتي لا يستعير مفتاح النموذج اللغوي", () => {
+  const saved = { LLM_API_KEY: process.env.LLM_API_KEY, STT_API_KEY: process.env.STT_API_KEY, STT_API_URL: process.env.STT_API_URL };
+  try {
+    process.env.LLM_API_KEY = "llm-secret";
+    delete process.env.STT_API_KEY;
+    delete process.env.STT_API_URL;
+    assert.equal(createWhisperTranscriber(), undefined);
+    process.env.STT_API_URL = "http://localhost:8080/inference";
+    assert.ok(createWhisperTranscriber());
+  } finally {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+});
@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { excludeOccurrence, expandOccurrences, planOccurrenceEdit, type RecurringItem } from "../src/lib/recurrence.ts";
+
+// الثامنة صباحًا بتوقيت الرياض يوميًا
+const series = { id: "s", start_at: "2026-10-19T05:00:00.000Z", recurrence: { frequency: "daily", interval: 1 } } satisfies RecurringItem;
+const window = [new Date("2026-10-19T00:00:00Z"), new Date("2026-10-23T00:00:00Z")] as const;
+const starts = (item: RecurringItem) => expandOccurrences(item, ...window, "sunday", "Asia/Riyadh").map((o) => o.occurrence_start);
+
+test("حذف تكرار واحد يستثنيه وحده من السلسلة", () => {
+  const recurrence = excludeOccurrence(series.recurrence, "2026-10-20T05:00:00.000Z", "Asia/Riyadh");
+  assert.deepEqual(recurrence.exceptions, ["2026-10-20"]);
+  assert.deepEqual(starts({ ...series, recurrence }), ["2026-10-19T05:00:00.000Z", "2026-10-21T05:00:00.000Z", "2026-10-22T05:00:00.000Z"]);
+  // حذفه مرة أخرى لا يكرر الاستثناء
+  assert.deepEqual(excludeOccurrence(recurrence, "2026-10-20T05:00:00.000Z", "Asia/Riyadh").exceptions, ["2026-10-20"]);
+});
+
+test("يوم الاستثناء يُحسب بمنطقة المستخدم", () => {
+  // 23:30 بتوقيت لوس أنجلوس يقع في اليوم التالي بتوقيت UTC
+  const recurrence = excludeOccurrence(series.recurrence, "2026-10-21T06:30:00.000Z", "America/Los_Angeles");
+  assert.deepEqual(recurrence.exceptions, ["2026-10-20"]);
+});
+
+test("فصل تكرار من سلسلة مستوردة لا ينسخ معرّف ics ولا أعمدة السلسلة", () => {
+  const imported = {
+    ...series,
+    title: "اجتماع",
+    ics_uid: "abc@example.com",
+    created_at: "2026-10-01T00:00:00.000Z",
+    updated_at: "2026-10-02T00:00:00.000Z",
+    reminders_until: "2026-11-01T00:00:00.000Z",
+  };
+  for (const scope of ["this", "following"] as const) {
+    const plan = planOccurrenceEdit(imported, "2026-10-20T05:00:00.000Z", { title: "اجتماع منقول" }, scope, "sunday", "Asia/Riyadh");
+    assert.ok(plan.insert);
+    assert.equal(plan.insert.title, "اجتماع منقول");
+    assert.equal(plan.insert.start_at, "2026-10-20T05:00:00.000Z");
+    for (const column of ["ics_uid", "created_at", "updated_at", "reminders_until"]) assert.ok(!(column in plan.insert), column);
+  }
+});
@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRequestQueue, type QueueStatus } from "../src/lib/requestQueue.ts";
+
+class RateLimited extends Error {}
+
+test("الإلغاء أثناء انتظار إعادة المحاولة يرفض فورًا", async () => {
+  const queue = createRequestQueue({ retryDelay: (err) => (err instanceof RateLimited ? 60_000 : null) });
+  const controller = new AbortController();
+  let calls = 0;
+  const statuses: QueueStatus["state"][] = [];
+  const result = queue.run(
+    "a",
+    async () => {
+      calls++;
+      throw new RateLimited("429");
+    },
+    (status) => statuses.push(status.state),
+    controller.signal
+  );
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  const started = Date.now();
+  controller.abort(new Error("أُلغي"));
+  await assert.rejects(result, /أُلغي/);
+  assert.ok(Date.now() - started < 1000);
+  assert.equal(calls, 1);
+  assert.ok(statuses.includes("waiting"));
+  assert.equal(queue.size, 0);
+});
+
+test("الطلب الملغى في الطابور يُزال ولا يُنفذ", async () => {
+  const queue = createRequestQueue();
+  let release!: () => void;
+  const first = queue.run("first", () => new Promise<string>((resolve) => (release = () => resolve("أول"))));
+  const controller = new AbortController();
+  let secondRan = false;
+  const second = queue.run("second", async () => (secondRan = true), undefined, controller.signal);
+  const positions: number[] = [];
+  const third = queue.run("third", async () => "ثالث", (status) => status.state === "queued" && positions.push(status.position));
+  assert.equal(queue.size, 3);
+
+  controller.abort(new Error("أُلغي"));
+  await assert.rejects(second, /أُلغي/);
+  assert.equal(queue.size, 2);
+  // الطلب التالي يتقدم في الطابور
+  assert.deepEqual(positions, [2, 1]);
+
+  release();
+  assert.equal(await first, "أول");
+  assert.equal(await third, "ثالث");
+  assert.equal(secondRan, false);
+});
+
+test("إشارة ملغاة مسبقًا لا تدخل الطابور", async () => {
+  const queue = createRequestQueue();
+  const controller = new AbortController();
+  controller.abort(new Error("أُلغي"));
+  await assert.rejects(queue.run("a", async () => 1, undefined, controller.signal), /أُلغي/);
+  assert.equal(queue.size, 0);
+});
+
+test("إلغاء صاحب الطلب المشترك لا يلغيه عن المنضمين", async () => {
+  const queue = createRequestQueue();
+  let taskSignal!: AbortSignal;
+  let release!: () => void;
+  const task = (signal: AbortSignal) => ((taskSignal = signal), new Promise<string>((resolve) => (release = () => resolve("مشترك"))));
+  const owner = new AbortController();
+  const joiner = new AbortController();
+  const first = queue.run("same", task, undefined, owner.signal);
+  const second = queue.run("same", task, undefined, joiner.signal);
+  const third = queue.run("same", task);
+
+  owner.abort(new Error("أُلغي"));
+  await assert.rejects(first, /أُلغي/);
+  joiner.abort(new Error("أُلغي"));
+  await assert.rejects(second, /أُلغي/);
+  assert.equal(taskSignal.aborted, false);
+  release();
+  assert.equal(await third, "مشترك");
+});
+
+test("إلغاء كل المنتظرين يلغي المهمة المشتركة", async () => {
+  const queue = createRequestQueue();
+  let taskSignal!: AbortSignal;
+  const task = (signal: AbortSignal) =>
+    new Promise<string>((_, reject) => ((taskSignal = signal), signal.addEventListener("abort", () => reject(signal.reason))));
+  const a = new AbortController();
+  const b = new AbortController();
+  const first = queue.run("same", task, undefined, a.signal);
+  const second = queue.run("same", task, undefined, b.signal);
+  a.abort(new Error("أُلغي"));
+  b.abort(new Error("أُلغي"));
+  await Promise.allSettled([first, second]);
+  assert.equal(taskSignal.aborted, true);
+  // طلب جديد بالمفتاح نفسه لا ينضم إلى المهمة الملغاة
+  assert.equal(await queue.run("same", async () => "جديد"), "جديد");
+});
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultRules, evaluateRules, exportRuleSet, fillFromRules, loadStoredRules, parseRuleSet, type ClassificationRule } from "../src/lib/rules.ts";
+
+const rule = (id: string, actions: ClassificationRule["actions"], values = ["اجتماع"]): ClassificationRule => ({
+  id,
+  name: id,
+  enabled: true,
+  match: "any",
+  conditions: [{ field: "title", operator: "contains", values }],
+  actions,
+});
+
+test("أول قاعدة مطابقة تحدد القيم المفردة والإجراءات تتجمع", () => {
+  const rules = [
+    rule("أولى", { priority: "high", tag: "عمل", actionsBefore: ["تحضير العرض"], note: "ملاحظة" }),
+    rule("ثانية", { priority: "low", tag: "شخصي", reminderMinutes: 30, actionsBefore: ["تحضير العرض", "طباعة الأوراق"], note: "ملاحظة" }),
+    rule("لا تطابق", { priority: "critical" }, ["طبيب"]),
+  ];
+  const outcome = evaluateRules(rules, { title: "اجتماع الفريق" });
+  assert.equal(outcome.priority, "high");
+  assert.equal(outcome.tag, "عمل");
+  // قيمة لم تحددها القاعدة الأولى تأتي من التالية
+  assert.equal(outcome.reminderMinutes, 30);
+  assert.deepEqual(outcome.actionsBefore, ["تحضير العرض", "طباعة الأوراق"]);
+  assert.deepEqual(outcome.notes, ["ملاحظة"]);
+  assert.deepEqual(outcome.matched, ["أولى", "ثانية"]);
+});
+
+test("القاعدة المعطلة والتعبير غير الصالح لا يطابقان", () => {
+  const disabled = { ...rule("معطلة", { priority: "critical" }), enabled: false };
+  const broken: ClassificationRule = { ...rule("تعبير", { priority: "critical" }), conditions: [{ field: "title", operator: "matches", values: ["(("] }] };
+  assert.equal(evaluateRules([disabled, broken], { title: "اجتماع" }).priority, undefined);
+});
+
+test("شرط all يتطلب كل الشروط", () => {
+  const both: ClassificationRule = {
+    ...rule("كلاهما", { priority: "critical" }),
+    match: "all",
+    conditions: [
+      { field: "title", operator: "contains", values: ["اجتماع"] },
+      { field: "location", operator: "equals", values: ["المكتب"] },
+    ],
+  };
+  assert.equal(evaluateRules([both], { title: "اجتماع", location: "البيت" }).priority, undefined);
+  assert.equal(evaluateRules([both], { title: "اجتماع", location: "المكتب" }).priority, "critical");
+});
+
+test("القواعد الافتراضية تعطي المواعيد الطبية الأولوية قبل النوع", () => {
+  const outcome = evaluateRules(defaultRules, { title: "مراجعة طبيب الأسنان", type: "personal_event" });
+  assert.equal(outcome.priority, "high");
+  assert.equal(outcome.reminderMinutes, 120);
+});
+
+test("نتيجة القواعد تملأ الحقول الفارغة فقط", () => {
+  const outcome = evaluateRules([rule("أولى", { priority: "high", tag: "عمل", reminderMinutes: 30, actionsAfter: ["إرسال المحضر"] })], { title: "اجتماع" });
+  const empty = { priority: "medium" as const, tags: [], reminder_minutes_before: null, actions_before: null, actions_after: null };
+  assert.deepEqual(fillFromRules(empty, outcome, { priority: true }), {
+    priority: "high",
+    tags: ["عمل"],
+    reminder_minutes_before: 30,
+    actions_before: null,
+    actions_after: ["إرسال المحضر"],
+  });
+  const explicit = { priority: "low" as const, tags: ["شخصي"], reminder_minutes_before: 10, actions_before: null, actions_after: ["اتصال"] };
+  assert.deepEqual(fillFromRules(explicit, outcome, { priority: false }), explicit);
+});
+
+test("مجموعة القواعد تُصدَّر وتُستورد، والمعطوبة تُرفض برسالة", () => {
+  const rules = [rule("أولى", { priority: "high" })];
+  assert.deepEqual(parseRuleSet(exportRuleSet(rules)), rules);
+  const [imported] = parseRuleSet(JSON.stringify({ version: 1, rules: [{ name: "بلا معرّف", conditions: [], actions: {} }] }));
+  assert.ok(imported.id);
+  assert.equal(imported.enabled, true);
+  assert.throws(() => parseRuleSet("{"), /ليس JSON/);
+  assert.throws(() => parseRuleSet(JSON.stringify({ version: 2, rules: [] })), /مجموعة قواعد غير صالحة/);
+  assert.equal(loadStoredRules({ broken: true }), defaultRules);
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultUserSettings, normalizeSettings, reconcileSettings, type CachedSettings, type UserSettings } from "../src/lib/settings.ts";
+
+const local: UserSettings = { ...defaultUserSettings(), timezone: "Asia/Riyadh", weekStart: "saturday", theme: "dark" };
+const remote: UserSettings = { ...defaultUserSettings(), timezone: "Europe/Berlin", weekStart: "monday", theme: "light" };
+const cache = (patch: Partial<CachedSettings> = {}): CachedSettings => ({ settings: local, updatedAt: null, syncedAt: null, userId: "u1", ...patch });
+
+test("لا صف بعيد: تُرفع النسخة المحلية", () => {
+  const result = reconcileSettings(cache(), null, "u1");
+  assert.equal(result.settings, local);
+  assert.equal(result.push, true);
+});
+
+test("صف لم تكتبه المزامنة: تُرفع المحلية مع مظهر الصف", () => {
+  const result = reconcileSettings(cache(), { settings: remote, updatedAt: null }, "u1");
+  assert.deepEqual(result.settings, { ...local, theme: "light" });
+  assert.equal(result.push, true);
+});
+
+test("تعديل محلي لم يُرفع وأحدث من البعيد يفوز", () => {
+  const dirty = cache({ updatedAt: "2026-10-19T10:00:00.000Z", syncedAt: "2026-10-18T10:00:00.000Z" });
+  const result = reconcileSettings(dirty, { settings: remote, updatedAt: "2026-10-19T09:00:00.000Z" }, "u1");
+  assert.deepEqual(result, { settings: local, updatedAt: "2026-10-19T10:00:00.000Z", push: true });
+});
+
+test("البعيد يفوز إن كان أحدث أو لم يتغير المحلي", () => {
+  const remoteRow = { settings: remote, updatedAt: "2026-10-19T11:00:00.000Z" };
+  const dirtyButOlder = cache({ updatedAt: "2026-10-19T10:00:00.000Z", syncedAt: "2026-10-18T10:00:00.000Z" });
+  assert.deepEqual(reconcileSettings(dirtyButOlder, remoteRow, "u1"), { settings: remote, updatedAt: remoteRow.updatedAt, push: false });
+  const synced = cache({ updatedAt: "2026-10-20T10:00:00.000Z", syncedAt: "2026-10-20T10:00:00.000Z" });
+  assert.deepEqual(reconcileSettings(synced, remoteRow, "u1"), { settings: remote, updatedAt: remoteRow.updatedAt, push: false });
+});
+
+test("نسخة محلية لحساب آخر لا تُرفع ولا تفوز", () => {
+  const foreign = cache({ userId: "u2", updatedAt: "2026-10-20T10:00:00.000Z" });
+  assert.equal(reconcileSettings(foreign, { settings: remote, updatedAt: "2026-10-19T11:00:00.000Z" }, "u1").settings, remote);
+  const fresh = reconcileSettings(foreign, null, "u1");
+  assert.equal(fresh.push, true);
+  assert.deepEqual(fresh.settings, defaultUserSettings());
+});
+
+test("القيم غير الصالحة تأخذ الافتراضي", () => {
+  const settings = normalizeSettings({ defaultPriority: "urgent", reminderWindowMinutes: 999, timezone: "Mars/Base", bufferMinutes: "20", workingHours: { start: 8 } });
+  assert.equal(settings.defaultPriority, "medium");
+  assert.equal(settings.reminderWindowMinutes, 180);
+  assert.equal(settings.timezone, defaultUserSettings().timezone);
+  assert.equal(settings.bufferMinutes, 20);
+  assert.equal(settings.workingHours, null);
+});
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { mergeTags, parseTagList, uniqueTagNames, updateTag } from "../src/lib/tags.ts";
+import type { Tag } from "../src/types.ts";
+
+type Call = { table: string; op: string; payload?: unknown; filters: [string, unknown][] };
+
+// يسجل عمليات القاعدة ويعيد لكل جدول ما يُعطى له
+function recordingClient(results: Record<string, unknown> = {}) {
+  const calls: Call[] = [];
+  const from = (table: string) => {
+    const call: Call = { table, op: "select", filters: [] };
+    calls.push(call);
+    const query = {
+      select: () => query,
+      single: () => query,
+      insert: (payload: unknown) => ((call.op = "insert"), (call.payload = payload), query),
+      update: (payload: unknown) => ((call.op = "update"), (call.payload = payload), query),
+      upsert: (payload: unknown) => ((call.op = "upsert"), (call.payload = payload), query),
+      delete: () => ((call.op = "delete"), query),
+      eq: (key: string, value: unknown) => (call.filters.push([key, value]), query),
+      then: (resolve: (result: { data: unknown; error: null }) => void) => resolve({ data: results[`${table}.${call.op}`] ?? null, error: null }),
+    };
+    return query;
+  };
+  return { calls, client: { from } as unknown as SupabaseClient };
+}
+
+const tag = (id: string, name: string): Tag => ({ id, name, color: "#0F62FE" }) as Tag;
+const tags = [tag("work", "عمل"), tag("family", "عائلة")];
+
+test("الدمج ينقل مواعيد المصدر إلى الهدف ثم يحذف المصدر", async () => {
+  const { calls, client } = recordingClient({ "appointment_tags.select": [{ appointment_id: "a1" }, { appointment_id: "a2" }] });
+  await mergeTags(client, "family", "work");
+  assert.deepEqual(
+    calls.map((c) => `${c.table}.${c.op}`),
+    ["appointment_tags.select", "appointment_tags.upsert", "tags.delete"]
+  );
+  assert.deepEqual(calls[1].payload, [
+    { appointment_id: "a1", tag_id: "work" },
+    { appointment_id: "a2", tag_id: "work" },
+  ]);
+  assert.deepEqual(calls[2].filters, [["id", "family"]]);
+});
+
+test("دمج الوسم في نفسه مرفوض", async () => {
+  const { calls, client } = recordingClient();
+  await assert.rejects(mergeTags(client, "work", "work"), /وسمًا مختلفًا/);
+  assert.equal(calls.length, 0);
+});
+
+test("إعادة التسمية تنظف الاسم وترفض اسم وسم آخر", async () => {
+  const { calls, client } = recordingClient({ "tags.update": tag("work", "عمل المكتب") });
+  await updateTag(client, tags, "work", { name: "  عمل   المكتب " });
+  assert.deepEqual(calls[0].payload, { name: "عمل المكتب" });
+  // تغيير حالة الأحرف في اسم الوسم نفسه ليس تعارضًا
+  await updateTag(client, [tag("t", "Gym")], "t", { name: "gym" });
+  await assert.rejects(updateTag(client, tags, "work", { name: "عائلة" }), /استخدم الدمج/);
+  await assert.rejects(updateTag(client, tags, "work", { name: "   " }), /مطلوب/);
+  assert.equal(calls.length, 2);
+});
+
+test("قائمة الوسوم تُقسم بالفاصلتين دون تكرار", () => {
+  assert.deepEqual(parseTagList("عمل، عائلة, سفر ,عمل"), ["عمل", "عائلة", "سفر"]);
+  assert.deepEqual(uniqueTagNames(["Gym", "gym ", " "]), ["Gym"]);
+});
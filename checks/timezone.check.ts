@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fromWallTimes, toWallTimes, wallTimeToUtc, zonedToUtc } from "../src/lib/timezone.ts";
+
+const newYork = "America/New_York";
+const iso = (date: Date | null) => date?.toISOString();
+
+test("الوقت الجداري يتبع إزاحة المنطقة في يومه", () => {
+  assert.equal(iso(wallTimeToUtc("2026-03-08", "01:30", newYork)), "2026-03-08T06:30:00.000Z");
+  assert.equal(iso(wallTimeToUtc("2026-03-08", "03:30", newYork)), "2026-03-08T07:30:00.000Z");
+  assert.equal(iso(zonedToUtc({ year: 2026, month: 10, day: 19, hour: 8, minute: 0 }, "Asia/Riyadh")), "2026-10-19T05:00:00.000Z");
+});
+
+test("الوقت الجداري بعد الفجوة مباشرة يأخذ الإزاحة الصيفية", () => {
+  assert.equal(iso(wallTimeToUtc("2026-03-08", "03:00", newYork)), "2026-03-08T07:00:00.000Z");
+  assert.equal(iso(wallTimeToUtc("2026-03-29", "03:30", "Europe/Berlin")), "2026-03-29T01:30:00.000Z");
+});
+
+test("وقت داخل فجوة التوقيت الصيفي يُدفع إلى الأمام", () => {
+  // 02:30 لا يوجد في نيويورك يوم 2026-03-08 فيصبح 03:30 بالتوقيت الصيفي
+  const start = wallTimeToUtc("2026-03-08", "02:30", newYork);
+  assert.equal(iso(start), "2026-03-08T07:30:00.000Z");
+  assert.equal(iso(wallTimeToUtc("2026-03-29", "02:30", "Europe/Berlin")), "2026-03-29T01:30:00.000Z");
+  assert.deepEqual(toWallTimes({ start_at: start!.toISOString() }, newYork), { date: "2026-03-08", time: "03:30", endTime: "" });
+});
+
+test("وقت مكرر عند نهاية التوقيت الصيفي يأخذ أول ظهور", () => {
+  // 01:30 يتكرر يوم 2026-11-01: مرة بالتوقيت الصيفي (05:30Z) ومرة بالشتوي (06:30Z)
+  assert.equal(iso(wallTimeToUtc("2026-11-01", "01:30", newYork)), "2026-11-01T05:30:00.000Z");
+  assert.equal(iso(wallTimeToUtc("2026-11-01", "02:30", newYork)), "2026-11-01T07:30:00.000Z");
+  // شرق غرينتش: 02:30 يتكرر في برلين يوم 2026-10-25 (00:30Z ثم 01:30Z)
+  assert.equal(iso(wallTimeToUtc("2026-10-25", "02:30", "Europe/Berlin")), "2026-10-25T00:30:00.000Z");
+});
+
+test("التواريخ والأوقات غير الصالحة تُرفض", () => {
+  assert.equal(wallTimeToUtc("2026-02-30", "10:00", newYork), null);
+  assert.equal(wallTimeToUtc("2026-10-19", "25:00", newYork), null);
+});
+
+test("نهاية أبكر من البداية تمتد إلى اليوم التالي", () => {
+  assert.deepEqual(fromWallTimes({ date: "2026-10-19", time: "23:00", endTime: "01:00" }, "Asia/Riyadh"), {
+    start_at: "2026-10-19T20:00:00.000Z",
+    end_at: "2026-10-19T22:00:00.000Z",
+  });
+});
@@ -0,0 +1,6 @@
+-- Columns: appointments.actions_before, appointments.actions_after
+-- Preparation/follow-up steps extracted by Atlas, shown on the dashboard card and in reminder emails.
+
+alter table public.appointments
+  add column if not exists actions_before text[],
+  add column if not exists actions_after text[];
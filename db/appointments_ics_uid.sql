@@ -0,0 +1,9 @@
+-- Column: appointments.ics_uid
+-- UID of events imported from .ics files; used to skip events that were already imported.
+
+alter table public.appointments
+  add column if not exists ics_uid text;
+
+create unique index if not exists appointments_user_ics_uid_idx
+  on public.appointments (user_id, ics_uid)
+  where ics_uid is not null;
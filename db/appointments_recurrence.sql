@@ -0,0 +1,9 @@
+-- Column: appointments.recurrence
+-- Stores the recurrence rule of a repeating appointment (null for one-off appointments).
+-- Shape: { frequency: 'daily'|'weekly'|'monthly'|'yearly', interval, days_of_week?, until?, count?, exceptions? }
+
+alter table public.appointments
+  add column if not exists recurrence jsonb;
+
+-- Quick lookup of recurring series when expanding occurrences.
+create index if not exists appointments_recurring_idx on public.appointments (user_id) where recurrence is not null;
@@ -21,6 +21,12 @@ create index if not exists bug_reports_user_id_idx on public.bug_reports (user_i
 create index if not exists bug_reports_status_idx on public.bug_reports (status);
 create index if not exists bug_reports_severity_idx on public.bug_reports (severity);
 
+-- Admin role claim from the JWT; used by the triage policies below.
+create or replace function public.is_admin()
+returns boolean as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$ language sql stable;
+
 -- Basic row-level security: authenticated users can insert their own reports and view what they submitted.
 alter table public.bug_reports enable row level security;
 
@@ -37,6 +43,20 @@ begin
       for select to authenticated
       using (auth.uid() is null or user_id = auth.uid());
   end if;
+
+  -- Triage: admins (app_metadata.role = 'admin', settable only with the service role) see and update every report.
+  if not exists (select 1 from pg_policies where tablename = 'bug_reports' and policyname = 'bug_reports_select_admin') then
+    create policy bug_reports_select_admin on public.bug_reports
+      for select to authenticated
+      using (public.is_admin());
+  end if;
+
+  if not exists (select 1 from pg_policies where tablename = 'bug_reports' and policyname = 'bug_reports_update_admin') then
+    create policy bug_reports_update_admin on public.bug_reports
+      for update to authenticated
+      using (public.is_admin())
+      with check (public.is_admin());
+  end if;
 end
 $$;
 
@@ -54,3 +74,65 @@ create trigger set_timestamp
 before update on public.bug_reports
 for each row
 execute function public.set_updated_at();
+
+-- Status moves one step at a time: open -> in_progress -> resolved -> closed.
+create or replace function public.check_bug_report_status()
+returns trigger as $$
+begin
+  if new.status is distinct from old.status and (old.status, new.status) not in (('open', 'in_progress'), ('in_progress', 'resolved'), ('resolved', 'closed')) then
+    raise exception 'invalid bug report status transition: % -> %', old.status, new.status;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists check_status on public.bug_reports;
+create trigger check_status
+before update of status on public.bug_reports
+for each row
+execute function public.check_bug_report_status();
+
+-- Table: bug_report_notes
+-- Internal triage notes, visible to admins only.
+create table if not exists public.bug_report_notes (
+  id uuid primary key default gen_random_uuid(),
+  report_id uuid not null references public.bug_reports (id) on delete cascade,
+  author_id uuid references auth.users (id) on delete set null,
+  body text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists bug_report_notes_report_id_idx on public.bug_report_notes (report_id);
+
+-- Table: bug_report_replies
+-- Replies to the reporter. Written by the triage server (service role) which also emails the reporter.
+create table if not exists public.bug_report_replies (
+  id uuid primary key default gen_random_uuid(),
+  report_id uuid not null references public.bug_reports (id) on delete cascade,
+  author_id uuid references auth.users (id) on delete set null,
+  body text not null,
+  notified_at timestamptz, -- when the reporter email was sent
+  created_at timestamptz not null default now()
+);
+
+create index if not exists bug_report_replies_report_id_idx on public.bug_report_replies (report_id);
+
+alter table public.bug_report_notes enable row level security;
+alter table public.bug_report_replies enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where tablename = 'bug_report_notes' and policyname = 'bug_report_notes_all_admin') then
+    create policy bug_report_notes_all_admin on public.bug_report_notes
+      for all to authenticated
+      using (public.is_admin())
+      with check (public.is_admin() and author_id = auth.uid());
+  end if;
+
+  if not exists (select 1 from pg_policies where tablename = 'bug_report_replies' and policyname = 'bug_report_replies_select') then
+    create policy bug_report_replies_select on public.bug_report_replies
+      for select to authenticated
+      using (public.is_admin() or exists (select 1 from public.bug_reports r where r.id = report_id and r.user_id = auth.uid()));
+  end if;
+end
+$$;
@@ -0,0 +1,32 @@
+-- Column: bug_reports.client_log, plus the storage bucket for report screenshots.
+-- The client attaches its recent console errors; screenshots live in a private bucket under the reporter's user id
+-- and bug_reports.attachment_url stores the object path ("bug-attachments/<user_id>/<file>").
+
+alter table public.bug_reports
+  add column if not exists client_log text;
+
+insert into storage.buckets (id, name, public)
+values ('bug-attachments', 'bug-attachments', false)
+on conflict (id) do nothing;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where tablename = 'objects' and policyname = 'bug_attachments_insert_own') then
+    create policy bug_attachments_insert_own on storage.objects
+      for insert to authenticated
+      with check (bucket_id = 'bug-attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+  end if;
+
+  if not exists (select 1 from pg_policies where tablename = 'objects' and policyname = 'bug_attachments_select_own') then
+    create policy bug_attachments_select_own on storage.objects
+      for select to authenticated
+      using (bucket_id = 'bug-attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+  end if;
+
+  if not exists (select 1 from pg_policies where tablename = 'objects' and policyname = 'bug_attachments_select_admin') then
+    create policy bug_attachments_select_admin on storage.objects
+      for select to authenticated
+      using (bucket_id = 'bug-attachments' and public.is_admin());
+  end if;
+end
+$$;
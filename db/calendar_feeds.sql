@@ -0,0 +1,25 @@
+-- Table: calendar_feeds
+-- Secret per-user token for the subscribable .ics feed (served by server/icsFeed.ts).
+-- Rotating replaces the token (old URLs stop working); revoking deletes the row.
+
+create table if not exists public.calendar_feeds (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null unique references auth.users (id) on delete cascade,
+  token text not null unique, -- random URL-safe secret embedded in the feed URL
+  created_at timestamptz not null default now(),
+  last_accessed_at timestamptz -- updated by the feed server on each fetch
+);
+
+-- Row-level security: users manage their own feed; the feed server looks tokens up with the service role.
+alter table public.calendar_feeds enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where tablename = 'calendar_feeds' and policyname = 'calendar_feeds_all_own') then
+    create policy calendar_feeds_all_own on public.calendar_feeds
+      for all to authenticated
+      using (user_id = auth.uid())
+      with check (user_id = auth.uid());
+  end if;
+end
+$$;
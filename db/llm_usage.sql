@@ -0,0 +1,37 @@
+-- Table: llm_usage
+-- One row per request through the LLM proxy (server/llmProxy.ts); drives per-user quotas and usage reporting.
+-- Only prompt/completion sizes are stored, never the text itself.
+
+create table if not exists public.llm_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  provider text not null,
+  model text not null,
+  status text not null check (status in ('pending', 'ok', 'error', 'rate_limited')),
+  prompt_chars integer not null default 0,
+  completion_chars integer not null default 0,
+  duration_ms integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+-- The proxy reserves a 'pending' row before calling the provider and updates it afterwards,
+-- so concurrent requests count against each other's quota.
+alter table public.llm_usage drop constraint if exists llm_usage_status_check;
+alter table public.llm_usage
+  add constraint llm_usage_status_check check (status in ('pending', 'ok', 'error', 'rate_limited'));
+
+-- Quota checks count a user's rows in the last minute / day.
+create index if not exists llm_usage_user_created_idx on public.llm_usage (user_id, created_at desc);
+
+-- Row-level security: users may read their own usage; only the proxy (service role) writes.
+alter table public.llm_usage enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where tablename = 'llm_usage' and policyname = 'llm_usage_select_own') then
+    create policy llm_usage_select_own on public.llm_usage
+      for select to authenticated
+      using (user_id = auth.uid());
+  end if;
+end
+$$;
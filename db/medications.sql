@@ -0,0 +1,65 @@
+-- Table: medications
+-- A prescribed drug with its dosing plan. Each dose time is materialized as a daily recurring appointment
+-- (appointments.medication_id) so the existing reminder pipeline delivers dose reminders.
+
+create table if not exists public.medications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  dose text, -- free text such as "500 ملغ" or "حبة واحدة"
+  times_per_day integer not null default 1 check (times_per_day between 1 and 12),
+  dose_times text[] not null default '{}', -- HH:MM in the user's timezone, one per daily dose
+  start_date date not null default current_date,
+  course_days integer check (course_days is null or course_days > 0), -- null = ongoing
+  refill_date date,
+  notes text,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists medications_user_id_idx on public.medications (user_id);
+
+-- Dose appointments are regenerated when the plan changes and removed with the medication.
+alter table public.appointments
+  add column if not exists medication_id uuid references public.medications (id) on delete cascade;
+
+create index if not exists appointments_medication_id_idx on public.appointments (medication_id) where medication_id is not null;
+
+-- Table: medication_doses
+-- One row per dose the user marked. Scheduled doses without a row are "pending" until their grace period
+-- passes, after which adherence counts them as missed.
+
+create table if not exists public.medication_doses (
+  id uuid primary key default gen_random_uuid(),
+  medication_id uuid not null references public.medications (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  scheduled_at timestamptz not null,
+  status text not null check (status in ('taken', 'missed', 'skipped')),
+  recorded_at timestamptz not null default now(),
+  unique (medication_id, scheduled_at)
+);
+
+create index if not exists medication_doses_user_scheduled_idx on public.medication_doses (user_id, scheduled_at desc);
+
+-- Row-level security: users manage only their own medications and dose log.
+alter table public.medications enable row level security;
+alter table public.medication_doses enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where tablename = 'medications' and policyname = 'medications_all_own') then
+    create policy medications_all_own on public.medications
+      for all to authenticated
+      using (user_id = auth.uid())
+      with check (user_id = auth.uid());
+  end if;
+
+  if not exists (select 1 from pg_policies where tablename = 'medication_doses' and policyname = 'medication_doses_all_own') then
+    create policy medication_doses_all_own on public.medication_doses
+      for all to authenticated
+      using (user_id = auth.uid())
+      with check (user_id = auth.uid());
+  end if;
+end
+$$;
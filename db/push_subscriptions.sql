@@ -0,0 +1,28 @@
+-- Table: push_subscriptions
+-- Web Push subscriptions (one per browser/device) used by the "webpush" reminder channel.
+
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  endpoint text not null unique, -- push service URL identifying the device
+  p256dh text not null, -- client public key
+  auth text not null, -- client auth secret
+  user_agent text, -- device/browser info for the settings screen
+  created_at timestamptz not null default now()
+);
+
+create index if not exists push_subscriptions_user_id_idx on public.push_subscriptions (user_id);
+
+-- Row-level security: users manage their own subscriptions; the reminder worker reads them with the service role.
+alter table public.push_subscriptions enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where tablename = 'push_subscriptions' and policyname = 'push_subscriptions_all_own') then
+    create policy push_subscriptions_all_own on public.push_subscriptions
+      for all to authenticated
+      using (user_id = auth.uid())
+      with check (user_id = auth.uid());
+  end if;
+end
+$$;
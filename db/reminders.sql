@@ -0,0 +1,66 @@
+-- Table: reminders
+-- Materialized reminder rows (one per appointment occurrence, offset and channel) picked up by the
+-- browser ("app" channel) and by server/reminderWorker.ts (other channels).
+
+create table if not exists public.reminders (
+  id uuid primary key default gen_random_uuid(),
+  appointment_id uuid not null references public.appointments (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete cascade,
+  occurrence_start timestamptz not null, -- start of the appointment/occurrence this reminder is for
+  remind_at timestamptz not null,
+  channel text not null check (channel in ('app','email','webpush')) default 'app',
+  sent boolean not null default false,
+  sent_at timestamptz,
+  attempts integer not null default 0, -- failed dispatch attempts
+  last_error text,
+  snoozed boolean not null default false, -- added by "remind me later"; kept when the appointment's reminders are recomputed
+  created_at timestamptz not null default now()
+);
+
+alter table public.reminders
+  add column if not exists snoozed boolean not null default false;
+
+-- Lets clients/workers upsert the same reminder repeatedly without duplicates.
+create unique index if not exists reminders_unique_idx on public.reminders (appointment_id, occurrence_start, remind_at, channel);
+create index if not exists reminders_due_idx on public.reminders (remind_at) where sent = false;
+create index if not exists reminders_user_id_idx on public.reminders (user_id);
+
+alter table public.appointments
+  add column if not exists reminder_offsets integer[],
+  -- How far ahead a recurring series has reminder rows; the worker only tops up series nearing this point.
+  add column if not exists reminders_until timestamptz;
+
+create index if not exists appointments_reminders_until_idx on public.appointments (reminders_until)
+  where status = 'scheduled' and recurrence is not null;
+
+-- Row-level security: users manage reminders of their own appointments; the worker uses the service role.
+alter table public.reminders enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where tablename = 'reminders' and policyname = 'reminders_select_own') then
+    create policy reminders_select_own on public.reminders
+      for select to authenticated
+      using (user_id = auth.uid());
+  end if;
+
+  if not exists (select 1 from pg_policies where tablename = 'reminders' and policyname = 'reminders_insert_own') then
+    create policy reminders_insert_own on public.reminders
+      for insert to authenticated
+      with check (user_id = auth.uid());
+  end if;
+
+  if not exists (select 1 from pg_policies where tablename = 'reminders' and policyname = 'reminders_update_own') then
+    create policy reminders_update_own on public.reminders
+      for update to authenticated
+      using (user_id = auth.uid())
+      with check (user_id = auth.uid());
+  end if;
+
+  if not exists (select 1 from pg_policies where tablename = 'reminders' and policyname = 'reminders_delete_own') then
+    create policy reminders_delete_own on public.reminders
+      for delete to authenticated
+      using (user_id = auth.uid());
+  end if;
+end
+$$;
@@ -0,0 +1,9 @@
+-- Columns: settings.email_reminders, settings.email_locale
+-- Per-user opt-in for the "email" reminder channel, read by server/email.ts before sending.
+
+alter table public.settings
+  add column if not exists email_reminders boolean not null default false,
+  add column if not exists email_locale text check (email_locale in ('ar','en')) default 'ar';
+
+-- One settings row per user so the client can upsert on user_id.
+create unique index if not exists settings_user_id_key on public.settings (user_id);
@@ -0,0 +1,27 @@
+-- Columns: settings.default_priority, tone, buffer_minutes, working_hours, local_parser_first, rules, updated_at
+-- The settings overlay used to live only in the browser's localStorage. These columns hold the full user settings
+-- so they follow the user across devices; the client keeps localStorage as an offline cache (src/store/useSettings.ts).
+
+alter table public.settings
+  add column if not exists default_priority text not null default 'medium' check (default_priority in ('low', 'medium', 'high', 'critical')),
+  add column if not exists tone text not null default 'soft' check (tone in ('soft', 'bright', 'digital', 'calm', 'alert')),
+  add column if not exists buffer_minutes integer not null default 0 check (buffer_minutes between 0 and 120),
+  add column if not exists working_hours jsonb, -- {"start": "09:00", "end": "17:00", "days": ["sun", ...]}; null = no limit
+  add column if not exists local_parser_first boolean not null default false,
+  add column if not exists rules jsonb, -- classification rules (src/lib/rules.ts); null = built-in defaults
+  -- Time of the last edit on the device that saved it, used to resolve conflicts on login. Null on rows created before
+  -- the sync (email preferences, the old settings page); those take the device's local settings on first login.
+  add column if not exists updated_at timestamptz;
+
+-- Row-level security: each user reads and writes only their own settings row.
+alter table public.settings enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where tablename = 'settings' and policyname = 'settings_all_own') then
+    create policy settings_all_own on public.settings
+      for all to authenticated
+      using (user_id = auth.uid())
+      with check (user_id = auth.uid());
+  end if;
+end $$;
@@ -0,0 +1,76 @@
+-- Table: tags
+-- Per-user tags with a display color. Appointments reference tags by id through appointment_tags, so renaming a
+-- tag shows up on every tagged appointment without rewriting them.
+
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  created_by uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(btrim(name)) > 0),
+  color text not null default '#0F62FE' check (color ~ '^#[0-9A-Fa-f]{6}$'),
+  created_at timestamptz not null default now()
+);
+
+-- Earlier deployments created tags without a color.
+alter table public.tags add column if not exists color text not null default '#0F62FE';
+
+-- Names are unique per user regardless of letter case.
+create unique index if not exists tags_owner_name_key on public.tags (created_by, lower(name));
+
+-- Table: appointment_tags
+-- Many-to-many join between appointments and tags. Deleting either side removes the link.
+
+create table if not exists public.appointment_tags (
+  appointment_id uuid not null references public.appointments (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  primary key (appointment_id, tag_id)
+);
+
+create index if not exists appointment_tags_tag_id_idx on public.appointment_tags (tag_id);
+
+-- Row-level security: users manage their own tags, and link only their own appointments to their own tags.
+alter table public.tags enable row level security;
+alter table public.appointment_tags enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where tablename = 'tags' and policyname = 'tags_all_own') then
+    create policy tags_all_own on public.tags
+      for all to authenticated
+      using (created_by = auth.uid())
+      with check (created_by = auth.uid());
+  end if;
+
+  if not exists (select 1 from pg_policies where tablename = 'appointment_tags' and policyname = 'appointment_tags_all_own') then
+    create policy appointment_tags_all_own on public.appointment_tags
+      for all to authenticated
+      using (exists (select 1 from public.appointments a where a.id = appointment_id and a.user_id = auth.uid()))
+      with check (
+        exists (select 1 from public.appointments a where a.id = appointment_id and a.user_id = auth.uid())
+        and exists (select 1 from public.tags t where t.id = tag_id and t.created_by = auth.uid())
+      );
+  end if;
+end $$;
+
+-- Migration: the single free-text appointments.tag column becomes tags plus links, then is dropped.
+-- Colors come from the same palette the app uses for new tags.
+do $$
+begin
+  if exists (select 1 from information_schema.columns where table_schema = 'public' and table_name = 'appointments' and column_name = 'tag') then
+    insert into public.tags (created_by, name, color)
+    select distinct on (a.user_id, lower(btrim(a.tag)))
+      a.user_id,
+      btrim(a.tag),
+      (array['#0F62FE', '#9333ea', '#0891b2', '#ca8a04', '#db2777', '#4f46e5', '#059669', '#b45309'])[1 + abs(hashtext(lower(btrim(a.tag)))) % 8]
+    from public.appointments a
+    where a.user_id is not null and a.tag is not null and btrim(a.tag) <> ''
+    on conflict do nothing;
+
+    insert into public.appointment_tags (appointment_id, tag_id)
+    select a.id, t.id
+    from public.appointments a
+    join public.tags t on t.created_by = a.user_id and lower(t.name) = lower(btrim(a.tag))
+    on conflict do nothing;
+
+    alter table public.appointments drop column tag;
+  end if;
+end $$;
@@ -0,0 +1,47 @@
+// Service worker: يعرض تذكيرات Web Push حتى عندما يكون التطبيق مغلقًا.
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("push", (event) => {
+  const payload = event.data ? event.data.json() : {};
+  const { title = "تذكير بالموعد", body = "", tag, data = {} } = payload;
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body,
+      tag,
+      data,
+      dir: "rtl",
+      lang: "ar",
+      renotify: true,
+      actions: [
+        { action: "snooze", title: "تأجيل 10 دقائق" },
+        { action: "done", title: "تم" },
+      ],
+    })
+  );
+});
+
+// الإجراءات تُنفذ داخل التطبيق نفسه (عبر متجر المواعيد): نرسلها لنافذة مفتوحة أو نفتح واحدة.
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const { appointmentId, occurrenceStart } = event.notification.data || {};
+  const action = event.action || "open";
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      if (windows.length) {
+        const target = windows[0];
+        if (action !== "open") target.postMessage({ type: "reminder-action", action, appointmentId, occurrenceStart });
+        else await target.focus();
+        return;
+      }
+      const url = new URL(self.registration.scope);
+      if (action !== "open" && appointmentId) {
+        url.searchParams.set("reminderAction", action);
+        url.searchParams.set("appointment", appointmentId);
+        if (occurrenceStart) url.searchParams.set("occurrence", occurrenceStart);
+      }
+      await self.clients.openWindow(url.href);
+    })()
+  );
+});
@@ -0,0 +1,41 @@
+// يملأ جدول reminders للمواعيد التي سبقت إنشاءه: المواعيد المجدولة القادمة وكل السلاسل المتكررة.
+// التشغيل: npm run backfill:reminders (يتطلب SUPABASE_URL و SUPABASE_SERVICE_ROLE_KEY). آمن للتكرار: الصفوف الموجودة لا تتكرر ولا تُستبدل.
+import { pathToFileURL } from "node:url";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "./supabaseAdmin";
+import { loadReminderOptions, type ReminderAppointment } from "./reminderWorker";
+import { topUpReminders } from "../src/lib/reminders";
+
+const PAGE_SIZE = 500;
+
+export async function backfillReminders(client: SupabaseClient, now = new Date()) {
+  let created = 0;
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from("appointments")
+      .select("*")
+      .eq("status", "scheduled")
+      .or(`recurrence.not.is.null,start_at.gt.${now.toISOString()}`)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    const page = (data ?? []) as ReminderAppointment[];
+    if (!page.length) break;
+
+    const optionsFor = await loadReminderOptions(client, [...new Set(page.map((a) => a.user_id))]);
+    for (const a of page) {
+      created += await topUpReminders(client, a, { ...optionsFor(a.user_id), now });
+    }
+    if (page.length < PAGE_SIZE) break;
+  }
+  return created;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  backfillReminders(createAdminClient())
+    .then((created) => console.log(`[reminders] backfilled ${created} reminder rows`))
+    .catch((err) => {
+      console.error("[reminders] backfill failed:", err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,140 @@
+// خادم فرز البلاغات: يستقبل ردود المشرفين على البلاغات، يتحقق من دور admin في الجلسة، يحفظ الرد ويرسله بالبريد للمُبلّغ.
+// التشغيل: npm run triage:bugs (يتطلب SUPABASE_URL و SUPABASE_SERVICE_ROLE_KEY، و SMTP_* لإرسال البريد، والمنفذ من TRIAGE_PORT).
+// الواجهة ترسل الردود إليه عند ضبط VITE_TRIAGE_URL (مثل http://localhost:8789).
+import { createServer, type IncomingMessage, type RequestListener, type ServerResponse } from "node:http";
+import { pathToFileURL } from "node:url";
+import type { Transporter } from "nodemailer";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { createSmtpTransport } from "./email";
+import { renderBugReplyEmail } from "./emailTemplates";
+import { createAdminClient } from "./supabaseAdmin";
+
+const PORT = Number(process.env.TRIAGE_PORT ?? 8789);
+const REPLY_PATH = /^\/admin\/bug-reports\/([0-9a-f-]{36})\/reply$/i;
+const MAX_BODY_BYTES = 16 * 1024;
+
+const replySchema = z.object({ body: z.string().trim().min(1).max(4000) });
+
+// يرسل الرد إلى بريد المُبلّغ؛ قابل للاستبدال في الاختبار أو بقناة أخرى
+export type ReplyNotifier = (to: string, reportTitle: string, reply: string) => Promise<void>;
+
+export function createEmailReplyNotifier(transport: Transporter = createSmtpTransport()): ReplyNotifier {
+  const from = process.env.SMTP_FROM ?? "Nabiuh <no-reply@nabiuh.app>";
+  return async (to, reportTitle, reply) => {
+    const email = renderBugReplyEmail({ reportTitle, reply });
+    await transport.sendMail({ from, to, subject: email.subject, html: email.html, text: email.text });
+  };
+}
+
+function send(res: ServerResponse, status: number, body: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8", ...headers });
+  res.end(body);
+}
+
+function readBody(req: IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("الطلب أكبر من المسموح."));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+// دور admin في app_metadata لا يضبطه إلا service role، فهو المصدر نفسه الذي تعتمده public.is_admin في RLS
+async function authenticateAdmin(client: SupabaseClient, req: IncomingMessage) {
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/i)?.[1];
+  if (!token) return { status: 401 as const };
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) return { status: 401 as const };
+  if (data.user.app_metadata?.role !== "admin") return { status: 403 as const };
+  return { status: 200 as const, userId: data.user.id };
+}
+
+export function createTriageHandler(client: SupabaseClient, notify: ReplyNotifier, allowedOrigin = process.env.TRIAGE_ALLOWED_ORIGIN ?? "*"): RequestListener {
+  const cors = {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+
+  async function handleReply(req: IncomingMessage, res: ServerResponse, reportId: string) {
+    const auth = await authenticateAdmin(client, req);
+    if (auth.status !== 200) {
+      send(res, auth.status, auth.status === 401 ? "جلسة غير صالحة." : "هذه العملية للمشرفين فقط.", cors);
+      return;
+    }
+    const parsed = replySchema.safeParse(JSON.parse((await readBody(req)) || "null"));
+    if (!parsed.success) {
+      send(res, 400, "نص الرد مطلوب.", cors);
+      return;
+    }
+
+    const { data: report, error } = await client.from("bug_reports").select("id, user_id, email, title").eq("id", reportId).maybeSingle();
+    if (error) throw error;
+    if (!report) {
+      send(res, 404, "البلاغ غير موجود.", cors);
+      return;
+    }
+
+    const { data: reply, error: insertError } = await client
+      .from("bug_report_replies")
+      .insert({ report_id: reportId, author_id: auth.userId, body: parsed.data.body })
+      .select("id, body, created_at")
+      .single();
+    if (insertError) throw insertError;
+
+    // البريد المسجل في البلاغ أولًا ثم بريد الحساب؛ فشل الإرسال لا يلغي الرد فهو ظاهر للمستخدم في التطبيق
+    let to = report.email as string | null;
+    if (!to && report.user_id) to = (await client.auth.admin.getUserById(report.user_id)).data.user?.email ?? null;
+    if (to) {
+      try {
+        await notify(to, report.title, parsed.data.body);
+        await client.from("bug_report_replies").update({ notified_at: new Date().toISOString() }).eq("id", reply.id);
+      } catch (err) {
+        console.error("Bug reply email error:", err instanceof Error ? err.message : err);
+      }
+    }
+
+    res.writeHead(201, { ...cors, "Content-Type": "application/json; charset=utf-8" });
+    res.end(JSON.stringify(reply));
+  }
+
+  return (req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, cors);
+      res.end();
+      return;
+    }
+    const match = new URL(req.url ?? "/", "http://localhost").pathname.match(REPLY_PATH);
+    if (!match) {
+      send(res, 404, "Not Found", cors);
+      return;
+    }
+    if (req.method !== "POST") {
+      send(res, 405, "Method Not Allowed", { ...cors, Allow: "POST, OPTIONS" });
+      return;
+    }
+    handleReply(req, res, match[1]).catch((err) => {
+      console.error("Bug triage error:", err instanceof Error ? err.message : err);
+      send(res, err instanceof SyntaxError ? 400 : 500, err instanceof SyntaxError ? "صيغة الطلب غير صحيحة." : "تعذر إرسال الرد.", cors);
+    });
+  };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const server = createServer(createTriageHandler(createAdminClient(), createEmailReplyNotifier()));
+  server.listen(PORT, () => console.log(`Bug triage server listening on :${PORT}`));
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
@@ -0,0 +1,40 @@
+// مرسل البريد لقناة "email" في عامل التذكيرات. يعمل مع أي خادم SMTP، ومحليًا مع أداة مثل MailHog (SMTP_HOST=localhost SMTP_PORT=1025).
+import nodemailer, { type Transporter } from "nodemailer";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { requireEnv } from "./supabaseAdmin";
+import { renderReminderEmail } from "./emailTemplates";
+import type { ReminderDispatcher } from "./reminderWorker";
+import type { Locale } from "../src/lib/format";
+
+export function createSmtpTransport(): Transporter {
+  const port = Number(process.env.SMTP_PORT ?? 587);
+  return nodemailer.createTransport({
+    host: requireEnv("SMTP_HOST"),
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS ?? "" } : undefined,
+  });
+}
+
+export function createEmailDispatcher(client: SupabaseClient, transport: Transporter = createSmtpTransport()): ReminderDispatcher {
+  const from = process.env.SMTP_FROM ?? "Nabiuh <no-reply@nabiuh.app>";
+
+  return async (reminder) => {
+    const appointment = reminder.appointment;
+    if (!appointment) return;
+
+    // نتحقق من الاشتراك عند الإرسال لأن المستخدم قد يلغيه بعد إنشاء التذكير
+    const { data: settings, error } = await client.from("settings").select("email_reminders, email_locale, timezone").eq("user_id", appointment.user_id).maybeSingle();
+    if (error) throw error;
+    if (!settings?.email_reminders) return;
+
+    const { data: userData, error: userError } = await client.auth.admin.getUserById(appointment.user_id);
+    if (userError) throw userError;
+    const to = userData.user?.email;
+    if (!to) return;
+
+    const locale: Locale = settings.email_locale === "en" ? "en" : "ar";
+    const email = renderReminderEmail({ ...appointment, start_at: reminder.occurrence_start }, locale, settings.timezone ?? undefined);
+    await transport.sendMail({ from, to, subject: email.subject, html: email.html, text: email.text });
+  };
+}
@@ -0,0 +1,110 @@
+// قوالب رسائل تذكير البريد (HTML ونص عادي) بالعربية أو الإنجليزية.
+import { formatDate, priorityText, priorityTextEn, type Locale } from "../src/lib/format";
+import type { Priority } from "../src/types";
+
+export type ReminderEmailInput = {
+  title: string;
+  start_at: string;
+  location?: string | null;
+  priority: Priority;
+  description?: string | null;
+  actions_before?: string[] | null;
+  actions_after?: string[] | null;
+};
+
+export type RenderedEmail = { subject: string; html: string; text: string };
+
+const labels: Record<Locale, { subject: string; heading: string; when: string; where: string; priority: string; before: string; after: string; footer: string }> = {
+  ar: {
+    subject: "تذكير بالموعد",
+    heading: "لديك موعد قادم",
+    when: "الموعد",
+    where: "المكان",
+    priority: "الأولوية",
+    before: "قبل الموعد",
+    after: "بعد الموعد",
+    footer: "وصلتك هذه الرسالة لأنك فعّلت تذكيرات البريد في إعدادات نبيه.",
+  },
+  en: {
+    subject: "Appointment reminder",
+    heading: "You have an upcoming appointment",
+    when: "When",
+    where: "Where",
+    priority: "Priority",
+    before: "Before",
+    after: "After",
+    footer: "You are receiving this email because email reminders are enabled in your Nabiuh settings.",
+  },
+};
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+function htmlList(items: string[]) {
+  return `<ul style="margin:4px 0 0;padding-inline-start:20px;">${items.map((i) => `<li>${escapeHtml(i)}</li>`).join("")}</ul>`;
+}
+
+// timeZone منطقة المستخدم من إعداداته؛ العامل يعمل عادة بتوقيت UTC
+export function renderReminderEmail(appt: ReminderEmailInput, locale: Locale = "ar", timeZone?: string): RenderedEmail {
+  const t = labels[locale];
+  const dir = locale === "ar" ? "rtl" : "ltr";
+  const when = formatDate(appt.start_at, locale, timeZone);
+  const priority = (locale === "ar" ? priorityText : priorityTextEn)[appt.priority];
+  const before = appt.actions_before ?? [];
+  const after = appt.actions_after ?? [];
+
+  const rows: [string, string][] = [[t.when, when]];
+  if (appt.location) rows.push([t.where, appt.location]);
+  rows.push([t.priority, priority]);
+
+  const text = [
+    `${t.heading}: ${appt.title}`,
+    ...rows.map(([k, v]) => `${k}: ${v}`),
+    appt.description ?? "",
+    before.length ? `${t.before}:\n${before.map((i) => `- ${i}`).join("\n")}` : "",
+    after.length ? `${t.after}:\n${after.map((i) => `- ${i}`).join("\n")}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n")
+    .concat(`\n\n${t.footer}`);
+
+  const html = `<!doctype html>
+<html lang="${locale}" dir="${dir}">
+<body style="margin:0;padding:24px;background:#f3f6fb;font-family:Cairo,Tahoma,Arial,sans-serif;color:#0f172a;">
+  <div dir="${dir}" style="max-width:560px;margin:0 auto;background:#fff;border:1px solid #d9e2f0;border-radius:12px;padding:24px;text-align:${dir === "rtl" ? "right" : "left"};">
+    <p style="margin:0;color:#64748b;font-size:13px;">${escapeHtml(t.heading)}</p>
+    <h1 style="margin:4px 0 16px;font-size:22px;">${escapeHtml(appt.title)}</h1>
+    <table role="presentation" style="width:100%;border-collapse:collapse;font-size:14px;">
+      ${rows.map(([k, v]) => `<tr><td style="padding:4px 0;color:#64748b;width:30%;">${escapeHtml(k)}</td><td style="padding:4px 0;">${escapeHtml(v)}</td></tr>`).join("\n      ")}
+    </table>
+    ${appt.description ? `<p style="margin:16px 0 0;font-size:14px;white-space:pre-wrap;">${escapeHtml(appt.description)}</p>` : ""}
+    ${before.length ? `<h2 style="margin:16px 0 0;font-size:15px;">${escapeHtml(t.before)}</h2>${htmlList(before)}` : ""}
+    ${after.length ? `<h2 style="margin:16px 0 0;font-size:15px;">${escapeHtml(t.after)}</h2>${htmlList(after)}` : ""}
+    <p style="margin:24px 0 0;color:#94a3b8;font-size:12px;">${escapeHtml(t.footer)}</p>
+  </div>
+</body>
+</html>`;
+
+  return { subject: `${t.subject}: ${appt.title}`, html, text };
+}
+
+export type BugReplyEmailInput = { reportTitle: string; reply: string };
+
+// إشعار المُبلّغ برد فريق الدعم على بلاغه (بالعربية فقط، كواجهة البلاغات)
+export function renderBugReplyEmail(input: BugReplyEmailInput): RenderedEmail {
+  const footer = "يمكنك متابعة بلاغاتك من نافذة \"الإبلاغ عن مشكلة\" في التطبيق.";
+  const text = `رد على بلاغك: ${input.reportTitle}\n\n${input.reply}\n\n${footer}`;
+  const html = `<!doctype html>
+<html lang="ar" dir="rtl">
+<body style="margin:0;padding:24px;background:#f3f6fb;font-family:Cairo,Tahoma,Arial,sans-serif;color:#0f172a;">
+  <div dir="rtl" style="max-width:560px;margin:0 auto;background:#fff;border:1px solid #d9e2f0;border-radius:12px;padding:24px;text-align:right;">
+    <p style="margin:0;color:#64748b;font-size:13px;">رد على بلاغك</p>
+    <h1 style="margin:4px 0 8px;font-size:22px;">${escapeHtml(input.reportTitle)}</h1>
+    <p style="margin:16px 0 0;font-size:14px;white-space:pre-wrap;">${escapeHtml(input.reply)}</p>
+    <p style="margin:24px 0 0;color:#94a3b8;font-size:12px;">${escapeHtml(footer)}</p>
+  </div>
+</body>
+</html>`;
+  return { subject: `رد على بلاغك: ${input.reportTitle}`, html, text };
+}
@@ -0,0 +1,84 @@
+// خادم HTTP صغير يقدّم رابط اشتراك .ics سري لكل مستخدم لتطبيقات Google وOutlook وApple.
+// التشغيل: npm run feed:ics (يتطلب SUPABASE_URL و SUPABASE_SERVICE_ROLE_KEY، والمنفذ من ICS_FEED_PORT).
+import { createServer, type IncomingMessage, type RequestListener, type ServerResponse } from "node:http";
+import { pathToFileURL } from "node:url";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "./supabaseAdmin";
+import { toIcs, type IcsAppointment } from "../src/lib/ics";
+import type { WeekStart } from "../src/types";
+
+const PORT = Number(process.env.ICS_FEED_PORT ?? 8787);
+const FEED_PATH = /^\/calendar\/([A-Za-z0-9_-]{16,})\.ics$/;
+// تطبيقات التقويم تعيد الجلب كل بضع ساعات؛ تخزين قصير يخفف الضغط عند التحديث المتكرر
+const CACHE_SECONDS = 300;
+
+function send(res: ServerResponse, status: number, body: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8", ...headers });
+  res.end(res.req.method === "HEAD" ? undefined : body);
+}
+
+async function buildFeed(client: SupabaseClient, token: string) {
+  const { data: feed, error } = await client.from("calendar_feeds").select("id, user_id").eq("token", token).maybeSingle();
+  if (error) throw error;
+  if (!feed) return null;
+
+  const [{ data: appointments, error: apptError }, { data: settings }] = await Promise.all([
+    client.from("appointments").select("*, appointment_tags(tags(name))").eq("user_id", feed.user_id).order("start_at", { ascending: true }),
+    client.from("settings").select("week_start, timezone").eq("user_id", feed.user_id).maybeSingle(),
+  ]);
+  if (apptError) throw apptError;
+
+  // تسجيل آخر جلب للعرض في الإعدادات؛ فشله لا يمنع تقديم الملف
+  client
+    .from("calendar_feeds")
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq("id", feed.id)
+    .then(({ error: touchError }) => {
+      if (touchError) console.error("Touch calendar feed error:", touchError.message);
+    });
+
+  // أسماء وسوم الموعد تُصدَّر في CATEGORIES
+  const rows = (appointments ?? []) as (IcsAppointment & { appointment_tags?: { tags: { name: string } | null }[] })[];
+  const items = rows.map(({ appointment_tags, ...a }): IcsAppointment => ({
+    ...a,
+    categories: (appointment_tags ?? []).flatMap((link) => (link.tags ? [link.tags.name] : [])),
+  }));
+  return toIcs(items, { calendarName: "نبّه", weekStart: (settings?.week_start as WeekStart | undefined) ?? "sunday", timeZone: (settings?.timezone as string | null) ?? "UTC" });
+}
+
+export function createFeedHandler(client: SupabaseClient): RequestListener {
+  return (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      send(res, 405, "Method Not Allowed", { Allow: "GET, HEAD" });
+      return;
+    }
+    const match = new URL(req.url ?? "/", "http://localhost").pathname.match(FEED_PATH);
+    if (!match) {
+      send(res, 404, "Not Found");
+      return;
+    }
+    buildFeed(client, match[1])
+      .then((ics) => {
+        // الرمز الملغى أو المدوَّر يعامل كغير موجود حتى لا يُكشف وجود الحساب
+        if (ics === null) send(res, 404, "Not Found");
+        else
+          send(res, 200, ics, {
+            "Content-Type": "text/calendar; charset=utf-8",
+            "Content-Disposition": 'inline; filename="nabiuh.ics"',
+            "Cache-Control": `private, max-age=${CACHE_SECONDS}`,
+          });
+      })
+      .catch((err) => {
+        console.error("Calendar feed error:", err instanceof Error ? err.message : err);
+        send(res, 500, "Internal Server Error");
+      });
+  };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const server = createServer(createFeedHandler(createAdminClient()));
+  server.listen(PORT, () => console.log(`ICS feed listening on :${PORT}`));
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
@@ -0,0 +1,406 @@
+// وكيل للنموذج اللغوي يبقي مفتاح المزود على الخادم: يتحقق من جلسة Supabase، يطبق حصص كل مستخدم، ويسجل الاستخدام.
+// التشغيل: npm run proxy:llm (يتطلب SUPABASE_URL و SUPABASE_SERVICE_ROLE_KEY و LLM_API_KEY أو ATLAS_API_KEY، والمنفذ من LLM_PROXY_PORT).
+// الواجهة ترسل الطلبات إليه عند ضبط VITE_LLM_PROXY_URL (مثل http://localhost:8788/llm/chat)، والتسجيلات الصوتية إلى /stt/transcribe
+// (يتطلب STT_API_KEY أو STT_API_URL)، وصور البطاقات والوصفات وملفات PDF إلى /ocr/extract.
+import { createServer, type IncomingMessage, type RequestListener, type ServerResponse } from "node:http";
+import { pathToFileURL } from "node:url";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { createTesseractEngine, type OcrEngine } from "./ocr";
+import { createAdminClient } from "./supabaseAdmin";
+import { createLlmProvider, LlmRateLimitError, resolveLlmConfig, type LlmProvider } from "../src/lib/llmProviders";
+
+const PORT = Number(process.env.LLM_PROXY_PORT ?? 8788);
+const CHAT_PATH = "/llm/chat";
+const STT_PATH = "/stt/transcribe";
+const OCR_PATH = "/ocr/extract";
+const MAX_BODY_BYTES = 64 * 1024;
+// دقيقة صوت مضغوطة (opus) أقل بكثير من هذا الحد
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+const MAX_DOCUMENT_BYTES = 15 * 1024 * 1024;
+const documentTypes = /^(image\/(png|jpeg|webp|tiff|bmp|gif)|application\/pdf)$/;
+
+export type ProxyLimits = {
+  perMinute: number;
+  perDay: number;
+  // أصل الواجهة المسموح (CORS)؛ * لأي أصل
+  allowedOrigin: string;
+};
+
+export const defaultProxyLimits: ProxyLimits = {
+  perMinute: Number(process.env.LLM_PROXY_PER_MINUTE ?? 10),
+  perDay: Number(process.env.LLM_PROXY_PER_DAY ?? 200),
+  allowedOrigin: process.env.LLM_PROXY_ALLOWED_ORIGIN ?? "*",
+};
+
+// الوكيل يقبل الرسائل فقط؛ النموذج والمعاملات تحددها إعدادات الخادم
+const requestSchema = z.object({
+  messages: z
+    .array(z.object({ role: z.enum(["system", "user", "assistant"]), content: z.string().max(8000) }))
+    .min(1)
+    .max(12),
+  stream: z.boolean().optional(),
+});
+
+// يحوّل ملفًا صوتيًا إلى نص؛ Whisper عبر واجهة OpenAI بمفتاح STT_API_KEY، أو خادم محلي متوافق بعنوان STT_API_URL
+export type Transcriber = { model: string; transcribe: (audio: Buffer, contentType: string, language: string) => Promise<string> };
+
+// بلا مفتاح ولا عنوان صريح يبقى التفريغ معطلًا: مفتاح النموذج اللغوي لا يُرسل أبدًا إلى مزود آخر
+export function createWhisperTranscriber(): Transcriber | undefined {
+  const apiKey = process.env.STT_API_KEY;
+  if (!apiKey && !process.env.STT_API_URL) return undefined;
+  const url = process.env.STT_API_URL ?? "https://api.openai.com/v1/audio/transcriptions";
+  const model = process.env.STT_MODEL ?? "whisper-1";
+  return {
+    model,
+    transcribe: async (audio, contentType, language) => {
+      const extension = contentType.includes("ogg") ? "ogg" : contentType.includes("mp4") ? "m4a" : "webm";
+      const form = new FormData();
+      form.append("file", new Blob([new Uint8Array(audio)], { type: contentType }), `recording.${extension}`);
+      form.append("model", model);
+      form.append("language", language);
+      form.append("response_format", "json");
+      const res = await fetch(url, { method: "POST", headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}, body: form });
+      if (res.status === 429) throw new LlmRateLimitError("STT rate limited", null);
+      if (!res.ok) throw new Error(`STT API error: ${res.status} ${await res.text()}`);
+      const json = (await res.json()) as { text?: string };
+      return (json.text ?? "").trim();
+    },
+  };
+}
+
+type Usage = {
+  user_id: string;
+  provider: string;
+  model: string;
+  status: "pending" | "ok" | "error" | "rate_limited";
+  prompt_chars: number;
+  completion_chars: number;
+  duration_ms: number;
+};
+
+type UsageResult = Pick<Usage, "status" | "prompt_chars" | "completion_chars" | "duration_ms">;
+
+function send(res: ServerResponse, status: number, body: string, headers: Record<string, string> = {}) {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8", ...headers });
+  res.end(body);
+}
+
+// جسم الطلب أكبر من حد المسار: يُرد عليه 413 ولا يُحسب من حصة المستخدم
+class PayloadTooLarge extends Error {
+  constructor() {
+    super("الطلب أكبر من المسموح.");
+    this.name = "PayloadTooLarge";
+  }
+}
+
+function readBody(req: IncomingMessage, limit = MAX_BODY_BYTES) {
+  return new Promise<Buffer>((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        // نتجاهل بقية الجسم بدل قطع الاتصال حتى يصل رد 413 إلى الواجهة
+        req.off("data", onData);
+        req.resume();
+        reject(new PayloadTooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+async function authenticate(client: SupabaseClient, req: IncomingMessage) {
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/i)?.[1];
+  if (!token) return null;
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user.id;
+}
+
+// يعدّ صفوف المستخدم في النافذة حتى لحظة الحجز: الطلبات المتزامنة الأسبق تمر والزائد عن الحصة يُرفض
+async function countUsage(client: SupabaseClient, userId: string, sinceMs: number, until: string) {
+  const { count, error } = await client
+    .from("llm_usage")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .neq("status", "rate_limited")
+    .gte("created_at", new Date(Date.parse(until) - sinceMs).toISOString())
+    .lte("created_at", until);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// يُحجز صف الاستخدام قبل عدّ الحصة وقبل الاتصال بالمزود، فتُحسب الطلبات المتزامنة على بعضها ولا تتجاوز الحصة معًا
+async function reserveUsage(client: SupabaseClient, usage: Pick<Usage, "user_id" | "provider" | "model">) {
+  const { data, error } = await client
+    .from("llm_usage")
+    .insert({ ...usage, status: "pending" })
+    .select("id, created_at")
+    .single();
+  if (error) throw error;
+  return data as { id: string; created_at: string };
+}
+
+function settleUsage(client: SupabaseClient, id: string, result: UsageResult) {
+  // فشل التسجيل لا يُفشل الطلب
+  client
+    .from("llm_usage")
+    .update(result)
+    .eq("id", id)
+    .then(({ error }) => {
+      if (error) console.error("Log LLM usage error:", error.message);
+    });
+}
+
+// طلب رُفض قبل الوصول إلى المزود (حصة أو صيغة) لا يُحسب
+function releaseUsage(client: SupabaseClient, id: string) {
+  client
+    .from("llm_usage")
+    .delete()
+    .eq("id", id)
+    .then(({ error }) => {
+      if (error) console.error("Release LLM usage error:", error.message);
+    });
+}
+
+export function createLlmProxyHandler(
+  client: SupabaseClient,
+  provider: LlmProvider,
+  limits: ProxyLimits = defaultProxyLimits,
+  services: { transcriber?: Transcriber; ocr?: OcrEngine } = {}
+): RequestListener {
+  const { transcriber, ocr } = services;
+  const { model } = resolveLlmConfig();
+  const cors = {
+    "Access-Control-Allow-Origin": limits.allowedOrigin,
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Expose-Headers": "Retry-After",
+  };
+
+  const rejectTooLarge = (res: ServerResponse, usageId: string, err: PayloadTooLarge) => {
+    releaseUsage(client, usageId);
+    send(res, 413, err.message, { ...cors, Connection: "close" });
+  };
+
+  // المصادقة والحصص مشتركة بين المحادثة والتفريغ الصوتي؛ null يعني أن الرد أُرسل
+  async function admit(req: IncomingMessage, res: ServerResponse, service: Pick<Usage, "provider" | "model">) {
+    const userId = await authenticate(client, req);
+    if (!userId) {
+      send(res, 401, "جلسة غير صالحة.", cors);
+      return null;
+    }
+    const reservation = await reserveUsage(client, { user_id: userId, ...service });
+    const usageId = reservation.id;
+    // العدّ يشمل الحجز الحالي وحجوزات الطلبات المتزامنة الأسبق منه
+    const [lastMinute, lastDay] = await Promise.all([
+      countUsage(client, userId, 60_000, reservation.created_at),
+      countUsage(client, userId, 86_400_000, reservation.created_at),
+    ]);
+    // تجاوز الحصة اليومية 403 لا 429 حتى لا يعيد طابور الواجهة المحاولة بلا فائدة
+    if (lastDay > limits.perDay) {
+      releaseUsage(client, usageId);
+      send(res, 403, `تجاوزت الحصة اليومية (${limits.perDay} طلب). حاول غدًا.`, cors);
+      return null;
+    }
+    if (lastMinute > limits.perMinute) {
+      releaseUsage(client, usageId);
+      send(res, 429, "طلبات كثيرة خلال دقيقة.", { ...cors, "Retry-After": "60" });
+      return null;
+    }
+    return { userId, usageId };
+  }
+
+  async function handleTranscription(req: IncomingMessage, res: ServerResponse, stt: Transcriber) {
+    const admitted = await admit(req, res, { provider: "stt", model: stt.model });
+    if (!admitted) return;
+    const started = Date.now();
+    const settle = (status: Usage["status"], text: string | null) =>
+      settleUsage(client, admitted.usageId, { status, prompt_chars: 0, completion_chars: text?.length ?? 0, duration_ms: Date.now() - started });
+    try {
+      const audio = await readBody(req, MAX_AUDIO_BYTES);
+      if (!audio.length) {
+        releaseUsage(client, admitted.usageId);
+        send(res, 400, "التسجيل فارغ.", cors);
+        return;
+      }
+      const language = new URL(req.url ?? "/", "http://localhost").searchParams.get("language") || "ar";
+      const text = await stt.transcribe(audio, req.headers["content-type"] ?? "audio/webm", language);
+      settle("ok", text);
+      res.writeHead(200, { ...cors, "Content-Type": "application/json; charset=utf-8" });
+      res.end(JSON.stringify({ text }));
+    } catch (err) {
+      if (err instanceof PayloadTooLarge) {
+        rejectTooLarge(res, admitted.usageId, err);
+        return;
+      }
+      if (err instanceof LlmRateLimitError) {
+        settle("rate_limited", null);
+        send(res, 429, "خدمة التفريغ مشغولة حاليًا.", { ...cors, "Retry-After": "30" });
+        return;
+      }
+      settle("error", null);
+      throw err;
+    }
+  }
+
+  async function handleDocument(req: IncomingMessage, res: ServerResponse, engine: OcrEngine) {
+    const contentType = (req.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+    if (!documentTypes.test(contentType)) {
+      send(res, 415, "نوع الملف غير مدعوم؛ أرسل صورة أو PDF.", cors);
+      return;
+    }
+    const admitted = await admit(req, res, { provider: "ocr", model: engine.name });
+    if (!admitted) return;
+    const started = Date.now();
+    const settle = (status: Usage["status"], text: string | null) =>
+      settleUsage(client, admitted.usageId, { status, prompt_chars: 0, completion_chars: text?.length ?? 0, duration_ms: Date.now() - started });
+    try {
+      const file = await readBody(req, MAX_DOCUMENT_BYTES);
+      const text = await engine.extract(file, contentType);
+      settle("ok", text);
+      res.writeHead(200, { ...cors, "Content-Type": "application/json; charset=utf-8" });
+      res.end(JSON.stringify({ text }));
+    } catch (err) {
+      if (err instanceof PayloadTooLarge) {
+        rejectTooLarge(res, admitted.usageId, err);
+        return;
+      }
+      settle("error", null);
+      throw err;
+    }
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const admitted = await admit(req, res, { provider: provider.name, model });
+    if (!admitted) return;
+
+    let body: unknown;
+    try {
+      body = JSON.parse((await readBody(req)).toString("utf8") || "null");
+    } catch (err) {
+      if (err instanceof PayloadTooLarge) {
+        rejectTooLarge(res, admitted.usageId, err);
+        return;
+      }
+      releaseUsage(client, admitted.usageId);
+      throw err;
+    }
+    const parsed = requestSchema.safeParse(body);
+    if (!parsed.success) {
+      releaseUsage(client, admitted.usageId);
+      send(res, 400, "صيغة الطلب غير صحيحة.", cors);
+      return;
+    }
+
+    const { messages, stream } = parsed.data;
+    const started = Date.now();
+    const settle = (status: Usage["status"], completion: string | null) =>
+      settleUsage(client, admitted.usageId, {
+        status,
+        prompt_chars: messages.reduce((sum, m) => sum + m.content.length, 0),
+        completion_chars: completion?.length ?? 0,
+        duration_ms: Date.now() - started,
+      });
+
+    // إغلاق الاتصال من الواجهة (زر الإلغاء) يوقف الطلب للمزود أيضًا
+    const upstream = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) upstream.abort();
+    });
+
+    // رؤوس التدفق تُرسل مع أول جزء فقط، فخطأ المزود قبلها يصل برمز الحالة الصحيح لا 200 فارغ
+    const openStream = () => {
+      if (!res.headersSent) res.writeHead(200, { ...cors, "Content-Type": "text/event-stream; charset=utf-8", "Cache-Control": "no-cache", Connection: "keep-alive" });
+    };
+
+    try {
+      if (stream) {
+        const { content } = await provider.complete(messages, {
+          signal: upstream.signal,
+          onDelta: (delta) => {
+            openStream();
+            res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: delta } }] })}\n\n`);
+          },
+        });
+        openStream();
+        res.end("data: [DONE]\n\n");
+        settle("ok", content);
+      } else {
+        const { content } = await provider.complete(messages, { signal: upstream.signal });
+        res.writeHead(200, { ...cors, "Content-Type": "application/json; charset=utf-8" });
+        res.end(JSON.stringify({ choices: [{ message: { role: "assistant", content } }] }));
+        settle("ok", content);
+      }
+    } catch (err) {
+      if (err instanceof LlmRateLimitError && !res.headersSent) {
+        settle("rate_limited", null);
+        send(res, 429, "المزود مشغول حاليًا.", { ...cors, "Retry-After": String(Math.ceil((err.retryAfterMs ?? 30_000) / 1000)) });
+        return;
+      }
+      settle("error", null);
+      if (stream && res.headersSent) {
+        // بعد بدء التدفق لا يمكن تغيير الحالة: حدث خطأ بصيغة OpenAI تقرؤه الواجهة وترميه
+        console.error("LLM proxy stream error:", err instanceof Error ? err.message : err);
+        res.end(`data: ${JSON.stringify({ error: { type: "upstream_error", message: "انقطع الرد من مزود النموذج." } })}\n\n`);
+        return;
+      }
+      throw err;
+    }
+  }
+
+  return (req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, cors);
+      res.end();
+      return;
+    }
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    const route =
+      pathname === CHAT_PATH
+        ? () => handle(req, res)
+        : pathname === STT_PATH && transcriber
+          ? () => handleTranscription(req, res, transcriber)
+          : pathname === OCR_PATH && ocr
+            ? () => handleDocument(req, res, ocr)
+            : null;
+    if (!route) {
+      send(res, 404, "Not Found", cors);
+      return;
+    }
+    if (req.method !== "POST") {
+      send(res, 405, "Method Not Allowed", { ...cors, Allow: "POST, OPTIONS" });
+      return;
+    }
+    route().catch((err) => {
+      console.error("LLM proxy error:", err instanceof Error ? err.message : err);
+      send(res, err instanceof SyntaxError ? 400 : 502, err instanceof SyntaxError ? "صيغة الطلب غير صحيحة." : "تعذر الوصول إلى مزود النموذج.", cors);
+    });
+  };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const config = resolveLlmConfig();
+  const transcriber = createWhisperTranscriber();
+  if (!transcriber) console.warn(`التفريغ الصوتي معطل: اضبط STT_API_KEY أو STT_API_URL لتفعيل ${STT_PATH}.`);
+  const server = createServer(
+    createLlmProxyHandler(createAdminClient(), createLlmProvider(config), defaultProxyLimits, {
+      transcriber,
+      ocr: createTesseractEngine(),
+    })
+  );
+  server.listen(PORT, () => console.log(`LLM proxy (${config.provider}) listening on :${PORT}`));
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
@@ -0,0 +1,78 @@
+// استخراج النص من صور بطاقات المواعيد والوصفات وملفات PDF على الخادم.
+// المحرك المحلي يستدعي tesseract و poppler-utils (pdftotext و pdftoppm) المثبتة على الجهاز؛ اللغات من OCR_LANGUAGES (الافتراضي ara+eng) ومهلة كل أمر من OCR_TIMEOUT_MS.
+import { spawn } from "node:child_process";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+export type OcrEngine = {
+  name: string;
+  extract: (file: Buffer, contentType: string) => Promise<string>;
+};
+
+// ملف PDF نصي قصير جدًا يعني غالبًا أنه صور ممسوحة تحتاج OCR
+const MIN_PDF_TEXT_LENGTH = 20;
+const MAX_PDF_PAGES = 5;
+
+// ملف تالف أو ضخم قد يعلّق tesseract أو pdftoppm؛ العملية تُقتل بعد المهلة ويُرفض الطلب
+const COMMAND_TIMEOUT_MS = Number(process.env.OCR_TIMEOUT_MS ?? 60_000);
+
+function run(command: string, args: string[], input?: Buffer) {
+  return new Promise<string>((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["pipe", "pipe", "pipe"] });
+    const out: Buffer[] = [];
+    const err: Buffer[] = [];
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      // لا ننتظر close: عملية فرعية للأمر قد تبقي المخرجات مفتوحة
+      child.stdout.destroy();
+      child.stderr.destroy();
+      reject(new Error(`${command} تجاوز المهلة (${COMMAND_TIMEOUT_MS / 1000} ثانية).`));
+    }, COMMAND_TIMEOUT_MS);
+    child.stdout.on("data", (chunk: Buffer) => out.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => err.push(chunk));
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new Error(`تعذر تشغيل ${command}: ${error.message}`));
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(Buffer.concat(out).toString("utf8"));
+      else reject(new Error(`${command} exited with ${code}: ${Buffer.concat(err).toString("utf8").trim()}`));
+    });
+    // العملية المقتولة تغلق stdin قبل اكتمال الكتابة
+    child.stdin.on("error", () => {});
+    child.stdin.end(input);
+  });
+}
+
+export function createTesseractEngine(languages = process.env.OCR_LANGUAGES ?? "ara+eng"): OcrEngine {
+  const ocrImage = (input: Buffer | string) =>
+    typeof input === "string" ? run("tesseract", [input, "stdout", "-l", languages]) : run("tesseract", ["stdin", "stdout", "-l", languages], input);
+
+  async function ocrScannedPdf(file: Buffer) {
+    const dir = await mkdtemp(join(tmpdir(), "nabiuh-ocr-"));
+    try {
+      const pdfPath = join(dir, "input.pdf");
+      await writeFile(pdfPath, file);
+      await run("pdftoppm", ["-r", "200", "-png", "-l", String(MAX_PDF_PAGES), pdfPath, join(dir, "page")]);
+      const pages = (await readdir(dir)).filter((name) => name.startsWith("page")).sort();
+      const texts: string[] = [];
+      for (const page of pages) texts.push(await ocrImage(join(dir, page)));
+      return texts.join("\n");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  return {
+    name: "tesseract",
+    extract: async (file, contentType) => {
+      if (contentType === "application/pdf") {
+        const text = await run("pdftotext", ["-layout", "-l", String(MAX_PDF_PAGES), "-", "-"], file);
+        return (text.trim().length >= MIN_PDF_TEXT_LENGTH ? text : await ocrScannedPdf(file)).trim();
+      }
+      return (await ocrImage(file)).trim();
+    },
+  };
+}
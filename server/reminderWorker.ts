@@ -0,0 +1,135 @@
+// عامل Node يرسل التذكيرات المستحقة من جدول reminders حتى لو كانت كل نوافذ التطبيق مغلقة.
+// التشغيل: npm run worker:reminders (يتطلب SUPABASE_URL و SUPABASE_SERVICE_ROLE_KEY).
+import { pathToFileURL } from "node:url";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "./supabaseAdmin";
+import { createWebPushDispatcher } from "./webPush";
+import { createEmailDispatcher } from "./email";
+import {
+  claimReminder,
+  fetchDueReminders,
+  releaseReminder,
+  REMINDER_HORIZON_DAYS,
+  reminderChannelsFor,
+  topUpReminders,
+  type DueReminder,
+  type ReminderSource,
+} from "../src/lib/reminders";
+import type { Priority, Recurrence, ReminderChannel, Status, WeekStart } from "../src/types";
+
+export type ReminderAppointment = ReminderSource & {
+  user_id: string;
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  actions_before?: string[] | null;
+  actions_after?: string[] | null;
+  priority: Priority;
+  status: Status;
+  recurrence?: Recurrence | null;
+};
+
+export type ReminderDispatcher = (reminder: DueReminder<ReminderAppointment>) => Promise<void>;
+
+const POLL_INTERVAL_MS = Number(process.env.REMINDER_POLL_INTERVAL_MS ?? 30_000);
+const MAX_ATTEMPTS = 5;
+
+// قناة "app" لا تُرسل من هنا: المتصفح المفتوح يحجزها ويعرضها بنفسه.
+const dispatchers: Partial<Record<ReminderChannel, ReminderDispatcher>> = {};
+
+export function registerDispatcher(channel: ReminderChannel, dispatcher: ReminderDispatcher) {
+  dispatchers[channel] = dispatcher;
+}
+
+// خيارات التذكير لكل مستخدم كما يحسبها التطبيق: القنوات من اشتراك الدفع وتفعيل البريد، والتقويم من الإعدادات.
+// التكرارات تُحسب بمنطقة المستخدم حتى تبقى على ساعتها عبر التوقيت الصيفي وتطابق أيام الاستثناءات.
+export async function loadReminderOptions(client: SupabaseClient, userIds: string[]) {
+  const [settings, subscriptions] = await Promise.all([
+    client.from("settings").select("user_id, week_start, timezone, email_reminders").in("user_id", userIds),
+    client.from("push_subscriptions").select("user_id").in("user_id", userIds),
+  ]);
+  if (settings.error) throw settings.error;
+  if (subscriptions.error) throw subscriptions.error;
+  const withPush = new Set((subscriptions.data ?? []).map((s) => s.user_id as string));
+  const settingsByUser = new Map((settings.data ?? []).map((s) => [s.user_id as string, s]));
+  return (userId: string) => {
+    const s = settingsByUser.get(userId);
+    return {
+      channels: reminderChannelsFor(withPush.has(userId), Boolean(s?.email_reminders)),
+      weekStart: (s?.week_start as WeekStart | undefined) ?? "sunday",
+      timeZone: (s?.timezone as string | null | undefined) ?? "UTC",
+    };
+  };
+}
+
+// يمدّد تذكيرات السلاسل المتكررة مع تقدم الوقت.
+// تُختار فقط السلاسل التي لم يبقَ من نطاقها المغطى (reminders_until) إلا نصفه أو لم تُحسب بعد.
+async function topUpRecurring(client: SupabaseClient) {
+  const threshold = new Date(Date.now() + (REMINDER_HORIZON_DAYS / 2) * 24 * 60 * 60 * 1000).toISOString();
+  const { data: series, error } = await client
+    .from("appointments")
+    .select("*")
+    .eq("status", "scheduled")
+    .not("recurrence", "is", null)
+    .or(`reminders_until.is.null,reminders_until.lt.${threshold}`);
+  if (error) throw error;
+  if (!series?.length) return;
+
+  const optionsFor = await loadReminderOptions(client, [...new Set(series.map((a) => a.user_id as string))]);
+  for (const a of series as ReminderAppointment[]) {
+    await topUpReminders(client, a, optionsFor(a.user_id));
+  }
+}
+
+export async function runOnce(client: SupabaseClient) {
+  await topUpRecurring(client);
+  const channels = Object.keys(dispatchers) as ReminderChannel[];
+  const due = await fetchDueReminders<ReminderAppointment>(client, { channels, limit: 100, maxAttempts: MAX_ATTEMPTS });
+  let sent = 0;
+  for (const reminder of due) {
+    const dispatch = dispatchers[reminder.channel];
+    if (!dispatch || !(await claimReminder(client, reminder.id))) continue;
+    try {
+      await dispatch(reminder);
+      sent++;
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      console.error(`Dispatch ${reminder.channel} reminder ${reminder.id} failed:`, reason);
+      await releaseReminder(client, reminder, reason);
+    }
+  }
+  return sent;
+}
+
+export function startWorker(client: SupabaseClient = createAdminClient()) {
+  let running = false;
+  const tick = async () => {
+    // لا نبدأ دورة جديدة قبل انتهاء السابقة
+    if (running) return;
+    running = true;
+    try {
+      const sent = await runOnce(client);
+      if (sent) console.log(`[reminders] sent ${sent}`);
+    } catch (err) {
+      console.error("[reminders] tick failed:", err instanceof Error ? err.message : err);
+    } finally {
+      running = false;
+    }
+  };
+  tick();
+  const interval = setInterval(tick, POLL_INTERVAL_MS);
+  return () => clearInterval(interval);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const client = createAdminClient();
+  if (process.env.VAPID_PRIVATE_KEY) registerDispatcher("webpush", createWebPushDispatcher(client));
+  if (process.env.SMTP_HOST) registerDispatcher("email", createEmailDispatcher(client));
+  const stop = startWorker(client);
+  const shutdown = () => {
+    stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
@@ -0,0 +1,16 @@
+import { createClient } from "@supabase/supabase-js";
+
+export function requireEnv(...keys: string[]) {
+  for (const key of keys) {
+    const value = process.env[key];
+    if (value) return value;
+  }
+  throw new Error(`متغير البيئة ${keys[0]} غير موجود.`);
+}
+
+// عميل بصلاحية service role للعمليات الخلفية؛ لا يُستخدم أبدًا داخل حزمة المتصفح.
+export function createAdminClient() {
+  return createClient(requireEnv("SUPABASE_URL", "VITE_SUPABASE_URL"), requireEnv("SUPABASE_SERVICE_ROLE_KEY"), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
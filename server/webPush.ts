@@ -0,0 +1,49 @@
+// مرسل Web Push لقناة "webpush" في عامل التذكيرات. مفاتيح VAPID تُنشأ بـ: npx web-push generate-vapid-keys
+import webpush from "web-push";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { requireEnv } from "./supabaseAdmin";
+import { formatDate } from "../src/lib/format";
+import type { ReminderDispatcher } from "./reminderWorker";
+
+type PushSubscriptionRow = { id: string; endpoint: string; p256dh: string; auth: string };
+
+export function createWebPushDispatcher(client: SupabaseClient): ReminderDispatcher {
+  webpush.setVapidDetails(requireEnv("VAPID_SUBJECT"), requireEnv("VAPID_PUBLIC_KEY", "VITE_VAPID_PUBLIC_KEY"), requireEnv("VAPID_PRIVATE_KEY"));
+
+  return async (reminder) => {
+    const appointment = reminder.appointment;
+    if (!appointment) return;
+    const { data, error } = await client.from("push_subscriptions").select("id, endpoint, p256dh, auth").eq("user_id", appointment.user_id);
+    if (error) throw error;
+    const subscriptions = (data ?? []) as PushSubscriptionRow[];
+    if (!subscriptions.length) return;
+    // الوقت يُعرض بمنطقة المستخدم لا بمنطقة الخادم
+    const { data: settings } = await client.from("settings").select("timezone").eq("user_id", appointment.user_id).maybeSingle();
+
+    const payload = JSON.stringify({
+      title: "تذكير بالموعد",
+      body: [appointment.title, formatDate(reminder.occurrence_start, "ar", settings?.timezone ?? undefined), appointment.location].filter(Boolean).join(" • "),
+      tag: `appointment-${appointment.id}-${reminder.occurrence_start}`,
+      data: { appointmentId: appointment.id, occurrenceStart: reminder.occurrence_start, reminderId: reminder.id },
+    });
+
+    let delivered = 0;
+    const failures: string[] = [];
+    for (const sub of subscriptions) {
+      try {
+        await webpush.sendNotification({ endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } }, payload, { TTL: 60 * 60 });
+        delivered++;
+      } catch (err) {
+        const status = (err as { statusCode?: number }).statusCode;
+        // الاشتراك انتهى أو أُلغي من المتصفح: نحذفه ولا نعدّه فشلًا
+        if (status === 404 || status === 410) {
+          await client.from("push_subscriptions").delete().eq("id", sub.id);
+          continue;
+        }
+        failures.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+    // نعيد المحاولة فقط إذا لم يصل الإشعار لأي جهاز
+    if (!delivered && failures.length) throw new Error(failures.join("; "));
+  };
+}
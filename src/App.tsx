@@ -1,10 +1,74 @@
 import { useEffect, useMemo, useRef, useState, type FormEvent } from "react";
 import type { Session } from "@supabase/supabase-js";
-import sendToAtlas from "./atlasClient";
+import { chatWithAssistant, extractAppointments } from "./atlasClient";
 import { supabase } from "./lib/supabase";
-import { useAppointments, type Appointment, type Priority, type Status } from "./store/useAppointments";
+import { useAppointments, type Appointment, type AppointmentPatch, type NewAppointment, type Priority, type Status } from "./store/useAppointments";
+import { useTags } from "./store/useTags";
+import { useSettings, type SettingsSyncStatus } from "./store/useSettings";
+import type { UserSettings } from "./lib/settings";
+import { RecurrenceFields } from "./components/forms/RecurrenceFields";
+import {
+  describeRecurrence,
+  emptyRecurrenceForm,
+  expandOccurrences,
+  formToRecurrence,
+  orderedWeekdays,
+  recurrenceFromAtlas,
+  recurrenceToForm,
+  type EditScope,
+  type Occurrence,
+  type RecurrenceFormModel,
+  weekdayText,
+} from "./lib/recurrence";
+import { claimReminder, fetchDueReminders, reminderChannelsFor } from "./lib/reminders";
+import { formatDate, priorityText, type Locale } from "./lib/format";
+import { fromWallTimes, startOfZonedDay, toWallTimes, wallClockDate } from "./lib/timezone";
+import { CalendarView } from "./components/calendar/CalendarView";
+import { IcsDialog } from "./components/ics/IcsDialog";
+import { calendarFeedUrl, calendarFeedWebcalUrl, isCalendarFeedConfigured, loadCalendarFeed, revokeCalendarFeed, rotateCalendarFeed, type CalendarFeed } from "./lib/calendarFeed";
+import { isDuplicateEvent, type ParsedIcsEvent } from "./lib/ics";
+import type { AtlasAppointment } from "./lib/atlasSchema";
+import { isConfidentParse, parseArabicAppointments } from "./lib/arabicDateParser";
+import { checkSchedule, defaultWorkingHours, type ScheduleCheck, type SchedulingPolicy, type Slot } from "./lib/conflicts";
+import { ConflictDialog } from "./components/scheduling/ConflictDialog";
+import { applyDraftValues, draftValuesFrom, type AiDraft, type DraftField, type DraftFieldState } from "./lib/aiDrafts";
+import { AiReviewPanel } from "./components/ai/AiReviewPanel";
+import { QueueStatusNote } from "./components/ai/QueueStatusNote";
+import { AssistantChat } from "./components/ai/AssistantChat";
+import { VoiceCapture } from "./components/ai/VoiceCapture";
+import { DocumentCapture } from "./components/ai/DocumentCapture";
+import { documentExtractionPrompt, MAX_DOCUMENT_PROMPT_CHARS } from "./lib/documentText";
+import { evaluateRules, fillFromRules, type ClassificationRule, type RuleOutcome } from "./lib/rules";
+import { RulesEditor } from "./components/settings/RulesEditor";
+import { BugReportDialog } from "./components/support/BugReportDialog";
+import { loadMyBugReports, submitBugReport, type BugReport, type BugReportInput } from "./lib/bugReports";
+import { isAdminSession } from "./lib/bugTriage";
+import { MedicationsPanel } from "./components/medications/MedicationsPanel";
+import {
+  deleteMedication,
+  loadDoseLog,
+  loadMedications,
+  medicationFromAtlas,
+  planDoseSync,
+  recordDose,
+  saveMedication,
+  todayKeyIn,
+  type DoseStatus,
+  type Medication,
+  type MedicationDose,
+  type MedicationInput,
+} from "./lib/medications";
+import { tagNamesOf, tagsByIds, uniqueTagNames, type TagPatch } from "./lib/tags";
+import { TagManager } from "./components/tags/TagManager";
+import { TagPicker } from "./components/tags/TagPicker";
+import { TagChip } from "./components/tags/TagChip";
+import { runAssistantTurn, type AssistantEntry, type AssistantMutation, type PendingAction } from "./lib/assistant";
+import type { QueueStatus } from "./lib/requestQueue";
+import { LlmRateLimitError } from "./lib/llmProviders";
+import { defaultEmailPreferences, loadEmailPreferences, saveEmailPreferences, type EmailPreferences } from "./lib/emailPreferences";
+import { getPushSubscription, hasPushSubscriptions, isPushSupported, isReminderActionMessage, subscribeToPush, unsubscribeFromPush, type ReminderAction } from "./lib/webPush";
+import type { Tag, ToneName, WeekStart } from "./types";
 
-const priorityText: Record<Priority, string> = { low: "منخفض", medium: "متوسط", high: "مرتفع", critical: "حرج" };
 const statusText: Record<Status, string> = { scheduled: "مجدول", done: "منجز", canceled: "ملغي" };
 const statusOrder: Record<Status, number> = { scheduled: 0, done: 1, canceled: 2 };
 const priorityOrder: Record<Priority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
@@ -16,52 +80,59 @@ type FormModel = {
   endTime: string;
   location: string;
   description: string;
-  tag: string;
+  // أسماء الوسوم؛ الجديد منها يُنشأ عند الحفظ
+  tags: string[];
   reminderMinutes: string;
+  extraReminders: string;
   priority: Priority;
   status: Status;
-};
-
-type AtlasAppointment = {
-  type?: string;
-  title?: string;
-  date?: string;
-  time?: string;
-  end_time?: string | null;
-  location?: string | null;
-  person?: string | null;
-  actions_before?: string[];
-  actions_after?: string[];
-  tags?: string[];
-  reminder_minutes_before?: number | null;
-  recurrence?: { pattern?: string; every?: number; days_of_week?: string[] };
-  notes?: string | null;
-};
-
-type ToneName = "soft" | "bright" | "digital" | "calm" | "alert";
-
-type Settings = {
-  defaultPriority: Priority;
-  reminderWindowMinutes: number;
-  tags: string[];
+  recurrence: RecurrenceFormModel;
 };
 
 type SettingsOverlayProps = {
   open: boolean;
   onClose: () => void;
-  settings: Settings;
-  setSettings: (value: Settings | ((prev: Settings) => Settings)) => void;
-  tone: ToneName;
-  onToneChange: (tone: ToneName) => void;
+  settings: UserSettings;
+  setSettings: (value: UserSettings | ((prev: UserSettings) => UserSettings)) => void;
+  syncStatus: SettingsSyncStatus;
+  syncError: string | null;
+  tags: Tag[];
+  tagUsage: Record<string, number>;
+  onCreateTag: (name: string, color: string) => Promise<void>;
+  onUpdateTag: (id: string, patch: TagPatch) => Promise<void>;
+  onDeleteTag: (id: string, reassignTo?: string) => Promise<void>;
   playTone: (tone: ToneName) => void;
   notificationPermission: NotificationPermission;
   notificationError: string | null;
   requestBellPermission: () => void;
+  pushEnabled: boolean;
+  pushError: string | null;
+  onTogglePush: () => void;
+  emailPrefs: EmailPreferences;
+  emailError: string | null;
+  onEmailPrefsChange: (prefs: EmailPreferences) => void;
+  calendarFeed: CalendarFeed | null;
+  calendarFeedError: string | null;
+  onRotateCalendarFeed: () => void;
+  onRevokeCalendarFeed: () => void;
   onResetManual: () => void;
 };
 
 type ErrorModalState = { title: string; message: string } | null;
 
+// الفحص المعروض في نافذة التعارض؛ resolve يُرجع الوقت المعتمد أو null عند الإلغاء
+type ScheduleReview = {
+  title: string;
+  check: ScheduleCheck<Appointment>;
+  times: { start_at: string; end_at?: string };
+  resolve: (times: { start_at: string; end_at?: string } | null) => void;
+};
+
+// نطاق توسيع المواعيد المتكررة في قائمة اللوحة
+const LIST_HORIZON_DAYS = 30;
+
+const editScopeText: Record<EditScope, string> = { this: "هذا الموعد فقط", following: "هذا الموعد وما يليه", all: "كل المواعيد في السلسلة" };
+
 const tonePatterns: Record<ToneName, { freq: number; duration: number }[]> = {
   soft: [
     { freq: 660, duration: 0.25 },
@@ -98,49 +169,58 @@ const toneLabels: Record<ToneName, string> = {
   alert: "إنذار سريع",
 };
 
+function timeZoneOptions(current: string) {
+  const all = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return all.includes(current) ? all : [current, ...all];
+}
+
+const syncLabels: Record<SettingsSyncStatus, string> = {
+  local: "محفوظة على هذا الجهاز فقط",
+  syncing: "جارٍ المزامنة مع حسابك…",
+  synced: "متزامنة مع حسابك",
+  pending: "محفوظة محليًا، ستُرفع إلى حسابك عند عودة الاتصال",
+};
+
 // واجهة الإعدادات تظهر في نافذة مستقلة كاملة الشاشة.
 function SettingsOverlay({
   open,
   onClose,
   settings,
   setSettings,
-  tone,
-  onToneChange,
+  tags,
+  tagUsage,
+  onCreateTag,
+  onUpdateTag,
+  onDeleteTag,
+  syncStatus,
+  syncError,
   playTone,
   notificationPermission,
   notificationError,
   requestBellPermission,
+  pushEnabled,
+  pushError,
+  onTogglePush,
+  emailPrefs,
+  emailError,
+  onEmailPrefsChange,
+  calendarFeed,
+  calendarFeedError,
+  onRotateCalendarFeed,
+  onRevokeCalendarFeed,
   onResetManual,
 }: SettingsOverlayProps) {
-  const [newTag, setNewTag] = useState("");
-  const [tagEdits, setTagEdits] = useState<Record<string, string>>({});
-
-  const addTag = () => {
-    const name = newTag.trim();
-    if (!name) return;
-    setSettings((s) => {
-      if (s.tags.includes(name)) return s;
-      return { ...s, tags: [...s.tags, name] };
-    });
-    setNewTag("");
-  };
+  const [feedCopied, setFeedCopied] = useState(false);
 
-  const updateTag = (oldName: string, value: string) => {
-    const name = value.trim();
-    if (!name) {
-      setTagEdits((prev) => ({ ...prev, [oldName]: oldName }));
-      return;
+  const copyFeedUrl = async () => {
+    if (!calendarFeed) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl(calendarFeed.token));
+      setFeedCopied(true);
+      setTimeout(() => setFeedCopied(false), 2000);
+    } catch {
+      setFeedCopied(false);
     }
-    setSettings((s) => ({ ...s, tags: s.tags.map((t) => (t === oldName ? name : t)) }));
-  };
-
-  const removeTag = (name: string) => {
-    setSettings((s) => ({ ...s, tags: s.tags.filter((t) => t !== name) }));
-    setTagEdits((prev) => {
-      const next = { ...prev };
-      delete next[name];
-      return next;
-    });
   };
 
   if (!open) return null;
@@ -151,6 +231,7 @@ function SettingsOverlay({
           <div>
             <p className="text-xs text-slate-500">خيارات عامة</p>
             <h2 className="text-lg font-semibold text-slate-900">الإعدادات</h2>
+            <p className={`text-xs ${syncError ? "text-amber-600" : "text-slate-500"}`} title={syncError ?? undefined}>{syncLabels[syncStatus]}</p>
           </div>
           <button className="rounded-md border border-slate-200 px-3 py-1.5 text-sm text-slate-700 hover:border-blue-200 hover:text-blue-600" onClick={onClose}>
             إغلاق
@@ -184,6 +265,82 @@ function SettingsOverlay({
                 }}
               />
               <p className="text-xs text-slate-500">يتم إرسال التذكير إذا كان الموعد ضمن هذا النطاق.</p>
+              <label className="text-sm text-slate-700">بداية الأسبوع</label>
+              <select className="select" value={settings.weekStart} onChange={(e) => setSettings((s) => ({ ...s, weekStart: e.target.value as WeekStart }))}>
+                <option value="saturday">السبت</option>
+                <option value="sunday">الأحد</option>
+                <option value="monday">الاثنين</option>
+              </select>
+              <label className="text-sm text-slate-700">المنطقة الزمنية</label>
+              <select className="select" value={settings.timezone} onChange={(e) => setSettings((s) => ({ ...s, timezone: e.target.value }))}>
+                {timeZoneOptions(settings.timezone).map((tz) => (
+                  <option key={tz} value={tz}>
+                    {tz}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input type="checkbox" checked={settings.localParserFirst} onChange={(e) => setSettings((s) => ({ ...s, localParserFirst: e.target.checked }))} />
+                التحليل المحلي أولًا
+              </label>
+              <p className="text-xs text-slate-500">إذا فهم المحلل المحلي التاريخ والوقت فلن يُرسل النص إلى الذكاء الاصطناعي.</p>
+              <label className="text-sm text-slate-700">فاصل بين المواعيد (دقائق)</label>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                max={120}
+                value={settings.bufferMinutes}
+                onChange={(e) => {
+                  const v = parseInt(e.target.value, 10);
+                  if (!Number.isNaN(v)) setSettings((s) => ({ ...s, bufferMinutes: Math.min(120, Math.max(0, v)) }));
+                }}
+              />
+              <p className="text-xs text-slate-500">يُعد الموعد متعارضًا إذا وقع ضمن هذا الفاصل من موعد آخر.</p>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={!!settings.workingHours}
+                  onChange={(e) => setSettings((s) => ({ ...s, workingHours: e.target.checked ? defaultWorkingHours : null }))}
+                />
+                التنبيه عند الجدولة خارج ساعات العمل
+              </label>
+              {settings.workingHours && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      className="input"
+                      type="time"
+                      value={settings.workingHours.start}
+                      onChange={(e) => setSettings((s) => ({ ...s, workingHours: s.workingHours && { ...s.workingHours, start: e.target.value } }))}
+                    />
+                    <input
+                      className="input"
+                      type="time"
+                      value={settings.workingHours.end}
+                      onChange={(e) => setSettings((s) => ({ ...s, workingHours: s.workingHours && { ...s.workingHours, end: e.target.value } }))}
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {orderedWeekdays(settings.weekStart).map((day) => (
+                      <button
+                        key={day}
+                        type="button"
+                        className={`rounded-full border px-2 py-0.5 text-xs ${settings.workingHours?.days.includes(day) ? "border-blue-400 bg-blue-100 text-blue-700" : "border-slate-200 bg-white text-slate-600"}`}
+                        onClick={() =>
+                          setSettings((s) => {
+                            if (!s.workingHours) return s;
+                            const days = s.workingHours.days.includes(day) ? s.workingHours.days.filter((d) => d !== day) : [...s.workingHours.days, day];
+                            return { ...s, workingHours: { ...s.workingHours, days } };
+                          })
+                        }
+                      >
+                        {weekdayText[day]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
             <div className="flex gap-2">
               <button className="btn-primary" type="button" onClick={onResetManual}>
@@ -204,7 +361,7 @@ function SettingsOverlay({
               </button>
             </div>
             <div className="space-y-2">
-              <select className="select" value={tone} onChange={(e) => onToneChange(e.target.value as ToneName)}>
+              <select className="select" value={settings.tone} onChange={(e) => setSettings((s) => ({ ...s, tone: e.target.value as ToneName }))}>
                 <option value="soft">{toneLabels.soft}</option>
                 <option value="bright">{toneLabels.bright}</option>
                 <option value="digital">{toneLabels.digital}</option>
@@ -212,7 +369,7 @@ function SettingsOverlay({
                 <option value="alert">{toneLabels.alert}</option>
               </select>
               <div className="flex gap-2">
-                <button className="btn-primary" type="button" onClick={() => playTone(tone)}>
+                <button className="btn-primary" type="button" onClick={() => playTone(settings.tone)}>
                   تجربة الصوت
                 </button>
                 <button className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" type="button" onClick={requestBellPermission}>
@@ -221,40 +378,90 @@ function SettingsOverlay({
               </div>
             </div>
             {notificationError && <p className="text-sm text-red-600">{notificationError}</p>}
+            <div className="flex items-center justify-between gap-3 border-t border-slate-200 pt-3">
+              <div>
+                <p className="text-sm font-medium text-slate-900">إشعارات الدفع (Web Push)</p>
+                <p className="text-xs text-slate-500">تصل التذكيرات إلى هذا الجهاز حتى عند إغلاق التطبيق.</p>
+              </div>
+              <button
+                className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm hover:border-blue-200 hover:text-blue-600 disabled:opacity-50"
+                type="button"
+                onClick={onTogglePush}
+                disabled={!isPushSupported()}
+              >
+                {pushEnabled ? "إيقاف" : "تفعيل"}
+              </button>
+            </div>
+            {!isPushSupported() && <p className="text-xs text-slate-500">المتصفح لا يدعم إشعارات الدفع أو أنها غير مهيأة.</p>}
+            {pushError && <p className="text-sm text-red-600">{pushError}</p>}
+            <div className="space-y-2 border-t border-slate-200 pt-3">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-900">
+                <input type="checkbox" checked={emailPrefs.enabled} onChange={(e) => onEmailPrefsChange({ ...emailPrefs, enabled: e.target.checked })} />
+                تذكيرات البريد الإلكتروني
+              </label>
+              <p className="text-xs text-slate-500">تُرسل إلى بريد حسابك في موعد التذكير.</p>
+              <select className="select" value={emailPrefs.locale} onChange={(e) => onEmailPrefsChange({ ...emailPrefs, locale: e.target.value as Locale })} disabled={!emailPrefs.enabled}>
+                <option value="ar">العربية</option>
+                <option value="en">English</option>
+              </select>
+            </div>
+            {emailError && <p className="text-sm text-red-600">{emailError}</p>}
           </div>
 
+          {isCalendarFeedConfigured() && (
+            <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50/60 p-4">
+              <div>
+                <h3 className="font-semibold text-slate-900">الاشتراك في التقويم</h3>
+                <p className="text-sm text-slate-600">رابط سري يعرض مواعيدك في تقويم Google أو Outlook أو Apple ويتحدث تلقائيًا. لا تشاركه مع أحد.</p>
+              </div>
+              {calendarFeed ? (
+                <>
+                  <input className="input font-mono text-xs" dir="ltr" readOnly value={calendarFeedUrl(calendarFeed.token)} onFocus={(e) => e.target.select()} />
+                  <p className="text-xs text-slate-500">
+                    أُنشئ في {formatDate(calendarFeed.created_at, "ar", settings.timezone)}
+                    {calendarFeed.last_accessed_at ? ` · آخر جلب ${formatDate(calendarFeed.last_accessed_at, "ar", settings.timezone)}` : " · لم يُجلب بعد"}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <button className="btn-primary" type="button" onClick={copyFeedUrl}>
+                      {feedCopied ? "تم النسخ" : "نسخ الرابط"}
+                    </button>
+                    <a className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm hover:border-blue-200 hover:text-blue-600" href={calendarFeedWebcalUrl(calendarFeed.token)}>
+                      فتح في تطبيق التقويم
+                    </a>
+                    <button className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm hover:border-blue-200 hover:text-blue-600" type="button" onClick={onRotateCalendarFeed}>
+                      إنشاء رابط جديد
+                    </button>
+                    <button className="rounded-md border border-rose-200 bg-white px-3 py-2 text-sm text-rose-600 hover:bg-rose-50" type="button" onClick={onRevokeCalendarFeed}>
+                      إلغاء الرابط
+                    </button>
+                  </div>
+                  <p className="text-xs text-slate-500">إنشاء رابط جديد أو إلغاؤه يوقف الرابط الحالي في كل التقويمات المشتركة به.</p>
+                </>
+              ) : (
+                <button className="btn-primary" type="button" onClick={onRotateCalendarFeed}>
+                  إنشاء رابط اشتراك
+                </button>
+              )}
+              {calendarFeedError && <p className="text-sm text-red-600">{calendarFeedError}</p>}
+            </div>
+          )}
+
           <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50/60 p-4">
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="font-semibold text-slate-900">الوسوم</h3>
-                <p className="text-sm text-slate-600">أضف وسومًا لتنظيم المواعيد، ويمكن تعديلها أو حذفها.</p>
+                <p className="text-sm text-slate-600">تُحفظ في حسابك بلونها؛ إعادة التسمية تظهر في كل المواعيد، والحذف يمكن أن ينقل المواعيد إلى وسم آخر.</p>
               </div>
             </div>
-            <div className="flex gap-2">
-              <input className="input flex-1" placeholder="اكتب وسمًا جديدًا" value={newTag} onChange={(e) => setNewTag(e.target.value)} />
-              <button className="btn-primary" type="button" onClick={addTag}>
-                إضافة
-              </button>
-            </div>
-            <div className="space-y-2">
-              {settings.tags.length === 0 ? (
-                <p className="text-sm text-slate-500">لا توجد وسوم بعد.</p>
-              ) : (
-                settings.tags.map((tag) => (
-                  <div key={tag} className="flex items-center gap-2">
-                    <input
-                      className="input flex-1"
-                      value={tagEdits[tag] ?? tag}
-                      onChange={(e) => setTagEdits((prev) => ({ ...prev, [tag]: e.target.value }))}
-                      onBlur={(e) => updateTag(tag, e.target.value)}
-                    />
-                    <button className="rounded-md border border-red-200 bg-red-50 px-3 py-1.5 text-sm text-red-700" type="button" onClick={() => removeTag(tag)}>
-                      حذف
-                    </button>
-                  </div>
-                ))
-              )}
+            <TagManager tags={tags} usage={tagUsage} onCreate={onCreateTag} onUpdate={onUpdateTag} onDelete={onDeleteTag} />
+          </div>
+
+          <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50/60 p-4">
+            <div>
+              <h3 className="font-semibold text-slate-900">قواعد التصنيف</h3>
+              <p className="text-sm text-slate-600">حدد الأولوية والوسم والتذكير والإجراءات تلقائيًا حسب محتوى الموعد.</p>
             </div>
+            <RulesEditor rules={settings.rules} onChange={(rules) => setSettings((s) => ({ ...s, rules }))} />
           </div>
         </div>
       </div>
@@ -262,7 +469,7 @@ function SettingsOverlay({
   );
 }
 
-function ErrorModal({ open, title, message, onClose }: { open: boolean; title: string; message: string; onClose: () => void }) {
+function ErrorModal({ open, title, message, onClose, onReport }: { open: boolean; title: string; message: string; onClose: () => void; onReport: () => void }) {
   if (!open) return null;
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
@@ -274,9 +481,12 @@ function ErrorModal({ open, title, message, onClose }: { open: boolean; title: s
             <p className="mt-1 text-sm text-slate-700 whitespace-pre-wrap">{message}</p>
           </div>
         </div>
-        <div className="mt-4 flex justify-end">
+        <div className="mt-4 flex justify-end gap-2">
+          <button className="rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700 hover:border-blue-200 hover:text-blue-600" onClick={onReport}>
+            الإبلاغ عن المشكلة
+          </button>
           <button className="btn-primary" onClick={onClose}>
-            إرسال
+            إغلاق
           </button>
         </div>
       </div>
@@ -284,20 +494,41 @@ function ErrorModal({ open, title, message, onClose }: { open: boolean; title: s
   );
 }
 
-function formatDate(iso: string) {
-  return new Date(iso).toLocaleString("ar-EG", { weekday: "long", day: "numeric", month: "short", hour: "numeric", minute: "2-digit" });
-}
-
-function toDateParts(a: Appointment | { start_at: string; end_at?: string }) {
-  const start = new Date(a.start_at);
-  return {
-    date: start.toISOString().slice(0, 10),
-    time: start.toISOString().slice(11, 16),
-    endTime: a.end_at ? new Date(a.end_at).toISOString().slice(11, 16) : "",
-  };
+// حذف موعد من سلسلة متكررة: هذا التكرار وحده أو السلسلة كلها
+function DeleteScopeModal({
+  target,
+  timeZone,
+  onChoose,
+  onClose,
+}: {
+  target: Occurrence<Appointment> | null;
+  timeZone: string;
+  onChoose: (scope: "this" | "all") => void;
+  onClose: () => void;
+}) {
+  if (!target) return null;
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-md rounded-2xl bg-white p-6 shadow-2xl border border-slate-100" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-semibold text-slate-900">حذف "{target.title}"</h3>
+        <p className="mt-1 text-sm text-slate-700">هذا الموعد ({formatDate(target.occurrence_start, "ar", timeZone)}) جزء من سلسلة متكررة. ماذا تريد أن تحذف؟</p>
+        <div className="mt-4 flex flex-wrap justify-end gap-2">
+          <button className="rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700 hover:border-blue-200 hover:text-blue-600" onClick={onClose}>
+            إلغاء
+          </button>
+          <button className="rounded-md border border-rose-200 px-3 py-2 text-sm text-rose-700 hover:bg-rose-50" onClick={() => onChoose("all")}>
+            {editScopeText.all}
+          </button>
+          <button className="btn-primary" onClick={() => onChoose("this")}>
+            {editScopeText.this}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
 }
 
-function getManualTemplate(settings: Settings): FormModel {
+function getManualTemplate(settings: UserSettings): FormModel {
   return {
     title: "",
     date: "",
@@ -305,92 +536,93 @@ function getManualTemplate(settings: Settings): FormModel {
     endTime: "",
     location: "",
     description: "",
-    tag: settings.tags[0] ?? "",
+    tags: [],
     reminderMinutes: String(settings.reminderWindowMinutes),
+    extraReminders: "",
     priority: settings.defaultPriority,
     status: "scheduled",
+    recurrence: emptyRecurrenceForm,
   };
 }
 
-function mapTypeToPriority(type: string): Priority {
-  const t = type.toLowerCase();
-  if (t.includes("critical")) return "critical";
-  if (t.includes("medical") || t.includes("medication")) return "high";
-  if (t.includes("work")) return "medium";
-  if (t.includes("personal")) return "low";
-  return "medium";
+// "60, 1440" => [60, 1440]
+function parseReminderOffsets(value: string) {
+  const offsets = value
+    .split(/[,،\s]+/)
+    .map((v) => parseInt(v, 10))
+    .filter((v) => !Number.isNaN(v) && v > 0);
+  return offsets.length ? offsets : null;
 }
 
-function isHospitalAppointment(raw: AtlasAppointment) {
-  const text = `${raw.title ?? ""} ${raw.notes ?? ""} ${raw.location ?? ""}`.toLowerCase();
-  return ["مستشفى", "عيادة", "تحليل", "دواء", "مراجعة", "طبيب"].some((k) => text.includes(k)) || (raw.type ?? "").toLowerCase().includes("medical");
+// سجل الجرعات يكفي منه آخر أسبوعين لعرض الالتزام
+function doseLogSince() {
+  return new Date(Date.now() - 15 * 24 * 60 * 60 * 1000);
 }
 
-function extractAppointmentsJSON(rawContent: string): { appointments?: unknown } {
-  const fenceMatch = rawContent.match(/```(?:json)?\s*([\s\S]*?)```/i);
-  const content = fenceMatch ? fenceMatch[1] : rawContent;
-  try {
-    return JSON.parse(content);
-  } catch {
-    const braceMatch = content.match(/\{[\s\S]*\}/);
-    if (braceMatch) return JSON.parse(braceMatch[0]);
-    throw new Error("تعذر قراءة JSON. يرجى إعادة المحاولة وإرجاع كائن appointments.");
-  }
+function atlasRuleOutcome(raw: AtlasAppointment, rules: ClassificationRule[]) {
+  return evaluateRules(rules, { title: raw.title, notes: raw.notes, location: raw.location, type: raw.type, tag: raw.tags?.[0] });
 }
 
 function isRateLimitError(err: unknown) {
+  if (err instanceof LlmRateLimitError) return true;
   const msg = err instanceof Error ? err.message : String(err ?? "");
   return msg.includes("429") || msg.toLowerCase().includes("too many requests");
 }
 
-function convertAtlasToAppointment(raw: AtlasAppointment): Omit<Appointment, "id" | "status"> & Partial<Pick<Appointment, "status">> {
-  const now = new Date();
-  const datePart = raw.date ?? now.toISOString().slice(0, 10);
-  const timePart = raw.time ?? "09:00";
-  const start = new Date(`${datePart}T${timePart}`);
-  const start_at = isNaN(start.getTime()) ? now.toISOString() : start.toISOString();
-
-  let end_at: string | undefined;
-  if (raw.end_time) {
-    const end = new Date(`${datePart}T${raw.end_time}`);
-    if (!isNaN(end.getTime())) end_at = end.toISOString();
-  }
+// التاريخ والوقت المستخرجان بتوقيت منطقة المستخدم؛ وقت النهاية غير الصالح يُهمل بدل إسقاط الموعد
+function convertAtlasToAppointment(raw: AtlasAppointment, outcome: RuleOutcome, timeZone: string): NewAppointment {
+  const wall = { date: raw.date ?? todayKeyIn(timeZone), time: raw.time ?? "09:00", endTime: raw.end_time ?? "" };
+  const times = fromWallTimes(wall, timeZone) ?? fromWallTimes({ ...wall, endTime: "" }, timeZone);
+  const start_at = times?.start_at ?? new Date().toISOString();
+  const end_at = times?.end_at;
 
   const parts: string[] = [];
   if (raw.notes) parts.push(raw.notes);
   if (raw.person) parts.push(`مع: ${raw.person}`);
-  if (raw.actions_before?.length) parts.push(`قبل: ${raw.actions_before.join(" | ")}`);
-  if (raw.actions_after?.length) parts.push(`بعد: ${raw.actions_after.join(" | ")}`);
-  if (raw.recurrence?.pattern && raw.recurrence.pattern !== "none") {
-    const every = raw.recurrence.every ? `كل ${raw.recurrence.every}` : "متكرر";
-    const days = raw.recurrence.days_of_week?.length ? ` (${raw.recurrence.days_of_week.join(",")})` : "";
-    parts.push(`تكرار: ${raw.recurrence.pattern} ${every}${days}`);
-  }
   if (raw.tags?.length) parts.push(`وسوم: ${raw.tags.join(", ")}`);
 
-  const hospital = isHospitalAppointment(raw);
-  const reminder = raw.reminder_minutes_before ?? (hospital ? 120 : null);
-  if (hospital) {
-    if (!raw.actions_before?.length) parts.push("اقتراح قبل الموعد: تحضير التحاليل أو الملفات الضرورية");
-    if (!raw.actions_after?.length) parts.push("اقتراح بعد الموعد: تدوين الملاحظات والتعليمات الطبية");
-    parts.push("تنبيه مقترح: قبل 15 دقيقة على الأقل");
-  }
-  if (reminder) parts.push(`تذكير قبل: ${reminder} دقيقة`);
+  parts.push(...outcome.notes);
 
-  return {
-    title: raw.title || "موعد بدون عنوان",
-    description: parts.join(" | ") || undefined,
-    tag: raw.tags?.[0] ?? null,
-    start_at,
-    end_at,
-    priority: hospital ? "high" : mapTypeToPriority(raw.type ?? ""),
-    status: "scheduled",
-    location: raw.location ?? undefined,
-    reminder_minutes_before: reminder,
-  };
+  // الإجراءات تُحفظ كقوائم منفصلة حتى تعرضها البطاقة وقوالب البريد؛ ما حدده النموذج يسبق اقتراحات القواعد
+  return fillFromRules(
+    {
+      title: raw.title || "موعد بدون عنوان",
+      description: parts.join(" | ") || undefined,
+      tags: raw.tags?.length ? uniqueTagNames(raw.tags) : undefined,
+      start_at,
+      end_at,
+      priority: "medium" as Priority,
+      status: "scheduled" as const,
+      location: raw.location ?? undefined,
+      reminder_minutes_before: raw.reminder_minutes_before ?? null,
+      recurrence: recurrenceFromAtlas(raw.recurrence),
+      actions_before: raw.actions_before?.length ? raw.actions_before : null,
+      actions_after: raw.actions_after?.length ? raw.actions_after : null,
+    },
+    outcome,
+    { priority: true }
+  );
+}
+type AtlasDraft = AiDraft<ReturnType<typeof convertAtlasToAppointment>>;
+
+// الحقول التي لم يحددها النموذج أو مُلئت بقيم افتراضية في convertAtlasToAppointment
+function atlasDraftFlags(raw: AtlasAppointment, outcome: RuleOutcome, timeZone: string): AtlasDraft["flags"] {
+  const flags: Partial<Record<DraftField, DraftFieldState>> = {};
+  const dateValid = !!raw.date && !!fromWallTimes({ date: raw.date, time: raw.time ?? "09:00", endTime: "" }, timeZone);
+  if (!raw.title) flags.title = "defaulted";
+  if (!dateValid) flags.date = "defaulted";
+  if (!raw.time || !dateValid) flags.time = "defaulted";
+  if (!raw.end_time) flags.endTime = "missing";
+  if (!raw.location) flags.location = "missing";
+  if (!raw.tags?.length) flags.tags = outcome.tag ? "defaulted" : "missing";
+  if (raw.reminder_minutes_before == null) flags.reminderMinutes = outcome.reminderMinutes != null ? "defaulted" : "missing";
+  if (!outcome.priority) flags.priority = "defaulted";
+  return flags;
 }
+
 export default function App() {
-  const { fetch, items, loading, remove, add, update } = useAppointments();
+  const { fetch, items, loading, remove, removeMany, removeOccurrence, add, addMany, update, updateOccurrence, configureReminders, resyncReminders, markDone, snooze } = useAppointments();
+  const { tags, fetch: fetchTags, create: createTag, update: updateTag, remove: removeTag, migrateLegacy: migrateLegacyTags } = useTags();
   const [session, setSession] = useState<Session | null>(null);
   const [checkingSession, setCheckingSession] = useState(true);
   const [loginEmail, setLoginEmail] = useState("");
@@ -403,24 +635,7 @@ export default function App() {
   const [showPasswordConfirm, setShowPasswordConfirm] = useState(false);
   const [authLoading, setAuthLoading] = useState(false);
 
-  const defaultSettings: Settings = { defaultPriority: "medium", reminderWindowMinutes: 15, tags: [] };
-  const [settings, setSettings] = useState<Settings>(() => {
-    if (typeof window === "undefined") return defaultSettings;
-    try {
-      const raw = window.localStorage.getItem("nabiuhSettings");
-      if (raw) {
-        const parsed = JSON.parse(raw);
-        return {
-          ...defaultSettings,
-          ...parsed,
-          tags: Array.isArray(parsed?.tags) ? parsed.tags : defaultSettings.tags,
-        };
-      }
-    } catch (error) {
-      console.warn("تعذر قراءة إعدادات التخزين المحلي، سيتم استخدام القيم الافتراضية.", error);
-    }
-    return defaultSettings;
-  });
+  const { settings, setSettings, syncStatus, syncError, hydrate: hydrateSettings, flush: flushSettings, signOut: signOutSettings } = useSettings();
   const [manual, setManual] = useState<FormModel>(() => getManualTemplate(settings));
   const [manualLoading, setManualLoading] = useState(false);
   const [manualError, setManualError] = useState<string | null>(null);
@@ -428,22 +643,59 @@ export default function App() {
   const [aiText, setAiText] = useState("");
   const [aiLoading, setAiLoading] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
+  const [aiNotice, setAiNotice] = useState<string | null>(null);
+  const [aiQueueStatus, setAiQueueStatus] = useState<QueueStatus | null>(null);
+  const aiAbortRef = useRef<AbortController | null>(null);
+  // آخر مزامنة لمواعيد كل دواء؛ الحفظ التالي ينتظرها
+  const medicationSyncRef = useRef(new Map<string, Promise<void>>());
   const [aiSuccess, setAiSuccess] = useState<string | null>(null);
+  const [aiDrafts, setAiDrafts] = useState<AtlasDraft[]>([]);
+  const [aiCommitting, setAiCommitting] = useState(false);
+  const [aiReviewError, setAiReviewError] = useState<string | null>(null);
 
-  const [editTarget, setEditTarget] = useState<Appointment | null>(null);
+  const [editTarget, setEditTarget] = useState<Occurrence<Appointment> | null>(null);
   const [editForm, setEditForm] = useState<FormModel>(manual);
+  const [editScope, setEditScope] = useState<EditScope>("this");
   const [editLoading, setEditLoading] = useState(false);
   const [editError, setEditError] = useState<string | null>(null);
   const editRef = useRef<HTMLDivElement | null>(null);
   const manualRef = useRef<HTMLDivElement | null>(null);
-  const [nextReminder, setNextReminder] = useState<Appointment | null>(null);
+  const [nextReminder, setNextReminder] = useState<Occurrence<Appointment> | null>(null);
   const [minutesToReminder, setMinutesToReminder] = useState<number | null>(null);
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>(typeof Notification === "undefined" ? "default" : Notification.permission);
   const [notificationError, setNotificationError] = useState<string | null>(null);
-  const [tone, setTone] = useState<ToneName>("soft");
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [pushChannelActive, setPushChannelActive] = useState(false);
+  const [emailPrefs, setEmailPrefs] = useState<EmailPreferences>(defaultEmailPreferences);
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const [calendarFeed, setCalendarFeed] = useState<CalendarFeed | null>(null);
+  const [calendarFeedError, setCalendarFeedError] = useState<string | null>(null);
+  const [pushError, setPushError] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [dashboardView, setDashboardView] = useState<"list" | "calendar">("list");
+  // معرفات الوسوم المختارة لتصفية اللوحة؛ الموعد يظهر إن حمل أيًا منها
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [showIcs, setShowIcs] = useState(false);
+  const [showAssistant, setShowAssistant] = useState(false);
+  const [assistantEntries, setAssistantEntries] = useState<AssistantEntry[]>([]);
+  const [assistantPending, setAssistantPending] = useState<PendingAction | null>(null);
+  const [assistantBusy, setAssistantBusy] = useState(false);
+  const [assistantError, setAssistantError] = useState<string | null>(null);
+  const [assistantQueueStatus, setAssistantQueueStatus] = useState<QueueStatus | null>(null);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [doseLog, setDoseLog] = useState<MedicationDose[]>([]);
+  const [medicationDrafts, setMedicationDrafts] = useState<MedicationInput[]>([]);
+  const [medicationBusy, setMedicationBusy] = useState(false);
+  const [medicationError, setMedicationError] = useState<string | null>(null);
+  const [scheduleReview, setScheduleReview] = useState<ScheduleReview | null>(null);
   const [errorModal, setErrorModal] = useState<ErrorModalState>(null);
-  const notifiedRef = useRef<Set<string>>(new Set());
+  const [deleteTarget, setDeleteTarget] = useState<Occurrence<Appointment> | null>(null);
+  // المفتاح يتغير مع كل فتح حتى يبدأ النموذج من القيم المعبأة مسبقًا
+  const [bugReport, setBugReport] = useState<{ key: number; prefill: { title: string; description: string } | null } | null>(null);
+  const [bugReports, setBugReports] = useState<BugReport[]>([]);
+  const [bugReportsLoading, setBugReportsLoading] = useState(false);
+  const [bugReportBusy, setBugReportBusy] = useState(false);
+  const [bugReportError, setBugReportError] = useState<string | null>(null);
   const audioCtxRef = useRef<AudioContext | null>(null);
 
   useEffect(() => {
@@ -462,17 +714,96 @@ export default function App() {
     if (session) fetch();
   }, [session, fetch]);
 
+  // تحديث رمز الجلسة يغيّر كائن session؛ المزامنة تتكرر فقط عند تغيّر المستخدم
+  const sessionUserId = session?.user.id;
+  useEffect(() => {
+    if (sessionUserId) hydrateSettings(sessionUserId);
+  }, [sessionUserId, hydrateSettings]);
+
+  // تعديلات الإعدادات التي حُفظت دون اتصال تُرفع عند عودته
+  useEffect(() => {
+    window.addEventListener("online", flushSettings);
+    return () => window.removeEventListener("online", flushSettings);
+  }, [flushSettings]);
+
+  const reminderChannels = useMemo(() => reminderChannelsFor(pushChannelActive, emailPrefs.enabled), [pushChannelActive, emailPrefs.enabled]);
+
+  useEffect(() => {
+    configureReminders({ weekStart: settings.weekStart, timeZone: settings.timezone, channels: reminderChannels });
+  }, [configureReminders, settings.weekStart, settings.timezone, reminderChannels]);
+
   useEffect(() => {
-    if (typeof window !== "undefined") {
-      window.localStorage.setItem("nabiuhSettings", JSON.stringify(settings));
+    if (!session) return;
+    loadEmailPreferences(session.user.id)
+      .then(setEmailPrefs)
+      .catch(() => setEmailPrefs(defaultEmailPreferences));
+  }, [session]);
+
+  useEffect(() => {
+    if (!session || !isCalendarFeedConfigured()) return;
+    loadCalendarFeed(session.user.id)
+      .then(setCalendarFeed)
+      .catch(() => setCalendarFeed(null));
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    fetchTags().then(migrateLegacyTags);
+  }, [session, fetchTags, migrateLegacyTags]);
+
+  useEffect(() => {
+    if (!session) return;
+    loadMedications(session.user.id)
+      .then(setMedications)
+      .catch(() => setMedications([]));
+    loadDoseLog(session.user.id, doseLogSince())
+      .then(setDoseLog)
+      .catch(() => setDoseLog([]));
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    getPushSubscription()
+      .then((sub) => setPushEnabled(!!sub))
+      .catch(() => setPushEnabled(false));
+    hasPushSubscriptions(session.user.id)
+      .then(setPushChannelActive)
+      .catch(() => setPushChannelActive(false));
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    const runAction = (action: ReminderAction, appointmentId: string, occurrenceStart?: string) => {
+      const task = action === "done" ? markDone(appointmentId, occurrenceStart).then(() => loadDoseLog(session.user.id, doseLogSince()).then(setDoseLog)) : snooze(appointmentId, occurrenceStart, 10);
+      task.catch((err) => setErrorModal({ title: "تعذر تنفيذ إجراء التذكير", message: err instanceof Error ? err.message : "خطأ غير متوقع. حاول مجددًا." }));
+    };
+
+    // إجراء أُرسل من إشعار بينما لم تكن هناك نافذة مفتوحة فيُمرر عبر الرابط
+    const params = new URLSearchParams(window.location.search);
+    const pending = params.get("reminderAction");
+    const pendingId = params.get("appointment");
+    if ((pending === "done" || pending === "snooze") && pendingId) {
+      runAction(pending, pendingId, params.get("occurrence") ?? undefined);
+      ["reminderAction", "appointment", "occurrence"].forEach((k) => params.delete(k));
+      const query = params.toString();
+      window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
     }
-  }, [settings]);
+
+    if (!("serviceWorker" in navigator)) return;
+    const onMessage = (event: MessageEvent) => {
+      if (isReminderActionMessage(event.data)) runAction(event.data.action, event.data.appointmentId, event.data.occurrenceStart);
+    };
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return () => navigator.serviceWorker.removeEventListener("message", onMessage);
+  }, [session, markDone, snooze]);
 
   useEffect(() => {
     const interval = setInterval(() => {
       const now = Date.now();
-      const upcoming = [...items]
+      const horizon = new Date(now + 24 * 60 * 60 * 1000);
+      const upcoming = items
         .filter((a) => a.status === "scheduled")
+        .flatMap((a) => expandOccurrences(a, new Date(now), horizon, settings.weekStart, settings.timezone))
         .map((a) => {
           const windowMinutes = a.reminder_minutes_before ?? settings.reminderWindowMinutes;
           const diff = new Date(a.start_at).getTime() - now;
@@ -489,20 +820,12 @@ export default function App() {
       }
     }, 30_000);
     return () => clearInterval(interval);
-  }, [items, settings.reminderWindowMinutes]);
+  }, [items, settings.reminderWindowMinutes, settings.weekStart, settings.timezone]);
 
   useEffect(() => {
-    if (typeof window !== "undefined") {
-      const savedTone = window.localStorage.getItem("nabiuhTone");
-      if (savedTone === "soft" || savedTone === "bright" || savedTone === "digital" || savedTone === "calm" || savedTone === "alert") setTone(savedTone as ToneName);
-    }
     if (typeof Notification !== "undefined") setNotificationPermission(Notification.permission);
   }, []);
 
-  useEffect(() => {
-    if (typeof window !== "undefined") window.localStorage.setItem("nabiuhTone", tone);
-  }, [tone]);
-
   useEffect(() => {
     return () => {
       if (audioCtxRef.current) audioCtxRef.current.close().catch(() => {});
@@ -510,30 +833,62 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    const future = new Set(items.filter((a) => a.status === "scheduled").map((a) => a.id));
-    notifiedRef.current.forEach((id) => {
-      if (!future.has(id)) notifiedRef.current.delete(id);
-    });
+    if (!session) return;
+    const userId = session.user.id;
+    let active = true;
+    // التذكيرات محفوظة في جدول reminders؛ الجهاز الذي ينجح في حجز التذكير هو وحده من ينبّه
+    const deliver = async () => {
+      try {
+        const due = await fetchDueReminders<Appointment>(supabase, { channels: ["app"], userId });
+        for (const reminder of due) {
+          if (!active || !(await claimReminder(supabase, reminder.id))) continue;
+          const minutes = Math.round((new Date(reminder.occurrence_start).getTime() - Date.now()) / 60000);
+          // تذكيرات المواعيد التي فاتت أثناء إغلاق التطبيق تُعلَّم مرسلة دون تنبيه
+          if (minutes < 0) continue;
+          playTone(settings.tone);
+          if (typeof Notification !== "undefined" && notificationPermission === "granted") {
+            const body = `${reminder.appointment?.title ?? "موعد"} بعد ${Math.max(1, minutes)} دقيقة`;
+            new Notification("تذكير بالموعد", { body, tag: `reminder-${reminder.id}` });
+          }
+        }
+      } catch (err) {
+        console.error("Deliver reminders error:", err instanceof Error ? err.message : err);
+      }
+    };
+    deliver();
+    const interval = setInterval(deliver, 30_000);
+    return () => {
+      active = false;
+      clearInterval(interval);
+    };
+  }, [session, settings.tone, notificationPermission]);
+
+  const tagUsage = useMemo(() => {
+    const usage: Record<string, number> = {};
+    for (const a of items) for (const id of a.tag_ids ?? []) usage[id] = (usage[id] ?? 0) + 1;
+    return usage;
   }, [items]);
 
-  useEffect(() => {
-    if (!nextReminder || minutesToReminder === null) return;
-    if (minutesToReminder > settings.reminderWindowMinutes) return;
-    const id = nextReminder.id;
-    if (notifiedRef.current.has(id)) return;
-    notifiedRef.current.add(id);
-    playTone(tone);
-    if (typeof Notification !== "undefined" && notificationPermission === "granted") {
-      const body = `${nextReminder.title} بعد ${minutesToReminder} دقيقة`;
-      new Notification("تذكير بالموعد", { body, tag: `appointment-${id}` });
-    }
-  }, [nextReminder, minutesToReminder, tone, notificationPermission, settings.reminderWindowMinutes]);
+  // الوسم المحذوف يخرج من التصفية تلقائيًا
+  const activeTagFilter = useMemo(() => tagFilter.filter((id) => tags.some((t) => t.id === id)), [tagFilter, tags]);
+  const visibleItems = useMemo(
+    () => (activeTagFilter.length ? items.filter((a) => a.tag_ids?.some((id) => activeTagFilter.includes(id))) : items),
+    [items, activeTagFilter]
+  );
 
   const sortedItems = useMemo(() => {
-    return [...items].sort((a, b) => {
+    const from = startOfZonedDay(todayKeyIn(settings.timezone), settings.timezone);
+    const to = new Date(from.getTime() + LIST_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+    // السلسلة التي لا تقع أي من تكراراتها ضمن النطاق تظهر ببطاقتها الأصلية حتى يبقى تعديلها ممكنًا
+    const occurrences = visibleItems.flatMap((a): Occurrence<Appointment>[] => {
+      if (!a.recurrence) return [{ ...a, occurrence_start: a.start_at }];
+      const expanded = expandOccurrences(a, from, to, settings.weekStart, settings.timezone);
+      return expanded.length ? expanded : [{ ...a, occurrence_start: a.start_at }];
+    });
+    return occurrences.sort((a, b) => {
       if (a.status !== b.status) return statusOrder[a.status] - statusOrder[b.status];
-      const tagA = a.tag ?? "";
-      const tagB = b.tag ?? "";
+      const tagA = tagNamesOf(tags, a.tag_ids)[0] ?? "";
+      const tagB = tagNamesOf(tags, b.tag_ids)[0] ?? "";
       if (tagA !== tagB) return tagA.localeCompare(tagB, "ar");
       const reminderA = a.reminder_minutes_before ?? settings.reminderWindowMinutes;
       const reminderB = b.reminder_minutes_before ?? settings.reminderWindowMinutes;
@@ -541,7 +896,7 @@ export default function App() {
       if (a.priority !== b.priority) return priorityOrder[a.priority] - priorityOrder[b.priority];
       return new Date(a.start_at).getTime() - new Date(b.start_at).getTime();
     });
-  }, [items, settings.reminderWindowMinutes]);
+  }, [visibleItems, tags, settings.reminderWindowMinutes, settings.weekStart, settings.timezone]);
 
   const userInitial = (session?.user?.email ?? "").slice(0, 1).toUpperCase() || "أ";
 
@@ -556,6 +911,71 @@ export default function App() {
       .catch((err) => setNotificationError(err instanceof Error ? err.message : "تعذر طلب الصلاحية."));
   }
 
+  async function togglePush() {
+    setPushError(null);
+    try {
+      if (pushEnabled) {
+        await unsubscribeFromPush();
+        setPushEnabled(false);
+      } else if (session) {
+        if (typeof Notification !== "undefined" && Notification.permission !== "granted") {
+          const perm = await Notification.requestPermission();
+          setNotificationPermission(perm);
+          if (perm !== "granted") throw new Error("يجب السماح بالتنبيهات لتفعيل إشعارات الدفع.");
+        }
+        await subscribeToPush(session.user.id);
+        setPushEnabled(true);
+      }
+      if (session) {
+        const active = await hasPushSubscriptions(session.user.id);
+        setPushChannelActive(active);
+        configureReminders({ channels: reminderChannelsFor(active, emailPrefs.enabled) });
+        await resyncReminders();
+      }
+    } catch (err) {
+      setPushError(err instanceof Error ? err.message : "تعذر تحديث اشتراك إشعارات الدفع.");
+    }
+  }
+
+  async function changeEmailPrefs(prefs: EmailPreferences) {
+    if (!session) return;
+    setEmailError(null);
+    const previous = emailPrefs;
+    setEmailPrefs(prefs);
+    try {
+      await saveEmailPreferences(session.user.id, prefs);
+      if (prefs.enabled !== previous.enabled) {
+        configureReminders({ channels: reminderChannelsFor(pushChannelActive, prefs.enabled) });
+        await resyncReminders();
+      }
+    } catch (err) {
+      setEmailPrefs(previous);
+      setEmailError(err instanceof Error ? err.message : "تعذر حفظ تفضيلات البريد.");
+    }
+  }
+
+  async function rotateFeed() {
+    if (!session) return;
+    if (calendarFeed && !window.confirm("سيتوقف الرابط الحالي عن العمل في كل التقويمات المشتركة به. المتابعة؟")) return;
+    setCalendarFeedError(null);
+    try {
+      setCalendarFeed(await rotateCalendarFeed(session.user.id));
+    } catch (err) {
+      setCalendarFeedError(err instanceof Error ? err.message : "تعذر إنشاء رابط الاشتراك.");
+    }
+  }
+
+  async function revokeFeed() {
+    if (!session || !window.confirm("إلغاء رابط الاشتراك؟ ستتوقف التقويمات المشتركة عن التحديث.")) return;
+    setCalendarFeedError(null);
+    try {
+      await revokeCalendarFeed(session.user.id);
+      setCalendarFeed(null);
+    } catch (err) {
+      setCalendarFeedError(err instanceof Error ? err.message : "تعذر إلغاء رابط الاشتراك.");
+    }
+  }
+
   function playTone(name: ToneName) {
     if (typeof window === "undefined") return;
     const AudioCtor = (window as typeof window & { webkitAudioContext?: typeof AudioContext }).AudioContext || (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
@@ -628,9 +1048,25 @@ export default function App() {
 
   async function handleLogout() {
     await supabase.auth.signOut();
+    signOutSettings();
     setSession(null);
   }
 
+  // يعرض نافذة التعارض عند الحاجة وينتظر اختيار المستخدم؛ نقرأ المواعيد من المخزن مباشرة لأن الإدراج المتتالي يحدّثها
+  function reviewSchedule(candidate: Pick<Appointment, "id" | "title" | "start_at" | "end_at" | "recurrence" | "status">, excludeId?: string) {
+    const times = { start_at: candidate.start_at, end_at: candidate.end_at };
+    if (candidate.status !== "scheduled") return Promise.resolve(times);
+    const policy: SchedulingPolicy = { bufferMinutes: settings.bufferMinutes, workingHours: settings.workingHours, timeZone: settings.timezone, weekStart: settings.weekStart };
+    const check = checkSchedule(candidate, useAppointments.getState().items, policy, { excludeId });
+    if (!check.conflicts.length && !check.outsideWorkingHours) return Promise.resolve(times);
+    return new Promise<{ start_at: string; end_at?: string } | null>((resolve) => setScheduleReview({ title: candidate.title, check, times, resolve }));
+  }
+
+  function closeScheduleReview(times: { start_at: string; end_at?: string } | null) {
+    scheduleReview?.resolve(times);
+    setScheduleReview(null);
+  }
+
   async function handleManualSubmit(e: FormEvent) {
     e.preventDefault();
     setManualError(null);
@@ -640,23 +1076,33 @@ export default function App() {
     }
     setManualLoading(true);
     try {
-      const now = new Date();
-      const date = manual.date || now.toISOString().slice(0, 10);
-      const time = manual.time || "09:00";
-      const start = new Date(`${date}T${time}`);
-      const start_at = isNaN(start.getTime()) ? now.toISOString() : start.toISOString();
-      const end_at = manual.endTime ? new Date(`${date}T${manual.endTime}`).toISOString() : undefined;
-      await add({
-        title: manual.title.trim(),
-        description: manual.description.trim() || undefined,
-        location: manual.location.trim() || undefined,
-        tag: manual.tag.trim() || null,
-        reminder_minutes_before: manual.reminderMinutes ? parseInt(manual.reminderMinutes, 10) : null,
-        start_at,
-        end_at,
-        priority: manual.priority,
-        status: manual.status,
-      });
+      // الحقول بتوقيت منطقة المستخدم وتُحفظ بتوقيت UTC
+      const parsed = fromWallTimes({ date: manual.date || todayKeyIn(settings.timezone), time: manual.time || "09:00", endTime: manual.endTime }, settings.timezone);
+      if (!parsed) throw new Error("تاريخ أو وقت غير صالح.");
+      const { start_at, end_at } = parsed;
+      const recurrence = formToRecurrence(manual.recurrence);
+      const times = await reviewSchedule({ id: "new", title: manual.title.trim(), start_at, end_at, recurrence, status: manual.status });
+      if (!times) return;
+      const outcome = evaluateRules(settings.rules, { title: manual.title, notes: manual.description, location: manual.location, tag: manual.tags[0] });
+      // القواعد تكمل الحقول الفارغة، وتحدد الأولوية فقط إن بقيت على الافتراضية
+      await add(
+        fillFromRules(
+          {
+            title: manual.title.trim(),
+            description: manual.description.trim() || undefined,
+            location: manual.location.trim() || undefined,
+            tags: manual.tags,
+            reminder_minutes_before: manual.reminderMinutes ? parseInt(manual.reminderMinutes, 10) : null,
+            reminder_offsets: parseReminderOffsets(manual.extraReminders),
+            ...times,
+            priority: manual.priority,
+            status: manual.status,
+            recurrence,
+          },
+          outcome,
+          { priority: manual.priority === settings.defaultPriority }
+        )
+      );
       setManual(getManualTemplate(settings));
       fetch();
     } catch (err) {
@@ -677,23 +1123,33 @@ export default function App() {
     }
     setEditLoading(true);
     try {
-      const base = toDateParts(editTarget);
-      const date = editForm.date || base.date;
-      const time = editForm.time || base.time;
-      const start = new Date(`${date}T${time}`);
-      const start_at = isNaN(start.getTime()) ? editTarget.start_at : start.toISOString();
-      const end_at = editForm.endTime ? new Date(`${date}T${editForm.endTime}`).toISOString() : undefined;
-      await update(editTarget.id, {
+      const base = toWallTimes(editTarget, settings.timezone);
+      const parsed = fromWallTimes({ date: editForm.date || base.date, time: editForm.time || base.time, endTime: editForm.endTime }, settings.timezone);
+      if (!parsed) throw new Error("تاريخ أو وقت غير صالح.");
+      const { start_at, end_at } = parsed;
+      const series = items.find((i) => i.id === editTarget.id);
+      const patch: AppointmentPatch = {
         title: editForm.title.trim(),
         description: editForm.description.trim() || undefined,
         location: editForm.location.trim() || undefined,
-        tag: editForm.tag.trim() || null,
+        tags: editForm.tags,
         reminder_minutes_before: editForm.reminderMinutes ? parseInt(editForm.reminderMinutes, 10) : null,
+        reminder_offsets: parseReminderOffsets(editForm.extraReminders),
         start_at,
         end_at,
         priority: editForm.priority,
         status: editForm.status,
-      });
+        recurrence: formToRecurrence(editForm.recurrence, series?.recurrence?.exceptions),
+      };
+      const singleOccurrence = !!series?.recurrence && editScope === "this";
+      const times = await reviewSchedule(
+        { id: editTarget.id, title: editForm.title.trim(), start_at, end_at, recurrence: singleOccurrence ? null : patch.recurrence, status: editForm.status },
+        editTarget.id
+      );
+      if (!times) return;
+      Object.assign(patch, times);
+      if (series?.recurrence) await updateOccurrence(series, editTarget.occurrence_start, patch, editScope, settings.weekStart, settings.timezone);
+      else await update(editTarget.id, patch);
       setEditTarget(null);
       fetch();
     } catch (err) {
@@ -704,32 +1160,424 @@ export default function App() {
     }
   }
 
-  async function handleAiSubmit(e: FormEvent) {
+  function openEdit(a: Occurrence<Appointment>) {
+    setEditTarget(a);
+    setEditForm({
+      ...toWallTimes(a, settings.timezone),
+      title: a.title,
+      location: a.location ?? "",
+      description: a.description ?? "",
+      priority: a.priority,
+      status: a.status,
+      tags: tagNamesOf(tags, a.tag_ids),
+      reminderMinutes: a.reminder_minutes_before ? String(a.reminder_minutes_before) : "",
+      extraReminders: a.reminder_offsets?.join(", ") ?? "",
+      recurrence: recurrenceToForm(a.recurrence),
+    });
+    setEditScope("this");
+    editRef.current?.scrollIntoView({ behavior: "smooth" });
+  }
+
+  // الموعد المنفرد يُحذف مباشرة كما كان، وتكرار السلسلة يسأل عن النطاق أولًا
+  function requestDelete(a: Occurrence<Appointment>) {
+    if (a.recurrence) setDeleteTarget(a);
+    else remove(a.id);
+  }
+
+  async function handleDeleteScope(scope: "this" | "all") {
+    const target = deleteTarget;
+    setDeleteTarget(null);
+    if (!target) return;
+    try {
+      const series = items.find((i) => i.id === target.id) ?? target;
+      if (scope === "all") await remove(series.id);
+      else await removeOccurrence(series, target.occurrence_start, settings.timezone);
+    } catch (err) {
+      setErrorModal({ title: "تعذر حذف الموعد", message: err instanceof Error ? err.message : "خطأ غير متوقع. حاول مجددًا." });
+    }
+  }
+
+  // السحب في التقويم يعيد جدولة هذا التكرار فقط عندما يكون الموعد ضمن سلسلة
+  async function handleReschedule(occurrence: Occurrence<Appointment>, next: { start_at: string; end_at?: string }) {
+    try {
+      const series = items.find((i) => i.id === occurrence.id);
+      if (series?.recurrence) await updateOccurrence(series, occurrence.occurrence_start, next, "this", settings.weekStart, settings.timezone);
+      else await update(occurrence.id, next);
+    } catch (err) {
+      setErrorModal({ title: "تعذر نقل الموعد", message: err instanceof Error ? err.message : "خطأ غير متوقع. حاول مجددًا." });
+    }
+  }
+
+  // يُستبعد ما استُورد سابقًا بحسب الحالة الحالية للمخزن (استيراد مكرر أو من نافذة أخرى)، والباقي يُدرج دفعة واحدة مع UID لمنع تكرار الاستيراد
+  async function handleIcsImport(events: ParsedIcsEvent[]) {
+    const existing = useAppointments.getState().items;
+    const fresh = events.filter((e, i) => !isDuplicateEvent(e, existing) && events.findIndex((o) => o.uid === e.uid) === i);
+    await addMany(
+      fresh.map((e) => ({
+        title: e.title,
+        description: e.description,
+        start_at: e.start_at,
+        end_at: e.end_at,
+        location: e.location,
+        tags: e.categories,
+        priority: e.priority,
+        status: e.status,
+        reminder_minutes_before: e.reminder_minutes_before,
+        reminder_offsets: e.reminder_offsets,
+        recurrence: e.recurrence,
+        ics_uid: e.uid,
+      }))
+    );
+  }
+
+  function changeAiDraft(key: string, field: DraftField, value: string) {
+    setAiDrafts((drafts) =>
+      drafts.map((d) => {
+        if (d.key !== key) return d;
+        const flags = { ...d.flags };
+        delete flags[field];
+        return { ...d, values: { ...d.values, [field]: value }, flags };
+      })
+    );
+  }
+
+  // المسودات المقبولة تُتحقق كلها أولًا ثم تُحفظ؛ كل مسودة تُزال فور حفظها فلا تتكرر عند إعادة المحاولة بعد فشل في المنتصف
+  async function handleAiCommit() {
+    setAiReviewError(null);
+    let toInsert: { key: string; title: string; appt: AtlasDraft["base"] }[];
+    try {
+      toInsert = aiDrafts
+        .filter((d) => d.accepted)
+        .map((d) => ({ key: d.key, title: d.values.title, appt: applyDraftValues(d.base, d.values, settings.timezone) }));
+    } catch (err) {
+      setAiReviewError(err instanceof Error ? err.message : "تحقق من الحقول.");
+      return;
+    }
+    setAiCommitting(true);
+    let inserted = 0;
+    const failed: { title: string; message: string }[] = [];
+    // مسودات ألغى المستخدم نافذة التعارض لها: لا تُحفظ ولا تُحذف
+    const skipped: string[] = [];
+    try {
+      for (const { key, title, appt } of toInsert) {
+        try {
+          const times = await reviewSchedule({ id: "new", ...appt, status: appt.status ?? "scheduled" });
+          if (!times) {
+            skipped.push(title);
+            continue;
+          }
+          await add({ ...appt, ...times });
+          inserted++;
+          setAiDrafts((drafts) => drafts.filter((d) => d.key !== key));
+        } catch (err) {
+          failed.push({ title, message: err instanceof Error ? err.message : "خطأ غير متوقع." });
+        }
+      }
+    } finally {
+      setAiCommitting(false);
+    }
+    if (inserted) fetch();
+    if (!failed.length && !skipped.length) {
+      setAiSuccess(`تمت إضافة ${inserted} موعد/مواعيد.`);
+      setAiDrafts([]);
+      setAiText("");
+      return;
+    }
+    // المسودات غير المحفوظة تبقى للمراجعة وإعادة المحاولة
+    const details = [...failed.map((f) => `- ${f.title}: ${f.message}`), ...skipped.map((title) => `- ${title}: أُلغي عند مراجعة التعارض.`)].join("\n");
+    if (inserted) setAiSuccess(`تمت إضافة ${inserted} موعد/مواعيد.`);
+    setAiReviewError(`لم يُحفظ ${failed.length + skipped.length} موعد/مواعيد وبقيت للمراجعة:\n${details}`);
+    if (failed.length) {
+      setErrorModal({ title: "تعذر حفظ بعض المواعيد المستخرجة", message: `${inserted ? `حُفظ ${inserted} وبقي الباقي للمراجعة.\n` : ""}${details}` });
+    }
+  }
+
+  async function handleAssistantSend(text: string) {
+    const history: AssistantEntry[] = [...assistantEntries, { role: "user", text }];
+    setAssistantEntries(history);
+    setAssistantError(null);
+    setAssistantBusy(true);
+    try {
+      const now = new Date();
+      const turn = await runAssistantTurn(history, {
+        reply: (h) => chatWithAssistant(h, { now, timeZone: settings.timezone }, { onStatus: setAssistantQueueStatus }),
+        items: () => useAppointments.getState().items,
+        now,
+        timeZone: settings.timezone,
+        weekStart: settings.weekStart,
+      });
+      setAssistantEntries([...history, ...turn.entries]);
+      setAssistantPending(turn.pending);
+    } catch (err) {
+      setAssistantError(isRateLimitError(err) ? "الرجاء الانتظار ثم المحاولة مجددًا (429)." : err instanceof Error ? err.message : "حدث خطأ غير متوقع.");
+    } finally {
+      setAssistantBusy(false);
+      setAssistantQueueStatus(null);
+    }
+  }
+
+  // تغييرات المساعد تمر بفحص التعارض نفسه؛ false إن تراجع المستخدم من نافذة التعارض
+  async function applyAssistantMutation(mutation: AssistantMutation) {
+    if (mutation.kind === "add") {
+      const times = await reviewSchedule({ id: "new", ...mutation.values, recurrence: null, status: "scheduled" });
+      if (!times) return false;
+      const outcome = evaluateRules(settings.rules, { title: mutation.values.title, notes: mutation.values.description, location: mutation.values.location });
+      await add(fillFromRules({ ...mutation.values, ...times, priority: settings.defaultPriority }, outcome, { priority: true }));
+      return true;
+    }
+    if (mutation.kind === "markDone") {
+      await markDone(mutation.id, mutation.occurrenceStart);
+      return true;
+    }
+    if (mutation.kind === "remove") {
+      await remove(mutation.id);
+      return true;
+    }
+    const series = useAppointments.getState().items.find((i) => i.id === mutation.id);
+    if (!series) throw new Error("الموعد لم يعد موجودًا.");
+    let patch: Partial<Appointment> = mutation.patch;
+    if (mutation.patch.start_at) {
+      const times = await reviewSchedule({ ...series, ...mutation.patch, recurrence: mutation.occurrenceStart ? null : series.recurrence }, series.id);
+      if (!times) return false;
+      patch = { ...patch, ...times };
+    }
+    if (series.recurrence && mutation.occurrenceStart) await updateOccurrence(series, mutation.occurrenceStart, patch, "this", settings.weekStart, settings.timezone);
+    else await update(series.id, patch);
+    return true;
+  }
+
+  async function handleAssistantConfirm() {
+    const action = assistantPending;
+    if (!action) return;
+    setAssistantBusy(true);
+    setAssistantError(null);
+    try {
+      const applied = await applyAssistantMutation(action.mutation);
+      setAssistantEntries((entries) => [
+        ...entries,
+        { role: "tool", text: JSON.stringify(applied ? { done: action.summary } : { rejected: action.summary }) },
+        { role: "assistant", text: applied ? `تم: ${action.summary}.` : "لم أغيّر شيئًا.", call: null },
+      ]);
+      setAssistantPending(null);
+    } catch (err) {
+      setAssistantError(err instanceof Error ? err.message : "تعذر تنفيذ العملية.");
+    } finally {
+      setAssistantBusy(false);
+    }
+  }
+
+  function handleAssistantReject() {
+    const action = assistantPending;
+    if (!action) return;
+    setAssistantEntries((entries) => [
+      ...entries,
+      { role: "tool", text: JSON.stringify({ rejected: action.summary }) },
+      { role: "assistant", text: "حسنًا، لم أغيّر شيئًا.", call: null },
+    ]);
+    setAssistantPending(null);
+  }
+
+  function resetAssistant() {
+    setAssistantEntries([]);
+    setAssistantPending(null);
+    setAssistantError(null);
+  }
+
+  function handleAiSubmit(e: FormEvent) {
     e.preventDefault();
+    runAiExtraction(aiText);
+  }
+
+  // النص المكتوب والمفرَّغ من التسجيل الصوتي يمران بالمسار نفسه
+  function handleVoiceTranscript(transcript: string) {
+    setAiText(transcript);
+    runAiExtraction(transcript);
+  }
+
+  function handleDocumentText(text: string) {
+    setAiText(text);
+    runAiExtraction(text, "document");
+  }
+
+  // نص المستندات يُرسل للنموذج مع سياق مصدره، أما المحلل المحلي فيرى النص كما هو
+  async function runAiExtraction(input: string, source: "text" | "document" = "text") {
     setAiError(null);
     setAiSuccess(null);
-    if (!aiText.trim()) {
+    if (!input.trim()) {
       setAiError("اكتب تفاصيل الموعد أولاً.");
       return;
     }
+    setAiNotice(null);
+    const text = input.trim();
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
+    // المسودات تُبنى بالمفاتيح نفسها أثناء التدفق وبعده فلا تُعاد تهيئة الحقول
+    const stamp = Date.now();
+    const toDraft = (raw: AtlasAppointment, i: number): AtlasDraft => {
+      const outcome = atlasRuleOutcome(raw, settings.rules);
+      const base = convertAtlasToAppointment(raw, outcome, settings.timezone);
+      return { key: `${stamp}-${i}`, accepted: true, values: draftValuesFrom(base, settings.timezone), flags: atlasDraftFlags(raw, outcome, settings.timezone), base };
+    };
+    setAiReviewError(null);
+    setAiDrafts([]);
+    setMedicationDrafts([]);
     setAiLoading(true);
     try {
-      const res = await sendToAtlas(aiText.trim());
-      const content = res.assistant;
-      const parsed = typeof content === "string" ? extractAppointmentsJSON(content) : content;
-      const appointmentsRaw = Array.isArray(parsed?.appointments) ? parsed.appointments : [];
+      // التواريخ النسبية (غدًا، الأحد القادم) تُحسب من يوم المستخدم في منطقته لا من يوم الجهاز
+      const now = wallClockDate(settings.timezone);
+      const local = parseArabicAppointments(text, now);
+      let appointmentsRaw: AtlasAppointment[];
+      if (settings.localParserFirst && isConfidentParse(local)) {
+        appointmentsRaw = local;
+      } else {
+        try {
+          const prompt = source === "document" ? documentExtractionPrompt(text) : text;
+          if (source === "document" && prompt.length < documentExtractionPrompt("").length + text.length) {
+            setAiNotice("المستند طويل، فحُلّل جزؤه الأول فقط. راجع المواعيد الناقصة يدويًا.");
+          }
+          ({ appointments: appointmentsRaw } = await extractAppointments(prompt, now, {
+            onStatus: setAiQueueStatus,
+            signal: controller.signal,
+            maxInputChars: source === "document" ? MAX_DOCUMENT_PROMPT_CHARS : undefined,
+            // الأدوية لا تُعرض كمسودات مواعيد بل كخطط دواء بعد اكتمال التحليل
+            onAppointment: (raw, i) => {
+              if (raw.type === "medication") return;
+              setAiDrafts((drafts) => [...drafts.filter((d) => d.key !== `${stamp}-${i}`), toDraft(raw, i)]);
+            },
+          }));
+        } catch (err) {
+          if (controller.signal.aborted) throw err;
+          // تعذر الوصول للنموذج (مفتاح مفقود، 429، شبكة): نعتمد المحلل المحلي إن فهم النص
+          if (!local.length) throw err;
+          appointmentsRaw = local;
+          setAiNotice(`تعذر الوصول إلى الذكاء الاصطناعي، فتم التحليل محليًا. راجع الحقول بعناية. (${err instanceof Error ? err.message : "خطأ غير متوقع"})`);
+        }
+      }
       if (!appointmentsRaw.length) throw new Error("لم يتم استخراج أي مواعيد.");
-      const toInsert = appointmentsRaw.map((item: AtlasAppointment) => convertAtlasToAppointment(item));
-      for (const appt of toInsert) await add(appt);
-      setAiSuccess(`تمت إضافة ${toInsert.length} موعد/مواعيد.`);
-      setAiText("");
-      fetch();
+      const today = todayKeyIn(settings.timezone);
+      setMedicationDrafts(appointmentsRaw.filter((raw) => raw.type === "medication").map((raw) => medicationFromAtlas(raw, today)));
+      // لا يُحفظ شيء قبل مراجعة المستخدم للمسودات
+      setAiDrafts(appointmentsRaw.map(toDraft).filter((_, i) => appointmentsRaw[i].type !== "medication"));
     } catch (err) {
+      // الإلغاء ليس خطأ: تبقى المواعيد التي اكتملت قبله متاحة للمراجعة
+      if (controller.signal.aborted) {
+        setAiNotice("تم إلغاء التحليل. المواعيد المعروضة هي ما اكتمل قبل الإلغاء.");
+        return;
+      }
       setAiError(isRateLimitError(err) ? "الرجاء الانتظار ثم المحاولة مجددًا (429)." : err instanceof Error ? err.message : "حدث خطأ غير متوقع.");
       const msg = isRateLimitError(err) ? "تجاوزت الحد المسموح. الرجاء الانتظار ثم المحاولة." : err instanceof Error ? err.message : "حدث خطأ غير متوقع.";
       setErrorModal({ title: "تعذر إضافة الموعد آليًا", message: msg });
     } finally {
       setAiLoading(false);
+      setAiQueueStatus(null);
+      aiAbortRef.current = null;
+    }
+  }
+
+  function openBugReport(prefill: { title: string; description: string } | null) {
+    setBugReportError(null);
+    setBugReport({ key: Date.now(), prefill });
+  }
+
+  async function refreshBugReports() {
+    if (!session) return;
+    setBugReportsLoading(true);
+    try {
+      setBugReports(await loadMyBugReports(session.user.id));
+    } catch (err) {
+      setBugReportError(err instanceof Error ? err.message : "تعذر تحميل البلاغات.");
+    } finally {
+      setBugReportsLoading(false);
+    }
+  }
+
+  async function handleBugReportSubmit(input: BugReportInput, screenshot: File | null) {
+    if (!session) return false;
+    setBugReportBusy(true);
+    setBugReportError(null);
+    try {
+      await submitBugReport(session.user.id, session.user.email ?? null, input, screenshot);
+      return true;
+    } catch (err) {
+      setBugReportError(err instanceof Error ? err.message : "تعذر إرسال البلاغ.");
+      return false;
+    } finally {
+      setBugReportBusy(false);
+    }
+  }
+
+  // مواعيد الجرعات تُطابق الخطة عند كل حفظ حتى تبقى أوقاتها ومدتها صحيحة. الفرق يُحسب من حالة المخزن الحالية
+  // لا من لقطة items ويُطبق بدفعتين، وحفظان متتاليان للدواء نفسه يُنفذان بالترتيب لا معًا
+  function syncMedicationAppointments(med: Medication) {
+    const previous = medicationSyncRef.current.get(med.id) ?? Promise.resolve();
+    const next = previous
+      .catch(() => {})
+      .then(async () => {
+        const plan = planDoseSync(med, useAppointments.getState().items, settings.timezone);
+        await removeMany(plan.remove);
+        await addMany(plan.add);
+      });
+    medicationSyncRef.current.set(med.id, next);
+    return next;
+  }
+
+  async function handleMedicationSave(input: MedicationInput, id?: string) {
+    if (!session) return false;
+    setMedicationBusy(true);
+    setMedicationError(null);
+    try {
+      const saved = await saveMedication(session.user.id, input, id);
+      await syncMedicationAppointments(saved);
+      setMedications((list) => (id ? list.map((m) => (m.id === id ? saved : m)) : [...list, saved]));
+      await fetch();
+      return true;
+    } catch (err) {
+      setMedicationError(err instanceof Error ? err.message : "تعذر حفظ الدواء.");
+      return false;
+    } finally {
+      setMedicationBusy(false);
+    }
+  }
+
+  function handleMedicationToggle(med: Medication) {
+    handleMedicationSave({ ...med, active: !med.active }, med.id);
+  }
+
+  async function handleMedicationDelete(med: Medication) {
+    if (!window.confirm(`حذف ${med.name} وكل مواعيد جرعاته؟`)) return;
+    setMedicationBusy(true);
+    setMedicationError(null);
+    try {
+      await deleteMedication(med.id);
+      setMedications((list) => list.filter((m) => m.id !== med.id));
+      setDoseLog((log) => log.filter((d) => d.medication_id !== med.id));
+      await fetch();
+    } catch (err) {
+      setMedicationError(err instanceof Error ? err.message : "تعذر حذف الدواء.");
+    } finally {
+      setMedicationBusy(false);
+    }
+  }
+
+  // الحذف مع النقل يغيّر وسوم المواعيد فنعيد جلبها
+  async function handleTagDelete(id: string, reassignTo?: string) {
+    await removeTag(id, reassignTo);
+    setTagFilter((ids) => ids.filter((t) => t !== id));
+    await fetch();
+  }
+
+  function toggleTagFilter(id: string) {
+    setTagFilter((ids) => (ids.includes(id) ? ids.filter((t) => t !== id) : [...ids, id]));
+  }
+
+  async function handleDose(med: Medication, scheduledAt: string, status: DoseStatus) {
+    if (!session) return;
+    setMedicationError(null);
+    try {
+      const dose = await recordDose(session.user.id, med.id, scheduledAt, status);
+      setDoseLog((log) => [...log.filter((d) => !(d.medication_id === med.id && new Date(d.scheduled_at).getTime() === new Date(scheduledAt).getTime())), dose]);
+    } catch (err) {
+      setMedicationError(err instanceof Error ? err.message : "تعذر تسجيل الجرعة.");
     }
   }
 
@@ -796,15 +1644,76 @@ export default function App() {
         onClose={() => setShowSettings(false)}
         settings={settings}
         setSettings={setSettings}
-        tone={tone}
-        onToneChange={setTone}
+        tags={tags}
+        tagUsage={tagUsage}
+        onCreateTag={async (name, color) => {
+          await createTag(name, color);
+        }}
+        onUpdateTag={updateTag}
+        onDeleteTag={handleTagDelete}
+        syncStatus={syncStatus}
+        syncError={syncError}
         playTone={playTone}
         notificationPermission={notificationPermission}
         notificationError={notificationError}
         requestBellPermission={requestBellPermission}
+        pushEnabled={pushEnabled}
+        pushError={pushError}
+        onTogglePush={togglePush}
+        emailPrefs={emailPrefs}
+        emailError={emailError}
+        onEmailPrefsChange={changeEmailPrefs}
+        calendarFeed={calendarFeed}
+        calendarFeedError={calendarFeedError}
+        onRotateCalendarFeed={rotateFeed}
+        onRevokeCalendarFeed={revokeFeed}
         onResetManual={() => setManual(getManualTemplate(settings))}
       />
-      <ErrorModal open={!!errorModal} title={errorModal?.title ?? ""} message={errorModal?.message ?? ""} onClose={() => setErrorModal(null)} />
+      <IcsDialog open={showIcs} items={items} tags={tags} weekStart={settings.weekStart} timeZone={settings.timezone} onImport={handleIcsImport} onClose={() => setShowIcs(false)} />
+      <AssistantChat
+        open={showAssistant}
+        entries={assistantEntries}
+        pending={assistantPending}
+        busy={assistantBusy}
+        error={assistantError}
+        queueStatus={assistantQueueStatus}
+        onSend={handleAssistantSend}
+        onConfirm={handleAssistantConfirm}
+        onReject={handleAssistantReject}
+        onReset={resetAssistant}
+        onClose={() => setShowAssistant(false)}
+      />
+      <ConflictDialog
+        check={scheduleReview?.check ?? null}
+        title={scheduleReview?.title ?? ""}
+        timeZone={settings.timezone}
+        onPick={(slot: Slot) => closeScheduleReview(slot)}
+        onProceed={() => closeScheduleReview(scheduleReview?.times ?? null)}
+        onCancel={() => closeScheduleReview(null)}
+      />
+      <DeleteScopeModal target={deleteTarget} timeZone={settings.timezone} onChoose={handleDeleteScope} onClose={() => setDeleteTarget(null)} />
+      <ErrorModal
+        open={!!errorModal}
+        title={errorModal?.title ?? ""}
+        message={errorModal?.message ?? ""}
+        onClose={() => setErrorModal(null)}
+        onReport={() => {
+          openBugReport(errorModal ? { title: errorModal.title, description: errorModal.message } : null);
+          setErrorModal(null);
+        }}
+      />
+      <BugReportDialog
+        key={bugReport?.key}
+        open={!!bugReport}
+        prefill={bugReport?.prefill ?? null}
+        reports={bugReports}
+        reportsLoading={bugReportsLoading}
+        busy={bugReportBusy}
+        error={bugReportError}
+        onSubmit={handleBugReportSubmit}
+        onShowReports={refreshBugReports}
+        onClose={() => setBugReport(null)}
+      />
       <div className="min-h-screen bg-slate-50 text-slate-900">
         <div className="mx-auto max-w-5xl px-4 py-6 space-y-6">
           {nextReminder && minutesToReminder !== null && (
@@ -813,7 +1722,7 @@ export default function App() {
                 <p className="text-sm font-semibold">تنبيه: موعد قريب خلال {minutesToReminder} دقيقة</p>
                 <p className="text-sm">العنوان: {nextReminder.title}</p>
               </div>
-              <span className="text-xs text-amber-700">{formatDate(nextReminder.start_at)}</span>
+              <span className="text-xs text-amber-700">{formatDate(nextReminder.start_at, "ar", settings.timezone)}</span>
             </div>
           )}
         <header className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-5 shadow-xl backdrop-blur-md md:flex-row md:items-center md:justify-between">
@@ -824,6 +1733,14 @@ export default function App() {
           <div className="flex flex-wrap gap-2 items-center">
             <button className="btn-primary" onClick={() => manualRef.current?.scrollIntoView({ behavior: "smooth" })}>إضافة موعد يدوي</button>
             <button className="rounded-md border border-white/20 bg-white/10 px-3 py-2 text-sm text-white hover:border-white/40 hover:bg-white/15" onClick={() => setShowSettings(true)}>⚙️ الإعدادات</button>
+            <button className="rounded-md border border-white/20 bg-white/10 px-3 py-2 text-sm text-white hover:border-white/40 hover:bg-white/15" onClick={() => setShowIcs(true)}>📅 تصدير/استيراد</button>
+            <button className="rounded-md border border-white/20 bg-white/10 px-3 py-2 text-sm text-white hover:border-white/40 hover:bg-white/15" onClick={() => setShowAssistant(true)}>💬 المساعد</button>
+            <button className="rounded-md border border-white/20 bg-white/10 px-3 py-2 text-sm text-white hover:border-white/40 hover:bg-white/15" onClick={() => openBugReport(null)}>🐞 الإبلاغ عن مشكلة</button>
+            {isAdminSession(session) && (
+              <a className="rounded-md border border-white/20 bg-white/10 px-3 py-2 text-sm text-white hover:border-white/40 hover:bg-white/15" href="/admin">
+                🛠 فرز البلاغات
+              </a>
+            )}
             <button className="rounded-md border border-white/20 bg-white/10 px-3 py-2 text-sm text-white hover:border-white/40 hover:bg-white/15" onClick={fetch}>تحديث</button>
             <div className="flex items-center gap-2 rounded-full border border-white/20 bg-white/10 px-3 py-1">
               <span className="h-8 w-8 flex items-center justify-center rounded-full bg-blue-500/20 text-blue-100 font-semibold">{userInitial}</span>
@@ -837,25 +1754,68 @@ export default function App() {
 
         <div className="grid gap-4 lg:grid-cols-[1.5fr_1fr]">
           <div className="space-y-3">
-            {loading ? (
+            <div className="flex gap-1">
+              {(["list", "calendar"] as const).map((v) => (
+                <button
+                  key={v}
+                  type="button"
+                  className={`rounded-md border px-3 py-1.5 text-sm text-white ${dashboardView === v ? "border-blue-300/60 bg-blue-500/30" : "border-white/20 bg-white/10 hover:border-white/40"}`}
+                  onClick={() => setDashboardView(v)}
+                >
+                  {v === "list" ? "قائمة" : "تقويم"}
+                </button>
+              ))}
+            </div>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5 rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+                <span className="text-xs text-white/60">تصفية بالوسوم:</span>
+                {tags.map((t) => (
+                  <TagChip key={t.id} tag={t} active={activeTagFilter.includes(t.id)} onClick={() => toggleTagFilter(t.id)} />
+                ))}
+                {activeTagFilter.length > 0 && (
+                  <button type="button" className="text-xs text-blue-200 hover:underline" onClick={() => setTagFilter([])}>
+                    إلغاء التصفية
+                  </button>
+                )}
+              </div>
+            )}
+            {dashboardView === "calendar" ? (
+              <CalendarView items={visibleItems} tags={tags} weekStart={settings.weekStart} timeZone={settings.timezone} onSelect={openEdit} onReschedule={handleReschedule} />
+            ) : loading ? (
               <p className="text-slate-200">يتم التحميل...</p>
             ) : sortedItems.length === 0 ? (
-              <div className="rounded-2xl border border-white/15 bg-white/5 p-6 text-center text-white/70 shadow-lg">لا توجد مواعيد بعد.</div>
+              <div className="rounded-2xl border border-white/15 bg-white/5 p-6 text-center text-white/70 shadow-lg">{activeTagFilter.length ? "لا توجد مواعيد بهذه الوسوم." : "لا توجد مواعيد بعد."}</div>
             ) : (
               <div className="grid gap-3">
                 {sortedItems.map((a) => (
                   <div
-                    key={a.id}
+                    key={`${a.id}@${a.occurrence_start}`}
                     className="rounded-2xl border border-white/10 bg-white/5 p-4 shadow-lg backdrop-blur-md hover:border-white/20 hover:bg-white/8 transition"
                   >
                     <div className="flex flex-col gap-3 md:flex-row md:justify-between md:items-start">
                       <div className="space-y-2">
                         <div className="flex items-center gap-2 text-xs text-white/70">
                           <span className="px-2 py-0.5 rounded-full bg-white/10 border border-white/15">{statusText[a.status]}</span>
-                          {a.tag && <span className="px-2 py-0.5 rounded-full bg-blue-500/15 text-blue-100 border border-blue-400/30">#{a.tag}</span>}
+                          {tagsByIds(tags, a.tag_ids).map((t) => (
+                            <TagChip key={t.id} tag={t} onClick={() => toggleTagFilter(t.id)} />
+                          ))}
                         </div>
                         <h3 className="text-xl font-semibold text-white">{a.title}</h3>
                         {a.description && <p className="text-sm text-white/80 leading-relaxed">{a.description}</p>}
+                        {!!(a.actions_before?.length || a.actions_after?.length) && (
+                          <div className="space-y-0.5 text-xs text-white/70">
+                            {a.actions_before?.length ? <p>قبل: {a.actions_before.join(" | ")}</p> : null}
+                            {a.actions_after?.length ? <p>بعد: {a.actions_after.join(" | ")}</p> : null}
+                          </div>
+                        )}
+                        {a.recurrence && (
+                          <p className="text-xs text-white/70">
+                            <span role="img" aria-label="repeat">
+                              🔁
+                            </span>{" "}
+                            {describeRecurrence(a.recurrence)}
+                          </p>
+                        )}
                         <div className="flex flex-wrap gap-3 text-sm text-white/70">
                           {a.location && (
                             <span className="inline-flex items-center gap-1">
@@ -871,38 +1831,26 @@ export default function App() {
                                 🔔
                               </span>
                               قبل {a.reminder_minutes_before} دقيقة
+                              {a.reminder_offsets?.length ? ` (+${a.reminder_offsets.join("، ")})` : ""}
                             </span>
                           )}
                         </div>
                       </div>
                       <div className="flex flex-col items-end gap-2 text-white/80">
                         <span className="px-3 py-1 rounded-full border border-white/20 bg-white/10 text-sm font-semibold">{priorityText[a.priority]}</span>
-                        <span className="text-sm">{formatDate(a.start_at)}</span>
+                        <span className="text-sm">{formatDate(a.start_at, "ar", settings.timezone)}</span>
                       </div>
                     </div>
                     <div className="mt-3 flex gap-2 justify-end">
                       <button
                         className="inline-flex items-center gap-1 rounded-md border border-blue-400/40 bg-blue-500/15 px-3 py-1.5 text-blue-100 text-sm hover:border-blue-300/60"
-                        onClick={() => {
-                          setEditTarget(a);
-                          setEditForm({
-                            ...toDateParts(a),
-                            title: a.title,
-                            location: a.location ?? "",
-                            description: a.description ?? "",
-                            priority: a.priority,
-                            status: a.status,
-                            tag: a.tag ?? "",
-                            reminderMinutes: a.reminder_minutes_before ? String(a.reminder_minutes_before) : "",
-                          });
-                          editRef.current?.scrollIntoView({ behavior: "smooth" });
-                        }}
+                        onClick={() => openEdit(a)}
                       >
                         تعديل
                       </button>
                       <button
                         className="inline-flex items-center gap-1 rounded-md border border-rose-400/40 bg-rose-500/15 px-3 py-1.5 text-rose-100 text-sm hover:border-rose-300/60"
-                        onClick={() => remove(a.id)}
+                        onClick={() => requestDelete(a)}
                       >
                         حذف
                       </button>
@@ -923,14 +1871,6 @@ export default function App() {
                     <input className="input" type="date" value={manual.date} onChange={(e) => setManual((v) => ({ ...v, date: e.target.value }))} disabled={manualLoading} />
                     <input className="input" type="time" value={manual.time} onChange={(e) => setManual((v) => ({ ...v, time: e.target.value }))} disabled={manualLoading} />
                     <input className="input" type="time" value={manual.endTime} onChange={(e) => setManual((v) => ({ ...v, endTime: e.target.value }))} placeholder="انتهاء (اختياري)" disabled={manualLoading} />
-                    <select className="select" value={manual.tag} onChange={(e) => setManual((v) => ({ ...v, tag: e.target.value }))} disabled={manualLoading}>
-                      <option value="">بدون وسم</option>
-                      {settings.tags.map((t) => (
-                        <option key={t} value={t}>
-                          {t}
-                        </option>
-                      ))}
-                    </select>
                     <input
                       className="input"
                       type="number"
@@ -953,6 +1893,15 @@ export default function App() {
                     <option value="canceled">ملغي</option>
                   </select>
                 </div>
+                <input
+                  className="input"
+                  placeholder="تذكيرات إضافية بالدقائق (مثال: 60, 1440)"
+                  value={manual.extraReminders}
+                  onChange={(e) => setManual((v) => ({ ...v, extraReminders: e.target.value }))}
+                  disabled={manualLoading}
+                />
+                <TagPicker tags={tags} value={manual.tags} onChange={(names) => setManual((v) => ({ ...v, tags: names }))} disabled={manualLoading} />
+                <RecurrenceFields value={manual.recurrence} onChange={(recurrence) => setManual((v) => ({ ...v, recurrence }))} weekStart={settings.weekStart} disabled={manualLoading} />
                 <textarea className="textarea min-h-[80px]" placeholder="ملاحظات" value={manual.description} onChange={(e) => setManual((v) => ({ ...v, description: e.target.value }))} disabled={manualLoading} />
                 {manualError && <p className="text-sm text-red-600">{manualError}</p>}
                 <div className="flex gap-2">
@@ -981,14 +1930,6 @@ export default function App() {
                     <input className="input" type="date" value={editForm.date} onChange={(e) => setEditForm((v) => ({ ...v, date: e.target.value }))} disabled={editLoading} />
                     <input className="input" type="time" value={editForm.time} onChange={(e) => setEditForm((v) => ({ ...v, time: e.target.value }))} disabled={editLoading} />
                     <input className="input" type="time" value={editForm.endTime} onChange={(e) => setEditForm((v) => ({ ...v, endTime: e.target.value }))} placeholder="انتهاء (اختياري)" disabled={editLoading} />
-                    <select className="select" value={editForm.tag} onChange={(e) => setEditForm((v) => ({ ...v, tag: e.target.value }))} disabled={editLoading}>
-                      <option value="">بدون وسم</option>
-                      {settings.tags.map((t) => (
-                        <option key={t} value={t}>
-                          {t}
-                        </option>
-                      ))}
-                    </select>
                     <input
                       className="input"
                       type="number"
@@ -1011,6 +1952,26 @@ export default function App() {
                       <option value="canceled">ملغي</option>
                     </select>
                   </div>
+                  <input
+                    className="input"
+                    placeholder="تذكيرات إضافية بالدقائق (مثال: 60, 1440)"
+                    value={editForm.extraReminders}
+                    onChange={(e) => setEditForm((v) => ({ ...v, extraReminders: e.target.value }))}
+                    disabled={editLoading}
+                  />
+                  <TagPicker tags={tags} value={editForm.tags} onChange={(names) => setEditForm((v) => ({ ...v, tags: names }))} disabled={editLoading} />
+                  <RecurrenceFields value={editForm.recurrence} onChange={(recurrence) => setEditForm((v) => ({ ...v, recurrence }))} weekStart={settings.weekStart} disabled={editLoading} />
+                  {editTarget.recurrence && (
+                    <div className="space-y-1 rounded-md border border-blue-200 bg-white p-2 text-sm text-slate-700">
+                      <p className="text-xs text-slate-500">تطبيق التعديل على:</p>
+                      {(Object.keys(editScopeText) as EditScope[]).map((scope) => (
+                        <label key={scope} className="flex items-center gap-2">
+                          <input type="radio" name="editScope" checked={editScope === scope} onChange={() => setEditScope(scope)} disabled={editLoading} />
+                          {editScopeText[scope]}
+                        </label>
+                      ))}
+                    </div>
+                  )}
                   <textarea className="textarea min-h-[80px]" placeholder="ملاحظات" value={editForm.description} onChange={(e) => setEditForm((v) => ({ ...v, description: e.target.value }))} disabled={editLoading} />
                   {editError && <p className="text-sm text-red-600">{editError}</p>}
                   <div className="flex gap-2">
@@ -1027,7 +1988,7 @@ export default function App() {
 
             <div className="rounded-md border border-slate-200 bg-white p-4 shadow-sm">
               <h3 className="font-semibold text-slate-900">إضافة موعد بالذكاء الاصطناعي</h3>
-              <p className="text-sm text-slate-600">اكتب وصف الموعد وسيتم تحليله وإضافته تلقائيًا.</p>
+              <p className="text-sm text-slate-600">اكتب وصف الموعد وسيتم تحليله ثم عرضه للمراجعة قبل الإضافة.</p>
               <div className="mt-2 rounded-md border border-slate-200 bg-slate-50 p-3 text-xs text-slate-700">
                 مثال: موعد فحص روتيني يوم 12-05-2025 الساعة 4:30 مساءً في عيادة الأسرة مع الدكتور أحمد. تذكير قبل 30 دقيقة وتصنيف طبي.
               </div>
@@ -1037,20 +1998,59 @@ export default function App() {
                   placeholder="اكتب تفاصيل الموعد: نوعه، التاريخ، الوقت، المكان، الأشخاص، الإجراءات..."
                   value={aiText}
                   onChange={(e) => setAiText(e.target.value)}
-                  disabled={aiLoading}
+                  disabled={aiLoading || aiCommitting}
                 />
                 {aiError && <p className="text-sm text-red-600">{aiError}</p>}
+                {aiLoading && <QueueStatusNote status={aiQueueStatus} />}
+                {aiNotice && <p className="text-sm text-amber-700">{aiNotice}</p>}
                 {aiSuccess && <p className="text-sm text-emerald-600">{aiSuccess}</p>}
                 <div className="flex gap-2">
-                  <button type="submit" className="btn-primary" disabled={aiLoading}>
-                    {aiLoading ? "جارٍ التحليل..." : "إضافة تلقائية"}
-                  </button>
-                  <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={() => setAiText("")} disabled={aiLoading}>
-                    مسح
+                  <button type="submit" className="btn-primary" disabled={aiLoading || aiCommitting}>
+                    {aiLoading ? "جارٍ التحليل..." : "تحليل"}
                   </button>
+                  {aiLoading ? (
+                    <button type="button" className="rounded-md border border-rose-200 bg-white px-3 py-2 text-sm text-rose-600" onClick={() => aiAbortRef.current?.abort()}>
+                      إلغاء
+                    </button>
+                  ) : (
+                    <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={() => setAiText("")}>
+                      مسح
+                    </button>
+                  )}
                 </div>
               </form>
+              <div className="mt-2">
+                <VoiceCapture disabled={aiLoading || aiCommitting} onSubmit={handleVoiceTranscript} />
+              </div>
+              <div className="mt-2">
+                <DocumentCapture disabled={aiLoading || aiCommitting} onSubmit={handleDocumentText} />
+              </div>
+              <AiReviewPanel
+                drafts={aiDrafts}
+                tags={tags.map((t) => t.name)}
+                committing={aiCommitting}
+                streaming={aiLoading}
+                error={aiReviewError}
+                onChange={changeAiDraft}
+                onToggle={(key) => setAiDrafts((drafts) => drafts.map((d) => (d.key === key ? { ...d, accepted: !d.accepted } : d)))}
+                onCommit={handleAiCommit}
+                onDiscard={() => setAiDrafts([])}
+              />
             </div>
+
+            <MedicationsPanel
+              medications={medications}
+              doseLog={doseLog}
+              drafts={medicationDrafts}
+              timeZone={settings.timezone}
+              busy={medicationBusy}
+              error={medicationError}
+              onSave={handleMedicationSave}
+              onDelete={handleMedicationDelete}
+              onToggleActive={handleMedicationToggle}
+              onDiscardDraft={(index) => setMedicationDrafts((drafts) => drafts.filter((_, i) => i !== index))}
+              onRecordDose={handleDose}
+            />
           </div>
         </div>
       </div>
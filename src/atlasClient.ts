@@ -1,32 +1,67 @@
-type EnvLike = Record<string, string | undefined>;
+import { parseAtlasContent, type AtlasAppointment, type AtlasResponse } from "./lib/atlasSchema";
+import { parseAssistantContent, recentAssistantHistory, type AssistantEntry, type AssistantReply } from "./lib/assistant";
+import { createAppointmentStreamParser } from "./lib/jsonStream";
+import { createProxyProvider, getLlmProvider, LlmRateLimitError, setLlmProvider, type LlmMessage } from "./lib/llmProviders";
+import { createRequestQueue, type QueueStatus } from "./lib/requestQueue";
 
-function getEnvValue(key: string, viteEnv?: EnvLike, nodeEnv?: EnvLike) {
-  return (viteEnv && viteEnv[key]) || (nodeEnv && nodeEnv[key]) || undefined;
+export type AtlasMessage = { role: "assistant" | "user"; content: string };
+
+export type AtlasRequestOptions = {
+  onStatus?: (status: QueueStatus) => void;
+  signal?: AbortSignal;
+  // وجوده يفعّل التدفق؛ يُستدعى بكل جزء نصي من الرد
+  onDelta?: (delta: string) => void;
+  // أقصى طول لنص المستخدم (الافتراضي MAX_INPUT_CHARS)؛ نص المستندات أطول من الكتابة اليدوية
+  maxInputChars?: number;
+};
+
+export type ExtractionOptions = Omit<AtlasRequestOptions, "onDelta"> & {
+  // كل موعد مكتمل ومتحقق منه أثناء التدفق؛ محاولة الإصلاح تعيد إرسال الفهارس نفسها
+  onAppointment?: (appointment: AtlasAppointment, index: number) => void;
+};
+
+// مع ضبط الوكيل لا يحتاج المتصفح أي مفتاح: الطلبات تُرسل بجلسة Supabase الحالية
+const proxyUrl = readProxyUrl();
+if (proxyUrl) {
+  setLlmProvider(
+    createProxyProvider(proxyUrl, async () => {
+      const { supabase } = await import("./lib/supabase");
+      return (await supabase.auth.getSession()).data.session?.access_token ?? null;
+    })
+  );
 }
 
-export async function sendToAtlas(userText: string) {
-  const viteEnv = typeof import.meta !== "undefined" ? (import.meta as unknown as { env?: EnvLike }).env : undefined;
-  const nodeEnv = typeof globalThis !== "undefined" ? (globalThis as unknown as { process?: { env?: EnvLike } }).process?.env : undefined;
-
-  const url =
-    getEnvValue("VITE_ATLAS_API_URL", viteEnv, nodeEnv) ||
-    getEnvValue("VITE_ATLASCLOUD_API_URL", viteEnv, nodeEnv) ||
-    getEnvValue("ATLAS_API_URL", viteEnv, nodeEnv) ||
-    getEnvValue("ATLASCLOUD_API_URL", viteEnv, nodeEnv) ||
-    "https://api.atlascloud.ai/v1/chat/completions";
-
-  const apiKey =
-    getEnvValue("VITE_ATLAS_API_KEY", viteEnv, nodeEnv) ||
-    getEnvValue("VITE_ATLASCLOUD_API_KEY", viteEnv, nodeEnv) ||
-    getEnvValue("ATLAS_API_KEY", viteEnv, nodeEnv) ||
-    getEnvValue("ATLASCLOUD_API_KEY", viteEnv, nodeEnv) ||
-    "";
-
-  if (!apiKey) {
-    throw new Error("مفتاح Atlas غير موجود. أضف VITE_ATLAS_API_KEY أو ATLAS_API_KEY.");
+function readProxyUrl() {
+  try {
+    return (import.meta.env.VITE_LLM_PROXY_URL as string | undefined) || undefined;
+  } catch {
+    // خارج Vite (فحوص npm run check) لا يوجد import.meta.env
+    return undefined;
   }
+}
+
+const MAX_INPUT_CHARS = 2000;
+
+// عدد مرات إعادة مطالبة النموذج بتصحيح رده قبل الاستسلام
+const MAX_REPAIR_ATTEMPTS = 2;
 
-  const trimmedUserText = (userText || "").slice(0, 2000);
+// الوكيل يقبل 12 رسالة على الأكثر: رسالة النظام ورسالتان لكل محاولة إصلاح، والباقي لآخر المحادثة
+const MAX_PROXY_MESSAGES = 12;
+const ASSISTANT_HISTORY_LIMIT = MAX_PROXY_MESSAGES - 1 - MAX_REPAIR_ATTEMPTS * 2;
+// حد طول الرسالة في الوكيل 8000 حرف؛ نتائج list_appointments الطويلة تُقص
+const MAX_TOOL_RESULT_CHARS = 6000;
+
+// كل طلبات النموذج تمر بطابور واحد: 429 يوقفه حسب Retry-After أو بتأخير أسي، وأخطاء الشبكة تُعاد أيضًا
+const llmQueue = createRequestQueue({
+  retryDelay: (err) => (err instanceof LlmRateLimitError ? (err.retryAfterMs ?? 0) : err instanceof TypeError ? 0 : null),
+});
+
+// الاستخراجات المتطابقة في اليوم نفسه تُدمج وتُخزن مؤقتًا (التواريخ النسبية تتغير بتغير اليوم)
+const extractionQueue = createRequestQueue({ concurrency: Infinity, maxRetries: 0, cacheTtlMs: 10 * 60_000 });
+
+// followUps تُلحق بعد رسالة المستخدم (مثل رد النموذج السابق وطلب تصحيحه)؛ المزود يُحدَّد من الإعدادات
+export async function sendToAtlas(userText: string, followUps: AtlasMessage[] = [], options: AtlasRequestOptions = {}) {
+  const trimmedUserText = (userText || "").slice(0, options.maxInputChars ?? MAX_INPUT_CHARS);
 
   const systemPrompt = `
 أنت مساعد عربي لتحويل النصوص إلى JSON مواعيد. أعد كائناً واحداً بهذه الصيغة:
@@ -45,51 +80,129 @@ export async function sendToAtlas(userText: string) {
       "tags": ["وسم1", "وسم2"],
       "recurrence": { "pattern": "none|daily|weekly|monthly|yearly", "every": 1, "days_of_week": ["sat","sun","mon","tue","wed","thu","fri"] },
       "reminder_minutes_before": 30,
-      "notes": "اختياري أو null"
+      "notes": "اختياري أو null",
+      "medication": { "name": "اسم الدواء", "dose": "500 ملغ", "times_per_day": 2, "course_days": 30, "refill_date": "YYYY-MM-DD أو null" }
     }
   ]
 }
 شروط:
 - إن لم تجد مواعيد أرجع {"appointments": []}.
+- كل دواء في الوصفة عنصر مستقل من نوع medication مع حقل medication؛ لبقية الأنواع اجعل medication = null.
 - لا تضع حقولاً فارغة؛ استخدم null أو [] عند الحاجة.
 - تأكد أن JSON صالح بالكامل دون نص زائد.
 `.trim();
 
-  const payload = {
-    model: "openai/gpt-oss-20b",
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: trimmedUserText },
-    ],
-    max_tokens: 256,
-    temperature: 0.2,
-    top_p: 0.7,
-    top_k: 20,
-    repetition_penalty: 1.02,
-    stream: false,
-  };
-
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
+  const messages: LlmMessage[] = [{ role: "system", content: systemPrompt }, { role: "user", content: trimmedUserText }, ...followUps];
+  const { content, raw } = await complete(messages, options);
+  return { raw, assistant: content };
+}
+
+function complete(messages: LlmMessage[], { onStatus, signal, onDelta }: AtlasRequestOptions) {
+  return llmQueue.run(
+    JSON.stringify(messages),
+    async (shared) => {
+      shared.throwIfAborted();
+      // انقطاع الشبكة بعد وصول أجزاء من الرد لا يُعاد؛ الإعادة تكرر الأجزاء نفسها في محلل المعاينة
+      let streamed = false;
+      const push = onDelta && ((delta: string) => ((streamed = true), onDelta(delta)));
+      try {
+        return await getLlmProvider().complete(messages, { signal: shared, onDelta: push });
+      } catch (err) {
+        if (streamed && err instanceof TypeError) throw new Error("انقطع الاتصال أثناء استلام الرد. حاول مجددًا.", { cause: err });
+        throw err;
+      }
     },
-    body: JSON.stringify(payload),
+    onStatus,
+    signal
+  );
+}
+
+function assistantPrompt(now: Date, timeZone: string) {
+  const today = now.toLocaleDateString("en-CA", { timeZone });
+  const weekday = now.toLocaleDateString("ar", { timeZone, weekday: "long" });
+  return `
+أنت مساعد عربي لإدارة مواعيد المستخدم. اليوم ${weekday} ${today} والمنطقة الزمنية ${timeZone}.
+أجب دائمًا بكائن JSON واحد فقط بهذه الصيغة:
+{"reply": "نص قصير للمستخدم", "tool": null أو {"name": "...", "arguments": {...}}}
+الأدوات:
+- list_appointments {"from": "YYYY-MM-DD", "to": "YYYY-MM-DD", "query": "كلمة من العنوان أو المكان", "status": "scheduled|done|canceled|all"}
+- create_appointment {"title", "date": "YYYY-MM-DD", "time": "HH:MM", "end_time": "HH:MM", "location", "notes"}
+- reschedule_appointment {"id", "occurrence_start", "date": "YYYY-MM-DD", "time": "HH:MM"}
+- cancel_appointment {"id", "occurrence_start"}
+- complete_appointment {"id", "occurrence_start"}
+- delete_appointment {"id"}
+شروط:
+- لا تخترع معرفات: استدعِ list_appointments أولًا ثم استخدم id و occurrence_start من نتيجتها.
+- نتائج الأدوات تصلك في رسالة تبدأ بـ "نتيجة الأداة".
+- إن كان التاريخ أو الموعد المقصود غامضًا (أكثر من موعد مطابق مثلًا) فاسأل المستخدم في reply واجعل tool = null.
+- عمليات التعديل لا تُنفذ إلا بعد تأكيد المستخدم؛ اكتب في reply ما ستفعله.
+- الأوقات بنظام 24 ساعة وبالمنطقة الزمنية للمستخدم.
+`.trim();
+}
+
+function assistantMessages(history: AssistantEntry[]): LlmMessage[] {
+  return history.map((entry): LlmMessage => {
+    if (entry.role === "tool") return { role: "user", content: `نتيجة الأداة:\n${entry.text.slice(0, MAX_TOOL_RESULT_CHARS)}` };
+    if (entry.role === "assistant") return { role: "assistant", content: JSON.stringify({ reply: entry.text, tool: entry.call }) };
+    return { role: "user", content: entry.text.slice(0, 2000) };
   });
+}
 
-  if (!res.ok) {
-    const text = await res.text();
-    const lowered = text.toLowerCase();
-    if (res.status === 429 || lowered.includes("too many requests") || lowered.includes("only request this after")) {
-      throw new Error(`يرجى الانتظار قليلًا ثم إعادة المحاولة (429): ${text}`);
+// دورة واحدة من محادثة المساعد مع التحقق من صيغة الرد وإعادة المطالبة عند الخطأ
+export async function chatWithAssistant(history: AssistantEntry[], context: { now: Date; timeZone: string }, options: AtlasRequestOptions = {}): Promise<AssistantReply> {
+  const messages: LlmMessage[] = [{ role: "system", content: assistantPrompt(context.now, context.timeZone) }, ...assistantMessages(recentAssistantHistory(history, ASSISTANT_HISTORY_LIMIT))];
+  let issues: string[] = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const { content } = await complete(messages, options);
+    if (content) {
+      const result = parseAssistantContent(content, context.now);
+      if (result.ok) return result.data;
+      issues = result.issues;
+    } else {
+      issues = ["الرد فارغ."];
     }
-    throw new Error(`Atlas API error: ${res.status} ${text}`);
+    messages.push(
+      { role: "assistant", content: content ?? "" },
+      { role: "user", content: `الرد السابق غير صالح:\n- ${issues.join("\n- ")}\nأعد كائن JSON واحدًا بالصيغة المطلوبة فقط.` }
+    );
   }
+  throw new Error(`تعذر فهم رد المساعد:\n- ${issues.join("\n- ")}`);
+}
+
+// يرسل النص ويتحقق من الرد بمخطط zod، ويعيد المطالبة بأخطاء التحقق حتى MAX_REPAIR_ATTEMPTS مرة
+export function extractAppointments(userText: string, now = new Date(), options: ExtractionOptions = {}): Promise<AtlasResponse> {
+  const day = `${now.getFullYear()}-${now.getMonth() + 1}-${now.getDate()}`;
+  return extractionQueue.run(`${day}|${userText.trim()}`, (signal) => runExtraction(userText, now, { ...options, signal }), options.onStatus, options.signal);
+}
 
-  const json = await res.json();
-  const assistantContent = json?.choices?.[0]?.message?.content || json?.choices?.[0]?.delta?.content || null;
-  return { raw: json, assistant: assistantContent };
+async function runExtraction(userText: string, now: Date, options: ExtractionOptions): Promise<AtlasResponse> {
+  const { onAppointment, ...requestOptions } = options;
+  const followUps: AtlasMessage[] = [];
+  let issues: string[] = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    let onDelta: AtlasRequestOptions["onDelta"];
+    if (onAppointment) {
+      const parser = createAppointmentStreamParser((value, index) => {
+        const result = parseAtlasContent({ appointments: [value] }, now);
+        if (result.ok && result.data.appointments[0]) onAppointment(result.data.appointments[0], index);
+      });
+      onDelta = parser.push;
+    }
+    const res = await sendToAtlas(userText, followUps, { ...requestOptions, onDelta });
+    const content = res.assistant;
+    if (content === null || content === undefined) {
+      issues = ["الرد فارغ."];
+    } else {
+      const result = parseAtlasContent(content, now);
+      if (result.ok) return result.data;
+      issues = result.issues;
+    }
+    followUps.push(
+      { role: "assistant", content: typeof content === "string" ? content : JSON.stringify(content ?? null) },
+      { role: "user", content: `الرد السابق غير صالح للأسباب التالية:\n- ${issues.join("\n- ")}\nأعد كائن JSON كاملًا ومصححًا بالصيغة المطلوبة فقط، دون أي نص آخر.` }
+    );
+  }
+  throw new Error(`تعذر التحقق من رد Atlas بعد ${MAX_REPAIR_ATTEMPTS + 1} محاولات:\n- ${issues.join("\n- ")}`);
 }
 
 export default sendToAtlas;
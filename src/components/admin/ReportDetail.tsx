@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { formatDate } from "../../lib/format";
+import { bugSeverityText, bugStatusText, type BugReport, type BugReportReply } from "../../lib/bugReports";
+import { nextBugStatus, type BugReportNote } from "../../lib/bugTriage";
+
+type Props = {
+  report: BugReport;
+  duplicates: BugReport[];
+  notes: BugReportNote[];
+  replies: BugReportReply[];
+  busy: boolean;
+  replyEnabled: boolean;
+  onAdvance: () => void;
+  onAddNote: (body: string) => Promise<boolean>;
+  onReply: (body: string) => Promise<boolean>;
+  onOpenAttachment: () => void;
+  onSelect: (report: BugReport) => void;
+};
+
+// تفاصيل بلاغ في لوحة الفرز: بيانات الجهاز والسجل، البلاغات المشابهة، نقل الحالة خطوة واحدة، ملاحظات داخلية ورد يصل للمُبلّغ.
+export function ReportDetail({ report, duplicates, notes, replies, busy, replyEnabled, onAdvance, onAddNote, onReply, onOpenAttachment, onSelect }: Props) {
+  const [note, setNote] = useState("");
+  const [reply, setReply] = useState("");
+  const next = nextBugStatus[report.status];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">{report.title}</h2>
+          <p className="text-xs text-slate-500">
+            {formatDate(report.created_at)} · {report.email ?? "بلا بريد"} · الخطورة: {bugSeverityText[report.severity]} · {bugStatusText[report.status]}
+          </p>
+        </div>
+        {next && (
+          <button className="btn-primary shrink-0" onClick={onAdvance} disabled={busy}>
+            نقل إلى: {bugStatusText[next]}
+          </button>
+        )}
+      </div>
+
+      <p className="whitespace-pre-line text-sm text-slate-800">{report.description}</p>
+      {report.steps && (
+        <div>
+          <p className="text-xs font-medium text-slate-600">خطوات إعادة المشكلة</p>
+          <p className="whitespace-pre-line text-sm text-slate-800">{report.steps}</p>
+        </div>
+      )}
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs text-slate-600">
+        <dt>الإصدار</dt>
+        <dd>{report.app_version ?? "—"}</dd>
+        <dt>الجهاز</dt>
+        <dd className="break-all">{report.platform ?? "—"}</dd>
+      </dl>
+      {report.attachment_url && (
+        <button className="text-sm text-blue-600 hover:underline" onClick={onOpenAttachment}>
+          📎 فتح لقطة الشاشة
+        </button>
+      )}
+      {report.client_log && (
+        <details className="rounded-md border border-slate-200 bg-slate-50 p-2">
+          <summary className="cursor-pointer text-xs text-slate-600">سجل الأخطاء</summary>
+          <pre dir="ltr" className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap text-[11px] text-slate-700">
+            {report.client_log}
+          </pre>
+        </details>
+      )}
+
+      {duplicates.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-slate-600">بلاغات مشابهة ({duplicates.length})</p>
+          {duplicates.map((d) => (
+            <button key={d.id} className="block w-full rounded-md border border-slate-200 px-2 py-1 text-right text-xs text-slate-700 hover:border-blue-200" onClick={() => onSelect(d)}>
+              {d.title} · {bugStatusText[d.status]} · {formatDate(d.created_at)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 rounded-md border border-amber-200 bg-amber-50/60 p-3">
+        <p className="text-sm font-medium text-amber-900">ملاحظات داخلية</p>
+        {notes.map((n) => (
+          <div key={n.id} className="text-sm text-slate-800">
+            <p className="whitespace-pre-line">{n.body}</p>
+            <p className="text-xs text-slate-500">{formatDate(n.created_at)}</p>
+          </div>
+        ))}
+        <textarea className="textarea" placeholder="لا تظهر للمُبلّغ" value={note} onChange={(e) => setNote(e.target.value)} disabled={busy} />
+        <button className="rounded-md border border-slate-200 bg-white px-3 py-1.5 text-sm" disabled={busy || !note.trim()} onClick={async () => (await onAddNote(note)) && setNote("")}>
+          إضافة ملاحظة
+        </button>
+      </div>
+
+      <div className="space-y-2 rounded-md border border-blue-200 bg-blue-50/60 p-3">
+        <p className="text-sm font-medium text-blue-900">الرد على المُبلّغ</p>
+        {replies.map((r) => (
+          <div key={r.id} className="text-sm text-slate-800">
+            <p className="whitespace-pre-line">{r.body}</p>
+            <p className="text-xs text-slate-500">{formatDate(r.created_at)}</p>
+          </div>
+        ))}
+        {replyEnabled ? (
+          <>
+            <textarea className="textarea" placeholder="يظهر للمُبلّغ في التطبيق ويصله بالبريد" value={reply} onChange={(e) => setReply(e.target.value)} disabled={busy} />
+            <button className="btn-primary" disabled={busy || !reply.trim()} onClick={async () => (await onReply(reply)) && setReply("")}>
+              إرسال الرد
+            </button>
+          </>
+        ) : (
+          <p className="text-xs text-slate-500">اضبط VITE_TRIAGE_URL وشغّل خادم الفرز لإرسال الردود.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import type { AiDraft, DraftField, DraftValues } from "../../lib/aiDrafts";
+import type { Priority } from "../../types";
+
+type Props<T> = {
+  drafts: AiDraft<T>[];
+  tags: string[];
+  committing: boolean;
+  // أثناء التدفق تُعرض المسودات للقراءة فقط حتى يكتمل الرد
+  streaming?: boolean;
+  error: string | null;
+  onChange: (key: string, field: DraftField, value: string) => void;
+  onToggle: (key: string) => void;
+  onCommit: () => void;
+  onDiscard: () => void;
+};
+
+const flagText = { missing: "لم يحدده النموذج", defaulted: "قيمة افتراضية" };
+
+function fieldClass(flag: string | undefined) {
+  return flag ? "border-amber-400 bg-amber-50" : "";
+}
+
+// مراجعة المواعيد المستخرجة قبل الحفظ: تعديل كل مسودة وقبولها أو رفضها ثم الحفظ دفعة واحدة.
+export function AiReviewPanel<T>({ drafts, tags, committing, streaming = false, error, onChange, onToggle, onCommit, onDiscard }: Props<T>) {
+  if (!drafts.length) return null;
+  const acceptedCount = drafts.filter((d) => d.accepted).length;
+  const locked = committing || streaming;
+
+  const field = (draft: AiDraft<T>, name: Exclude<DraftField, "priority">, label: string, type = "text") => {
+    const flag = draft.flags[name];
+    return (
+      <label className="space-y-1 text-xs text-slate-600">
+        <span>
+          {label}
+          {flag && <span className="ms-1 text-amber-700">({flagText[flag]})</span>}
+        </span>
+        <input
+          className={`input ${fieldClass(flag)}`}
+          type={type}
+          list={name === "tags" ? "ai-review-tags" : undefined}
+          value={draft.values[name as keyof DraftValues]}
+          onChange={(e) => onChange(draft.key, name, e.target.value)}
+          disabled={!draft.accepted || locked}
+        />
+      </label>
+    );
+  };
+
+  return (
+    <div className="mt-4 space-y-3 border-t border-slate-200 pt-4">
+      <div>
+        <h4 className="font-semibold text-slate-900">مراجعة المواعيد المستخرجة</h4>
+        <p className="text-xs text-slate-600">
+          {streaming ? "تظهر المواعيد تباعًا أثناء التحليل..." : "الحقول المظللة لم يحددها النموذج أو مُلئت بقيمة افتراضية؛ تحقق منها قبل الحفظ."}
+        </p>
+      </div>
+      <datalist id="ai-review-tags">
+        {tags.map((t) => (
+          <option key={t} value={t} />
+        ))}
+      </datalist>
+      {drafts.map((draft, i) => (
+        <div key={draft.key} className={`space-y-2 rounded-md border p-3 ${draft.accepted ? "border-slate-200 bg-slate-50/60" : "border-slate-200 bg-slate-100 opacity-60"}`}>
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-slate-500">موعد {i + 1}</span>
+            <button
+              type="button"
+              className={`rounded-md border px-2 py-1 text-xs ${draft.accepted ? "border-rose-200 text-rose-600 hover:bg-rose-50" : "border-emerald-200 text-emerald-700 hover:bg-emerald-50"}`}
+              onClick={() => onToggle(draft.key)}
+              disabled={locked}
+            >
+              {draft.accepted ? "رفض" : "قبول"}
+            </button>
+          </div>
+          {field(draft, "title", "العنوان")}
+          <div className="grid grid-cols-3 gap-2">
+            {field(draft, "date", "التاريخ", "date")}
+            {field(draft, "time", "البداية", "time")}
+            {field(draft, "endTime", "النهاية", "time")}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {field(draft, "location", "المكان")}
+            {field(draft, "tags", "الوسوم (مفصولة بفواصل)")}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {field(draft, "reminderMinutes", "التذكير قبل (دقائق)", "number")}
+            <label className="space-y-1 text-xs text-slate-600">
+              <span>
+                الأولوية
+                {draft.flags.priority && <span className="ms-1 text-amber-700">({flagText[draft.flags.priority]})</span>}
+              </span>
+              <select
+                className={`select ${fieldClass(draft.flags.priority)}`}
+                value={draft.values.priority}
+                onChange={(e) => onChange(draft.key, "priority", e.target.value as Priority)}
+                disabled={!draft.accepted || locked}
+              >
+                <option value="critical">حرج</option>
+                <option value="high">مرتفع</option>
+                <option value="medium">متوسط</option>
+                <option value="low">منخفض</option>
+              </select>
+            </label>
+          </div>
+        </div>
+      ))}
+      {error && <p className="whitespace-pre-line text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button type="button" className="btn-primary" onClick={onCommit} disabled={locked || !acceptedCount}>
+          {committing ? "جارٍ الحفظ..." : `حفظ ${acceptedCount} موعد`}
+        </button>
+        <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={onDiscard} disabled={locked}>
+          تجاهل الكل
+        </button>
+      </div>
+    </div>
+  );
+}
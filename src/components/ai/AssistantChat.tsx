@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import type { AssistantEntry, PendingAction } from "../../lib/assistant";
+import type { QueueStatus } from "../../lib/requestQueue";
+import { QueueStatusNote } from "./QueueStatusNote";
+
+type Props = {
+  open: boolean;
+  entries: AssistantEntry[];
+  pending: PendingAction | null;
+  busy: boolean;
+  error: string | null;
+  queueStatus: QueueStatus | null;
+  onSend: (text: string) => void;
+  onConfirm: () => void;
+  onReject: () => void;
+  onReset: () => void;
+  onClose: () => void;
+};
+
+const examples = ["ماذا لدي يوم الخميس؟", "انقل موعد طبيب الأسنان للأسبوع القادم", "ألغِ اجتماع الغد"];
+
+// محادثة متعددة الأدوار مع المساعد؛ أي تعديل على المواعيد يُعرض كبطاقة تأكيد قبل تنفيذه.
+export function AssistantChat({ open, entries, pending, busy, error, queueStatus, onSend, onConfirm, onReject, onReset, onClose }: Props) {
+  const [text, setText] = useState("");
+  const endRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "end" });
+  }, [entries, pending, busy]);
+
+  if (!open) return null;
+
+  // رسائل الأدوات ونداءاتها الصامتة للنموذج فقط
+  const visible = entries.filter((e) => e.role !== "tool" && e.text);
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || busy || pending) return;
+    onSend(text.trim());
+    setText("");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-slate-900/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="flex max-h-[90vh] w-full max-w-xl flex-col rounded-2xl border border-slate-200 bg-white shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between border-b border-slate-200 px-5 py-4">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">المساعد</h3>
+            <p className="text-xs text-slate-600">اسأل عن مواعيدك أو اطلب نقلها أو إلغاءها؛ لن يتغير شيء قبل تأكيدك.</p>
+          </div>
+          <div className="flex gap-2">
+            <button className="rounded-md border border-slate-200 px-3 py-1.5 text-sm text-slate-700 hover:border-blue-200 hover:text-blue-600" onClick={onReset} disabled={busy || !entries.length}>
+              محادثة جديدة
+            </button>
+            <button className="rounded-md border border-slate-200 px-3 py-1.5 text-sm text-slate-700 hover:border-blue-200 hover:text-blue-600" onClick={onClose}>
+              إغلاق
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 space-y-3 overflow-y-auto px-5 py-4">
+          {!visible.length && (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-600">جرّب مثلًا:</p>
+              <div className="flex flex-wrap gap-2">
+                {examples.map((example) => (
+                  <button key={example} className="rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-xs text-slate-700 hover:border-blue-200" onClick={() => onSend(example)} disabled={busy}>
+                    {example}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          {visible.map((entry, i) => (
+            <div key={i} className={`flex ${entry.role === "user" ? "justify-start" : "justify-end"}`}>
+              <p className={`max-w-[85%] whitespace-pre-line rounded-2xl px-3 py-2 text-sm ${entry.role === "user" ? "bg-blue-600 text-white" : "bg-slate-100 text-slate-800"}`}>{entry.text}</p>
+            </div>
+          ))}
+          {pending && (
+            <div className="space-y-2 rounded-md border border-amber-300 bg-amber-50 p-3">
+              <p className="text-sm font-medium text-amber-900">تأكيد العملية</p>
+              <p className="text-sm text-amber-900">{pending.summary}</p>
+              <div className="flex gap-2">
+                <button className="btn-primary" onClick={onConfirm} disabled={busy}>
+                  {busy ? "جارٍ التنفيذ..." : "تأكيد"}
+                </button>
+                <button className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={onReject} disabled={busy}>
+                  تراجع
+                </button>
+              </div>
+            </div>
+          )}
+          {busy && !pending && (queueStatus?.state === "queued" || queueStatus?.state === "waiting" ? <QueueStatusNote status={queueStatus} /> : <p className="text-sm text-slate-500">يفكر المساعد...</p>)}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div ref={endRef} />
+        </div>
+
+        <form className="flex gap-2 border-t border-slate-200 px-5 py-4" onSubmit={submit}>
+          <input className="input flex-1" placeholder={pending ? "أكّد العملية أو تراجع أولًا" : "اكتب رسالتك..."} value={text} onChange={(e) => setText(e.target.value)} disabled={busy || !!pending} />
+          <button type="submit" className="btn-primary" disabled={busy || !!pending || !text.trim()}>
+            إرسال
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from "react";
+import { getDocumentTextProvider, acceptedDocumentTypes, validateDocument } from "../../lib/documentText";
+
+type Props = {
+  disabled: boolean;
+  onSubmit: (text: string) => void;
+};
+
+type Phase = { state: "idle" } | { state: "extracting"; fileName: string } | { state: "review"; fileName: string; text: string };
+
+// رفع صورة بطاقة موعد أو وصفة أو ملف PDF: يُستخرج النص ويُعرض للتصحيح قبل إرساله إلى التحليل.
+export function DocumentCapture({ disabled, onSubmit }: Props) {
+  const [phase, setPhase] = useState<Phase>({ state: "idle" });
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(
+    () => () => {
+      if (preview) URL.revokeObjectURL(preview);
+    },
+    [preview]
+  );
+
+  const provider = getDocumentTextProvider();
+  if (!provider) return null;
+
+  async function handleFile(file: File | undefined) {
+    if (!file || !provider) return;
+    setError(null);
+    try {
+      validateDocument(file);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "ملف غير صالح.");
+      return;
+    }
+    setPreview(file.type.startsWith("image/") ? URL.createObjectURL(file) : null);
+    setPhase({ state: "extracting", fileName: file.name });
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const text = await provider.extract(file, { signal: controller.signal });
+      if (!text) throw new Error("لم يُعثر على نص في الملف. جرّب صورة أوضح.");
+      setPhase({ state: "review", fileName: file.name, text });
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : "تعذر استخراج النص.");
+      setPhase({ state: "idle" });
+    } finally {
+      abortRef.current = null;
+    }
+  }
+
+  function reset() {
+    abortRef.current?.abort();
+    setPreview(null);
+    setPhase({ state: "idle" });
+  }
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        accept={acceptedDocumentTypes.join(",")}
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+      />
+      {phase.state === "idle" && (
+        <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={() => inputRef.current?.click()} disabled={disabled}>
+          📄 من صورة أو PDF
+        </button>
+      )}
+      {phase.state === "extracting" && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-slate-600">جارٍ قراءة {phase.fileName}...</span>
+          <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={reset}>
+            إلغاء
+          </button>
+        </div>
+      )}
+      {phase.state === "review" && (
+        <div className="space-y-2 rounded-md border border-slate-200 bg-slate-50 p-3">
+          <p className="text-xs text-slate-600">النص المستخرج من {phase.fileName}؛ صحّح الأخطاء (خاصة التواريخ والأرقام) ثم أرسله للتحليل.</p>
+          {preview && <img src={preview} alt={phase.fileName} className="max-h-48 rounded-md border border-slate-200 object-contain" />}
+          <textarea className="textarea min-h-[120px]" value={phase.text} onChange={(e) => setPhase({ ...phase, text: e.target.value })} disabled={disabled} />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={() => {
+                onSubmit(phase.text.trim());
+                reset();
+              }}
+              disabled={disabled || !phase.text.trim()}
+            >
+              تحليل النص
+            </button>
+            <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={reset}>
+              تجاهل
+            </button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
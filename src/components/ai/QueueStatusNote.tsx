@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import type { QueueStatus } from "../../lib/requestQueue";
+
+// حالة طلب الذكاء الاصطناعي في الطابور، مع عدّاد تنازلي أثناء انتظار حد المعدل.
+export function QueueStatusNote({ status }: { status: QueueStatus | null }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (status?.state !== "waiting") return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [status]);
+
+  if (!status || status.state === "running" || status.state === "cached") return null;
+  if (status.state === "queued") {
+    return <p className="text-sm text-slate-600">{status.position > 1 ? `الطلب في قائمة الانتظار (الترتيب ${status.position})...` : "الطلب التالي في قائمة الانتظار..."}</p>;
+  }
+  const seconds = Math.max(0, Math.ceil((status.until - now) / 1000));
+  return (
+    <p className="text-sm text-amber-700">
+      تم تجاوز حد الطلبات مؤقتًا؛ إعادة المحاولة خلال {seconds} ث (المحاولة {status.attempt + 1}).
+    </p>
+  );
+}
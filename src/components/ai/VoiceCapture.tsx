@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from "react";
+import { getSttProvider, startRecording, type Recording } from "../../lib/speechToText";
+
+type Props = {
+  disabled: boolean;
+  onSubmit: (transcript: string) => void;
+};
+
+type Phase = { state: "idle" } | { state: "recording"; startedAt: number } | { state: "transcribing" } | { state: "review"; transcript: string };
+
+// التسجيل يتوقف تلقائيًا بعد دقيقة حتى لا يكبر الملف المرسل
+const MAX_RECORDING_SECONDS = 60;
+
+// إدخال صوتي للنموذج: تسجيل ثم تفريغ، ويُعرض النص للتصحيح قبل إرساله إلى التحليل.
+export function VoiceCapture({ disabled, onSubmit }: Props) {
+  const [phase, setPhase] = useState<Phase>({ state: "idle" });
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const recordingRef = useRef<Recording | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const limitRef = useRef<number | null>(null);
+
+  const provider = getSttProvider();
+  const elapsed = phase.state === "recording" ? Math.floor((now - phase.startedAt) / 1000) : 0;
+
+  async function finish() {
+    const recording = recordingRef.current;
+    if (!recording || !provider) return;
+    recordingRef.current = null;
+    if (limitRef.current !== null) window.clearTimeout(limitRef.current);
+    setPhase({ state: "transcribing" });
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const audio = await recording.stop();
+      const transcript = await provider.transcribe(audio, { language: "ar", signal: controller.signal });
+      if (!transcript) throw new Error("لم يُفهم أي كلام في التسجيل. حاول مجددًا بصوت أوضح.");
+      setPhase({ state: "review", transcript });
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : "تعذر تفريغ التسجيل.");
+      setPhase({ state: "idle" });
+    } finally {
+      abortRef.current = null;
+    }
+  }
+
+  useEffect(() => {
+    if (phase.state !== "recording") return;
+    const id = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(id);
+  }, [phase.state]);
+
+  // إغلاق الصفحة أو إخفاء المكون أثناء التسجيل يحرر الميكروفون
+  useEffect(
+    () => () => {
+      if (limitRef.current !== null) window.clearTimeout(limitRef.current);
+      recordingRef.current?.cancel();
+      abortRef.current?.abort();
+    },
+    []
+  );
+
+  if (!provider) return null;
+
+  async function begin() {
+    setError(null);
+    try {
+      recordingRef.current = await startRecording();
+      const startedAt = Date.now();
+      setNow(startedAt);
+      setPhase({ state: "recording", startedAt });
+      // finish تقرأ التسجيل من المرجع فلا يضر أنها من إغلاق قديم
+      limitRef.current = window.setTimeout(finish, MAX_RECORDING_SECONDS * 1000);
+    } catch (err) {
+      setError(err instanceof Error && err.name === "NotAllowedError" ? "لم يُسمح باستخدام الميكروفون." : err instanceof Error ? err.message : "تعذر بدء التسجيل.");
+    }
+  }
+
+  function cancel() {
+    if (limitRef.current !== null) window.clearTimeout(limitRef.current);
+    recordingRef.current?.cancel();
+    recordingRef.current = null;
+    abortRef.current?.abort();
+    setPhase({ state: "idle" });
+  }
+
+  return (
+    <div className="space-y-2">
+      {phase.state === "idle" && (
+        <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={begin} disabled={disabled}>
+          🎤 إدخال صوتي
+        </button>
+      )}
+      {phase.state === "recording" && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-rose-600">● جارٍ التسجيل {elapsed} / {MAX_RECORDING_SECONDS} ث</span>
+          <button type="button" className="btn-primary" onClick={finish}>
+            إيقاف وتفريغ
+          </button>
+          <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={cancel}>
+            إلغاء
+          </button>
+        </div>
+      )}
+      {phase.state === "transcribing" && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-slate-600">جارٍ تفريغ التسجيل...</span>
+          <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={cancel}>
+            إلغاء
+          </button>
+        </div>
+      )}
+      {phase.state === "review" && (
+        <div className="space-y-2 rounded-md border border-slate-200 bg-slate-50 p-3">
+          <p className="text-xs text-slate-600">صحّح النص إن لزم ثم أرسله للتحليل.</p>
+          <textarea className="textarea min-h-[80px]" value={phase.transcript} onChange={(e) => setPhase({ state: "review", transcript: e.target.value })} disabled={disabled} />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={() => {
+                onSubmit(phase.transcript.trim());
+                setPhase({ state: "idle" });
+              }}
+              disabled={disabled || !phase.transcript.trim()}
+            >
+              تحليل النص
+            </button>
+            <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={begin} disabled={disabled}>
+              إعادة التسجيل
+            </button>
+            <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={() => setPhase({ state: "idle" })}>
+              تجاهل
+            </button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
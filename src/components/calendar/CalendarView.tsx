@@ -0,0 +1,106 @@
+import { useMemo, useState } from "react";
+import { calendarViewText, rangeOf, shiftAnchor, todayKey as todayKeyIn, visibleDays, type CalendarView as View, type ColorBy } from "../../lib/calendar";
+import { expandOccurrences, type Occurrence } from "../../lib/recurrence";
+import { tagsByIds } from "../../lib/tags";
+import { parseDayKey } from "../../lib/timezone";
+import type { Appointment } from "../../store/useAppointments";
+import type { Tag, WeekStart } from "../../types";
+import { MonthGrid } from "./MonthGrid";
+import { TimeGrid } from "./TimeGrid";
+
+type CalendarOccurrence = Occurrence<Appointment> & { key: string; tagColor: string | null };
+
+type Props = {
+  items: Appointment[];
+  tags: Tag[];
+  weekStart: WeekStart;
+  timeZone: string;
+  onSelect: (occurrence: Occurrence<Appointment>) => void;
+  onReschedule: (occurrence: Occurrence<Appointment>, next: { start_at: string; end_at?: string }) => void;
+};
+
+function titleFor(view: View, days: string[], anchor: string) {
+  const fmt = (key: string, options: Intl.DateTimeFormatOptions) => {
+    const { year, month, day } = parseDayKey(key);
+    return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("ar-EG", { timeZone: "UTC", ...options });
+  };
+  if (view === "month") return fmt(anchor, { month: "long", year: "numeric" });
+  if (view === "day") return fmt(anchor, { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+  return `${fmt(days[0], { day: "numeric", month: "short" })} – ${fmt(days[days.length - 1], { day: "numeric", month: "short", year: "numeric" })}`;
+}
+
+// تقويم اللوحة بعروض الشهر والأسبوع واليوم بحسب بداية الأسبوع والمنطقة الزمنية للمستخدم.
+export function CalendarView({ items, tags, weekStart, timeZone, onSelect, onReschedule }: Props) {
+  const today = todayKeyIn(timeZone);
+  const [view, setView] = useState<View>("week");
+  const [anchor, setAnchor] = useState(today);
+  const [colorBy, setColorBy] = useState<ColorBy>("priority");
+
+  const days = useMemo(() => visibleDays(view, anchor, weekStart), [view, anchor, weekStart]);
+
+  const events = useMemo(() => {
+    const { from, to } = rangeOf(days, timeZone);
+    return items
+      .flatMap((a) => expandOccurrences(a, from, to, weekStart, timeZone))
+      .map((o): CalendarOccurrence => ({ ...o, key: `${o.id}@${o.occurrence_start}`, tagColor: tagsByIds(tags, o.tag_ids)[0]?.color ?? null }));
+  }, [items, tags, days, timeZone, weekStart]);
+
+  const openDay = (day: string) => {
+    setAnchor(day);
+    setView("day");
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3 text-white shadow-lg backdrop-blur-md">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <button type="button" className="rounded-md border border-white/20 bg-white/10 px-2 py-1 text-sm hover:border-white/40" onClick={() => setAnchor((a) => shiftAnchor(view, a, -1))}>
+            ›
+          </button>
+          <button type="button" className="rounded-md border border-white/20 bg-white/10 px-2 py-1 text-sm hover:border-white/40" onClick={() => setAnchor(today)}>
+            اليوم
+          </button>
+          <button type="button" className="rounded-md border border-white/20 bg-white/10 px-2 py-1 text-sm hover:border-white/40" onClick={() => setAnchor((a) => shiftAnchor(view, a, 1))}>
+            ‹
+          </button>
+          <h3 className="ms-2 text-sm font-semibold">{titleFor(view, days, anchor)}</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          {(Object.keys(calendarViewText) as View[]).map((v) => (
+            <button
+              key={v}
+              type="button"
+              className={`rounded-md border px-2 py-1 text-xs ${view === v ? "border-blue-300/60 bg-blue-500/30" : "border-white/20 bg-white/10 hover:border-white/40"}`}
+              onClick={() => setView(v)}
+            >
+              {calendarViewText[v]}
+            </button>
+          ))}
+          <select className="rounded-md border border-white/20 bg-white/10 px-2 py-1 text-xs text-white" value={colorBy} onChange={(e) => setColorBy(e.target.value as ColorBy)}>
+            <option className="text-slate-900" value="priority">
+              اللون حسب الأولوية
+            </option>
+            <option className="text-slate-900" value="tag">
+              اللون حسب الوسم
+            </option>
+          </select>
+        </div>
+      </div>
+      {view === "month" ? (
+        <MonthGrid
+          days={days}
+          month={parseDayKey(anchor).month}
+          events={events}
+          timeZone={timeZone}
+          todayKey={today}
+          colorBy={colorBy}
+          onSelect={onSelect}
+          onChange={onReschedule}
+          onOpenDay={openDay}
+        />
+      ) : (
+        <TimeGrid days={days} events={events} timeZone={timeZone} todayKey={today} colorBy={colorBy} onSelect={onSelect} onChange={onReschedule} />
+      )}
+    </div>
+  );
+}
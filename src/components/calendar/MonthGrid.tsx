@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { eventColor, eventsOnDay, moveEvent, type ColorBy } from "../../lib/calendar";
+import { parseDayKey } from "../../lib/timezone";
+import type { GridEvent } from "./TimeGrid";
+
+// عدد المواعيد الظاهرة في خلية اليوم قبل "+N"
+const MAX_PER_CELL = 3;
+
+type Props<T extends GridEvent> = {
+  days: string[];
+  month: number;
+  events: T[];
+  timeZone: string;
+  todayKey: string;
+  colorBy: ColorBy;
+  onSelect: (event: T) => void;
+  onChange: (event: T, next: { start_at: string; end_at?: string }) => void;
+  onOpenDay: (day: string) => void;
+};
+
+function weekdayLabel(key: string) {
+  const { year, month, day } = parseDayKey(key);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("ar-EG", { timeZone: "UTC", weekday: "short" });
+}
+
+// عرض الشهر: السحب إلى يوم آخر ينقل الموعد مع الإبقاء على وقته.
+export function MonthGrid<T extends GridEvent>({ days, month, events, timeZone, todayKey, colorBy, onSelect, onChange, onOpenDay }: Props<T>) {
+  const [dragKey, setDragKey] = useState<string | null>(null);
+  const [overDay, setOverDay] = useState<string | null>(null);
+
+  const drop = (day: string) => {
+    const event = events.find((e) => e.key === dragKey);
+    setDragKey(null);
+    setOverDay(null);
+    if (event) onChange(event, moveEvent(event, day, 0, timeZone, true));
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-7 border-b border-white/10">
+        {days.slice(0, 7).map((day) => (
+          <div key={day} className="py-2 text-center text-xs text-white/70">
+            {weekdayLabel(day)}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map((day) => {
+          const dayEvents = eventsOnDay(events, day, timeZone).sort((a, b) => a.start_at.localeCompare(b.start_at));
+          const { month: dayMonth, day: dayNumber } = parseDayKey(day);
+          return (
+            <div
+              key={day}
+              className={`min-h-[92px] border-b border-s border-white/10 p-1 ${dayMonth !== month ? "opacity-50" : ""} ${overDay === day ? "bg-blue-500/10" : ""}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setOverDay(day);
+              }}
+              onDragLeave={() => setOverDay((d) => (d === day ? null : d))}
+              onDrop={(e) => {
+                e.preventDefault();
+                drop(day);
+              }}
+            >
+              <button
+                type="button"
+                className={`mb-1 flex h-6 w-6 items-center justify-center rounded-full text-xs ${day === todayKey ? "bg-blue-500 text-white" : "text-white/80 hover:bg-white/10"}`}
+                onClick={() => onOpenDay(day)}
+              >
+                {dayNumber}
+              </button>
+              <div className="space-y-0.5">
+                {dayEvents.slice(0, MAX_PER_CELL).map((event) => (
+                  <button
+                    key={event.key}
+                    type="button"
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      setDragKey(event.key);
+                    }}
+                    onDragEnd={() => setDragKey(null)}
+                    onClick={() => onSelect(event)}
+                    className={`block w-full truncate rounded px-1 text-start text-[11px] text-white ${event.status !== "scheduled" ? "opacity-50" : ""}`}
+                    style={{ background: eventColor(event, colorBy) }}
+                  >
+                    {event.title}
+                  </button>
+                ))}
+                {dayEvents.length > MAX_PER_CELL && (
+                  <button type="button" className="text-[11px] text-white/70 hover:underline" onClick={() => onOpenDay(day)}>
+                    +{dayEvents.length - MAX_PER_CELL} أخرى
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState, type PointerEvent as ReactPointerEvent } from "react";
+import { eventColor, layoutDay, moveEvent, resizeEvent, SNAP_MINUTES, type CalendarEvent, type ColorBy } from "../../lib/calendar";
+import { parseDayKey } from "../../lib/timezone";
+
+const HOUR_HEIGHT = 44;
+const PX_PER_MINUTE = HOUR_HEIGHT / 60;
+// أقل مسافة سحب (بالبكسل) قبل اعتبار الضغطة سحبًا لا نقرة
+const DRAG_THRESHOLD = 4;
+
+export type GridEvent = CalendarEvent & { title: string; status: string };
+
+type Props<T extends GridEvent> = {
+  days: string[];
+  events: T[];
+  timeZone: string;
+  todayKey: string;
+  colorBy: ColorBy;
+  onSelect: (event: T) => void;
+  onChange: (event: T, next: { start_at: string; end_at?: string }) => void;
+};
+
+type DragState = { key: string; mode: "move" | "resize"; originX: number; originY: number; dy: number; targetDay: string; moved: boolean };
+
+function dayLabel(key: string) {
+  const { year, month, day } = parseDayKey(key);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("ar-EG", { timeZone: "UTC", weekday: "short", day: "numeric" });
+}
+
+function snap(px: number) {
+  return Math.round(px / PX_PER_MINUTE / SNAP_MINUTES) * SNAP_MINUTES;
+}
+
+// عرض الأسبوع واليوم: شبكة ساعات مع سحب لإعادة الجدولة وسحب الحافة لتغيير المدة.
+export function TimeGrid<T extends GridEvent>({ days, events, timeZone, todayKey, colorBy, onSelect, onChange }: Props<T>) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const dayAt = (x: number, y: number, fallback: string) => {
+    const hit = document.elementsFromPoint(x, y).find((el) => el instanceof HTMLElement && el.dataset.day) as HTMLElement | undefined;
+    return hit?.dataset.day ?? fallback;
+  };
+
+  const startDrag = (e: ReactPointerEvent, key: string, day: string, mode: DragState["mode"]) => {
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setDrag({ key, mode, originX: e.clientX, originY: e.clientY, dy: 0, targetDay: day, moved: false });
+  };
+
+  const onPointerMove = (e: ReactPointerEvent) => {
+    if (!drag) return;
+    const dy = e.clientY - drag.originY;
+    const moved = drag.moved || Math.abs(dy) > DRAG_THRESHOLD || Math.abs(e.clientX - drag.originX) > DRAG_THRESHOLD;
+    setDrag({ ...drag, dy, moved, targetDay: drag.mode === "move" ? dayAt(e.clientX, e.clientY, drag.targetDay) : drag.targetDay });
+  };
+
+  const onPointerUp = (event: T) => {
+    if (!drag) return;
+    const current = drag;
+    setDrag(null);
+    if (!current.moved) {
+      if (current.mode === "move") onSelect(event);
+      return;
+    }
+    const minutes = snap(current.dy);
+    if (current.mode === "resize") onChange(event, resizeEvent(event, minutes));
+    else onChange(event, moveEvent(event, current.targetDay, minutes, timeZone));
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-[560px]">
+        <div className="grid border-b border-white/10" style={{ gridTemplateColumns: `48px repeat(${days.length}, minmax(0, 1fr))` }}>
+          <div />
+          {days.map((day) => (
+            <div key={day} className={`px-1 py-2 text-center text-xs ${day === todayKey ? "font-semibold text-blue-200" : "text-white/70"}`}>
+              {dayLabel(day)}
+            </div>
+          ))}
+        </div>
+        <div className="max-h-[560px] overflow-y-auto">
+          <div className="relative grid" style={{ gridTemplateColumns: `48px repeat(${days.length}, minmax(0, 1fr))`, height: HOUR_HEIGHT * 24 }}>
+            <div className="relative">
+              {Array.from({ length: 24 }, (_, h) => (
+                <div key={h} className="absolute inset-x-0 text-[10px] text-white/50" style={{ top: h * HOUR_HEIGHT }}>
+                  {String(h).padStart(2, "0")}:00
+                </div>
+              ))}
+            </div>
+            {days.map((day) => (
+              <div
+                key={day}
+                data-day={day}
+                className={`relative border-s border-white/10 ${drag?.mode === "move" && drag.moved && drag.targetDay === day ? "bg-blue-500/10" : ""}`}
+              >
+                {Array.from({ length: 24 }, (_, h) => (
+                  <div key={h} className="pointer-events-none absolute inset-x-0 border-t border-white/5" style={{ top: h * HOUR_HEIGHT }} />
+                ))}
+                {layoutDay(events, day, timeZone).map(({ event, top, height, column, columns, continuesBefore, continuesAfter }) => {
+                  const active = drag?.key === event.key && drag.moved;
+                  const extra = active && drag.mode === "resize" ? snap(drag.dy) * PX_PER_MINUTE : 0;
+                  const shift = active && drag.mode === "move" ? snap(drag.dy) * PX_PER_MINUTE : 0;
+                  return (
+                    <div
+                      key={`${event.key}@${day}`}
+                      className={`absolute cursor-grab touch-none select-none overflow-hidden rounded-md border border-white/20 px-1.5 py-0.5 text-[11px] leading-tight text-white shadow ${
+                        event.status !== "scheduled" ? "opacity-50" : ""
+                      } ${active ? "z-10 ring-2 ring-white/60" : ""}`}
+                      style={{
+                        top: top * PX_PER_MINUTE + shift,
+                        height: Math.max(height * PX_PER_MINUTE + extra, SNAP_MINUTES * PX_PER_MINUTE),
+                        insetInlineStart: `${(column / columns) * 100}%`,
+                        width: `calc(${100 / columns}% - 2px)`,
+                        background: eventColor(event, colorBy),
+                        borderTopLeftRadius: continuesBefore ? 0 : undefined,
+                        borderTopRightRadius: continuesBefore ? 0 : undefined,
+                      }}
+                      onPointerDown={(e) => startDrag(e, event.key, day, "move")}
+                      onPointerMove={onPointerMove}
+                      onPointerUp={() => onPointerUp(event)}
+                      onPointerCancel={() => setDrag(null)}
+                    >
+                      <p className="truncate font-semibold">{event.title}</p>
+                      {!continuesAfter && (
+                        <div
+                          className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize bg-white/30"
+                          onPointerDown={(e) => startDrag(e, event.key, day, "resize")}
+                          onPointerMove={onPointerMove}
+                          onPointerUp={(e) => {
+                            e.stopPropagation();
+                            onPointerUp(event);
+                          }}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
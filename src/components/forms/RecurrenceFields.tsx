@@ -0,0 +1,65 @@
+import { frequencyText, orderedWeekdays, weekdayText, type RecurrenceFormModel } from "../../lib/recurrence";
+import type { RecurrenceFrequency, WeekStart, Weekday } from "../../types";
+
+type Props = {
+  value: RecurrenceFormModel;
+  onChange: (value: RecurrenceFormModel) => void;
+  weekStart: WeekStart;
+  disabled?: boolean;
+};
+
+// حقول التكرار المشتركة بين نموذج الإضافة اليدوية ونموذج التعديل.
+export function RecurrenceFields({ value, onChange, weekStart, disabled }: Props) {
+  const set = (patch: Partial<RecurrenceFormModel>) => onChange({ ...value, ...patch });
+
+  const toggleDay = (day: Weekday) => {
+    const days = value.daysOfWeek.includes(day) ? value.daysOfWeek.filter((d) => d !== day) : [...value.daysOfWeek, day];
+    set({ daysOfWeek: orderedWeekdays(weekStart).filter((d) => days.includes(d)) });
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-slate-200 bg-slate-50 p-2">
+      <div className="grid grid-cols-2 gap-2">
+        <select className="select" value={value.frequency} onChange={(e) => set({ frequency: e.target.value as RecurrenceFrequency | "none" })} disabled={disabled}>
+          <option value="none">بدون تكرار</option>
+          {(Object.keys(frequencyText) as RecurrenceFrequency[]).map((f) => (
+            <option key={f} value={f}>
+              {frequencyText[f]}
+            </option>
+          ))}
+        </select>
+        {value.frequency !== "none" && (
+          <input className="input" type="number" min={1} max={99} placeholder="كل" value={value.interval} onChange={(e) => set({ interval: e.target.value })} disabled={disabled} />
+        )}
+      </div>
+      {value.frequency === "weekly" && (
+        <div className="flex flex-wrap gap-1">
+          {orderedWeekdays(weekStart).map((day) => (
+            <button
+              key={day}
+              type="button"
+              className={`rounded-full border px-2 py-0.5 text-xs ${value.daysOfWeek.includes(day) ? "border-blue-400 bg-blue-100 text-blue-700" : "border-slate-200 bg-white text-slate-600"}`}
+              onClick={() => toggleDay(day)}
+              disabled={disabled}
+            >
+              {weekdayText[day]}
+            </button>
+          ))}
+        </div>
+      )}
+      {value.frequency !== "none" && (
+        <div className="grid grid-cols-2 gap-2">
+          <select className="select" value={value.endMode} onChange={(e) => set({ endMode: e.target.value as RecurrenceFormModel["endMode"] })} disabled={disabled}>
+            <option value="never">بدون نهاية</option>
+            <option value="until">حتى تاريخ</option>
+            <option value="count">عدد مرات</option>
+          </select>
+          {value.endMode === "until" && <input className="input" type="date" value={value.until} onChange={(e) => set({ until: e.target.value })} disabled={disabled} />}
+          {value.endMode === "count" && (
+            <input className="input" type="number" min={1} placeholder="عدد المرات" value={value.count} onChange={(e) => set({ count: e.target.value })} disabled={disabled} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
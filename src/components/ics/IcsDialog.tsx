@@ -0,0 +1,206 @@
+import { useMemo, useState } from "react";
+import { formatDate } from "../../lib/format";
+import { isDuplicateEvent, parseIcs, toIcs, type ParsedIcsEvent } from "../../lib/ics";
+import { describeRecurrence } from "../../lib/recurrence";
+import { tagNamesOf } from "../../lib/tags";
+import { dayKeyOf } from "../../lib/timezone";
+import type { Appointment, Status } from "../../store/useAppointments";
+import type { Tag, WeekStart } from "../../types";
+
+type Props = {
+  open: boolean;
+  items: Appointment[];
+  tags: Tag[];
+  weekStart: WeekStart;
+  timeZone: string;
+  onImport: (events: ParsedIcsEvent[]) => Promise<void>;
+  onClose: () => void;
+};
+
+// tag: معرف الوسم أو "" لكل الوسوم
+type ExportFilter = { status: Status | "all"; tag: string; from: string; to: string };
+
+const statusOptions: { value: ExportFilter["status"]; label: string }[] = [
+  { value: "all", label: "كل الحالات" },
+  { value: "scheduled", label: "مجدولة" },
+  { value: "done", label: "منجزة" },
+  { value: "canceled", label: "ملغاة" },
+];
+
+function download(filename: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/calendar;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// نافذة تصدير المواعيد إلى ملف .ics واستيراد ملفات التقويم مع معاينة قبل الإضافة.
+export function IcsDialog({ open, items, tags, weekStart, timeZone, onImport, onClose }: Props) {
+  const [filter, setFilter] = useState<ExportFilter>({ status: "all", tag: "", from: "", to: "" });
+  const [events, setEvents] = useState<ParsedIcsEvent[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [fileName, setFileName] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // المواعيد المتكررة تُصدَّر إن بدأت قبل نهاية النطاق، لأن تكراراتها قد تقع داخله. الأيام بمنطقة المستخدم
+  const exportItems = useMemo(
+    () =>
+      items.filter((a) => {
+        const day = dayKeyOf(new Date(a.start_at), timeZone);
+        return (
+          (filter.status === "all" || a.status === filter.status) &&
+          (!filter.tag || !!a.tag_ids?.includes(filter.tag)) &&
+          (!filter.from || a.recurrence || day >= filter.from) &&
+          (!filter.to || day <= filter.to)
+        );
+      }),
+    [items, filter, timeZone]
+  );
+
+  if (!open) return null;
+
+  const handleExport = () => {
+    const withCategories = exportItems.map((a) => ({ ...a, categories: tagNamesOf(tags, a.tag_ids) }));
+    download(`nabiuh-${dayKeyOf(new Date(), timeZone)}.ics`, toIcs(withCategories, { calendarName: "نبّه", weekStart, timeZone }));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setError(null);
+    setEvents([]);
+    setSelected(new Set());
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      const parsed = parseIcs(await file.text(), timeZone);
+      if (!parsed.length) {
+        setError("لم يتم العثور على أحداث في الملف.");
+        return;
+      }
+      // نستبعد التكرار داخل الملف نفسه ثم ما سبق استيراده
+      const unique = parsed.filter((e, i) => parsed.findIndex((o) => o.uid === e.uid) === i);
+      setEvents(unique);
+      setSelected(new Set(unique.filter((e) => !isDuplicateEvent(e, items)).map((e) => e.uid)));
+    } catch {
+      setError("تعذر قراءة الملف. تأكد من أنه ملف تقويم بصيغة .ics.");
+    }
+  };
+
+  const toggle = (uid: string) =>
+    setSelected((s) => {
+      const next = new Set(s);
+      if (next.has(uid)) next.delete(uid);
+      else next.add(uid);
+      return next;
+    });
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    try {
+      await onImport(events.filter((e) => selected.has(e.uid)));
+      setEvents([]);
+      setSelected(new Set());
+      setFileName("");
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "تعذر استيراد المواعيد.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-slate-900/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-2xl rounded-2xl border border-slate-200 bg-white shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between border-b border-slate-200 px-5 py-4">
+          <div>
+            <p className="text-xs text-slate-500">iCalendar (.ics)</p>
+            <h2 className="text-lg font-semibold text-slate-900">تصدير واستيراد</h2>
+          </div>
+          <button className="rounded-md border border-slate-200 px-3 py-1.5 text-sm text-slate-700 hover:border-blue-200 hover:text-blue-600" onClick={onClose}>
+            إغلاق
+          </button>
+        </div>
+
+        <div className="space-y-4 p-5">
+          <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50/60 p-4">
+            <div>
+              <h3 className="font-semibold text-slate-900">تصدير</h3>
+              <p className="text-sm text-slate-600">ملف يمكن فتحه في تقويم Google أو Outlook أو Apple.</p>
+            </div>
+            <div className="grid gap-2 md:grid-cols-2">
+              <select className="select" value={filter.status} onChange={(e) => setFilter((f) => ({ ...f, status: e.target.value as ExportFilter["status"] }))}>
+                {statusOptions.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              <select className="select" value={filter.tag} onChange={(e) => setFilter((f) => ({ ...f, tag: e.target.value }))}>
+                <option value="">كل الوسوم</option>
+                {tags.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+              <label className="space-y-1 text-sm text-slate-700">
+                <span>من تاريخ</span>
+                <input type="date" className="input" value={filter.from} onChange={(e) => setFilter((f) => ({ ...f, from: e.target.value }))} />
+              </label>
+              <label className="space-y-1 text-sm text-slate-700">
+                <span>إلى تاريخ</span>
+                <input type="date" className="input" value={filter.to} onChange={(e) => setFilter((f) => ({ ...f, to: e.target.value }))} />
+              </label>
+            </div>
+            <button className="btn-primary" disabled={!exportItems.length} onClick={handleExport}>
+              تصدير {exportItems.length} موعد
+            </button>
+          </div>
+
+          <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50/60 p-4">
+            <div>
+              <h3 className="font-semibold text-slate-900">استيراد</h3>
+              <p className="text-sm text-slate-600">الأحداث التي سبق استيرادها تظهر معطلة ولن تُضاف مرة أخرى.</p>
+            </div>
+            <input type="file" accept=".ics,text/calendar" className="text-sm text-slate-700" onChange={(e) => handleFile(e.target.files?.[0])} />
+            {error && <p className="text-sm text-rose-600">{error}</p>}
+            {events.length > 0 && (
+              <>
+                <p className="text-xs text-slate-500">
+                  {fileName}: {events.length} حدث، المحدد {selected.size}
+                </p>
+                <ul className="max-h-72 space-y-2 overflow-y-auto">
+                  {events.map((e) => {
+                    const duplicate = isDuplicateEvent(e, items);
+                    return (
+                      <li key={e.uid} className={`flex items-start gap-2 rounded-md border border-slate-200 bg-white p-2 text-sm ${duplicate ? "opacity-50" : ""}`}>
+                        <input type="checkbox" className="mt-1" disabled={duplicate} checked={selected.has(e.uid)} onChange={() => toggle(e.uid)} />
+                        <div className="space-y-0.5">
+                          <p className="font-semibold text-slate-900">{e.title}</p>
+                          <p className="text-xs text-slate-600">
+                            {formatDate(e.start_at, "ar", timeZone)}
+                            {e.location && ` · ${e.location}`}
+                            {e.recurrence && ` · ${describeRecurrence(e.recurrence)}`}
+                          </p>
+                          {e.series_uid && <p className="text-xs text-slate-500">تعديل لتكرار واحد من سلسلة، يُستورد موعدًا منفصلًا</p>}
+                          {duplicate && <p className="text-xs text-amber-700">مستورد مسبقًا</p>}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+                <button className="btn-primary" disabled={importing || !selected.size} onClick={handleImport}>
+                  {importing ? "جاري الاستيراد..." : `استيراد ${selected.size} موعد`}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
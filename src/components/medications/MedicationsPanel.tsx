@@ -0,0 +1,243 @@
+import { useState, type FormEvent } from "react";
+import {
+  adherence,
+  courseEndKey,
+  defaultDoseTimes,
+  describeDosing,
+  needsRefill,
+  scheduledDoses,
+  todayKeyIn,
+  type DoseStatus,
+  type Medication,
+  type MedicationDose,
+  type MedicationInput,
+} from "../../lib/medications";
+import { addDaysToKey } from "../../lib/timezone";
+
+type Props = {
+  medications: Medication[];
+  doseLog: MedicationDose[];
+  drafts: MedicationInput[];
+  timeZone: string;
+  busy: boolean;
+  error: string | null;
+  onSave: (input: MedicationInput, id?: string) => Promise<boolean>;
+  onDelete: (medication: Medication) => void;
+  onToggleActive: (medication: Medication) => void;
+  onDiscardDraft: (index: number) => void;
+  onRecordDose: (medication: Medication, scheduledAt: string, status: DoseStatus) => void;
+};
+
+type FormState = { name: string; dose: string; times: string; startDate: string; courseDays: string; refillDate: string; notes: string };
+
+type Editing = { id?: string; draftIndex?: number; active: boolean; form: FormState };
+
+const HISTORY_DAYS = 14;
+
+const statusText: Record<DoseStatus | "pending", string> = { taken: "أُخذت", missed: "فاتت", skipped: "تُخطيت", pending: "قادمة" };
+const statusClass: Record<DoseStatus | "pending", string> = {
+  taken: "bg-emerald-100 text-emerald-800",
+  missed: "bg-rose-100 text-rose-700",
+  skipped: "bg-slate-200 text-slate-600",
+  pending: "bg-blue-50 text-blue-700",
+};
+
+function toForm(input: MedicationInput): FormState {
+  return {
+    name: input.name,
+    dose: input.dose ?? "",
+    times: input.dose_times.join("، "),
+    startDate: input.start_date,
+    courseDays: input.course_days ? String(input.course_days) : "",
+    refillDate: input.refill_date ?? "",
+    notes: input.notes ?? "",
+  };
+}
+
+function fromForm(form: FormState, active: boolean): MedicationInput {
+  const times = form.times.split(/[،,\s]+/).filter(Boolean);
+  return {
+    name: form.name,
+    dose: form.dose || null,
+    times_per_day: times.length,
+    dose_times: times,
+    start_date: form.startDate,
+    course_days: form.courseDays ? Number(form.courseDays) : null,
+    refill_date: form.refillDate || null,
+    notes: form.notes || null,
+    active,
+  };
+}
+
+function dayClass(statuses: (DoseStatus | "pending")[]) {
+  if (!statuses.length) return "bg-slate-100";
+  if (statuses.includes("missed")) return statuses.includes("taken") ? "bg-amber-300" : "bg-rose-400";
+  if (statuses.every((s) => s === "taken" || s === "skipped")) return "bg-emerald-400";
+  return "bg-blue-200";
+}
+
+// الأدوية: جرعات اليوم مع تسجيل أخذها أو فواتها، ونسبة الالتزام وسجل آخر أسبوعين، وتنبيه إعادة الصرف.
+export function MedicationsPanel({ medications, doseLog, drafts, timeZone, busy, error, onSave, onDelete, onToggleActive, onDiscardDraft, onRecordDose }: Props) {
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const today = todayKeyIn(timeZone);
+  const historyStart = addDaysToKey(today, -(HISTORY_DAYS - 1));
+
+  const startNew = () =>
+    setEditing({ active: true, form: toForm({ name: "", dose: null, times_per_day: 1, dose_times: defaultDoseTimes(1), start_date: today, course_days: null, refill_date: null, notes: null, active: true }) });
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    if (!editing) return;
+    const saved = await onSave(fromForm(editing.form, editing.active), editing.id);
+    if (!saved) return;
+    if (editing.draftIndex !== undefined) onDiscardDraft(editing.draftIndex);
+    setEditing(null);
+  }
+
+  const field = (key: keyof FormState, label: string, type = "text", placeholder?: string) =>
+    editing && (
+      <label className="space-y-1 text-xs text-slate-600">
+        <span>{label}</span>
+        <input
+          className="input"
+          type={type}
+          placeholder={placeholder}
+          value={editing.form[key]}
+          onChange={(e) => setEditing({ ...editing, form: { ...editing.form, [key]: e.target.value } })}
+          disabled={busy}
+        />
+      </label>
+    );
+
+  return (
+    <div className="rounded-md border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-slate-900">الأدوية</h3>
+          <p className="text-sm text-slate-600">تذكير بكل جرعة وسجل التزام يومي.</p>
+        </div>
+        {!editing && (
+          <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={startNew} disabled={busy}>
+            + دواء
+          </button>
+        )}
+      </div>
+
+      {drafts.length > 0 && !editing && (
+        <div className="mt-3 space-y-2 rounded-md border border-amber-300 bg-amber-50 p-3">
+          <p className="text-sm font-medium text-amber-900">أدوية مستخرجة بانتظار المراجعة</p>
+          {drafts.map((draft, i) => (
+            <div key={i} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-amber-900">
+                {draft.name} — {describeDosing(draft)}
+              </span>
+              <div className="flex gap-2">
+                <button type="button" className="btn-primary" onClick={() => setEditing({ draftIndex: i, active: true, form: toForm(draft) })} disabled={busy}>
+                  مراجعة
+                </button>
+                <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-1 text-sm" onClick={() => onDiscardDraft(i)} disabled={busy}>
+                  تجاهل
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <form className="mt-3 space-y-2 rounded-md border border-slate-200 bg-slate-50/60 p-3" onSubmit={submit}>
+          <div className="grid grid-cols-2 gap-2">
+            {field("name", "اسم الدواء")}
+            {field("dose", "الجرعة", "text", "500 ملغ")}
+          </div>
+          {field("times", "أوقات الجرعات (HH:MM مفصولة بفواصل)", "text", "08:00، 20:00")}
+          <div className="grid grid-cols-3 gap-2">
+            {field("startDate", "تاريخ البدء", "date")}
+            {field("courseDays", "مدة العلاج (أيام)", "number", "مستمر")}
+            {field("refillDate", "موعد إعادة الصرف", "date")}
+          </div>
+          {field("notes", "ملاحظات", "text", "بعد الأكل")}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button type="submit" className="btn-primary" disabled={busy}>
+              {busy ? "جارٍ الحفظ..." : "حفظ وجدولة الجرعات"}
+            </button>
+            <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={() => setEditing(null)} disabled={busy}>
+              إلغاء
+            </button>
+          </div>
+        </form>
+      )}
+      {!editing && error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      <div className="mt-3 space-y-3">
+        {!medications.length && !drafts.length && <p className="text-sm text-slate-500">لا توجد أدوية بعد.</p>}
+        {medications.map((med) => {
+          const history = scheduledDoses(med, historyStart, today, doseLog, timeZone);
+          const todays = history.filter((d) => d.day === today);
+          const stats = adherence(history);
+          const end = courseEndKey(med);
+          return (
+            <div key={med.id} className={`space-y-2 rounded-md border p-3 ${med.active ? "border-slate-200" : "border-slate-200 bg-slate-50 opacity-70"}`}>
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium text-slate-900">💊 {med.name}</p>
+                  <p className="text-xs text-slate-600">
+                    {describeDosing(med)}
+                    {end && ` · حتى ${end}`}
+                  </p>
+                </div>
+                <div className="flex gap-1 text-xs">
+                  <button type="button" className="rounded-md border border-slate-200 px-2 py-1" onClick={() => setEditing({ id: med.id, active: med.active, form: toForm(med) })} disabled={busy}>
+                    تعديل
+                  </button>
+                  <button type="button" className="rounded-md border border-slate-200 px-2 py-1" onClick={() => onToggleActive(med)} disabled={busy}>
+                    {med.active ? "إيقاف" : "استئناف"}
+                  </button>
+                  <button type="button" className="rounded-md border border-rose-200 px-2 py-1 text-rose-600" onClick={() => onDelete(med)} disabled={busy}>
+                    حذف
+                  </button>
+                </div>
+              </div>
+
+              {needsRefill(med, today) && <p className="text-xs text-amber-700">⚠️ موعد إعادة الصرف {med.refill_date}</p>}
+
+              {med.active && todays.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {todays.map((dose) => (
+                    <div key={dose.scheduled_at} className={`flex items-center gap-1 rounded-full px-2 py-1 text-xs ${statusClass[dose.status]}`}>
+                      <span>
+                        {dose.time} · {statusText[dose.status]}
+                      </span>
+                      {dose.status !== "taken" && (
+                        <button type="button" title="أخذتها" onClick={() => onRecordDose(med, dose.scheduled_at, "taken")} disabled={busy}>
+                          ✓
+                        </button>
+                      )}
+                      {dose.status === "pending" && (
+                        <button type="button" title="تخطي" onClick={() => onRecordDose(med, dose.scheduled_at, "skipped")} disabled={busy}>
+                          ⤼
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <div className="flex gap-0.5" aria-label="سجل آخر أسبوعين">
+                  {Array.from({ length: HISTORY_DAYS }, (_, i) => addDaysToKey(historyStart, i)).map((day) => (
+                    <span key={day} title={day} className={`h-3 w-3 rounded-sm ${dayClass(history.filter((d) => d.day === day).map((d) => d.status))}`} />
+                  ))}
+                </div>
+                <span className="text-xs text-slate-600">
+                  الالتزام: {stats.rate === null ? "—" : `${Math.round(stats.rate * 100)}%`} ({stats.taken} مأخوذة، {stats.missed} فائتة)
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import type { ScheduleCheck, Schedulable, Slot } from "../../lib/conflicts";
+import { formatDate, formatTime } from "../../lib/format";
+
+type Props<T extends Schedulable & { title: string }> = {
+  check: ScheduleCheck<T> | null;
+  title: string;
+  timeZone: string;
+  onPick: (slot: Slot) => void;
+  onProceed: () => void;
+  onCancel: () => void;
+};
+
+function timeRange(slot: { start_at: string; end_at?: string }, timeZone: string) {
+  const start = formatDate(slot.start_at, "ar", timeZone);
+  return slot.end_at ? `${start} – ${formatTime(slot.end_at, "ar", timeZone)}` : start;
+}
+
+// تحذير قبل الحفظ عند تعارض الموعد أو خروجه عن ساعات العمل، مع أقرب أوقات متاحة بديلة.
+export function ConflictDialog<T extends Schedulable & { title: string }>({ check, title, timeZone, onPick, onProceed, onCancel }: Props<T>) {
+  if (!check) return null;
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm" onClick={onCancel}>
+      <div className="w-full max-w-lg rounded-2xl border border-amber-100 bg-white p-6 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-full bg-amber-100 text-amber-700">!</div>
+          <div className="flex-1 space-y-3">
+            <div>
+              <h3 className="text-lg font-semibold text-slate-900">تعارض في الجدول</h3>
+              <p className="text-sm text-slate-600">{title}</p>
+            </div>
+            {check.conflicts.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-slate-800">يتداخل مع:</p>
+                <ul className="space-y-1">
+                  {check.conflicts.map((c) => (
+                    <li key={`${c.id}@${c.occurrence_start}`} className="rounded-md border border-slate-200 bg-slate-50 px-3 py-1.5 text-sm text-slate-700">
+                      <span className="font-semibold">{c.title}</span>
+                      <span className="block text-xs text-slate-500">{timeRange(c, timeZone)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {check.outsideWorkingHours && <p className="text-sm text-amber-700">الموعد خارج ساعات العمل المحددة في الإعدادات.</p>}
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-slate-800">أقرب أوقات متاحة:</p>
+              {check.suggestions.length ? (
+                <div className="flex flex-wrap gap-2">
+                  {check.suggestions.map((slot) => (
+                    <button
+                      key={slot.start_at}
+                      type="button"
+                      className="rounded-md border border-blue-200 bg-blue-50 px-3 py-1.5 text-sm text-blue-700 hover:bg-blue-100"
+                      onClick={() => onPick(slot)}
+                    >
+                      {timeRange(slot, timeZone)}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-slate-500">لا توجد أوقات متاحة قريبة.</p>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="mt-4 flex justify-end gap-2">
+          <button className="rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700 hover:border-slate-300" onClick={onCancel}>
+            إلغاء
+          </button>
+          <button className="btn-primary" onClick={onProceed}>
+            الحفظ على أي حال
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
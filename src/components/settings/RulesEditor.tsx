@@ -0,0 +1,230 @@
+import { useRef, useState } from "react";
+import { priorityText } from "../../lib/format";
+import {
+  defaultRules,
+  evaluateRules,
+  exportRuleSet,
+  newRule,
+  parseRuleSet,
+  ruleFieldText,
+  ruleOperatorText,
+  type ClassificationRule,
+  type RuleActions,
+  type RuleCondition,
+  type RuleField,
+  type RuleOperator,
+  type RuleSubject,
+} from "../../lib/rules";
+import type { Priority } from "../../types";
+
+type Props = {
+  rules: ClassificationRule[];
+  onChange: (rules: ClassificationRule[]) => void;
+};
+
+const fields = Object.keys(ruleFieldText) as RuleField[];
+const operators = Object.keys(ruleOperatorText) as RuleOperator[];
+const priorities = Object.keys(priorityText) as Priority[];
+
+// القيم تُحرر كنص مفصول بفواصل والأسطر كقائمة؛ الفراغات تُهمل عند التقييم لا أثناء الكتابة
+const splitValues = (value: string) => value.split(/[,،]/);
+const splitLines = (value: string) => value.split("\n");
+
+function download(filename: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "application/json;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// محرر قواعد التصنيف في الإعدادات: ترتيب وتعديل القواعد، مختبر على موعد تجريبي، وتصدير واستيراد المجموعة كملف JSON.
+export function RulesEditor({ rules, onChange }: Props) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [sample, setSample] = useState<RuleSubject>({ title: "", notes: "", location: "", type: "", tag: "" });
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const updateRule = (id: string, patch: Partial<ClassificationRule>) => onChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  const updateActions = (rule: ClassificationRule, patch: Partial<RuleActions>) => updateRule(rule.id, { actions: { ...rule.actions, ...patch } });
+  const updateCondition = (rule: ClassificationRule, index: number, patch: Partial<RuleCondition>) =>
+    updateRule(rule.id, { conditions: rule.conditions.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+
+  function move(index: number, delta: number) {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  }
+
+  function addRule() {
+    const rule = newRule();
+    onChange([...rules, rule]);
+    setExpanded(rule.id);
+  }
+
+  async function importFile(file: File | undefined) {
+    if (!file) return;
+    setImportError(null);
+    try {
+      const imported = parseRuleSet(await file.text());
+      if (window.confirm(`استبدال القواعد الحالية بـ ${imported.length} قاعدة من ${file.name}؟`)) onChange(imported);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "تعذر قراءة الملف.");
+    }
+  }
+
+  const outcome = evaluateRules(rules, sample);
+  const sampleFilled = Object.values(sample).some((v) => v?.trim());
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">تُطبق على المواعيد اليدوية والمستخرجة بالذكاء الاصطناعي. القاعدة الأعلى تحدد الأولوية والوسم والتذكير، والإجراءات تُجمع من كل القواعد المطابقة.</p>
+
+      <div className="space-y-2">
+        {rules.map((rule, index) => (
+          <div key={rule.id} className="rounded-md border border-slate-200 bg-white">
+            <div className="flex items-center gap-2 p-2">
+              <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} title="تفعيل" />
+              <button type="button" className="flex-1 text-right text-sm font-medium text-slate-800" onClick={() => setExpanded(expanded === rule.id ? null : rule.id)}>
+                {rule.name}
+                {rule.actions.priority && <span className="mr-2 text-xs text-slate-500">← {priorityText[rule.actions.priority]}</span>}
+              </button>
+              <button type="button" className="text-xs text-slate-500" onClick={() => move(index, -1)} disabled={index === 0} title="أعلى">
+                ▲
+              </button>
+              <button type="button" className="text-xs text-slate-500" onClick={() => move(index, 1)} disabled={index === rules.length - 1} title="أسفل">
+                ▼
+              </button>
+              <button type="button" className="text-xs text-rose-600" onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}>
+                حذف
+              </button>
+            </div>
+
+            {expanded === rule.id && (
+              <div className="space-y-2 border-t border-slate-100 p-2">
+                <input className="input" value={rule.name} onChange={(e) => updateRule(rule.id, { name: e.target.value })} placeholder="اسم القاعدة" />
+                <select className="select" value={rule.match} onChange={(e) => updateRule(rule.id, { match: e.target.value as ClassificationRule["match"] })}>
+                  <option value="any">عند تحقق أي شرط</option>
+                  <option value="all">عند تحقق كل الشروط</option>
+                </select>
+                {rule.conditions.map((condition, i) => (
+                  <div key={i} className="flex gap-1">
+                    <select className="select" value={condition.field} onChange={(e) => updateCondition(rule, i, { field: e.target.value as RuleField })}>
+                      {fields.map((f) => (
+                        <option key={f} value={f}>
+                          {ruleFieldText[f]}
+                        </option>
+                      ))}
+                    </select>
+                    <select className="select" value={condition.operator} onChange={(e) => updateCondition(rule, i, { operator: e.target.value as RuleOperator })}>
+                      {operators.map((op) => (
+                        <option key={op} value={op}>
+                          {ruleOperatorText[op]}
+                        </option>
+                      ))}
+                    </select>
+                    <input className="input" value={condition.values.join(",")} onChange={(e) => updateCondition(rule, i, { values: splitValues(e.target.value) })} placeholder="قيم مفصولة بفواصل" />
+                    <button type="button" className="text-xs text-rose-600" onClick={() => updateRule(rule.id, { conditions: rule.conditions.filter((_, j) => j !== i) })}>
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button type="button" className="text-xs text-blue-600" onClick={() => updateRule(rule.id, { conditions: [...rule.conditions, { field: "title", operator: "contains", values: [] }] })}>
+                  + شرط
+                </button>
+
+                <div className="grid grid-cols-3 gap-2">
+                  <select className="select" value={rule.actions.priority ?? ""} onChange={(e) => updateActions(rule, { priority: (e.target.value || undefined) as Priority | undefined })}>
+                    <option value="">الأولوية: بلا تغيير</option>
+                    {priorities.map((p) => (
+                      <option key={p} value={p}>
+                        {priorityText[p]}
+                      </option>
+                    ))}
+                  </select>
+                  <input className="input" value={rule.actions.tag ?? ""} onChange={(e) => updateActions(rule, { tag: e.target.value || undefined })} placeholder="الوسم" />
+                  <input
+                    className="input"
+                    type="number"
+                    min={1}
+                    value={rule.actions.reminderMinutes ?? ""}
+                    onChange={(e) => {
+                      const v = parseInt(e.target.value, 10);
+                      updateActions(rule, { reminderMinutes: v > 0 ? v : undefined });
+                    }}
+                    placeholder="التذكير (دقائق)"
+                  />
+                </div>
+                <textarea
+                  className="textarea"
+                  value={(rule.actions.actionsBefore ?? []).join("\n")}
+                  onChange={(e) => updateActions(rule, { actionsBefore: splitLines(e.target.value) })}
+                  placeholder="إجراءات قبل الموعد (سطر لكل إجراء)"
+                />
+                <textarea
+                  className="textarea"
+                  value={(rule.actions.actionsAfter ?? []).join("\n")}
+                  onChange={(e) => updateActions(rule, { actionsAfter: splitLines(e.target.value) })}
+                  placeholder="إجراءات بعد الموعد (سطر لكل إجراء)"
+                />
+                <input className="input" value={rule.actions.note ?? ""} onChange={(e) => updateActions(rule, { note: e.target.value || undefined })} placeholder="ملاحظة تضاف للوصف" />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={addRule}>
+          + قاعدة
+        </button>
+        <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={() => download("nabiuh-rules.json", exportRuleSet(rules))}>
+          تصدير
+        </button>
+        <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={() => fileRef.current?.click()}>
+          استيراد
+        </button>
+        <button type="button" className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm" onClick={() => window.confirm("استعادة القواعد الافتراضية؟") && onChange(defaultRules)}>
+          الافتراضية
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            importFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {importError && <p className="text-sm text-red-600">{importError}</p>}
+
+      <div className="space-y-2 rounded-md border border-slate-200 bg-slate-50 p-2">
+        <p className="text-sm font-medium text-slate-700">اختبار القواعد</p>
+        <div className="grid grid-cols-2 gap-2">
+          {fields.map((f) => (
+            <input key={f} className="input" value={sample[f] ?? ""} onChange={(e) => setSample((s) => ({ ...s, [f]: e.target.value }))} placeholder={ruleFieldText[f]} />
+          ))}
+        </div>
+        {sampleFilled &&
+          (outcome.matched.length ? (
+            <ul className="space-y-1 text-xs text-slate-700">
+              <li>القواعد المطابقة: {outcome.matched.join("، ")}</li>
+              {outcome.priority && <li>الأولوية: {priorityText[outcome.priority]}</li>}
+              {outcome.tag && <li>الوسم: {outcome.tag}</li>}
+              {outcome.reminderMinutes && <li>التذكير: قبل {outcome.reminderMinutes} دقيقة</li>}
+              {outcome.actionsBefore.length > 0 && <li>قبل: {outcome.actionsBefore.join("، ")}</li>}
+              {outcome.actionsAfter.length > 0 && <li>بعد: {outcome.actionsAfter.join("، ")}</li>}
+              {outcome.notes.length > 0 && <li>ملاحظة: {outcome.notes.join("، ")}</li>}
+            </ul>
+          ) : (
+            <p className="text-xs text-slate-500">لا تطابق أي قاعدة.</p>
+          ))}
+      </div>
+    </div>
+  );
+}
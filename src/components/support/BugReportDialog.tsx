@@ -0,0 +1,151 @@
+import { useState, type FormEvent } from "react";
+import { formatDate } from "../../lib/format";
+import { bugSeverityText, bugStatusText, MAX_SCREENSHOT_BYTES, type BugReport, type BugReportInput, type BugSeverity, type BugStatus } from "../../lib/bugReports";
+
+type Props = {
+  open: boolean;
+  prefill: { title: string; description: string } | null;
+  reports: BugReport[];
+  reportsLoading: boolean;
+  busy: boolean;
+  error: string | null;
+  onSubmit: (input: BugReportInput, screenshot: File | null) => Promise<boolean>;
+  onShowReports: () => void;
+  onClose: () => void;
+};
+
+const severities = Object.keys(bugSeverityText) as BugSeverity[];
+
+const statusClass: Record<BugStatus, string> = {
+  open: "bg-amber-100 text-amber-800",
+  in_progress: "bg-blue-100 text-blue-700",
+  resolved: "bg-emerald-100 text-emerald-800",
+  closed: "bg-slate-200 text-slate-600",
+};
+
+// نموذج الإبلاغ عن مشكلة (يُملأ مسبقًا من نافذة الخطأ) مع قائمة "بلاغاتي" وحالة كل بلاغ.
+// معلومات الجهاز والإصدار تُلتقط تلقائيًا عند الإرسال، وسجل الأخطاء الأخير يُرفق بموافقة المستخدم.
+export function BugReportDialog({ open, prefill, reports, reportsLoading, busy, error, onSubmit, onShowReports, onClose }: Props) {
+  const [tab, setTab] = useState<"new" | "mine">("new");
+  const [form, setForm] = useState<BugReportInput>(() => ({ title: prefill?.title ?? "", description: prefill?.description ?? "", steps: "", severity: prefill ? "high" : "medium", includeLog: true }));
+  const [screenshot, setScreenshot] = useState<File | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+
+  if (!open) return null;
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    if (await onSubmit(form, screenshot)) {
+      setSent(true);
+      setTab("mine");
+      onShowReports();
+    }
+  }
+
+  function pickScreenshot(file: File | undefined) {
+    setFileError(null);
+    if (!file) return;
+    if (!file.type.startsWith("image/")) setFileError("اختر صورة.");
+    else if (file.size > MAX_SCREENSHOT_BYTES) setFileError("حجم الصورة أكبر من 5 ميغابايت.");
+    else setScreenshot(file);
+  }
+
+  const tabClass = (active: boolean) => `rounded-md px-3 py-1.5 text-sm ${active ? "bg-blue-600 text-white" : "border border-slate-200 text-slate-700"}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-slate-900/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="flex max-h-[90vh] w-full max-w-xl flex-col rounded-2xl border border-slate-200 bg-white shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between border-b border-slate-200 px-5 py-4">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">الإبلاغ عن مشكلة</h3>
+            <p className="text-xs text-slate-600">يصل البلاغ إلى فريق الدعم ويمكنك متابعة حالته هنا.</p>
+          </div>
+          <div className="flex gap-2">
+            <button className={tabClass(tab === "new")} onClick={() => setTab("new")}>
+              بلاغ جديد
+            </button>
+            <button
+              className={tabClass(tab === "mine")}
+              onClick={() => {
+                setTab("mine");
+                onShowReports();
+              }}
+            >
+              بلاغاتي
+            </button>
+            <button className="rounded-md border border-slate-200 px-3 py-1.5 text-sm text-slate-700 hover:border-blue-200 hover:text-blue-600" onClick={onClose}>
+              إغلاق
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4">
+          {tab === "new" ? (
+            <form className="space-y-2" onSubmit={submit}>
+              <input className="input" placeholder="عنوان مختصر" value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} disabled={busy} />
+              <textarea className="textarea min-h-[90px]" placeholder="ماذا حدث؟" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} disabled={busy} />
+              <textarea className="textarea" placeholder="خطوات إعادة المشكلة (اختياري)" value={form.steps} onChange={(e) => setForm({ ...form, steps: e.target.value })} disabled={busy} />
+              <label className="block space-y-1 text-sm text-slate-700">
+                <span>الخطورة</span>
+                <select className="select" value={form.severity} onChange={(e) => setForm({ ...form, severity: e.target.value as BugSeverity })} disabled={busy}>
+                  {severities.map((s) => (
+                    <option key={s} value={s}>
+                      {bugSeverityText[s]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block space-y-1 text-sm text-slate-700">
+                <span>لقطة شاشة (اختياري)</span>
+                <input type="file" accept="image/*" className="block text-sm" onChange={(e) => pickScreenshot(e.target.files?.[0])} disabled={busy} />
+              </label>
+              {screenshot && (
+                <p className="text-xs text-slate-600">
+                  {screenshot.name}{" "}
+                  <button type="button" className="text-rose-600" onClick={() => setScreenshot(null)}>
+                    إزالة
+                  </button>
+                </p>
+              )}
+              {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input type="checkbox" checked={form.includeLog} onChange={(e) => setForm({ ...form, includeLog: e.target.checked })} disabled={busy} />
+                إرفاق سجل الأخطاء الأخير
+              </label>
+              <p className="text-xs text-slate-500">يُرفق تلقائيًا نوع المتصفح والجهاز والمنطقة الزمنية وإصدار التطبيق.</p>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <button type="submit" className="btn-primary" disabled={busy}>
+                {busy ? "جارٍ الإرسال..." : "إرسال البلاغ"}
+              </button>
+            </form>
+          ) : (
+            <div className="space-y-2">
+              {sent && <p className="text-sm text-emerald-600">تم إرسال البلاغ، شكرًا لك.</p>}
+              {reportsLoading && <p className="text-sm text-slate-500">جارٍ التحميل...</p>}
+              {!reportsLoading && !reports.length && <p className="text-sm text-slate-500">لم ترسل أي بلاغ بعد.</p>}
+              {reports.map((report) => (
+                <div key={report.id} className="space-y-1 rounded-md border border-slate-200 p-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="font-medium text-slate-900">{report.title}</p>
+                    <span className={`shrink-0 rounded-full px-2 py-0.5 text-xs ${statusClass[report.status]}`}>{bugStatusText[report.status]}</span>
+                  </div>
+                  <p className="line-clamp-2 text-sm text-slate-600">{report.description}</p>
+                  <p className="text-xs text-slate-500">
+                    {formatDate(report.created_at)} · الخطورة: {bugSeverityText[report.severity]}
+                  </p>
+                  {report.replies?.map((reply) => (
+                    <div key={reply.id} className="rounded-md bg-blue-50 px-3 py-2 text-sm text-blue-900">
+                      <p className="whitespace-pre-line">{reply.body}</p>
+                      <p className="mt-1 text-xs text-blue-700">رد فريق الدعم · {formatDate(reply.created_at)}</p>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { Tag } from "../../types";
+
+type Props = {
+  tag: Pick<Tag, "name" | "color">;
+  active?: boolean;
+  onClick?: () => void;
+  onRemove?: () => void;
+  disabled?: boolean;
+};
+
+// شارة الوسم بلونه؛ تصبح زرًا عند تمرير onClick (التصفية واختيار الوسوم)
+export function TagChip({ tag, active = true, onClick, onRemove, disabled }: Props) {
+  const style = active ? { backgroundColor: `${tag.color}26`, borderColor: `${tag.color}80`, color: tag.color } : { borderColor: `${tag.color}59` };
+  const className = `inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${active ? "font-medium" : "text-slate-400"}`;
+  const content = (
+    <>
+      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+      {tag.name}
+    </>
+  );
+
+  if (onClick) {
+    return (
+      <button type="button" className={className} style={style} onClick={onClick} disabled={disabled} aria-pressed={active}>
+        {content}
+      </button>
+    );
+  }
+  return (
+    <span className={className} style={style}>
+      {content}
+      {onRemove && (
+        <button type="button" className="ms-0.5 opacity-70 hover:opacity-100" onClick={onRemove} disabled={disabled} aria-label={`إزالة ${tag.name}`}>
+          ×
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { defaultTagColor, type TagPatch } from "../../lib/tags";
+import type { Tag } from "../../types";
+
+type Props = {
+  tags: Tag[];
+  // عدد المواعيد لكل وسم
+  usage: Record<string, number>;
+  onCreate: (name: string, color: string) => Promise<void>;
+  onUpdate: (id: string, patch: TagPatch) => Promise<void>;
+  onDelete: (id: string, reassignTo?: string) => Promise<void>;
+};
+
+function omit(record: Record<string, string>, key: string) {
+  const next = { ...record };
+  delete next[key];
+  return next;
+}
+
+// إدارة الوسوم: إضافة بلون، إعادة تسمية وتغيير اللون، وحذف مع نقل المواعيد إلى وسم آخر (دمج).
+export function TagManager({ tags, usage, onCreate, onUpdate, onDelete }: Props) {
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<string | null>(null);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [colors, setColors] = useState<Record<string, string>>({});
+  const [reassign, setReassign] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(task: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "تعذر حفظ الوسم.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function add() {
+    if (!newName.trim()) return;
+    if (await run(() => onCreate(newName, newColor ?? defaultTagColor(newName)))) {
+      setNewName("");
+      setNewColor(null);
+    }
+  }
+
+  async function rename(tag: Tag) {
+    const name = names[tag.id];
+    if (name === undefined || name.trim() === tag.name) return;
+    // عند الفشل يعود الحقل إلى الاسم المحفوظ وتبقى رسالة الخطأ ظاهرة
+    await run(() => onUpdate(tag.id, { name }));
+    setNames((prev) => omit(prev, tag.id));
+  }
+
+  async function recolor(tag: Tag) {
+    const color = colors[tag.id];
+    if (!color || color === tag.color) return;
+    await run(() => onUpdate(tag.id, { color }));
+    setColors((prev) => omit(prev, tag.id));
+  }
+
+  async function remove(tag: Tag) {
+    const target = tags.find((t) => t.id === reassign[tag.id]);
+    const count = usage[tag.id] ?? 0;
+    const message = target ? `دمج "${tag.name}" في "${target.name}"؟ تنتقل ${count} موعد/مواعيد إلى "${target.name}".` : `حذف "${tag.name}" وإزالته من ${count} موعد/مواعيد؟`;
+    if (!window.confirm(message)) return;
+    await run(() => onDelete(tag.id, target?.id));
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="color"
+          className="h-10 w-12 shrink-0 cursor-pointer rounded-md border border-slate-200 bg-white p-1"
+          value={newColor ?? defaultTagColor(newName)}
+          onChange={(e) => setNewColor(e.target.value)}
+          disabled={busy}
+          aria-label="لون الوسم"
+        />
+        <input className="input flex-1" placeholder="اكتب وسمًا جديدًا" value={newName} onChange={(e) => setNewName(e.target.value)} onKeyDown={(e) => e.key === "Enter" && add()} disabled={busy} />
+        <button className="btn-primary" type="button" onClick={add} disabled={busy || !newName.trim()}>
+          إضافة
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="space-y-2">
+        {tags.length === 0 ? (
+          <p className="text-sm text-slate-500">لا توجد وسوم بعد.</p>
+        ) : (
+          tags.map((tag) => (
+            <div key={tag.id} className="flex flex-wrap items-center gap-2">
+              <input
+                type="color"
+                className="h-10 w-12 shrink-0 cursor-pointer rounded-md border border-slate-200 bg-white p-1"
+                value={colors[tag.id] ?? tag.color}
+                onChange={(e) => setColors((prev) => ({ ...prev, [tag.id]: e.target.value }))}
+                onBlur={() => recolor(tag)}
+                disabled={busy}
+                aria-label={`لون ${tag.name}`}
+              />
+              <input
+                className="input min-w-[8rem] flex-1"
+                value={names[tag.id] ?? tag.name}
+                onChange={(e) => setNames((prev) => ({ ...prev, [tag.id]: e.target.value }))}
+                onBlur={() => rename(tag)}
+                disabled={busy}
+              />
+              <span className="text-xs text-slate-500">{usage[tag.id] ?? 0} موعد</span>
+              <select className="select w-auto" value={reassign[tag.id] ?? ""} onChange={(e) => setReassign((prev) => ({ ...prev, [tag.id]: e.target.value }))} disabled={busy}>
+                <option value="">بدون نقل المواعيد</option>
+                {tags
+                  .filter((t) => t.id !== tag.id)
+                  .map((t) => (
+                    <option key={t.id} value={t.id}>
+                      نقلها إلى: {t.name}
+                    </option>
+                  ))}
+              </select>
+              <button className="rounded-md border border-red-200 bg-red-50 px-3 py-1.5 text-sm text-red-700" type="button" onClick={() => remove(tag)} disabled={busy}>
+                {reassign[tag.id] ? "دمج" : "حذف"}
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
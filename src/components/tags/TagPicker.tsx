@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { defaultTagColor, findTagByName, uniqueTagNames } from "../../lib/tags";
+import type { Tag } from "../../types";
+import { TagChip } from "./TagChip";
+
+type Props = {
+  tags: Tag[];
+  // أسماء الوسوم المختارة؛ الاسم غير الموجود يُنشأ وسمًا عند حفظ الموعد
+  value: string[];
+  onChange: (names: string[]) => void;
+  disabled?: boolean;
+};
+
+// اختيار وسوم الموعد من الوسوم المحفوظة أو كتابة وسم جديد.
+export function TagPicker({ tags, value, onChange, disabled }: Props) {
+  const [draft, setDraft] = useState("");
+  const selected = (tag: Tag) => value.some((n) => n.toLowerCase() === tag.name.toLowerCase());
+  const pending = value.filter((n) => !findTagByName(tags, n));
+
+  const toggle = (tag: Tag) => onChange(selected(tag) ? value.filter((n) => n.toLowerCase() !== tag.name.toLowerCase()) : [...value, tag.name]);
+
+  const addDraft = () => {
+    if (!draft.trim()) return;
+    onChange(uniqueTagNames([...value, findTagByName(tags, draft)?.name ?? draft]));
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        {tags.map((t) => (
+          <TagChip key={t.id} tag={t} active={selected(t)} onClick={() => toggle(t)} disabled={disabled} />
+        ))}
+        {pending.map((name) => (
+          <TagChip key={name} tag={{ name, color: defaultTagColor(name) }} onRemove={() => onChange(value.filter((n) => n !== name))} disabled={disabled} />
+        ))}
+        {!tags.length && !pending.length && <span className="text-xs text-slate-500">لا توجد وسوم بعد.</span>}
+      </div>
+      <input
+        className="input"
+        placeholder="وسم جديد ثم Enter"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key !== "Enter") return;
+          e.preventDefault();
+          addDraft();
+        }}
+        onBlur={addDraft}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+// مسودات المواعيد المستخرجة بالذكاء الاصطناعي قبل حفظها، مع تمييز الحقول الناقصة أو الافتراضية.
+import { parseTagList } from "./tags";
+import { fromWallTimes, toWallTimes } from "./timezone";
+import type { Priority } from "../types";
+
+export type DraftField = "title" | "date" | "time" | "endTime" | "location" | "tags" | "reminderMinutes" | "priority";
+
+// missing: لم يحدده النموذج وبقي فارغًا، defaulted: لم يحدده فملأناه بقيمة افتراضية
+export type DraftFieldState = "missing" | "defaulted";
+
+export type DraftValues = Record<Exclude<DraftField, "priority">, string> & { priority: Priority };
+
+export type AiDraft<T> = {
+  key: string;
+  accepted: boolean;
+  values: DraftValues;
+  flags: Partial<Record<DraftField, DraftFieldState>>;
+  base: T;
+};
+
+type DraftSource = {
+  title: string;
+  start_at: string;
+  end_at?: string;
+  location?: string;
+  tags?: string[];
+  reminder_minutes_before?: number | null;
+  priority: Priority;
+};
+
+// التاريخ والوقت يُراجعان بتوقيت منطقة المستخدم
+export function draftValuesFrom(a: DraftSource, timeZone: string): DraftValues {
+  return {
+    title: a.title,
+    ...toWallTimes(a, timeZone),
+    location: a.location ?? "",
+    tags: (a.tags ?? []).join("، "),
+    reminderMinutes: a.reminder_minutes_before ? String(a.reminder_minutes_before) : "",
+    priority: a.priority,
+  };
+}
+
+// يعيد بناء الموعد من قيم المراجعة مع الإبقاء على بقية ما استخرجه النموذج (الوصف، التكرار، الإجراءات)
+// وقت انتهاء أبكر من البداية يعني أن الموعد يمتد بعد منتصف الليل
+export function applyDraftValues<T extends DraftSource>(base: T, values: DraftValues, timeZone: string): T {
+  const start = fromWallTimes({ date: values.date, time: values.time || "00:00", endTime: "" }, timeZone);
+  if (!start) throw new Error(`تاريخ أو وقت غير صالح للموعد "${values.title}".`);
+  const times = fromWallTimes({ date: values.date, time: values.time || "00:00", endTime: values.endTime }, timeZone);
+  if (!times || (times.end_at && times.end_at <= times.start_at)) throw new Error(`وقت الانتهاء يجب أن يكون بعد البداية للموعد "${values.title}".`);
+  const { start_at, end_at } = times;
+  const reminder = parseInt(values.reminderMinutes, 10);
+  return {
+    ...base,
+    title: values.title.trim() || base.title,
+    start_at,
+    end_at,
+    location: values.location.trim() || undefined,
+    tags: parseTagList(values.tags),
+    reminder_minutes_before: Number.isNaN(reminder) || reminder <= 0 ? null : reminder,
+    priority: values.priority,
+  };
+}
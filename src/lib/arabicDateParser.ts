@@ -0,0 +1,387 @@
+// محلل محلي قائم على القواعد لنصوص المواعيد العربية؛ يعمل دون شبكة كبديل لـ Atlas أو كتمريرة أولى رخيصة.
+import { coerceMinutes, normalizeDigits } from "./atlasSchema";
+import type { AtlasAppointment } from "./atlasSchema";
+
+type Weekday = "sat" | "sun" | "mon" | "tue" | "wed" | "thu" | "fri";
+type Match = { index: number; length: number };
+
+const pad = (n: number) => String(n).padStart(2, "0");
+const dayKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+function addDays(d: Date, n: number) {
+  const next = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  next.setDate(next.getDate() + n);
+  return next;
+}
+
+function addMonths(d: Date, n: number) {
+  return new Date(d.getFullYear(), d.getMonth() + n, d.getDate());
+}
+
+const A = "[اأإآ]"; // صور الألف
+const weekdays: { key: Weekday; index: number; re: string }[] = [
+  { key: "sun", index: 0, re: `${A}حد` },
+  { key: "mon", index: 1, re: `${A}ثنين|${A}تنين` },
+  { key: "tue", index: 2, re: "ثلاثاء|ثلاثا|تلات" },
+  { key: "wed", index: 3, re: `${A}ربعاء|${A}ربعا|${A}ربع` },
+  { key: "thu", index: 4, re: "خميس" },
+  { key: "fri", index: 5, re: "جمعة|جمعه" },
+  { key: "sat", index: 6, re: "سبت" },
+];
+const weekdayRe = weekdays.map((w) => w.re).join("|");
+
+function weekdayOf(word: string) {
+  return weekdays.find((w) => new RegExp(`^(?:ال)?(?:${w.re})$`).test(word));
+}
+
+const numberWords: [RegExp, number][] = [
+  [/^(?:واحد|واحدة|واحده)$/, 1],
+  // مثنى الوحدات (يومين، أسبوعين...) ليس عددًا هنا وإلا ابتلع ما بعده: "بعد أسبوعين يوم الأحد"
+  [/^(?:اثنين|اثنتين|اتنين|ثنتين|اثنان|ساعتين)$/, 2],
+  [/^(?:ثلاث|ثلاثة|ثلاثه|تلاتة|تلات)$/, 3],
+  [/^(?:[أا]ربع|[أا]ربعة|[أا]ربعه)$/, 4],
+  [/^(?:خمس|خمسة|خمسه)$/, 5],
+  [/^(?:ست|ستة|سته)$/, 6],
+  [/^(?:سبع|سبعة|سبعه)$/, 7],
+  [/^(?:ثمان|ثماني|ثمانية|ثمانيه|تمنية|تمانية)$/, 8],
+  [/^(?:تسع|تسعة|تسعه)$/, 9],
+  [/^(?:عشر|عشرة|عشره)$/, 10],
+  [/^(?:[إا]حدى عشر|حداش|حداشر)$/, 11],
+  [/^(?:[إا]ثنا عشر|[إا]ثني عشر|اطناش|اطنعش)$/, 12],
+];
+
+function numberOf(word: string | undefined) {
+  if (!word) return null;
+  if (/^\d+$/.test(word)) return parseInt(word, 10);
+  return numberWords.find(([re]) => re.test(word))?.[1] ?? null;
+}
+const numberRe = `\\d+|${numberWords.map(([re]) => re.source.slice(4, -2)).join("|")}`;
+
+const gregorianMonths: [string, number][] = [
+  ["يناير|كانون الثاني", 1],
+  ["فبراير|شباط", 2],
+  ["مارس|[آا]ذار", 3],
+  ["[أا]بريل|نيسان", 4],
+  ["مايو|[أا]يار", 5],
+  ["يونيو|يونيه|حزيران", 6],
+  ["يوليو|يوليه|تموز", 7],
+  ["[أا]غسطس|آب", 8],
+  ["سبتمبر|[أا]يلول", 9],
+  ["[أا]كتوبر|تشرين الأول|تشرين الاول", 10],
+  ["نوفمبر|تشرين الثاني", 11],
+  ["ديسمبر|كانون الأول|كانون الاول", 12],
+];
+
+const hijriMonths: [string, number][] = [
+  ["محرم", 1],
+  ["صفر", 2],
+  ["ربيع ال[أا]ول", 3],
+  ["ربيع ال[آا]خر|ربيع الثاني", 4],
+  ["جمادى ال[أا]ولى|جمادى الاول", 5],
+  ["جمادى ال[آا]خرة|جمادى الثانية", 6],
+  ["رجب", 7],
+  ["شعبان", 8],
+  ["رمضان", 9],
+  ["شوال", 10],
+  ["ذو القعدة|ذي القعدة", 11],
+  ["ذو الحجة|ذي الحجة", 12],
+];
+
+const hijriFormatter = typeof Intl !== "undefined" ? new Intl.DateTimeFormat("en-u-ca-islamic-umalqura-nu-latn", { day: "numeric", month: "numeric", year: "numeric" }) : null;
+
+function hijriParts(d: Date) {
+  const parts = hijriFormatter!.formatToParts(d);
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value ?? "0", 10);
+  return { year: get("year"), month: get("month"), day: get("day") };
+}
+
+// يبحث عن اليوم الميلادي المقابل لتاريخ هجري (أم القرى)؛ دون سنة نأخذ أقرب تاريخ قادم
+function hijriToGregorian(day: number, month: number, year: number | null, now: Date) {
+  if (!hijriFormatter) return null;
+  const start = year ? new Date(Math.round((year * 354.367) / 365.25 + 622) - 1, 0, 1) : addDays(now, 0);
+  const span = year ? 3 * 366 : 400;
+  for (let i = 0; i < span; i++) {
+    const d = addDays(start, i);
+    const h = hijriParts(d);
+    if (h.day === day && h.month === month && (!year || h.year === year)) return d;
+  }
+  return null;
+}
+
+type Period = "am" | "pm" | "noon" | "night";
+const periods: [RegExp, Period][] = [
+  [/^(?:ص|صباحا|صباح|الصبح|الصباح|صبحا|فجرا|الفجر|am)$/, "am"],
+  [/^(?:ظهرا|الظهر|ظهر)$/, "noon"],
+  [/^(?:م|مساء|مساءا|المساء|المسا|مسا|العصر|عصرا|عصر|المغرب|مغربا|العشاء|عشاء|pm)$/, "pm"],
+  [/^(?:ليلا|الليل|بالليل|ليل)$/, "night"],
+];
+const periodRe = "ص|صباحا|صباح|الصبح|الصباح|صبحا|فجرا|الفجر|am|ظهرا|الظهر|ظهر|م|مساءا|مساء|المساء|المسا|مسا|العصر|عصرا|عصر|المغرب|مغربا|العشاء|عشاء|pm|ليلا|الليل|بالليل|ليل";
+const fractionRe = "و ?نص|و ?النصف|و ?ربع|و ?الربع|و ?ثلث|[إا]لا ربع|[إا]لا ثلث";
+
+function applyPeriod(hour: number, period: Period | null) {
+  if (period === "am") return hour === 12 ? 0 : hour;
+  if (period === "noon") return hour < 6 ? hour + 12 : hour;
+  if (period === "pm") return hour < 12 ? hour + 12 : hour;
+  if (period === "night") return hour === 12 ? 0 : hour < 5 ? hour : hour < 12 ? hour + 12 : hour;
+  // دون تحديد الفترة: الساعات 1–6 تُفهم عادة بعد الظهر ("الساعة ٤")
+  return hour >= 1 && hour <= 6 ? hour + 12 : hour;
+}
+
+function fractionMinutes(fraction: string | undefined) {
+  if (!fraction) return 0;
+  if (/نص/.test(fraction)) return 30;
+  if (/^[إا]لا ربع/.test(fraction)) return -15;
+  if (/^[إا]لا ثلث/.test(fraction)) return -20;
+  if (/ربع/.test(fraction)) return 15;
+  if (/ثلث/.test(fraction)) return 20;
+  return 0;
+}
+
+const timeRe = new RegExp(
+  `(?:(?:ال)?ساعة|(?:ال)?ساعه|عند|من)?\\s*(\\d{1,2})(?::(\\d{2}))?\\s*(${fractionRe})?\\s*(${periodRe})?(?=\\s|$|[،,.؛])|(?:(?:ال)?ساعة|(?:ال)?ساعه)\\s+(${numberRe})\\s*(${fractionRe})?\\s*(${periodRe})?(?=\\s|$|[،,.؛])`,
+  "g"
+);
+
+function toTime(hourText: string, minuteText: string | undefined, fraction: string | undefined, periodText: string | undefined) {
+  const hour = numberOf(hourText);
+  if (hour === null || hour > 23) return null;
+  const period = periodText ? (periods.find(([re]) => re.test(periodText))?.[1] ?? null) : null;
+  const h = hour > 12 ? hour : applyPeriod(hour, period);
+  let total = h * 60 + (minuteText ? parseInt(minuteText, 10) : 0) + fractionMinutes(fraction);
+  total = (total + 1440) % 1440;
+  return `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+}
+
+// أوقات النص: "الساعة ٤ العصر"، "٤:٣٠ م"، "الساعة خمسة ونص"، مع "من ... إلى ..." لوقت الانتهاء
+function findTimes(text: string) {
+  const found: { time: string; match: Match }[] = [];
+  for (const m of text.matchAll(timeRe)) {
+    const numeric = m[1] !== undefined;
+    // رقم مجرد دون "الساعة" أو دقائق أو فترة لا يُعد وقتًا (قد يكون عددًا أو يومًا)
+    if (numeric && !/ساع|عند|من/.test(m[0]) && !m[2] && !m[3] && !m[4]) continue;
+    const time = numeric ? toTime(m[1], m[2], m[3], m[4]) : toTime(m[5], undefined, m[6], m[7]);
+    if (time) found.push({ time, match: { index: m.index!, length: m[0].length } });
+  }
+  const standalone = text.match(/(?:^|\s)(الظهر|ظهرا)(?=\s|$|[،,.؛])/);
+  if (!found.length && standalone) found.push({ time: "12:00", match: { index: standalone.index!, length: standalone[0].length } });
+  return found;
+}
+
+function findEndTime(text: string, start: Match) {
+  const after = text.slice(start.index + start.length);
+  const m = after.match(new RegExp(`^\\s*(?:[إا]لى|الى|حتى|لغاية|لحد|-|–)\\s*(?:(?:ال)?ساعة\\s*)?(\\d{1,2}|${numberRe})(?::(\\d{2}))?\\s*(${fractionRe})?\\s*(${periodRe})?`));
+  if (!m) return null;
+  const time = toTime(m[1], m[2], m[3], m[4]);
+  return time ? { time, match: { index: start.index + start.length, length: m[0].length } } : null;
+}
+
+function unitDays(unit: string, count: number) {
+  if (/^(?:يوم|[أا]يام|يومين)/.test(unit)) return { days: count, months: 0 };
+  if (/^(?:[أا]سبوع|[أا]سابيع|[أا]سبوعين)/.test(unit)) return { days: count * 7, months: 0 };
+  if (/^(?:شهر|[أا]شهر|شهور|شهرين)/.test(unit)) return { days: 0, months: count };
+  return null;
+}
+
+// صيغ المثنى أولًا: البدائل تُجرَّب بالترتيب و"أسبوع" وحدها تطابق بداية "أسبوعين"
+const unitRe = "يومين|[أا]سبوعين|شهرين|يوم|[أا]يام|[أا]سبوع|[أا]سابيع|شهر|[أا]شهر|شهور";
+
+// التاريخ: نسبي ("بكرة"، "بعد أسبوعين يوم الأحد")، أو مطلق بالأرقام أو بأسماء الأشهر الميلادية والهجرية
+function findDate(text: string, now: Date): { date: string; matches: Match[] } | null {
+  const matches: Match[] = [];
+  const mark = (m: RegExpMatchArray | null) => {
+    if (m) matches.push({ index: m.index!, length: m[0].length });
+    return m;
+  };
+
+  let m = mark(text.match(/(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/));
+  if (m) return validDate(+m[1], +m[2], +m[3], matches);
+  m = mark(text.match(/(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/));
+  if (m) return validDate(+m[3], +m[2], +m[1], matches);
+
+  for (const [names, month] of hijriMonths) {
+    m = text.match(new RegExp(`(\\d{1,2})\\s*(?:من\\s*)?(?:${names})(?:\\s*(\\d{4}))?(?:\\s*(?:هـ|ه|هجري|للهجرة))?`));
+    if (m && mark(m)) {
+      const d = hijriToGregorian(+m[1], month, m[2] ? +m[2] : null, now);
+      return d ? { date: dayKey(d), matches } : null;
+    }
+  }
+  for (const [names, month] of gregorianMonths) {
+    m = text.match(new RegExp(`(\\d{1,2})\\s*(?:من\\s*)?(?:${names})(?:\\s*(\\d{4}))?`));
+    if (m && mark(m)) {
+      let year = m[2] ? +m[2] : now.getFullYear();
+      if (!m[2] && new Date(year, month - 1, +m[1]) < addDays(now, 0)) year++;
+      return validDate(year, month, +m[1], matches);
+    }
+  }
+  m = text.match(/(?:^|\s)(\d{1,2})\/(\d{1,2})(?=\s|$|[،,.؛])/);
+  if (m && mark(m)) {
+    let year = now.getFullYear();
+    if (new Date(year, +m[2] - 1, +m[1]) < addDays(now, 0)) year++;
+    return validDate(year, +m[2], +m[1], matches);
+  }
+
+  let base: Date | null = null;
+  // "بعد أسبوعين يوم الأحد": اليوم المذكور في ذلك الأسبوع لا الذي يليه
+  let aroundBase = false;
+  if (mark(text.match(/بعد (?:بكرة|بكره|غد|الغد)/))) base = addDays(now, 2);
+  else if (mark(text.match(/بكرة|بكره|غدا|غدًا|باكر|الغد/))) base = addDays(now, 1);
+  else if (mark(text.match(/اليوم|الليلة|الليله|هالمسا/))) base = addDays(now, 0);
+  else {
+    m = mark(text.match(new RegExp(`بعد\\s+(?:(${numberRe})\\s+)?(${unitRe})`)));
+    if (m) {
+      const count = m[1] ? numberOf(m[1]) : /ين$/.test(m[2]) ? 2 : 1;
+      const unit = unitDays(m[2], count ?? 1);
+      if (unit) {
+        base = addMonths(addDays(now, unit.days), unit.months);
+        aroundBase = unit.days >= 7 || unit.months > 0;
+      }
+    } else if (mark(text.match(/ال[أا]سبوع (?:القادم|الجاي|المقبل)/))) {
+      base = addDays(now, 7);
+    }
+  }
+
+  const wd = text.match(new RegExp(`(?:يوم\\s+)?(?:ال)?(${weekdayRe})(?:\\s+(?:القادم|الجاي|المقبل))?(?=\\s|$|[،,.؛])`));
+  if (wd && !/كل\s+$/.test(text.slice(0, wd.index))) {
+    const weekday = weekdayOf(wd[1]);
+    if (weekday) {
+      mark(wd);
+      const from = base ?? now;
+      let diff = (weekday.index - from.getDay() + 7) % 7;
+      if (aroundBase && diff > 3) diff -= 7;
+      return { date: dayKey(addDays(from, base ? diff : diff || 7)), matches };
+    }
+  }
+  return base ? { date: dayKey(base), matches } : null;
+}
+
+function validDate(year: number, month: number, day: number, matches: Match[]) {
+  const d = new Date(year, month - 1, day);
+  return d.getFullYear() === year && d.getMonth() === month - 1 && d.getDate() === day ? { date: dayKey(d), matches } : null;
+}
+
+// "كل ثلاثاء وخميس"، "كل أسبوعين"، "يوميًا"، "كل ٣ أيام"
+function findRecurrence(text: string): { recurrence: NonNullable<AtlasAppointment["recurrence"]>; match: Match } | null {
+  const days = text.match(new RegExp(`كل\\s+((?:(?:يوم\\s+)?(?:ال)?(?:${weekdayRe})(?:\\s*(?:و|،|,)\\s*)?)+)`));
+  if (days) {
+    const list = days[1]
+      .split(/\s*(?:و|،|,|\s)\s*/)
+      .map((w) => weekdayOf(w))
+      .filter((w): w is (typeof weekdays)[number] => !!w)
+      .map((w) => w.key);
+    if (list.length) return { recurrence: { pattern: "weekly", every: 1, days_of_week: list }, match: { index: days.index!, length: days[0].length } };
+  }
+  const every = text.match(new RegExp(`كل\\s+(?:(${numberRe})\\s+)?(${unitRe}|سنتين|سنة|سنه|عام)`));
+  if (every) {
+    const unit = every[2];
+    const count = every[1] ? (numberOf(every[1]) ?? 1) : /ين$/.test(unit) ? 2 : 1;
+    const pattern = /^(?:يوم|[أا]يام)/.test(unit) ? "daily" : /^[أا]سب/.test(unit) ? "weekly" : /^(?:شهر|[أا]شهر|شهور)/.test(unit) ? "monthly" : "yearly";
+    return { recurrence: { pattern, every: count }, match: { index: every.index!, length: every[0].length } };
+  }
+  const adverb = text.match(/يوميا|يومياً|أسبوعيا|اسبوعيا|شهريا|سنويا/);
+  if (adverb) {
+    const pattern = /^يومي/.test(adverb[0]) ? "daily" : /سبوع/.test(adverb[0]) ? "weekly" : /شهري/.test(adverb[0]) ? "monthly" : "yearly";
+    return { recurrence: { pattern, every: 1 }, match: { index: adverb.index!, length: adverb[0].length } };
+  }
+  return null;
+}
+
+function findReminder(text: string) {
+  const m = text.match(/(?:ذكرني|ذكّرني|نبهني|تذكير|نبّهني|تنبيه)\s+قبل(?:ها|ه)?\s+([^،,.؛]+?)(?=$|[،,.؛]|\s+(?:في|مع|يوم|الساعة)\s)/);
+  if (!m) return null;
+  const text2 = m[1].trim().replace(/^ب/, "");
+  const minutes = coerceMinutes(text2.replace(/^(?:نص|نصف) ساعة$/, "30").replace(/^ربع ساعة$/, "15"));
+  return minutes === null ? null : { minutes, match: { index: m.index!, length: m[0].length } };
+}
+
+const typeKeywords: [RegExp, NonNullable<AtlasAppointment["type"]>][] = [
+  [/دواء|دوا|حبة|حبوب|جرعة|[إا]برة|علاج/, "medication"],
+  [/طبيب|دكتور|عيادة|مستشفى|مستوصف|تحليل|تحاليل|فحص|[أا]شعة|مراجعة طبية|[أا]سنان/, "medical"],
+  [/اجتماع|عمل|مكتب|مقابلة|عميل|مشروع|دوام/, "work"],
+  [/عرس|زواج|حفلة|عيد ميلاد|عزومة|زيارة|سفر|رحلة/, "personal_event"],
+];
+
+const stopWords = "(?=\\s+(?:مع|في|الساعة|الساعه|يوم|بعد|بكرة|غدا|كل|من|ذكرني|تذكير)\\s|$|[،,.؛])";
+
+function phraseAfter(text: string, lead: string) {
+  const m = text.match(new RegExp(`(?:^|\\s)${lead}\\s+([^،,.؛]+?)${stopWords}`));
+  return m ? { value: m[1].trim(), match: { index: m.index!, length: m[0].length } } : null;
+}
+
+function cleanTitle(text: string, matches: Match[]) {
+  const chars = [...text];
+  let result = "";
+  let offset = 0;
+  for (const ch of chars) {
+    const covered = matches.some((m) => offset >= m.index && offset < m.index + m.length);
+    result += covered ? " " : ch;
+    offset += ch.length;
+  }
+  return result
+    .replace(/\s+/g, " ")
+    .replace(/(?:^|\s)(?:يوم|الساعة|الساعه|و|في)(?=\s*$)/g, "")
+    .replace(/^[\s،,.؛-]+|[\s،,.؛-]+$/g, "")
+    .slice(0, 60)
+    .trim();
+}
+
+export function parseArabicAppointment(input: string, now = new Date()): AtlasAppointment | null {
+  const text = normalizeDigits(input).replace(/[ًٌٍَُِّْـ]/g, "").replace(/\s+/g, " ").trim();
+  if (!text) return null;
+  const matches: Match[] = [];
+
+  const recurrence = findRecurrence(text);
+  if (recurrence) matches.push(recurrence.match);
+  const reminder = findReminder(text);
+  if (reminder) matches.push(reminder.match);
+  const date = findDate(text, now);
+  if (date) matches.push(...date.matches);
+  const [time] = findTimes(text);
+  const end = time ? findEndTime(text, time.match) : null;
+  if (time) matches.push(time.match);
+  if (end) matches.push(end.match);
+  if (!date && !time && !recurrence) return null;
+
+  const person = phraseAfter(text, "مع");
+  if (person) matches.push(person.match);
+  // "في ١٥ رمضان" أو "في الساعة ٤" ليست مكانًا
+  const place = phraseAfter(text, "في");
+  const location = place && !new RegExp(`^(?:\\d|(?:ال)?ساع|يوم|(?:ال)?(?:${weekdayRe}))`).test(place.value) ? place : null;
+  if (location) matches.push(location.match);
+
+  // المواعيد المتكررة دون تاريخ تبدأ من أقرب يوم مطابق
+  let dateKey = date?.date;
+  if (!dateKey && recurrence?.recurrence.days_of_week?.length) {
+    const indexes = recurrence.recurrence.days_of_week.map((d) => weekdays.find((w) => w.key === d)!.index);
+    const diff = Math.min(...indexes.map((i) => (i - now.getDay() + 7) % 7 || 7));
+    dateKey = dayKey(addDays(now, diff));
+  }
+
+  return {
+    type: typeKeywords.find(([re]) => re.test(text))?.[1] ?? "other",
+    title: cleanTitle(text, matches) || text.slice(0, 60),
+    date: dateKey,
+    time: time?.time,
+    end_time: end?.time ?? null,
+    location: location?.value ?? null,
+    person: person?.value ?? null,
+    actions_before: [],
+    actions_after: [],
+    tags: [],
+    recurrence: recurrence?.recurrence,
+    reminder_minutes_before: reminder?.minutes ?? null,
+    notes: null,
+  };
+}
+
+// كل سطر (أو مقطع مفصول بـ "؛") يُحلل كموعد مستقل؛ ما لا يحوي تاريخًا أو وقتًا أو تكرارًا يُهمل
+export function parseArabicAppointments(input: string, now = new Date()): AtlasAppointment[] {
+  return input
+    .split(/\n+|؛/)
+    .map((sentence) => parseArabicAppointment(sentence, now))
+    .filter((a): a is AtlasAppointment => a !== null);
+}
+
+// تمريرة أولى كافية إن حدد المحلل لكل موعد تاريخًا ووقتًا
+export function isConfidentParse(items: AtlasAppointment[]) {
+  return items.length > 0 && items.every((a) => a.date && a.time);
+}
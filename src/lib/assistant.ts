@@ -0,0 +1,227 @@
+// مساعد المحادثة: بروتوكول أدوات بصيغة JSON فوق أي مزود، وتنفيذ أدوات القراءة محليًا، وتحويل أدوات التعديل إلى عمليات تنتظر تأكيد المستخدم.
+import { z } from "zod";
+import { coerceDate, coerceTime, extractJson } from "./atlasSchema";
+import { formatDate } from "./format";
+import { expandOccurrences, type RecurringItem } from "./recurrence";
+import { addDaysToKey, dayKeyOf, fromWallTimes, startOfZonedDay, timeOfDayIn, wallTimeToUtc } from "./timezone";
+import type { WeekStart } from "../types";
+
+export type AssistantItem = RecurringItem & {
+  title: string;
+  status: "scheduled" | "done" | "canceled";
+  location?: string;
+};
+
+const date = (now: Date) =>
+  z.string().transform((value, ctx) => {
+    const coerced = coerceDate(value, now);
+    if (!coerced) {
+      ctx.addIssue({ code: "custom", message: `تاريخ غير مفهوم "${value}"؛ استخدم YYYY-MM-DD` });
+      return z.NEVER;
+    }
+    return coerced;
+  });
+
+const time = z.string().transform((value, ctx) => {
+  const coerced = coerceTime(value);
+  if (!coerced) {
+    ctx.addIssue({ code: "custom", message: `وقت غير مفهوم "${value}"؛ استخدم HH:MM` });
+    return z.NEVER;
+  }
+  return coerced;
+});
+
+const optional = <T extends z.ZodType>(schema: T) => z.preprocess((v) => (v === null || v === "" ? undefined : v), schema.optional());
+
+function createCallSchema(now: Date) {
+  const target = { id: z.string().min(1), occurrence_start: optional(z.string()) };
+  return z.discriminatedUnion("name", [
+    z.object({
+      name: z.literal("list_appointments"),
+      arguments: z.object({
+        from: optional(date(now)),
+        to: optional(date(now)),
+        query: optional(z.string()),
+        status: optional(z.enum(["scheduled", "done", "canceled", "all"])),
+      }),
+    }),
+    z.object({
+      name: z.literal("create_appointment"),
+      arguments: z.object({
+        title: z.string().min(1),
+        date: date(now),
+        time: optional(time),
+        end_time: optional(time),
+        location: optional(z.string()),
+        notes: optional(z.string()),
+      }),
+    }),
+    z.object({ name: z.literal("reschedule_appointment"), arguments: z.object({ ...target, date: optional(date(now)), time: optional(time) }) }),
+    z.object({ name: z.literal("cancel_appointment"), arguments: z.object(target) }),
+    z.object({ name: z.literal("complete_appointment"), arguments: z.object(target) }),
+    z.object({ name: z.literal("delete_appointment"), arguments: z.object({ id: z.string().min(1) }) }),
+  ]);
+}
+
+export type AssistantCall = z.output<ReturnType<typeof createCallSchema>>;
+export type AssistantReply = { reply: string; call: AssistantCall | null };
+
+export type AssistantParseResult = { ok: true; data: AssistantReply } | { ok: false; issues: string[] };
+
+// يقبل {"reply": "...", "tool": {"name", "arguments"} | null}
+export function parseAssistantContent(content: string, now = new Date()): AssistantParseResult {
+  let value: unknown;
+  try {
+    value = extractJson(content);
+  } catch (err) {
+    return { ok: false, issues: [err instanceof Error ? err.message : String(err)] };
+  }
+  const schema = z.object({
+    reply: z.preprocess((v) => v ?? "", z.string()),
+    tool: z.preprocess((v) => (v === undefined ? null : v), createCallSchema(now).nullable()),
+  });
+  const result = schema.safeParse(value);
+  if (result.success) return { ok: true, data: { reply: result.data.reply.trim(), call: result.data.tool } };
+  return { ok: false, issues: result.error.issues.map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message)) };
+}
+
+export function isMutation(call: AssistantCall) {
+  return call.name !== "list_appointments";
+}
+
+// نتيجة list_appointments تُعاد للنموذج كـ JSON مختصر ليستخدم المعرفات في الخطوة التالية
+export function listAppointments(
+  items: AssistantItem[],
+  args: Extract<AssistantCall, { name: "list_appointments" }>["arguments"],
+  options: { now: Date; timeZone: string; weekStart: WeekStart; limit?: number }
+) {
+  const fromKey = args.from ?? dayKeyOf(options.now, options.timeZone);
+  const toKey = args.to ?? addDaysToKey(fromKey, 30);
+  const from = startOfZonedDay(fromKey, options.timeZone);
+  const to = new Date(startOfZonedDay(addDaysToKey(toKey, 1), options.timeZone).getTime() - 1);
+  const query = args.query?.trim().toLowerCase();
+  const status = args.status ?? "scheduled";
+  return items
+    .filter((a) => status === "all" || a.status === status)
+    .filter((a) => !query || `${a.title} ${a.location ?? ""}`.toLowerCase().includes(query))
+    .flatMap((a) => expandOccurrences(a, from, to, options.weekStart, options.timeZone))
+    .sort((a, b) => a.start_at.localeCompare(b.start_at))
+    .slice(0, options.limit ?? 30)
+    .map((a) => ({
+      id: a.id,
+      ...(a.recurrence && { occurrence_start: a.occurrence_start }),
+      title: a.title,
+      date: dayKeyOf(new Date(a.start_at), options.timeZone),
+      time: timeOfDayIn(new Date(a.start_at), options.timeZone),
+      end_time: a.end_at ? timeOfDayIn(new Date(a.end_at), options.timeZone) : null,
+      location: a.location ?? null,
+      status: a.status,
+    }));
+}
+
+export type AssistantMutation =
+  | { kind: "add"; values: { title: string; start_at: string; end_at?: string; location?: string; description?: string } }
+  | { kind: "update"; id: string; occurrenceStart?: string; patch: { start_at?: string; end_at?: string; status?: AssistantItem["status"] } }
+  | { kind: "markDone"; id: string; occurrenceStart?: string }
+  | { kind: "remove"; id: string };
+
+export type PendingAction = { summary: string; mutation: AssistantMutation };
+
+// يحوّل أداة التعديل إلى عملية على المخزن مع وصف عربي يُعرض للتأكيد؛ المعرف غير الموجود خطأ يُعاد للنموذج
+export function planMutation(call: AssistantCall, items: AssistantItem[], timeZone: string): PendingAction {
+  if (call.name === "list_appointments") throw new Error("list_appointments ليست عملية تعديل.");
+  if (call.name === "create_appointment") {
+    const { title, date: day, time: start = "09:00", end_time, location, notes } = call.arguments;
+    // وقت نهاية أبكر من البداية يعني أن الموعد يمتد إلى اليوم التالي
+    const times = fromWallTimes({ date: day, time: start, endTime: end_time ?? "" }, timeZone);
+    if (!times) throw new Error("تاريخ أو وقت غير صالح.");
+    const { start_at, end_at } = times;
+    if (end_at && end_at <= start_at) throw new Error("وقت النهاية يجب أن يكون بعد البداية.");
+    return {
+      summary: `إضافة "${title}" في ${formatDate(start_at, "ar", timeZone)}${location ? ` — ${location}` : ""}`,
+      mutation: { kind: "add", values: { title, start_at, end_at, location, description: notes } },
+    };
+  }
+
+  const item = items.find((a) => a.id === call.arguments.id);
+  if (!item) throw new Error(`لا يوجد موعد بالمعرف ${call.arguments.id}؛ استخدم list_appointments أولًا.`);
+  const occurrenceStart = "occurrence_start" in call.arguments && item.recurrence ? call.arguments.occurrence_start : undefined;
+  const currentStart = occurrenceStart ?? item.start_at;
+  const when = formatDate(currentStart, "ar", timeZone);
+
+  switch (call.name) {
+    case "reschedule_appointment": {
+      const { date: day, time: hhmm } = call.arguments;
+      if (!day && !hhmm) throw new Error("حدد تاريخًا أو وقتًا جديدًا.");
+      const start = wallTimeToUtc(day ?? dayKeyOf(new Date(currentStart), timeZone), hhmm ?? timeOfDayIn(new Date(currentStart), timeZone), timeZone);
+      if (!start) throw new Error("تاريخ أو وقت غير صالح.");
+      const start_at = start.toISOString();
+      // المدة تبقى كما هي
+      const duration = item.end_at ? new Date(item.end_at).getTime() - new Date(item.start_at).getTime() : null;
+      const end_at = duration !== null ? new Date(new Date(start_at).getTime() + duration).toISOString() : undefined;
+      return {
+        summary: `نقل "${item.title}" من ${when} إلى ${formatDate(start_at, "ar", timeZone)}${item.recurrence && !occurrenceStart ? " (كل السلسلة)" : ""}`,
+        mutation: { kind: "update", id: item.id, occurrenceStart, patch: { start_at, end_at } },
+      };
+    }
+    case "cancel_appointment":
+      return { summary: `إلغاء "${item.title}" (${when})`, mutation: { kind: "update", id: item.id, occurrenceStart, patch: { status: "canceled" } } };
+    case "complete_appointment":
+      return { summary: `تعليم "${item.title}" (${when}) كمنجز`, mutation: { kind: "markDone", id: item.id, occurrenceStart } };
+    case "delete_appointment":
+      return { summary: `حذف "${item.title}" نهائيًا${item.recurrence ? " مع كل تكراراته" : ""}`, mutation: { kind: "remove", id: item.id } };
+  }
+}
+
+export type AssistantEntry =
+  | { role: "user"; text: string }
+  | { role: "assistant"; text: string; call: AssistantCall | null }
+  | { role: "tool"; text: string };
+
+// نافذة المحادثة المرسلة للنموذج: أحدث maxEntries رسالة، تبدأ بطلب من المستخدم لا بنتيجة أداة أو رد منقطع عن سؤاله.
+// سلسلة أدوات أطول من النافذة تُرسل مع آخر طلب للمستخدم ثم أحدث خطواتها
+export function recentAssistantHistory(history: AssistantEntry[], maxEntries: number): AssistantEntry[] {
+  if (history.length <= maxEntries) return history;
+  const from = history.length - maxEntries;
+  let lastUser = history.length - 1;
+  while (lastUser >= 0 && history[lastUser].role !== "user") lastUser--;
+  if (lastUser < 0) return history.slice(from);
+  if (lastUser < from) return [history[lastUser], ...history.slice(from + 1)];
+  let start = from;
+  while (history[start].role !== "user") start++;
+  return history.slice(start);
+}
+
+export type AssistantTurn = { entries: AssistantEntry[]; pending: PendingAction | null };
+
+// يكرر استدعاء النموذج ما دام يطلب أدوات قراءة؛ يتوقف عند رد نصي أو أداة تعديل تحتاج تأكيدًا
+export async function runAssistantTurn(
+  history: AssistantEntry[],
+  deps: {
+    reply: (history: AssistantEntry[]) => Promise<AssistantReply>;
+    items: () => AssistantItem[];
+    now: Date;
+    timeZone: string;
+    weekStart: WeekStart;
+    maxSteps?: number;
+  }
+): Promise<AssistantTurn> {
+  const entries: AssistantEntry[] = [];
+  for (let step = 0; step < (deps.maxSteps ?? 4); step++) {
+    const { reply, call } = await deps.reply([...history, ...entries]);
+    entries.push({ role: "assistant", text: reply, call });
+    if (!call) return { entries, pending: null };
+    if (call.name === "list_appointments") {
+      const result = listAppointments(deps.items(), call.arguments, deps);
+      entries.push({ role: "tool", text: JSON.stringify({ tool: call.name, result }) });
+      continue;
+    }
+    try {
+      return { entries, pending: planMutation(call, deps.items(), deps.timeZone) };
+    } catch (err) {
+      entries.push({ role: "tool", text: JSON.stringify({ tool: call.name, error: err instanceof Error ? err.message : String(err) }) });
+    }
+  }
+  entries.push({ role: "assistant", text: "لم أتمكن من إكمال الطلب. حاول صياغته بشكل أوضح.", call: null });
+  return { entries, pending: null };
+}
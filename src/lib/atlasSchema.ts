@@ -0,0 +1,250 @@
+// مخطط zod لاستجابة Atlas مع تطبيع الحقول الشائعة (أرقام عربية، أوقات "٣:٠٠ م"، تواريخ نسبية).
+import { z } from "zod";
+
+const arabicIndicZero = "٠".charCodeAt(0);
+const persianZero = "۰".charCodeAt(0);
+
+export function normalizeDigits(value: string) {
+  return value
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - arabicIndicZero))
+    .replace(/[۰-۹]/g, (d) => String(d.charCodeAt(0) - persianZero))
+    .replace(/[٫]/g, ".")
+    .replace(/[٬]/g, ",");
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function dayKey(d: Date) {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function addDays(d: Date, n: number) {
+  const next = new Date(d);
+  next.setDate(next.getDate() + n);
+  return next;
+}
+
+const pmMarkers = /(م|مساء|مساءً|مساءا|ظهر|ظهرًا|ظهرا|عصر|عصرًا|عصرا|ليل|ليلًا|ليلا|ليلاً|pm|p\.m\.)$/i;
+const amMarkers = /(ص|صباح|صباحًا|صباحا|فجر|فجرًا|فجرا|am|a\.m\.)$/i;
+
+// "٣:٠٠ م" أو "3pm" أو "15.30" أو "9" إلى HH:MM؛ null إن لم تكن وقتًا مفهومًا
+export function coerceTime(input: string): string | null {
+  const text = normalizeDigits(input).trim().toLowerCase().replace(/\s+/g, " ");
+  const m = text.match(/^(\d{1,2})(?:[:.](\d{1,2}))?\s*(.*)$/);
+  if (!m) return null;
+  let hour = parseInt(m[1], 10);
+  const minute = m[2] ? parseInt(m[2], 10) : 0;
+  const suffix = m[3].replace(/^ال/, "").trim();
+  if (suffix) {
+    if (pmMarkers.test(suffix)) {
+      if (hour < 12) hour += 12;
+    } else if (amMarkers.test(suffix)) {
+      if (hour === 12) hour = 0;
+    } else {
+      return null;
+    }
+  }
+  if (hour > 23 || minute > 59) return null;
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+const weekdayNames: [RegExp, number][] = [
+  [/^(ال)?أحد|^(ال)?احد|^sun/i, 0],
+  [/^(ال)?[إا]ثنين|^(ال)?اثنين|^mon/i, 1],
+  [/^(ال)?ثلاثاء|^tue/i, 2],
+  [/^(ال)?[أا]ربعاء|^wed/i, 3],
+  [/^(ال)?خميس|^thu/i, 4],
+  [/^(ال)?جمعة|^fri/i, 5],
+  [/^(ال)?سبت|^sat/i, 6],
+];
+
+// يقبل YYYY-MM-DD و DD/MM/YYYY والتواريخ النسبية الشائعة ("غدًا"، "بعد ٣ أيام"، "الخميس")
+export function coerceDate(input: string, now: Date): string | null {
+  const text = normalizeDigits(input).trim().toLowerCase().replace(/[ًٌٍَُِّْـ]/g, "");
+  let m = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (m) return validDate(+m[1], +m[2], +m[3]);
+  m = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (m) return validDate(+m[3], +m[2], +m[1]);
+
+  if (/^(اليوم|today)$/.test(text)) return dayKey(now);
+  if (/^(غدا|بكرة|بكره|tomorrow)$/.test(text)) return dayKey(addDays(now, 1));
+  if (/^(بعد غد|بعد بكرة|بعد بكره)$/.test(text)) return dayKey(addDays(now, 2));
+  if (/^(أمس|امس|البارحة|yesterday)$/.test(text)) return dayKey(addDays(now, -1));
+  m = text.match(/^بعد (\d+) ?(يوم|أيام|ايام)$/) ?? text.match(/^in (\d+) days?$/);
+  if (m) return dayKey(addDays(now, parseInt(m[1], 10)));
+  if (/^بعد (يومين)$/.test(text)) return dayKey(addDays(now, 2));
+  if (/^بعد أسبوع|^بعد اسبوع|^next week$/.test(text)) return dayKey(addDays(now, 7));
+
+  const name = text.replace(/^(يوم|القادم|next) /, "").replace(/ (القادم|الجاي)$/, "");
+  const weekday = weekdayNames.find(([re]) => re.test(name));
+  if (weekday) {
+    const diff = (weekday[1] - now.getDay() + 7) % 7 || 7;
+    return dayKey(addDays(now, diff));
+  }
+  return null;
+}
+
+function validDate(year: number, month: number, day: number) {
+  const d = new Date(year, month - 1, day);
+  return d.getFullYear() === year && d.getMonth() === month - 1 && d.getDate() === day ? dayKey(d) : null;
+}
+
+// "٣٠ دقيقة" أو "ساعة" أو "2 ساعات" إلى عدد دقائق
+export function coerceMinutes(input: unknown): number | null {
+  if (typeof input === "number") return Number.isFinite(input) && input >= 0 ? Math.round(input) : null;
+  if (typeof input !== "string") return null;
+  const text = normalizeDigits(input).trim().toLowerCase();
+  if (/^(ساعة|ساعه|hour|an hour)$/.test(text)) return 60;
+  if (/^(ساعتين|ساعتان)$/.test(text)) return 120;
+  if (/^(يوم|day|a day)$/.test(text)) return 1440;
+  const m = text.match(/^(\d+(?:\.\d+)?)\s*(دقيقة|دقائق|دقيقه|د|min|mins|minutes?|ساعة|ساعات|ساعه|h|hours?|يوم|أيام|ايام|days?)?$/);
+  if (!m) return null;
+  const value = parseFloat(m[1]);
+  const unit = m[2] ?? "";
+  if (/^(ساع|h)/.test(unit)) return Math.round(value * 60);
+  if (/^(يوم|أيام|ايام|day)/.test(unit)) return Math.round(value * 1440);
+  return Math.round(value);
+}
+
+const emptyToNull = (v: unknown) => (v === "" || v === "null" || v === undefined ? null : v);
+
+const optionalText = z.preprocess((v) => {
+  const value = emptyToNull(v);
+  return typeof value === "string" ? value.trim() || null : value;
+}, z.string().nullable());
+
+const textList = z.preprocess((v) => {
+  const value = emptyToNull(v);
+  if (value === null) return [];
+  if (typeof value === "string") return value.split(/[،,]/).map((s) => s.trim()).filter(Boolean);
+  return value;
+}, z.array(z.string()));
+
+const appointmentTypes = ["medical", "medication", "personal_event", "work", "other"] as const;
+
+export function createAtlasResponseSchema(now = new Date()) {
+  const date = z.preprocess(emptyToNull, z.string().nullable()).transform((value, ctx) => {
+    if (value === null) return null;
+    const coerced = coerceDate(value, now);
+    if (!coerced) {
+      ctx.addIssue({ code: "custom", message: `تاريخ غير مفهوم "${value}"؛ استخدم YYYY-MM-DD` });
+      return z.NEVER;
+    }
+    return coerced;
+  });
+
+  const time = z.preprocess(emptyToNull, z.string().nullable()).transform((value, ctx) => {
+    if (value === null) return null;
+    const coerced = coerceTime(value);
+    if (!coerced) {
+      ctx.addIssue({ code: "custom", message: `وقت غير مفهوم "${value}"؛ استخدم HH:MM بنظام 24 ساعة` });
+      return z.NEVER;
+    }
+    return coerced;
+  });
+
+  const minutes = z.preprocess(emptyToNull, z.unknown()).transform((value, ctx) => {
+    if (value === null) return null;
+    const coerced = coerceMinutes(value);
+    if (coerced === null) {
+      ctx.addIssue({ code: "custom", message: `مدة غير مفهومة "${String(value)}"؛ استخدم عددًا صحيحًا من الدقائق` });
+      return z.NEVER;
+    }
+    return coerced;
+  });
+
+  const recurrence = z
+    .preprocess(
+      (v) => (typeof v === "string" ? { pattern: v } : emptyToNull(v)),
+      z
+        .object({
+          pattern: z.preprocess((v) => (typeof v === "string" ? v.toLowerCase() : v), z.enum(["none", "daily", "weekly", "monthly", "yearly"]).catch("none")).optional(),
+          every: z.preprocess((v) => (typeof v === "string" ? parseInt(normalizeDigits(v), 10) : v), z.number().int().min(1).catch(1)).optional(),
+          days_of_week: textList.optional(),
+        })
+        .nullable()
+    )
+    .transform((v) => v ?? undefined);
+
+  const count = z.preprocess((v) => (typeof v === "string" ? parseInt(normalizeDigits(v), 10) : emptyToNull(v)), z.number().int().min(1).max(12).nullable().catch(null));
+
+  // تفاصيل الدواء للنوع medication فقط؛ أي حقل غير مفهوم يُهمل بدل إفشال الرد كله
+  const medication = z
+    .preprocess(
+      emptyToNull,
+      z
+        .object({
+          name: optionalText.optional(),
+          dose: optionalText.optional(),
+          times_per_day: count.optional(),
+          course_days: z.preprocess((v) => (typeof v === "string" ? parseInt(normalizeDigits(v), 10) : emptyToNull(v)), z.number().int().min(1).nullable().catch(null)).optional(),
+          refill_date: date.catch(null).optional(),
+        })
+        .nullable()
+    )
+    .transform((v) => v ?? undefined);
+
+  const appointment = z.object({
+    type: z.preprocess((v) => (typeof v === "string" ? v.toLowerCase() : v), z.enum(appointmentTypes).catch("other")).optional(),
+    title: optionalText.transform((v) => v ?? undefined),
+    date: date.transform((v) => v ?? undefined),
+    time: time.transform((v) => v ?? undefined),
+    end_time: time.optional(),
+    location: optionalText.optional(),
+    person: optionalText.optional(),
+    actions_before: textList.optional(),
+    actions_after: textList.optional(),
+    tags: textList.optional(),
+    recurrence: recurrence.optional(),
+    reminder_minutes_before: minutes.optional(),
+    notes: optionalText.optional(),
+    medication: medication.optional(),
+  });
+
+  return z.object({
+    appointments: z.preprocess((v) => (v && !Array.isArray(v) && typeof v === "object" ? [v] : v), z.array(appointment)),
+  });
+}
+
+export type AtlasResponse = z.output<ReturnType<typeof createAtlasResponseSchema>>;
+export type AtlasAppointment = AtlasResponse["appointments"][number];
+
+// يستخرج JSON من رد النموذج حتى لو أحاطه بسياج ``` أو بنص إضافي
+export function extractJson(raw: string): unknown {
+  const fenceMatch = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const content = (fenceMatch ? fenceMatch[1] : raw).trim();
+  try {
+    return JSON.parse(content);
+  } catch {
+    const braceMatch = content.match(/\{[\s\S]*\}/);
+    if (!braceMatch) throw new Error("لا يحتوي الرد على كائن JSON.");
+    try {
+      return JSON.parse(braceMatch[0]);
+    } catch (err) {
+      throw new Error(`JSON غير صالح: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+export type AtlasParseResult = { ok: true; data: AtlasResponse } | { ok: false; issues: string[] };
+
+// يعيد قائمة أخطاء محددة بالمسار (مثل appointments[0].time) لتُرسل إلى النموذج في محاولة الإصلاح
+export function parseAtlasContent(content: unknown, now = new Date()): AtlasParseResult {
+  let value = content;
+  if (typeof content === "string") {
+    try {
+      value = extractJson(content);
+    } catch (err) {
+      return { ok: false, issues: [err instanceof Error ? err.message : String(err)] };
+    }
+  }
+  const result = createAtlasResponseSchema(now).safeParse(value);
+  if (result.success) return { ok: true, data: result.data };
+  return {
+    ok: false,
+    issues: result.error.issues.map((issue) => {
+      const path = issue.path.reduce<string>((acc, key) => (typeof key === "number" ? `${acc}[${key}]` : acc ? `${acc}.${String(key)}` : String(key)), "");
+      return path ? `${path}: ${issue.message}` : issue.message;
+    }),
+  };
+}
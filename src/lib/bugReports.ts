@@ -0,0 +1,100 @@
+// بلاغات المشاكل: إرسال البلاغ إلى جدول bug_reports مع معلومات الجهاز والإصدار وسجل الأخطاء الأخير، وقراءة بلاغات المستخدم وحالتها.
+import { supabase } from "./supabase";
+import { recentClientLog } from "./clientLog";
+
+export type BugSeverity = "low" | "medium" | "high" | "critical";
+export type BugStatus = "open" | "in_progress" | "resolved" | "closed";
+
+export type BugReport = {
+  id: string;
+  user_id: string | null;
+  email: string | null;
+  title: string;
+  description: string;
+  steps: string | null;
+  severity: BugSeverity;
+  status: BugStatus;
+  app_version: string | null;
+  platform: string | null;
+  attachment_url: string | null;
+  client_log: string | null;
+  created_at: string;
+  updated_at: string;
+  replies?: BugReportReply[];
+};
+
+export type BugReportReply = { id: string; body: string; created_at: string };
+
+export type BugReportInput = {
+  title: string;
+  description: string;
+  steps: string;
+  severity: BugSeverity;
+  includeLog: boolean;
+};
+
+export const bugSeverityText: Record<BugSeverity, string> = { low: "منخفضة", medium: "متوسطة", high: "مرتفعة", critical: "حرجة" };
+export const bugStatusText: Record<BugStatus, string> = { open: "مفتوح", in_progress: "قيد المعالجة", resolved: "تم الحل", closed: "مغلق" };
+
+export const BUG_ATTACHMENT_BUCKET = "bug-attachments";
+export const MAX_SCREENSHOT_BYTES = 5 * 1024 * 1024;
+
+export const reportColumns = "id, user_id, email, title, description, steps, severity, status, app_version, platform, attachment_url, client_log, created_at, updated_at";
+
+export function appVersion() {
+  return (import.meta.env.VITE_APP_VERSION as string | undefined) || import.meta.env.MODE;
+}
+
+export function capturePlatform() {
+  if (typeof navigator === "undefined") return "unknown";
+  const screenSize = typeof window !== "undefined" ? `${window.innerWidth}x${window.innerHeight}` : "";
+  return [navigator.userAgent, navigator.language, Intl.DateTimeFormat().resolvedOptions().timeZone, screenSize].filter(Boolean).join(" | ");
+}
+
+// الصورة تُرفع في مجلد المستخدم داخل الحاوية الخاصة ويُحفظ مسارها لا رابطًا عامًا
+async function uploadScreenshot(userId: string, file: File) {
+  if (!file.type.startsWith("image/")) throw new Error("المرفق يجب أن يكون صورة.");
+  if (file.size > MAX_SCREENSHOT_BYTES) throw new Error("حجم الصورة أكبر من 5 ميغابايت.");
+  const extension = file.name.split(".").pop()?.toLowerCase() || "png";
+  const path = `${userId}/${Date.now()}.${extension}`;
+  const { error } = await supabase.storage.from(BUG_ATTACHMENT_BUCKET).upload(path, file, { contentType: file.type });
+  if (error) throw new Error(`تعذر رفع الصورة: ${error.message}`);
+  return `${BUG_ATTACHMENT_BUCKET}/${path}`;
+}
+
+export async function submitBugReport(userId: string, email: string | null, input: BugReportInput, screenshot?: File | null): Promise<BugReport> {
+  const title = input.title.trim();
+  const description = input.description.trim();
+  if (!title) throw new Error("أدخل عنوانًا مختصرًا للمشكلة.");
+  if (!description) throw new Error("صف المشكلة بإيجاز.");
+  const attachment_url = screenshot ? await uploadScreenshot(userId, screenshot) : null;
+  const { data, error } = await supabase
+    .from("bug_reports")
+    .insert({
+      user_id: userId,
+      email,
+      title,
+      description,
+      steps: input.steps.trim() || null,
+      severity: input.severity,
+      app_version: appVersion(),
+      platform: capturePlatform(),
+      attachment_url,
+      client_log: input.includeLog ? recentClientLog() || null : null,
+    })
+    .select(reportColumns)
+    .single();
+  if (error) throw error;
+  return data as BugReport;
+}
+
+// ردود فريق الدعم تُجلب مع كل بلاغ (bug_report_replies) ليراها المستخدم تحت بلاغه
+export async function loadMyBugReports(userId: string): Promise<BugReport[]> {
+  const { data, error } = await supabase
+    .from("bug_reports")
+    .select(`${reportColumns}, replies:bug_report_replies(id, body, created_at)`)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as BugReport[];
+}
@@ -0,0 +1,143 @@
+// فرز البلاغات للمشرفين: تصفية حسب الحالة والخطورة، تجميع البلاغات المتشابهة العناوين، انتقالات الحالة، الملاحظات الداخلية والرد على المُبلّغ.
+// الصلاحية تُفحص هنا للعرض فقط؛ الحماية الفعلية في سياسات RLS (public.is_admin) وفي خادم الفرز الذي يرسل الردود.
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import { BUG_ATTACHMENT_BUCKET, reportColumns, type BugReport, type BugReportReply, type BugSeverity, type BugStatus } from "./bugReports";
+
+export type TriageFilters = { status: BugStatus | "all"; severity: BugSeverity | "all" };
+
+export type ReportGroup = { primary: BugReport; duplicates: BugReport[] };
+
+export type BugReportNote = { id: string; author_id: string | null; body: string; created_at: string };
+
+// مطابق لقيد check_bug_report_status في قاعدة البيانات
+export const nextBugStatus: Record<BugStatus, BugStatus | null> = { open: "in_progress", in_progress: "resolved", resolved: "closed", closed: null };
+
+// التشابه فوق هذا الحد يعني غالبًا البلاغ نفسه بصياغة مختلفة
+export const DUPLICATE_THRESHOLD = 0.6;
+
+export function isAdminSession(session: Session | null) {
+  return session?.user.app_metadata?.role === "admin";
+}
+
+// توحيد أشكال الهمزة والتاء المربوطة والياء وحذف التشكيل حتى لا تفرق الكتابة بين عنوانين متطابقين
+function normalizeTitle(title: string) {
+  return title
+    .toLowerCase()
+    .replace(/[ً-ْـ]/g, "")
+    .replace(/[أإآ]/g, "ا")
+    .replace(/ة/g, "ه")
+    .replace(/ى/g, "ي")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function bigrams(text: string) {
+  const grams = new Map<string, number>();
+  for (const word of text.split(" ")) {
+    const padded = ` ${word} `;
+    for (let i = 0; i < padded.length - 1; i++) {
+      const gram = padded.slice(i, i + 2);
+      grams.set(gram, (grams.get(gram) ?? 0) + 1);
+    }
+  }
+  return grams;
+}
+
+// معامل Dice على أزواج الحروف: يتسامح مع اختلاف ترتيب الكلمات وأخطاء الإملاء البسيطة
+export function titleSimilarity(a: string, b: string) {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  const x = bigrams(left);
+  const y = bigrams(right);
+  let overlap = 0;
+  let total = 0;
+  for (const [gram, count] of x) {
+    overlap += Math.min(count, y.get(gram) ?? 0);
+    total += count;
+  }
+  for (const count of y.values()) total += count;
+  return (2 * overlap) / total;
+}
+
+// أقدم بلاغ في كل مجموعة هو الأساسي؛ ترتيب المجموعات يتبع ترتيب القائمة المدخلة
+export function groupSimilarReports(reports: BugReport[], threshold = DUPLICATE_THRESHOLD): ReportGroup[] {
+  const groups: ReportGroup[] = [];
+  const byAge = [...reports].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  for (const report of byAge) {
+    const group = groups.find((g) => titleSimilarity(g.primary.title, report.title) >= threshold);
+    if (group) group.duplicates.push(report);
+    else groups.push({ primary: report, duplicates: [] });
+  }
+  const order = new Map(reports.map((r, i) => [r.id, i]));
+  const position = (g: ReportGroup) => Math.min(...[g.primary, ...g.duplicates].map((r) => order.get(r.id) ?? 0));
+  return groups.sort((a, b) => position(a) - position(b));
+}
+
+export async function loadTriageReports(filters: TriageFilters): Promise<BugReport[]> {
+  let query = supabase.from("bug_reports").select(reportColumns).order("created_at", { ascending: false });
+  if (filters.status !== "all") query = query.eq("status", filters.status);
+  if (filters.severity !== "all") query = query.eq("severity", filters.severity);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as BugReport[];
+}
+
+export async function advanceReportStatus(report: BugReport): Promise<BugReport> {
+  const status = nextBugStatus[report.status];
+  if (!status) throw new Error("البلاغ مغلق بالفعل.");
+  const { data, error } = await supabase.from("bug_reports").update({ status }).eq("id", report.id).select(reportColumns).single();
+  if (error) throw error;
+  return data as BugReport;
+}
+
+export async function loadReportThread(reportId: string): Promise<{ notes: BugReportNote[]; replies: BugReportReply[] }> {
+  const [notes, replies] = await Promise.all([
+    supabase.from("bug_report_notes").select("id, author_id, body, created_at").eq("report_id", reportId).order("created_at", { ascending: true }),
+    supabase.from("bug_report_replies").select("id, body, created_at").eq("report_id", reportId).order("created_at", { ascending: true }),
+  ]);
+  if (notes.error) throw notes.error;
+  if (replies.error) throw replies.error;
+  return { notes: (notes.data ?? []) as BugReportNote[], replies: (replies.data ?? []) as BugReportReply[] };
+}
+
+export async function addInternalNote(reportId: string, authorId: string, body: string): Promise<BugReportNote> {
+  if (!body.trim()) throw new Error("اكتب الملاحظة أولًا.");
+  const { data, error } = await supabase.from("bug_report_notes").insert({ report_id: reportId, author_id: authorId, body: body.trim() }).select("id, author_id, body, created_at").single();
+  if (error) throw error;
+  return data as BugReportNote;
+}
+
+function triageUrl() {
+  return (import.meta.env.VITE_TRIAGE_URL as string | undefined)?.replace(/\/$/, "");
+}
+
+export function isReplyConfigured() {
+  return !!triageUrl();
+}
+
+// الرد يمر بخادم الفرز لأنه يتحقق من الصلاحية ويرسل البريد للمُبلّغ
+export async function sendReporterReply(reportId: string, body: string): Promise<BugReportReply> {
+  const url = triageUrl();
+  if (!url) throw new Error("خادم الفرز غير مهيأ (VITE_TRIAGE_URL).");
+  if (!body.trim()) throw new Error("اكتب الرد أولًا.");
+  const token = (await supabase.auth.getSession()).data.session?.access_token;
+  if (!token) throw new Error("انتهت الجلسة، سجّل الدخول مجددًا.");
+  const res = await fetch(`${url}/admin/bug-reports/${reportId}/reply`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    body: JSON.stringify({ body: body.trim() }),
+  });
+  if (!res.ok) throw new Error((await res.text()) || `تعذر إرسال الرد (${res.status}).`);
+  return (await res.json()) as BugReportReply;
+}
+
+// المرفقات في حاوية خاصة؛ الرابط موقّع وصالح لساعة
+export async function attachmentLink(attachmentPath: string) {
+  const path = attachmentPath.replace(new RegExp(`^${BUG_ATTACHMENT_BUCKET}/`), "");
+  const { data, error } = await supabase.storage.from(BUG_ATTACHMENT_BUCKET).createSignedUrl(path, 3600);
+  if (error) throw error;
+  return data.signedUrl;
+}
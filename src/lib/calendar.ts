@@ -0,0 +1,160 @@
+import { addDaysToKey, dayKeyOf, parseDayKey, startOfZonedDay, weekdayOfKey, zonedParts, zonedToUtc } from "./timezone";
+import type { Priority, WeekStart } from "../types";
+
+export type CalendarView = "month" | "week" | "day";
+export type ColorBy = "priority" | "tag";
+
+export const calendarViewText: Record<CalendarView, string> = { month: "شهر", week: "أسبوع", day: "يوم" };
+
+const weekStartIndex: Record<WeekStart, number> = { sunday: 0, monday: 1, saturday: 6 };
+
+// مدة افتراضية لعرض المواعيد التي لا تملك وقت انتهاء
+export const DEFAULT_DURATION_MINUTES = 30;
+export const SNAP_MINUTES = 15;
+
+export type CalendarEvent = {
+  key: string;
+  start_at: string;
+  end_at?: string;
+  priority: Priority;
+  // لون أول وسوم الموعد
+  tagColor?: string | null;
+};
+
+export function startOfWeekKey(key: string, weekStart: WeekStart) {
+  const offset = (weekdayOfKey(key) - weekStartIndex[weekStart] + 7) % 7;
+  return addDaysToKey(key, -offset);
+}
+
+// الأيام الظاهرة في العرض: يوم واحد، أسبوع كامل، أو أسابيع الشهر كاملة
+export function visibleDays(view: CalendarView, anchorKey: string, weekStart: WeekStart) {
+  if (view === "day") return [anchorKey];
+  if (view === "week") {
+    const first = startOfWeekKey(anchorKey, weekStart);
+    return Array.from({ length: 7 }, (_, i) => addDaysToKey(first, i));
+  }
+  const { year, month } = parseDayKey(anchorKey);
+  const monthFirst = `${year}-${String(month).padStart(2, "0")}-01`;
+  const nextMonthFirst = addDaysToKey(monthFirst, new Date(Date.UTC(year, month, 0)).getUTCDate());
+  const days: string[] = [];
+  for (let d = startOfWeekKey(monthFirst, weekStart); d < nextMonthFirst || days.length % 7 !== 0; d = addDaysToKey(d, 1)) days.push(d);
+  return days;
+}
+
+export function shiftAnchor(view: CalendarView, anchorKey: string, direction: 1 | -1) {
+  if (view === "day") return addDaysToKey(anchorKey, direction);
+  if (view === "week") return addDaysToKey(anchorKey, 7 * direction);
+  const { year, month } = parseDayKey(anchorKey);
+  const d = new Date(Date.UTC(year, month - 1 + direction, 1));
+  return d.toISOString().slice(0, 10);
+}
+
+export function rangeOf(days: string[], timeZone: string) {
+  return { from: startOfZonedDay(days[0], timeZone), to: startOfZonedDay(addDaysToKey(days[days.length - 1], 1), timeZone) };
+}
+
+export function eventEnd(e: { start_at: string; end_at?: string }) {
+  const start = new Date(e.start_at);
+  const end = e.end_at ? new Date(e.end_at) : null;
+  return end && end > start ? end : new Date(start.getTime() + DEFAULT_DURATION_MINUTES * 60 * 1000);
+}
+
+export function eventsOnDay<T extends CalendarEvent>(events: T[], key: string, timeZone: string) {
+  const dayStart = startOfZonedDay(key, timeZone);
+  const dayEnd = startOfZonedDay(addDaysToKey(key, 1), timeZone);
+  return events.filter((e) => new Date(e.start_at) < dayEnd && eventEnd(e) > dayStart);
+}
+
+export type PositionedEvent<T> = {
+  event: T;
+  top: number; // دقائق من بداية اليوم
+  height: number; // بالدقائق
+  column: number;
+  columns: number;
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+};
+
+// يوزع المواعيد المتداخلة في أعمدة متجاورة داخل اليوم الواحد
+export function layoutDay<T extends CalendarEvent>(events: T[], key: string, timeZone: string): PositionedEvent<T>[] {
+  const dayStart = startOfZonedDay(key, timeZone).getTime();
+  const dayMinutes = (startOfZonedDay(addDaysToKey(key, 1), timeZone).getTime() - dayStart) / 60000;
+  const segments = eventsOnDay(events, key, timeZone)
+    .map((event) => {
+      const start = new Date(event.start_at).getTime();
+      const end = eventEnd(event).getTime();
+      const top = Math.max(0, (start - dayStart) / 60000);
+      const bottom = Math.min(dayMinutes, (end - dayStart) / 60000);
+      return { event, top, bottom: Math.max(bottom, top + SNAP_MINUTES), continuesBefore: start < dayStart, continuesAfter: (end - dayStart) / 60000 > dayMinutes };
+    })
+    .sort((a, b) => a.top - b.top || b.bottom - a.bottom);
+
+  const result: PositionedEvent<T>[] = [];
+  let cluster: (typeof result)[number][] = [];
+  let clusterEnd = -1;
+  let columnEnds: number[] = [];
+
+  const flush = () => {
+    const columns = columnEnds.length;
+    for (const item of cluster) item.columns = columns;
+    result.push(...cluster);
+    cluster = [];
+    columnEnds = [];
+  };
+
+  for (const seg of segments) {
+    if (seg.top >= clusterEnd) flush();
+    let column = columnEnds.findIndex((end) => end <= seg.top);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(seg.bottom);
+    } else {
+      columnEnds[column] = seg.bottom;
+    }
+    clusterEnd = Math.max(clusterEnd, seg.bottom);
+    cluster.push({ event: seg.event, top: seg.top, height: seg.bottom - seg.top, column, columns: 1, continuesBefore: seg.continuesBefore, continuesAfter: seg.continuesAfter });
+  }
+  flush();
+  return result;
+}
+
+export const priorityColors: Record<Priority, string> = {
+  critical: "#dc2626",
+  high: "#ea580c",
+  medium: "#2563eb",
+  low: "#16a34a",
+};
+
+export function eventColor(e: CalendarEvent, colorBy: ColorBy) {
+  if (colorBy === "tag") return e.tagColor ?? "#64748b";
+  return priorityColors[e.priority];
+}
+
+function roundToSnap(minutes: number) {
+  return Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+}
+
+// نقل الموعد إلى يوم/وقت جديد مع الحفاظ على مدته
+export function moveEvent(e: { start_at: string; end_at?: string }, targetDay: string, minuteDelta: number, timeZone: string, keepTime = false) {
+  const start = new Date(e.start_at);
+  const p = zonedParts(start, timeZone);
+  const minutes = keepTime ? p.hour * 60 + p.minute : Math.min(24 * 60 - SNAP_MINUTES, Math.max(0, roundToSnap(p.hour * 60 + p.minute + minuteDelta)));
+  const newStart = zonedToUtc({ ...parseDayKey(targetDay), hour: Math.floor(minutes / 60), minute: minutes % 60 }, timeZone);
+  const duration = e.end_at ? new Date(e.end_at).getTime() - start.getTime() : null;
+  return {
+    start_at: newStart.toISOString(),
+    end_at: duration !== null ? new Date(newStart.getTime() + duration).toISOString() : undefined,
+  };
+}
+
+// تغيير مدة الموعد بسحب حافته السفلية (الحد الأدنى خطوة واحدة)
+export function resizeEvent(e: { start_at: string; end_at?: string }, minuteDelta: number) {
+  const start = new Date(e.start_at).getTime();
+  const currentMinutes = (eventEnd(e).getTime() - start) / 60000;
+  const minutes = Math.max(SNAP_MINUTES, roundToSnap(currentMinutes + minuteDelta));
+  return { start_at: e.start_at, end_at: new Date(start + minutes * 60000).toISOString() };
+}
+
+export function todayKey(timeZone: string) {
+  return dayKeyOf(new Date(), timeZone);
+}
@@ -0,0 +1,46 @@
+import { supabase } from "./supabase";
+
+export type CalendarFeed = { token: string; created_at: string; last_accessed_at: string | null };
+
+// عنوان خادم الاشتراك (server/icsFeed.ts)؛ بدونه لا تظهر إدارة الرابط في الإعدادات
+const FEED_BASE_URL = (import.meta.env.VITE_CALENDAR_FEED_URL as string | undefined)?.replace(/\/$/, "");
+
+export function isCalendarFeedConfigured() {
+  return !!FEED_BASE_URL;
+}
+
+export function calendarFeedUrl(token: string) {
+  return `${FEED_BASE_URL}/calendar/${token}.ics`;
+}
+
+// تطبيقات التقويم تفضّل webcal:// لفتح نافذة الاشتراك مباشرة
+export function calendarFeedWebcalUrl(token: string) {
+  return calendarFeedUrl(token).replace(/^https?:\/\//, "webcal://");
+}
+
+function generateToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export async function loadCalendarFeed(userId: string): Promise<CalendarFeed | null> {
+  const { data, error } = await supabase.from("calendar_feeds").select("token, created_at, last_accessed_at").eq("user_id", userId).maybeSingle();
+  if (error) throw error;
+  return data as CalendarFeed | null;
+}
+
+// إنشاء الرابط أو تدويره: الرمز الجديد يُبطل الرابط القديم فورًا
+export async function rotateCalendarFeed(userId: string): Promise<CalendarFeed> {
+  const { data, error } = await supabase
+    .from("calendar_feeds")
+    .upsert({ user_id: userId, token: generateToken(), created_at: new Date().toISOString(), last_accessed_at: null }, { onConflict: "user_id" })
+    .select("token, created_at, last_accessed_at")
+    .single();
+  if (error) throw error;
+  return data as CalendarFeed;
+}
+
+export async function revokeCalendarFeed(userId: string) {
+  const { error } = await supabase.from("calendar_feeds").delete().eq("user_id", userId);
+  if (error) throw error;
+}
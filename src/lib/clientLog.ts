@@ -0,0 +1,42 @@
+// سجل محلي قصير لأخطاء وتحذيرات الواجهة يُرفق ببلاغات المشاكل؛ لا يُرسل شيء منه إلا مع بلاغ يرسله المستخدم.
+type LogEntry = { at: string; level: "error" | "warn"; message: string };
+
+const MAX_ENTRIES = 50;
+const MAX_MESSAGE_LENGTH = 500;
+
+const entries: LogEntry[] = [];
+let installed = false;
+
+function describe(value: unknown): string {
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function push(level: LogEntry["level"], values: unknown[]) {
+  entries.push({ at: new Date().toISOString(), level, message: values.map(describe).join(" ").slice(0, MAX_MESSAGE_LENGTH) });
+  if (entries.length > MAX_ENTRIES) entries.splice(0, entries.length - MAX_ENTRIES);
+}
+
+// يلتقط console.error/warn والأخطاء غير الممسوكة دون تعطيل سلوكها الأصلي
+export function installClientLog() {
+  if (installed || typeof window === "undefined") return;
+  installed = true;
+  for (const level of ["error", "warn"] as const) {
+    const original = console[level].bind(console);
+    console[level] = (...values: unknown[]) => {
+      push(level, values);
+      original(...values);
+    };
+  }
+  window.addEventListener("error", (event) => push("error", [event.error ?? event.message]));
+  window.addEventListener("unhandledrejection", (event) => push("error", ["Unhandled rejection:", event.reason]));
+}
+
+export function recentClientLog() {
+  return entries.map((e) => `${e.at} [${e.level}] ${e.message}`).join("\n");
+}
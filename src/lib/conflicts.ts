@@ -0,0 +1,125 @@
+import { eventEnd, SNAP_MINUTES } from "./calendar";
+import { expandOccurrences, weekdayOrder, type Occurrence, type RecurringItem } from "./recurrence";
+import { zonedParts } from "./timezone";
+import type { WeekStart, Weekday } from "../types";
+
+export type WorkingHours = { start: string; end: string; days: Weekday[] }; // start/end بصيغة HH:MM
+
+export type SchedulingPolicy = {
+  bufferMinutes: number;
+  workingHours: WorkingHours | null;
+  timeZone: string;
+  weekStart: WeekStart;
+};
+
+export type Schedulable = RecurringItem & { status: string };
+
+export type Slot = { start_at: string; end_at: string };
+
+export type ScheduleCheck<T extends Schedulable> = {
+  conflicts: Occurrence<T>[];
+  outsideWorkingHours: boolean;
+  suggestions: Slot[];
+};
+
+export const defaultWorkingHours: WorkingHours = { start: "08:00", end: "20:00", days: ["sun", "mon", "tue", "wed", "thu"] };
+
+// مدى البحث عن أوقات بديلة، ومدى فحص تكرارات الموعد الجديد إن كان متكررًا
+const SEARCH_DAYS = 14;
+const RECURRING_CHECK_DAYS = 28;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Interval<T extends RecurringItem> = { start: number; end: number; occurrence: Occurrence<T> };
+
+function minutesOf(hhmm: string) {
+  const [h, m] = hhmm.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+// المواعيد المجدولة فقط تُعد مشغولة؛ excludeId يستثني الموعد الذي يُعدَّل حاليًا
+function busyIntervals<T extends Schedulable>(items: T[], from: Date, to: Date, policy: Pick<SchedulingPolicy, "weekStart" | "timeZone">, excludeId?: string): Interval<T>[] {
+  return items
+    .filter((a) => a.status === "scheduled" && a.id !== excludeId)
+    .flatMap((a) => expandOccurrences(a, from, to, policy.weekStart, policy.timeZone))
+    .map((occurrence) => ({ start: new Date(occurrence.start_at).getTime(), end: eventEnd(occurrence).getTime(), occurrence }))
+    .sort((a, b) => a.start - b.start);
+}
+
+function overlapping<T extends RecurringItem>(busy: Interval<T>[], start: number, end: number, bufferMs: number) {
+  return busy.filter((b) => b.start < end + bufferMs && start < b.end + bufferMs);
+}
+
+export function isWithinWorkingHours(start: Date, end: Date, hours: WorkingHours | null, timeZone: string) {
+  if (!hours) return true;
+  const s = zonedParts(start, timeZone);
+  // النهاية عند منتصف الليل تماماً تُحسب ضمن اليوم نفسه
+  const e = zonedParts(new Date(end.getTime() - 1), timeZone);
+  if (s.year !== e.year || s.month !== e.month || s.day !== e.day) return false;
+  if (!hours.days.includes(weekdayOrder[s.weekday])) return false;
+  return s.hour * 60 + s.minute >= minutesOf(hours.start) && e.hour * 60 + e.minute + 1 <= minutesOf(hours.end);
+}
+
+// أقرب أوقات متاحة بالمدة نفسها قبل الموعد المطلوب وبعده، ضمن ساعات العمل وليس في الماضي
+export function suggestSlots<T extends Schedulable>(
+  candidate: { start_at: string; end_at?: string },
+  items: T[],
+  policy: SchedulingPolicy,
+  options: { excludeId?: string; count?: number; now?: Date } = {}
+): Slot[] {
+  const count = options.count ?? 3;
+  const now = (options.now ?? new Date()).getTime();
+  const start = new Date(candidate.start_at).getTime();
+  const duration = eventEnd(candidate).getTime() - start;
+  const bufferMs = policy.bufferMinutes * 60000;
+  const stepMs = SNAP_MINUTES * 60000;
+  const busy = busyIntervals(items, new Date(start - SEARCH_DAYS * DAY_MS), new Date(start + SEARCH_DAYS * DAY_MS + duration), policy, options.excludeId);
+
+  const fits = (slotStart: number) =>
+    slotStart >= now &&
+    isWithinWorkingHours(new Date(slotStart), new Date(slotStart + duration), policy.workingHours, policy.timeZone) &&
+    !overlapping(busy, slotStart, slotStart + duration, bufferMs).length;
+
+  const origin = Math.round(start / stepMs) * stepMs;
+  const slots: Slot[] = [];
+  const maxSteps = (SEARCH_DAYS * DAY_MS) / stepMs;
+  for (let k = 1; k <= maxSteps && slots.length < count; k++) {
+    for (const slotStart of [origin + k * stepMs, origin - k * stepMs]) {
+      if (slots.length < count && fits(slotStart)) {
+        slots.push({ start_at: new Date(slotStart).toISOString(), end_at: new Date(slotStart + duration).toISOString() });
+      }
+    }
+  }
+  return slots.sort((a, b) => a.start_at.localeCompare(b.start_at));
+}
+
+// يفحص الموعد المقترح (وتكراراته القريبة إن كان متكررًا) مقابل المواعيد المجدولة وساعات العمل
+export function checkSchedule<T extends Schedulable>(
+  candidate: RecurringItem,
+  items: T[],
+  policy: SchedulingPolicy,
+  options: { excludeId?: string; now?: Date } = {}
+): ScheduleCheck<T> {
+  const start = new Date(candidate.start_at);
+  const windowEnd = new Date(start.getTime() + (candidate.recurrence ? RECURRING_CHECK_DAYS * DAY_MS : 0));
+  const occurrences = expandOccurrences(candidate, start, windowEnd, policy.weekStart, policy.timeZone);
+  const busy = busyIntervals(items, new Date(start.getTime() - DAY_MS), new Date(windowEnd.getTime() + DAY_MS), policy, options.excludeId);
+  const bufferMs = policy.bufferMinutes * 60000;
+
+  const conflicts = new Map<string, Occurrence<T>>();
+  let outsideWorkingHours = false;
+  for (const occurrence of occurrences) {
+    const s = new Date(occurrence.start_at);
+    const e = eventEnd(occurrence);
+    for (const hit of overlapping(busy, s.getTime(), e.getTime(), bufferMs)) {
+      conflicts.set(`${hit.occurrence.id}@${hit.occurrence.occurrence_start}`, hit.occurrence);
+    }
+    if (!isWithinWorkingHours(s, e, policy.workingHours, policy.timeZone)) outsideWorkingHours = true;
+  }
+
+  const hasIssues = conflicts.size > 0 || outsideWorkingHours;
+  return {
+    conflicts: [...conflicts.values()].sort((a, b) => a.start_at.localeCompare(b.start_at)),
+    outsideWorkingHours,
+    suggestions: hasIssues ? suggestSlots(candidate, items, policy, options) : [],
+  };
+}
@@ -0,0 +1,86 @@
+// استخراج النص من صور بطاقات المواعيد والوصفات وملفات PDF بمزود قابل للاستبدال: الوكيل (OCR على الخادم) أو مزود وهمي للاختبار.
+type EnvLike = Record<string, string | undefined>;
+
+export type DocumentTextProviderKind = "proxy" | "mock";
+
+export type DocumentTextProvider = {
+  name: DocumentTextProviderKind;
+  extract: (file: File, options?: { signal?: AbortSignal }) => Promise<string>;
+};
+
+export const acceptedDocumentTypes = ["image/png", "image/jpeg", "image/webp", "image/tiff", "image/bmp", "image/gif", "application/pdf"];
+export const MAX_DOCUMENT_BYTES = 15 * 1024 * 1024;
+
+// تُقرأ بأسمائها صراحةً: الوصول الديناميكي إلى import.meta.env يجعل Vite يضمّن كل متغيرات VITE_ في الحزمة
+const publicEnv: EnvLike = {
+  OCR_PROXY_URL: import.meta.env.VITE_OCR_PROXY_URL,
+  LLM_PROXY_URL: import.meta.env.VITE_LLM_PROXY_URL,
+  OCR_PROVIDER: import.meta.env.VITE_OCR_PROVIDER,
+  OCR_MOCK_TEXT: import.meta.env.VITE_OCR_MOCK_TEXT,
+};
+
+function readEnv(key: string) {
+  return publicEnv[key] || undefined;
+}
+
+// يُرفض الملف قبل الرفع إن كان نوعه أو حجمه غير مقبول
+export function validateDocument(file: File) {
+  if (!acceptedDocumentTypes.includes(file.type)) throw new Error("نوع الملف غير مدعوم؛ اختر صورة (PNG/JPEG/WebP) أو PDF.");
+  if (file.size > MAX_DOCUMENT_BYTES) throw new Error("حجم الملف أكبر من 15 ميغابايت.");
+}
+
+function createProxyDocumentProvider(url: string, getAccessToken: () => Promise<string | null>): DocumentTextProvider {
+  return {
+    name: "proxy",
+    extract: async (file, options = {}) => {
+      const token = await getAccessToken();
+      if (!token) throw new Error("سجّل الدخول لاستخراج المواعيد من المستندات.");
+      const res = await fetch(url, { method: "POST", headers: { Authorization: `Bearer ${token}`, "Content-Type": file.type }, body: file, signal: options.signal });
+      if (!res.ok) throw new Error(`OCR error: ${res.status} ${await res.text()}`);
+      const json = (await res.json()) as { text?: string } | null;
+      return (json?.text ?? "").trim();
+    },
+  };
+}
+
+// نص بطاقة مستشفى ثابت (أو VITE_OCR_MOCK_TEXT) لتجربة المسار كاملًا دون خادم
+export function createMockDocumentProvider(
+  text = readEnv("OCR_MOCK_TEXT") ?? "مستشفى الملك فهد - عيادة الباطنية\nموعد مراجعة: 2026-11-03 الساعة 10:30 صباحًا\nالطبيب: د. سامي\nالدواء: ميتفورمين 500 ملغ مرتين يوميًا بعد الأكل لمدة 30 يومًا"
+): DocumentTextProvider {
+  return {
+    name: "mock",
+    extract: async (_file, options = {}) => {
+      options.signal?.throwIfAborted();
+      return text;
+    },
+  };
+}
+
+let activeProvider: DocumentTextProvider | null | undefined;
+
+// الوكيل يُشتق من VITE_LLM_PROXY_URL (المسار /ocr/extract) إن لم يُضبط VITE_OCR_PROXY_URL
+export function getDocumentTextProvider() {
+  if (activeProvider !== undefined) return activeProvider;
+  const proxyUrl = readEnv("OCR_PROXY_URL") ?? readEnv("LLM_PROXY_URL")?.replace(/\/llm\/chat\/?$/, "/ocr/extract");
+  if (readEnv("OCR_PROVIDER")?.toLowerCase() === "mock") activeProvider = createMockDocumentProvider();
+  else if (proxyUrl)
+    activeProvider = createProxyDocumentProvider(proxyUrl, async () => {
+      const { supabase } = await import("./supabase");
+      return (await supabase.auth.getSession()).data.session?.access_token ?? null;
+    });
+  else activeProvider = null;
+  return activeProvider;
+}
+
+export function setDocumentTextProvider(provider: DocumentTextProvider | null) {
+  activeProvider = provider;
+}
+
+// حد الرسالة في وكيل النموذج 8000 حرف؛ نص المستند يُقص ضمنه مع مقدمة الطلب
+export const MAX_DOCUMENT_PROMPT_CHARS = 7500;
+
+// يضيف سياق المصدر حتى يستخرج النموذج الموعد وجدول الدواء من نص OCR المشوش
+export function documentExtractionPrompt(text: string) {
+  const intro = `النص التالي مستخرج آليًا (OCR) من صورة بطاقة موعد أو وصفة طبية وقد يحتوي أخطاء. استخرج موعد المراجعة، وأي دواء كموعد من نوع medication مع تكراره (daily وعدد المرات) ومدته في notes:\n`;
+  return intro + text.slice(0, MAX_DOCUMENT_PROMPT_CHARS - intro.length);
+}
@@ -0,0 +1,18 @@
+import { supabase } from "./supabase";
+import type { Locale } from "./format";
+
+export type EmailPreferences = { enabled: boolean; locale: Locale };
+
+export const defaultEmailPreferences: EmailPreferences = { enabled: false, locale: "ar" };
+
+// الاشتراك في تذكيرات البريد محفوظ في جدول settings لأن عامل التذكيرات يقرؤه من الخادم
+export async function loadEmailPreferences(userId: string): Promise<EmailPreferences> {
+  const { data, error } = await supabase.from("settings").select("email_reminders, email_locale").eq("user_id", userId).maybeSingle();
+  if (error) throw error;
+  return { enabled: !!data?.email_reminders, locale: data?.email_locale === "en" ? "en" : "ar" };
+}
+
+export async function saveEmailPreferences(userId: string, prefs: EmailPreferences) {
+  const { error } = await supabase.from("settings").upsert({ user_id: userId, email_reminders: prefs.enabled, email_locale: prefs.locale }, { onConflict: "user_id" });
+  if (error) throw error;
+}
@@ -0,0 +1,15 @@
+import type { Priority } from "../types";
+
+export type Locale = "ar" | "en";
+
+export const priorityText: Record<Priority, string> = { low: "منخفض", medium: "متوسط", high: "مرتفع", critical: "حرج" };
+export const priorityTextEn: Record<Priority, string> = { low: "Low", medium: "Medium", high: "High", critical: "Critical" };
+
+// بدون timeZone يُعرض الوقت بمنطقة الجهاز؛ المواعيد تُعرض دائمًا بمنطقة المستخدم المحفوظة في الإعدادات
+export function formatDate(iso: string, locale: Locale = "ar", timeZone?: string) {
+  return new Date(iso).toLocaleString(locale === "ar" ? "ar-EG" : "en-GB", { weekday: "long", day: "numeric", month: "short", hour: "numeric", minute: "2-digit", timeZone });
+}
+
+export function formatTime(iso: string, locale: Locale = "ar", timeZone?: string) {
+  return new Date(iso).toLocaleTimeString(locale === "ar" ? "ar-EG" : "en-GB", { hour: "2-digit", minute: "2-digit", timeZone });
+}
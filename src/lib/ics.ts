@@ -0,0 +1,341 @@
+// تصدير واستيراد المواعيد بصيغة iCalendar (RFC 5545).
+import { reminderOffsets } from "./reminders";
+import { weekdayOrder } from "./recurrence";
+import { addDaysToKey, browserTimeZone, dayKeyOf, parseDayKey, startOfZonedDay, weekdayOfKey, zonedParts, zonedToUtc } from "./timezone";
+import type { Priority, Recurrence, RecurrenceFrequency, Status, WeekStart, Weekday } from "../types";
+
+export type IcsAppointment = {
+  id: string;
+  title: string;
+  description?: string;
+  start_at: string;
+  end_at?: string;
+  priority: Priority;
+  status: Status;
+  location?: string;
+  categories?: string[];
+  reminder_minutes_before?: number | null;
+  reminder_offsets?: number[] | null;
+  recurrence?: Recurrence | null;
+  ics_uid?: string | null;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type ParsedIcsEvent = {
+  uid: string;
+  title: string;
+  description?: string;
+  start_at: string;
+  end_at?: string;
+  location?: string;
+  categories: string[];
+  status: Status;
+  priority: Priority;
+  reminder_minutes_before: number | null;
+  reminder_offsets: number[] | null;
+  recurrence: Recurrence | null;
+  series_uid?: string; // UID السلسلة الأصلية إن كان الحدث تعديلًا لتكرار واحد منها (RECURRENCE-ID)
+};
+
+const PRODID = "-//Nabiuh//Appointments//AR";
+
+const statusToIcs: Record<Status, string> = { scheduled: "CONFIRMED", done: "CONFIRMED", canceled: "CANCELLED" };
+// أولوية iCalendar من 1 (الأعلى) إلى 9
+const priorityToIcs: Record<Priority, number> = { critical: 1, high: 3, medium: 5, low: 9 };
+const icsDay: Record<Weekday, string> = { sat: "SA", sun: "SU", mon: "MO", tue: "TU", wed: "WE", thu: "TH", fri: "FR" };
+const weekStartToIcs: Record<WeekStart, string> = { saturday: "SA", sunday: "SU", monday: "MO" };
+
+// معرّف ثابت للمواعيد المُصدّرة حتى يتعرف الاستيراد اللاحق عليها
+export function icsUidFor(a: Pick<IcsAppointment, "id" | "ics_uid">) {
+  return a.ics_uid || `${a.id}@nabiuh`;
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1");
+}
+
+function formatUtc(iso: string | Date) {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// طي الأسطر عند 75 بايت كما تشترط المواصفة (مع عدم قطع الحروف العربية متعددة البايت)
+function fold(line: string) {
+  const encoder = new TextEncoder();
+  const out: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const bytes = encoder.encode(ch).length;
+    if (size + bytes > (out.length ? 74 : 75)) {
+      out.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += bytes;
+  }
+  out.push(current);
+  return out.join("\r\n ");
+}
+
+function rrule(rule: Recurrence, weekStart: WeekStart, timeZone: string) {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === "weekly" && rule.days_of_week?.length) parts.push(`BYDAY=${rule.days_of_week.map((d) => icsDay[d]).join(",")}`);
+  if (rule.until) {
+    // آخر ثانية من يوم until في منطقة المستخدم
+    parts.push(`UNTIL=${formatUtc(new Date(startOfZonedDay(addDaysToKey(rule.until, 1), timeZone).getTime() - 1000))}`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  parts.push(`WKST=${weekStartToIcs[weekStart]}`);
+  return parts.join(";");
+}
+
+// الاستثناءات محفوظة كأيام في منطقة المستخدم؛ نضيف إليها وقت بداية السلسلة في المنطقة نفسها لتكوين EXDATE
+function exdates(a: IcsAppointment, timeZone: string) {
+  const { hour, minute } = zonedParts(new Date(a.start_at), timeZone);
+  return (a.recurrence?.exceptions ?? []).map((key) => formatUtc(zonedToUtc({ ...parseDayKey(key), hour, minute }, timeZone)));
+}
+
+export function toIcs(appointments: IcsAppointment[], options: { calendarName?: string; weekStart?: WeekStart; timeZone?: string } = {}) {
+  const weekStart = options.weekStart ?? "sunday";
+  const timeZone = options.timeZone ?? browserTimeZone();
+  const stamp = formatUtc(new Date());
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+  if (options.calendarName) lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+
+  for (const a of appointments) {
+    lines.push("BEGIN:VEVENT", `UID:${icsUidFor(a)}`, `DTSTAMP:${stamp}`, `DTSTART:${formatUtc(a.start_at)}`);
+    if (a.end_at) lines.push(`DTEND:${formatUtc(a.end_at)}`);
+    lines.push(`SUMMARY:${escapeText(a.title)}`);
+    if (a.description) lines.push(`DESCRIPTION:${escapeText(a.description)}`);
+    if (a.location) lines.push(`LOCATION:${escapeText(a.location)}`);
+    if (a.categories?.length) lines.push(`CATEGORIES:${a.categories.map(escapeText).join(",")}`);
+    lines.push(`STATUS:${statusToIcs[a.status]}`, `PRIORITY:${priorityToIcs[a.priority]}`, `X-NABIUH-STATUS:${a.status}`);
+    if (a.updated_at) lines.push(`LAST-MODIFIED:${formatUtc(a.updated_at)}`);
+    if (a.recurrence) {
+      lines.push(`RRULE:${rrule(a.recurrence, weekStart, timeZone)}`);
+      const ex = exdates(a, timeZone);
+      if (ex.length) lines.push(`EXDATE:${ex.join(",")}`);
+    }
+    for (const minutes of reminderOffsets(a)) {
+      lines.push("BEGIN:VALARM", "ACTION:DISPLAY", `DESCRIPTION:${escapeText(a.title)}`, `TRIGGER:-PT${minutes}M`, "END:VALARM");
+    }
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+type Property = { name: string; params: Record<string, string>; value: string };
+
+function parseLine(line: string): Property | null {
+  // القيمة تبدأ بعد أول نقطتين خارج علامات الاقتباس
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const [k, v = ""] = p.split("=");
+    params[k.toUpperCase()] = v.replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// يحوّل قيمة DATE أو DATE-TIME (UTC أو مع TZID أو عائمة) إلى ISO؛ العائمة تُقرأ بمنطقة المستخدم
+function parseDateValue(prop: Property, timeZone: string) {
+  const m = prop.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const [, y, mo, d, h = "00", mi = "00", sec = "00", z] = m;
+  const parts = { year: +y, month: +mo, day: +d, hour: +h, minute: +mi };
+  if (z) return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, +sec)).toISOString();
+  if (prop.params.TZID) {
+    try {
+      return zonedToUtc(parts, prop.params.TZID).toISOString();
+    } catch {
+      // TZID غير معروف (مثل أسماء Windows): نعامله كوقت عائم
+    }
+  }
+  return zonedToUtc(parts, timeZone).toISOString();
+}
+
+function parseDuration(value: string) {
+  const m = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [, sign, w = "0", d = "0", h = "0", mi = "0", s = "0"] = m;
+  const minutes = +w * 7 * 1440 + +d * 1440 + +h * 60 + +mi + Math.round(+s / 60);
+  return sign === "-" ? -minutes : minutes;
+}
+
+const frequencies: RecurrenceFrequency[] = ["daily", "weekly", "monthly", "yearly"];
+
+function parseRrule(value: string, start: string, timeZone: string): Recurrence | null {
+  const parts = Object.fromEntries(value.split(";").map((p) => p.split("=") as [string, string]));
+  const frequency = (parts.FREQ ?? "").toLowerCase() as RecurrenceFrequency;
+  if (!frequencies.includes(frequency)) return null;
+  const byDay = (parts.BYDAY ?? "")
+    .split(",")
+    .map((d) => d.replace(/^[+-]?\d+/, ""))
+    .map((d) => (Object.keys(icsDay) as Weekday[]).find((k) => icsDay[k] === d))
+    .filter((d): d is Weekday => !!d);
+  let until: string | null = null;
+  if (parts.UNTIL) {
+    const iso = parseDateValue({ name: "UNTIL", params: {}, value: parts.UNTIL }, timeZone);
+    if (iso) until = dayKeyOf(new Date(iso), timeZone);
+  }
+  const weekday = weekdayOrder[weekdayOfKey(dayKeyOf(new Date(start), timeZone))];
+  return {
+    frequency,
+    interval: parts.INTERVAL ? Math.max(1, parseInt(parts.INTERVAL, 10)) : 1,
+    days_of_week: frequency === "weekly" && byDay.length && !(byDay.length === 1 && byDay[0] === weekday) ? byDay : undefined,
+    until,
+    count: !until && parts.COUNT ? parseInt(parts.COUNT, 10) : null,
+  };
+}
+
+function priorityFromIcs(value?: string): Priority {
+  const n = value ? parseInt(value, 10) : 0;
+  if (!n) return "medium";
+  if (n <= 2) return "critical";
+  if (n <= 4) return "high";
+  if (n <= 6) return "medium";
+  return "low";
+}
+
+export function parseIcs(text: string, timeZone = browserTimeZone()): ParsedIcsEvent[] {
+  const lines = text.replace(/\r\n[ \t]/g, "").replace(/\n[ \t]/g, "").split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+  let props: Property[] | null = null;
+  let alarms: Property[][] = [];
+  let alarm: Property[] | null = null;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const prop = parseLine(line);
+    if (!prop) continue;
+    if (prop.name === "BEGIN" && prop.value.toUpperCase() === "VEVENT") {
+      props = [];
+      alarms = [];
+    } else if (prop.name === "BEGIN" && prop.value.toUpperCase() === "VALARM" && props) {
+      alarm = [];
+    } else if (prop.name === "END" && prop.value.toUpperCase() === "VALARM") {
+      if (alarm) alarms.push(alarm);
+      alarm = null;
+    } else if (prop.name === "END" && prop.value.toUpperCase() === "VEVENT") {
+      if (props) {
+        const event = toParsedEvent(props, alarms, timeZone);
+        if (event) events.push(event);
+      }
+      props = null;
+    } else if (alarm) {
+      alarm.push(prop);
+    } else if (props) {
+      props.push(prop);
+    }
+  }
+  return attachOverrides(events, timeZone);
+}
+
+// تعديلات التكرار الواحد (RECURRENCE-ID) تشارك UID سلستها: نستثني يومها من السلسلة ونستوردها موعدًا منفصلًا بمعرّف خاص بها،
+// والملغى منها يكفيه الاستثناء. التعديل الذي لا توجد سلسلته في الملف يُستورد كموعد مستقل.
+function attachOverrides(events: (ParsedIcsEvent & { recurrence_id?: string })[], timeZone: string): ParsedIcsEvent[] {
+  const result: ParsedIcsEvent[] = [];
+  for (const { recurrence_id, ...event } of events) {
+    if (!recurrence_id) {
+      result.push(event);
+      continue;
+    }
+    const day = dayKeyOf(new Date(recurrence_id), timeZone);
+    const master = events.find((e) => e.uid === event.uid && !e.recurrence_id && e.recurrence);
+    if (master?.recurrence) {
+      master.recurrence.exceptions = [...new Set([...(master.recurrence.exceptions ?? []), day])];
+      if (event.status === "canceled") continue;
+    }
+    result.push({ ...event, uid: `${event.uid}#${day}`, series_uid: event.uid, recurrence: null });
+  }
+  return result;
+}
+
+function toParsedEvent(props: Property[], alarms: Property[][], timeZone: string): (ParsedIcsEvent & { recurrence_id?: string }) | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const dtstart = get("DTSTART");
+  const start_at = dtstart ? parseDateValue(dtstart, timeZone) : null;
+  if (!start_at) return null;
+
+  let end_at: string | undefined;
+  const dtend = get("DTEND");
+  const duration = get("DURATION");
+  if (dtend) end_at = parseDateValue(dtend, timeZone) ?? undefined;
+  else if (duration) {
+    const minutes = parseDuration(duration.value);
+    if (minutes !== null) end_at = new Date(new Date(start_at).getTime() + minutes * 60000).toISOString();
+  }
+
+  const triggers = alarms
+    .map((a) => a.find((p) => p.name === "TRIGGER"))
+    .filter((t): t is Property => !!t && t.params.VALUE !== "DATE-TIME" && t.params.RELATED !== "END")
+    .map((t) => parseDuration(t.value))
+    .filter((m): m is number => m !== null && m < 0)
+    .map((m) => -m)
+    .sort((a, b) => a - b);
+
+  const categories = props
+    .filter((p) => p.name === "CATEGORIES")
+    .flatMap((p) => p.value.split(/(?<!\\),/))
+    .map((c) => unescapeText(c).trim())
+    .filter(Boolean);
+
+  const icsStatus = get("STATUS")?.value.toUpperCase();
+  const ownStatus = get("X-NABIUH-STATUS")?.value as Status | undefined;
+  const status: Status = ownStatus && ["scheduled", "done", "canceled"].includes(ownStatus) ? ownStatus : icsStatus === "CANCELLED" ? "canceled" : "scheduled";
+
+  const rruleProp = get("RRULE");
+  const recurrence = rruleProp ? parseRrule(rruleProp.value, start_at, timeZone) : null;
+  if (recurrence) {
+    const exceptions = props
+      .filter((p) => p.name === "EXDATE")
+      .flatMap((p) => p.value.split(",").map((value) => parseDateValue({ ...p, value }, timeZone)))
+      .filter((iso): iso is string => !!iso)
+      .map((iso) => dayKeyOf(new Date(iso), timeZone));
+    if (exceptions.length) recurrence.exceptions = exceptions;
+  }
+
+  const recurrenceId = get("RECURRENCE-ID");
+  const summary = get("SUMMARY");
+  const description = get("DESCRIPTION");
+  const location = get("LOCATION");
+  return {
+    uid: get("UID")?.value ?? `${start_at}-${summary?.value ?? ""}`,
+    title: summary ? unescapeText(summary.value) : "موعد بدون عنوان",
+    description: description ? unescapeText(description.value) : undefined,
+    start_at,
+    end_at,
+    location: location ? unescapeText(location.value) : undefined,
+    categories,
+    status,
+    priority: priorityFromIcs(get("PRIORITY")?.value),
+    reminder_minutes_before: triggers[0] ?? null,
+    reminder_offsets: triggers.length > 1 ? triggers.slice(1) : null,
+    recurrence,
+    recurrence_id: recurrenceId ? (parseDateValue(recurrenceId, timeZone) ?? undefined) : undefined,
+  };
+}
+
+// يحدد الأحداث المكررة: UID مطابق لموعد مستورد سابقًا أو لموعد صدّرناه نحن
+export function isDuplicateEvent(event: ParsedIcsEvent, existing: Pick<IcsAppointment, "id" | "ics_uid">[]) {
+  return existing.some((a) => icsUidFor(a) === event.uid || a.ics_uid === event.uid || `${a.id}@nabiuh` === event.uid);
+}
@@ -0,0 +1,91 @@
+// محلل JSON تدريجي لرد النموذج المتدفق: يُخرج كل عنصر من مصفوفة "appointments" فور اكتمال كائنه.
+
+export type AppointmentStreamParser = {
+  push: (chunk: string) => void;
+  text: () => string;
+};
+
+export function createAppointmentStreamParser(onObject: (value: unknown, index: number) => void): AppointmentStreamParser {
+  let buffer = "";
+  let pos = 0;
+  // مكدس الأقواس المفتوحة؛ المصفوفة المستهدفة هي أول "[" داخل الكائن الجذري
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let arrayDepth = -1;
+  let objectStart = -1;
+  let emitted = 0;
+
+  function scan() {
+    for (; pos < buffer.length; pos++) {
+      const ch = buffer[pos];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === "\\") escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      // ما قبل الكائن الجذري (سياج ``` أو نص تمهيدي) يُتجاهل
+      if (!stack.length && ch !== "{") continue;
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === "{" || ch === "[") {
+        if (ch === "[" && arrayDepth < 0 && stack.length === 1) arrayDepth = stack.length + 1;
+        stack.push(ch);
+        if (ch === "{" && stack.length === arrayDepth + 1) objectStart = pos;
+      } else if (ch === "}" || ch === "]") {
+        if (ch === "}" && stack.length === arrayDepth + 1 && objectStart >= 0) {
+          try {
+            onObject(JSON.parse(buffer.slice(objectStart, pos + 1)), emitted++);
+          } catch {
+            // كائن تالف: التحقق الكامل في النهاية سيطلب الإصلاح
+          }
+          objectStart = -1;
+        }
+        stack.pop();
+      }
+    }
+  }
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      scan();
+    },
+    text: () => buffer,
+  };
+}
+
+// يقرأ أحداث SSE (data: ...) من جسم الاستجابة ويمرر كل حمولة عدا [DONE]
+export async function readServerSentEvents(body: ReadableStream<Uint8Array>, onData: (data: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    pending += decoder.decode(value, { stream: !done });
+    const lines = pending.split(/\r?\n/);
+    pending = done ? "" : lines.pop()!;
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice(5).trim();
+      if (data && data !== "[DONE]") onData(data);
+    }
+    if (done) return;
+  }
+}
+
+// Ollama يتدفق بأسطر JSON منفصلة (NDJSON) بدل SSE
+export async function readJsonLines(body: ReadableStream<Uint8Array>, onLine: (line: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    pending += decoder.decode(value, { stream: !done });
+    const lines = pending.split("\n");
+    pending = done ? "" : lines.pop()!;
+    lines.map((l) => l.trim()).filter(Boolean).forEach(onLine);
+    if (done) return;
+  }
+}
@@ -0,0 +1,314 @@
+// طبقة مزودي النماذج اللغوية: يُختار المزود من الإعدادات (LLM_PROVIDER) دون تعديل App.tsx.
+import { readJsonLines, readServerSentEvents } from "./jsonStream";
+
+export type LlmMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export type LlmCompletion = { content: string | null; raw: unknown };
+
+export type LlmProviderKind = "atlas" | "openai" | "ollama" | "llamacpp" | "mock";
+
+export type LlmConfig = {
+  provider: LlmProviderKind;
+  url: string;
+  apiKey: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  topK?: number;
+  repetitionPenalty?: number;
+};
+
+// onDelta يفعّل التدفق: يُستدعى بكل جزء نصي فور وصوله، والنتيجة النهائية تبقى النص كاملًا
+export type LlmRequestOptions = {
+  signal?: AbortSignal;
+  onDelta?: (delta: string) => void;
+};
+
+export type LlmProvider = {
+  name: LlmProviderKind;
+  complete: (messages: LlmMessage[], options?: LlmRequestOptions) => Promise<LlmCompletion>;
+};
+
+// القيم الافتراضية لكل مزود؛ أي قيمة في البيئة تتقدم عليها
+const providerDefaults: Record<LlmProviderKind, Omit<LlmConfig, "provider" | "apiKey">> = {
+  atlas: {
+    url: "https://api.atlascloud.ai/v1/chat/completions",
+    model: "openai/gpt-oss-20b",
+    maxTokens: 256,
+    temperature: 0.2,
+    topP: 0.7,
+    topK: 20,
+    repetitionPenalty: 1.02,
+  },
+  openai: { url: "https://api.openai.com/v1/chat/completions", model: "gpt-4o-mini", maxTokens: 512, temperature: 0.2, topP: 1 },
+  ollama: { url: "http://localhost:11434/api/chat", model: "qwen2.5:7b", maxTokens: 512, temperature: 0.2, topP: 0.9, topK: 40 },
+  llamacpp: { url: "http://localhost:8080/v1/chat/completions", model: "local", maxTokens: 512, temperature: 0.2, topP: 0.9, topK: 40, repetitionPenalty: 1.05 },
+  mock: { url: "", model: "mock", maxTokens: 512, temperature: 0, topP: 1 },
+};
+
+const providerKinds = Object.keys(providerDefaults) as LlmProviderKind[];
+
+// إعدادات الواجهة العامة تُقرأ بأسمائها صراحةً: أي وصول ديناميكي إلى import.meta.env يجعل Vite يضمّن كل متغيرات VITE_ في الحزمة.
+// لا مفتاح سريًا هنا؛ المفتاح يبقى على الخادم (LLM_API_KEY)
+function publicEnv(): Record<string, string | undefined> {
+  try {
+    return {
+      LLM_PROVIDER: import.meta.env.VITE_LLM_PROVIDER,
+      LLM_API_URL: import.meta.env.VITE_LLM_API_URL,
+      ATLAS_API_URL: import.meta.env.VITE_ATLAS_API_URL,
+      LLM_MODEL: import.meta.env.VITE_LLM_MODEL,
+      LLM_MAX_TOKENS: import.meta.env.VITE_LLM_MAX_TOKENS,
+      LLM_TEMPERATURE: import.meta.env.VITE_LLM_TEMPERATURE,
+      LLM_TOP_P: import.meta.env.VITE_LLM_TOP_P,
+      LLM_TOP_K: import.meta.env.VITE_LLM_TOP_K,
+      LLM_REPETITION_PENALTY: import.meta.env.VITE_LLM_REPETITION_PENALTY,
+    };
+  } catch {
+    // خارج Vite (الخادم عبر tsx) لا يوجد import.meta.env
+    return {};
+  }
+}
+
+function nodeEnv() {
+  return typeof globalThis !== "undefined" ? (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env : undefined;
+}
+
+// الإعدادات غير السرية: على الخادم تُقبل أسماء VITE_ أيضًا لأن ملف .env مشترك مع الواجهة
+function readEnv(...keys: string[]) {
+  const browser = publicEnv();
+  const server = nodeEnv();
+  for (const key of keys) {
+    const value = browser[key] || server?.[key] || server?.[`VITE_${key}`];
+    if (value) return value;
+  }
+  return undefined;
+}
+
+// المفاتيح السرية تُقرأ من بيئة الخادم فقط وبأسمائها دون VITE_، فلا تصل إلى حزمة المتصفح
+function readServerEnv(...keys: string[]) {
+  const server = nodeEnv();
+  for (const key of keys) {
+    const value = server?.[key];
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function readNumber(key: string) {
+  const value = readEnv(key);
+  const n = value === undefined ? NaN : Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// متغيرات ATLAS_* القديمة ما زالت مدعومة عند اختيار مزود atlas
+export function resolveLlmConfig(): LlmConfig {
+  const requested = (readEnv("LLM_PROVIDER") ?? "atlas").toLowerCase() as LlmProviderKind;
+  const provider = providerKinds.includes(requested) ? requested : "atlas";
+  const defaults = providerDefaults[provider];
+  const legacy = provider === "atlas";
+  return {
+    provider,
+    url: readEnv("LLM_API_URL", ...(legacy ? ["ATLAS_API_URL", "ATLASCLOUD_API_URL"] : [])) ?? defaults.url,
+    apiKey: readServerEnv("LLM_API_KEY", ...(legacy ? ["ATLAS_API_KEY", "ATLASCLOUD_API_KEY"] : [])) ?? "",
+    model: readEnv("LLM_MODEL") ?? defaults.model,
+    maxTokens: readNumber("LLM_MAX_TOKENS") ?? defaults.maxTokens,
+    temperature: readNumber("LLM_TEMPERATURE") ?? defaults.temperature,
+    topP: readNumber("LLM_TOP_P") ?? defaults.topP,
+    topK: readNumber("LLM_TOP_K") ?? defaults.topK,
+    repetitionPenalty: readNumber("LLM_REPETITION_PENALTY") ?? defaults.repetitionPenalty,
+  };
+}
+
+// خطأ 429 مع المهلة التي طلبها الخادم (Retry-After) إن وُجدت، لتعتمد عليها طابور الطلبات
+export class LlmRateLimitError extends Error {
+  retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null) {
+    super(message);
+    this.name = "LlmRateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry-After إما عدد ثوانٍ أو تاريخ HTTP
+function parseRetryAfter(value: string | null) {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+async function post(url: string, body: unknown, headers: Record<string, string>, label: string, signal?: AbortSignal) {
+  const res = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json", ...headers }, body: JSON.stringify(body), signal });
+  if (!res.ok) {
+    const text = await res.text();
+    const lowered = text.toLowerCase();
+    if (res.status === 429 || lowered.includes("too many requests") || lowered.includes("only request this after")) {
+      throw new LlmRateLimitError(`يرجى الانتظار قليلًا ثم إعادة المحاولة (429): ${text}`, parseRetryAfter(res.headers.get("Retry-After")));
+    }
+    throw new Error(`${label} API error: ${res.status} ${text}`);
+  }
+  return res;
+}
+
+function streamBody(res: Response, label: string) {
+  if (!res.body) throw new Error(`${label}: المتصفح لا يدعم قراءة الرد المتدفق.`);
+  return res.body;
+}
+
+function safeJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+// Atlas وOpenAI وخادم llama.cpp تتشارك واجهة chat/completions نفسها
+function createOpenAiCompatibleProvider(config: LlmConfig): LlmProvider {
+  const label = config.provider === "atlas" ? "Atlas" : config.provider === "llamacpp" ? "llama.cpp" : "OpenAI";
+  return {
+    name: config.provider,
+    complete: async (messages, options = {}) => {
+      if (!config.apiKey && config.provider !== "llamacpp") {
+        throw new Error(`مفتاح ${label} غير موجود. في المتصفح اضبط VITE_LLM_PROXY_URL، وعلى الخادم أضف LLM_API_KEY${config.provider === "atlas" ? " أو ATLAS_API_KEY" : ""}.`);
+      }
+      const payload = {
+        model: config.model,
+        messages,
+        max_tokens: config.maxTokens,
+        temperature: config.temperature,
+        top_p: config.topP,
+        ...(config.topK !== undefined && { top_k: config.topK }),
+        ...(config.repetitionPenalty !== undefined && { repetition_penalty: config.repetitionPenalty }),
+        stream: Boolean(options.onDelta),
+      };
+      const res = await post(config.url, payload, config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}, label, options.signal);
+      return readChatCompletion(res, options, label);
+    },
+  };
+}
+
+async function readChatCompletion(res: Response, options: LlmRequestOptions, label: string): Promise<LlmCompletion> {
+  if (!options.onDelta) {
+    const json = (await res.json()) as { choices?: { message?: { content?: string }; delta?: { content?: string } }[] } | null;
+    return { content: json?.choices?.[0]?.message?.content || json?.choices?.[0]?.delta?.content || null, raw: json };
+  }
+  let content = "";
+  const events: unknown[] = [];
+  await readServerSentEvents(streamBody(res, label), (data) => {
+    const event = safeJson(data) as { choices?: { delta?: { content?: string } }[]; error?: { message?: string } } | null;
+    events.push(event);
+    // الوكيل والمزودون المتوافقون يرسلون الخطأ حدثًا داخل التدفق بعد أن تكون الحالة 200 قد أُرسلت
+    if (event?.error) throw new Error(`${label}: ${event.error.message ?? "انقطع الرد المتدفق."}`);
+    const delta = event?.choices?.[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      options.onDelta!(delta);
+    }
+  });
+  return { content: content || null, raw: { stream: true, events } };
+}
+
+// وكيل الخادم (server/llmProxy.ts): يتحقق من جلسة Supabase ويضيف المفتاح ويطبق الحصص، ويرد بصيغة chat/completions
+export function createProxyProvider(url: string, getAccessToken: () => Promise<string | null>): LlmProvider {
+  return {
+    name: resolveLlmConfig().provider,
+    complete: async (messages, options = {}) => {
+      const token = await getAccessToken();
+      if (!token) throw new Error("سجّل الدخول لاستخدام التحليل بالذكاء الاصطناعي.");
+      const res = await post(url, { messages, stream: Boolean(options.onDelta) }, { Authorization: `Bearer ${token}` }, "AI proxy", options.signal);
+      return readChatCompletion(res, options, "AI proxy");
+    },
+  };
+}
+
+function createOllamaProvider(config: LlmConfig): LlmProvider {
+  return {
+    name: "ollama",
+    complete: async (messages, options = {}) => {
+      const payload = {
+        model: config.model,
+        messages,
+        stream: Boolean(options.onDelta),
+        format: "json",
+        options: {
+          num_predict: config.maxTokens,
+          temperature: config.temperature,
+          top_p: config.topP,
+          ...(config.topK !== undefined && { top_k: config.topK }),
+          ...(config.repetitionPenalty !== undefined && { repeat_penalty: config.repetitionPenalty }),
+        },
+      };
+      const res = await post(config.url, payload, {}, "Ollama", options.signal);
+      if (!options.onDelta) {
+        const json = (await res.json()) as { message?: { content?: string } } | null;
+        return { content: json?.message?.content ?? null, raw: json };
+      }
+      let content = "";
+      const lines: unknown[] = [];
+      await readJsonLines(streamBody(res, "Ollama"), (line) => {
+        const chunk = safeJson(line) as { message?: { content?: string } } | null;
+        lines.push(chunk);
+        const delta = chunk?.message?.content;
+        if (delta) {
+          content += delta;
+          options.onDelta!(delta);
+        }
+      });
+      return { content: content || null, raw: { stream: true, lines } };
+    },
+  };
+}
+
+export type MockResponder = (messages: LlmMessage[]) => string;
+
+// رد حتمي دون شبكة: موعد واحد عنوانه أول سطر من النص، ليعمل الاستخراج كاملًا في CI
+const defaultMockResponder: MockResponder = (messages) => {
+  const userText = messages.find((m) => m.role === "user")?.content ?? "";
+  const title = userText.split("\n")[0].trim().slice(0, 60);
+  return JSON.stringify({ appointments: title ? [{ type: "other", title, date: null, time: null, tags: [], actions_before: [], actions_after: [] }] : [] });
+};
+
+// responses تُعاد بالترتيب (لاختبار حلقة الإصلاح مثلًا) ثم يُستخدم respond
+export function createMockProvider(options: { responses?: string[]; respond?: MockResponder } = {}): LlmProvider {
+  const queue = [...(options.responses ?? [])];
+  const respond = options.respond ?? defaultMockResponder;
+  return {
+    name: "mock",
+    complete: async (messages, options = {}) => {
+      options.signal?.throwIfAborted();
+      const content = queue.length ? queue.shift()! : respond(messages);
+      // يحاكي التدفق بأجزاء صغيرة ليظهر العرض التدريجي دون شبكة
+      if (options.onDelta) {
+        for (let i = 0; i < content.length; i += 16) options.onDelta(content.slice(i, i + 16));
+      }
+      return { content, raw: { provider: "mock", content } };
+    },
+  };
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  switch (config.provider) {
+    case "ollama":
+      return createOllamaProvider(config);
+    case "mock":
+      return createMockProvider();
+    default:
+      return createOpenAiCompatibleProvider(config);
+  }
+}
+
+let activeProvider: LlmProvider | null = null;
+
+export function getLlmProvider() {
+  activeProvider ??= createLlmProvider(resolveLlmConfig());
+  return activeProvider;
+}
+
+// لاستبدال المزود في الاختبارات والسكربتات؛ null يعيد القراءة من البيئة
+export function setLlmProvider(provider: LlmProvider | null) {
+  activeProvider = provider;
+}
@@ -0,0 +1,266 @@
+// نموذج الأدوية: خطة الجرعات، توليد مواعيد يومية متكررة لكل وقت جرعة (لتصل تذكيراتها عبر قنوات المواعيد)، وسجل الجرعات ونسبة الالتزام.
+import { supabase } from "./supabase";
+import { coerceTime, normalizeDigits, type AtlasAppointment } from "./atlasSchema";
+import { addDaysToKey, dayKeyOf, parseDayKey, zonedToUtc } from "./timezone";
+import type { Priority, Recurrence } from "../types";
+
+export type DoseStatus = "taken" | "missed" | "skipped";
+
+export type Medication = {
+  id: string;
+  user_id?: string;
+  name: string;
+  dose: string | null;
+  times_per_day: number;
+  dose_times: string[]; // HH:MM بالمنطقة الزمنية للمستخدم
+  start_date: string; // YYYY-MM-DD
+  course_days: number | null; // null = علاج مستمر
+  refill_date: string | null;
+  notes: string | null;
+  active: boolean;
+};
+
+export type MedicationInput = Omit<Medication, "id" | "user_id">;
+
+export type MedicationDose = {
+  medication_id: string;
+  scheduled_at: string;
+  status: DoseStatus;
+  recorded_at?: string;
+};
+
+// الجرعة بلا تسجيل تبقى "قادمة" حتى تمر هذه المهلة بعد موعدها ثم تُحسب فائتة
+export const DOSE_GRACE_MINUTES = 120;
+
+// تذكير الجرعة قبل موعدها بدقائق قليلة (التذكيرات لا تدعم الإزاحة صفر)
+const DOSE_REMINDER_MINUTES = 5;
+
+export const MEDICATION_TAG = "دواء";
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// توزيع الجرعات على ساعات اليقظة (8 صباحًا حتى 10 مساءً)
+export function defaultDoseTimes(timesPerDay: number) {
+  const presets: Record<number, string[]> = { 1: ["09:00"], 2: ["09:00", "21:00"], 3: ["08:00", "14:00", "20:00"], 4: ["08:00", "12:00", "16:00", "20:00"] };
+  if (presets[timesPerDay]) return presets[timesPerDay];
+  const step = (14 * 60) / Math.max(1, timesPerDay - 1);
+  return Array.from({ length: timesPerDay }, (_, i) => {
+    const minutes = Math.round((8 * 60 + i * step) / 15) * 15;
+    return `${pad(Math.floor(minutes / 60) % 24)}:${pad(minutes % 60)}`;
+  });
+}
+
+export function courseEndKey(med: Pick<Medication, "start_date" | "course_days">) {
+  return med.course_days ? addDaysToKey(med.start_date, med.course_days - 1) : null;
+}
+
+export function describeDosing(med: Pick<Medication, "dose" | "times_per_day" | "course_days">) {
+  const times = med.times_per_day === 1 ? "مرة يوميًا" : med.times_per_day === 2 ? "مرتين يوميًا" : `${med.times_per_day} مرات يوميًا`;
+  return [med.dose, times, med.course_days ? `لمدة ${med.course_days} يومًا` : "مستمر"].filter(Boolean).join(" · ");
+}
+
+function doseInstant(dayKey: string, hhmm: string, timeZone: string) {
+  const [hour, minute] = hhmm.split(":").map((v) => parseInt(v, 10));
+  return zonedToUtc({ ...parseDayKey(dayKey), hour, minute }, timeZone);
+}
+
+export type DoseAppointment = {
+  title: string;
+  description?: string;
+  start_at: string;
+  priority: Priority;
+  status: "scheduled";
+  tags: string[];
+  recurrence: Recurrence;
+  reminder_minutes_before: number;
+  medication_id: string;
+};
+
+// موعد يومي متكرر لكل وقت جرعة حتى نهاية العلاج
+export function doseAppointments(med: Medication, timeZone: string): DoseAppointment[] {
+  if (!med.active) return [];
+  const until = courseEndKey(med);
+  return med.dose_times.map((time) => ({
+    title: `💊 ${med.name}${med.dose ? ` ${med.dose}` : ""}`,
+    description: med.notes ?? undefined,
+    start_at: doseInstant(med.start_date, time, timeZone).toISOString(),
+    priority: "high",
+    status: "scheduled",
+    tags: [MEDICATION_TAG],
+    recurrence: { frequency: "daily", interval: 1, until },
+    reminder_minutes_before: DOSE_REMINDER_MINUTES,
+    medication_id: med.id,
+  }));
+}
+
+type ExistingDose = Pick<DoseAppointment, "title" | "start_at" | "priority"> & {
+  id: string;
+  description?: string | null;
+  status: string;
+  recurrence?: Recurrence | null;
+  reminder_minutes_before?: number | null;
+  medication_id?: string | null;
+};
+
+// يقارن مواعيد جرعات الدواء الحالية بالخطة: المطابق يبقى كما هو (باستثناءاته وتذكيراته المؤجلة) والباقي يُحذف أو يُضاف
+export function planDoseSync(med: Medication, existing: ExistingDose[], timeZone: string) {
+  const keyOf = (a: Omit<ExistingDose, "id">) =>
+    JSON.stringify([
+      a.title,
+      a.description ?? null,
+      new Date(a.start_at).getTime(),
+      a.priority,
+      a.status,
+      a.reminder_minutes_before ?? null,
+      a.recurrence?.frequency ?? null,
+      a.recurrence?.interval ?? null,
+      a.recurrence?.until ?? null,
+    ]);
+  const unmatched = existing.filter((a) => a.medication_id === med.id);
+  const add: DoseAppointment[] = [];
+  for (const dose of doseAppointments(med, timeZone)) {
+    const index = unmatched.findIndex((a) => keyOf(a) === keyOf(dose));
+    if (index === -1) add.push(dose);
+    else unmatched.splice(index, 1);
+  }
+  return { remove: unmatched.map((a) => a.id), add };
+}
+
+export type ScheduledDose = { medication_id: string; day: string; time: string; scheduled_at: string; status: DoseStatus | "pending" };
+
+// الجرعات المقررة بين يومين (شاملين) مع حالتها من السجل
+export function scheduledDoses(med: Medication, fromKey: string, toKey: string, log: MedicationDose[], timeZone: string, now = new Date()): ScheduledDose[] {
+  const end = courseEndKey(med);
+  const first = fromKey > med.start_date ? fromKey : med.start_date;
+  const last = end && end < toKey ? end : toKey;
+  const recorded = new Map(log.filter((d) => d.medication_id === med.id).map((d) => [new Date(d.scheduled_at).getTime(), d.status]));
+  const result: ScheduledDose[] = [];
+  for (let day = first; day <= last; day = addDaysToKey(day, 1)) {
+    for (const time of [...med.dose_times].sort()) {
+      const at = doseInstant(day, time, timeZone);
+      const status = recorded.get(at.getTime()) ?? (now.getTime() - at.getTime() > DOSE_GRACE_MINUTES * 60_000 ? "missed" : "pending");
+      result.push({ medication_id: med.id, day, time, scheduled_at: at.toISOString(), status });
+    }
+  }
+  return result;
+}
+
+export type Adherence = { taken: number; missed: number; skipped: number; pending: number; rate: number | null };
+
+// النسبة من الجرعات المستحقة فقط؛ المتخطاة عمدًا (بأمر الطبيب مثلًا) لا تُحسب ضد المستخدم
+export function adherence(doses: ScheduledDose[]): Adherence {
+  const count = (status: ScheduledDose["status"]) => doses.filter((d) => d.status === status).length;
+  const taken = count("taken");
+  const missed = count("missed");
+  return { taken, missed, skipped: count("skipped"), pending: count("pending"), rate: taken + missed ? taken / (taken + missed) : null };
+}
+
+export function needsRefill(med: Pick<Medication, "refill_date" | "active">, todayKey: string, withinDays = 3) {
+  return med.active && !!med.refill_date && med.refill_date <= addDaysToKey(todayKey, withinDays);
+}
+
+export function todayKeyIn(timeZone: string, now = new Date()) {
+  return dayKeyOf(now, timeZone);
+}
+
+const arabicCounts: [RegExp, number][] = [
+  [/مرة واحدة|مره واحده|مرة (?:في|ب)?\s?(?:ال)?يوم|مرة يومي/, 1],
+  [/مرتين|مرتان/, 2],
+  [/(?:ثلاث|3) مرات/, 3],
+  [/(?:أربع|اربع|4) مرات/, 4],
+];
+
+// يحوّل استخراج النموذج من نوع medication إلى خطة دواء؛ الحقول الصريحة أولًا ثم استنتاج من النص
+export function medicationFromAtlas(raw: AtlasAppointment, todayKey: string): MedicationInput {
+  const explicit = raw.medication ?? undefined;
+  const text = normalizeDigits(`${raw.title ?? ""} ${raw.notes ?? ""}`);
+
+  let timesPerDay = explicit?.times_per_day ?? arabicCounts.find(([re]) => re.test(text))?.[1];
+  const every = text.match(/كل\s*(\d+)\s*ساع/);
+  if (!timesPerDay && every) timesPerDay = Math.max(1, Math.round(24 / parseInt(every[1], 10)));
+  timesPerDay = Math.min(12, timesPerDay ?? 1);
+
+  let courseDays = explicit?.course_days ?? null;
+  // "لمدة أسبوع" بلا رقم تعني واحدًا، و"أسبوعين" و"شهرين" تعني اثنين
+  const course = text.match(/(?:لمدة|مدة)\s*(\d+)?\s*(يومين|أسبوعين|اسبوعين|شهرين|يوم|أيام|ايام|أسبوع|أسابيع|اسبوع|اسابيع|شهر|أشهر|اشهر)/);
+  if (!courseDays && course) {
+    const unit = course[2];
+    const count = course[1] ? parseInt(course[1], 10) : unit.endsWith("ين") ? 2 : 1;
+    courseDays = count * (/سبوع|سابيع/.test(unit) ? 7 : /شهر/.test(unit) ? 30 : 1);
+  }
+
+  const dose = explicit?.dose ?? text.match(/\d+(?:\.\d+)?\s*(?:ملغ|مغ|ملجم|mg|مل|ml|حبة|حبات|قرص|أقراص|كبسولة|كبسولات|نقط)/i)?.[0] ?? null;
+  const name =
+    explicit?.name ??
+    (raw.title ?? "دواء")
+      .replace(/^(تناول|أخذ|اخذ|دواء|حبوب|علاج)\s+/, "")
+      .replace(dose ?? "", "")
+      .trim();
+
+  const firstTime = raw.time ? coerceTime(raw.time) : null;
+  return {
+    name: name || "دواء",
+    dose,
+    times_per_day: timesPerDay,
+    dose_times: timesPerDay === 1 && firstTime ? [firstTime] : defaultDoseTimes(timesPerDay),
+    start_date: raw.date ?? todayKey,
+    course_days: courseDays,
+    refill_date: explicit?.refill_date ?? null,
+    notes: raw.notes ?? null,
+    active: true,
+  };
+}
+
+// يتحقق من الخطة قبل الحفظ ويعيد نسخة مطبّعة
+export function normalizeMedicationInput(input: MedicationInput): MedicationInput {
+  const name = input.name.trim();
+  if (!name) throw new Error("أدخل اسم الدواء.");
+  const times = input.dose_times.map((t) => coerceTime(t)).filter((t): t is string => !!t);
+  if (!times.length) throw new Error("حدد وقت جرعة واحدًا على الأقل.");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.start_date)) throw new Error("تاريخ البدء غير صالح.");
+  if (input.course_days !== null && (!Number.isInteger(input.course_days) || input.course_days < 1)) throw new Error("مدة العلاج يجب أن تكون عددًا صحيحًا من الأيام.");
+  const uniqueTimes = [...new Set(times)].sort();
+  return { ...input, name, dose: input.dose?.trim() || null, dose_times: uniqueTimes, times_per_day: uniqueTimes.length, notes: input.notes?.trim() || null };
+}
+
+const medicationColumns = "id, user_id, name, dose, times_per_day, dose_times, start_date, course_days, refill_date, notes, active";
+
+export async function loadMedications(userId: string): Promise<Medication[]> {
+  const { data, error } = await supabase.from("medications").select(medicationColumns).eq("user_id", userId).order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as Medication[];
+}
+
+export async function saveMedication(userId: string, input: MedicationInput, id?: string): Promise<Medication> {
+  const payload = { ...normalizeMedicationInput(input), user_id: userId, updated_at: new Date().toISOString() };
+  const query = id ? supabase.from("medications").update(payload).eq("id", id) : supabase.from("medications").insert(payload);
+  const { data, error } = await query.select(medicationColumns).single();
+  if (error) throw error;
+  return data as Medication;
+}
+
+// حذف الدواء يحذف مواعيد جرعاته وسجلها (on delete cascade)
+export async function deleteMedication(id: string) {
+  const { error } = await supabase.from("medications").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export async function loadDoseLog(userId: string, since: Date): Promise<MedicationDose[]> {
+  const { data, error } = await supabase
+    .from("medication_doses")
+    .select("medication_id, scheduled_at, status, recorded_at")
+    .eq("user_id", userId)
+    .gte("scheduled_at", since.toISOString());
+  if (error) throw error;
+  return (data ?? []) as MedicationDose[];
+}
+
+export async function recordDose(userId: string, medicationId: string, scheduledAt: string, status: DoseStatus): Promise<MedicationDose> {
+  const { data, error } = await supabase
+    .from("medication_doses")
+    .upsert({ user_id: userId, medication_id: medicationId, scheduled_at: scheduledAt, status, recorded_at: new Date().toISOString() }, { onConflict: "medication_id,scheduled_at" })
+    .select("medication_id, scheduled_at, status, recorded_at")
+    .single();
+  if (error) throw error;
+  return data as MedicationDose;
+}
@@ -0,0 +1,319 @@
+import { addDaysToKey, dayKeyOf, parseDayKey, startOfZonedDay, weekdayOfKey, zonedParts, zonedToUtc } from "./timezone";
+import type { Recurrence, RecurrenceFrequency, WeekStart, Weekday } from "../types";
+
+// ترتيب الأيام بحسب Date.getDay()
+export const weekdayOrder: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+export const weekdayText: Record<Weekday, string> = {
+  sat: "السبت",
+  sun: "الأحد",
+  mon: "الاثنين",
+  tue: "الثلاثاء",
+  wed: "الأربعاء",
+  thu: "الخميس",
+  fri: "الجمعة",
+};
+
+export const frequencyText: Record<RecurrenceFrequency, string> = {
+  daily: "يوميًا",
+  weekly: "أسبوعيًا",
+  monthly: "شهريًا",
+  yearly: "سنويًا",
+};
+
+const weekStartIndex: Record<WeekStart, number> = { sunday: 0, monday: 1, saturday: 6 };
+
+// حد أمان لعدد التكرارات التي نمر عليها عند التوسيع
+const MAX_ITERATIONS = 5000;
+
+export type EditScope = "this" | "following" | "all";
+
+export type RecurringItem = {
+  id: string;
+  start_at: string;
+  end_at?: string;
+  recurrence?: Recurrence | null;
+};
+
+// occurrence_start هو موعد بداية هذا التكرار بحسب السلسلة الأصلية (قبل أي تعديل)
+export type Occurrence<T extends RecurringItem> = T & { occurrence_start: string };
+
+// نهاية يوم until في منطقة المستخدم حتى يكون شاملاً
+function endOfDayKey(key: string, timeZone: string) {
+  return new Date(startOfZonedDay(addDaysToKey(key, 1), timeZone).getTime() - 1);
+}
+
+export function orderedWeekdays(weekStart: WeekStart): Weekday[] {
+  const idx = weekStartIndex[weekStart];
+  return weekdayOrder.map((_, i) => weekdayOrder[(idx + i) % 7]);
+}
+
+// يولّد تواريخ البداية المرشحة بالترتيب الزمني دون حد؛ المستدعي يقرر متى يتوقف.
+// الحساب على أيام المنطقة ثم التحويل إلى UTC يبقي الموعد على ساعته الجدارية عبر تغيّر التوقيت الصيفي.
+function* candidateStarts(start: Date, rule: Recurrence, weekStart: WeekStart, timeZone: string): Generator<Date> {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const { year, month, day, hour, minute } = zonedParts(start, timeZone);
+  const startKey = dayKeyOf(start, timeZone);
+  const at = (key: string) => zonedToUtc({ ...parseDayKey(key), hour, minute }, timeZone);
+  // الأشهر التي لا تحتوي هذا اليوم (مثل 31) تُتخطى
+  const monthDay = (y: number, monthIndex: number) => {
+    const d = new Date(Date.UTC(y, monthIndex, day));
+    return d.getUTCDate() === day ? d.toISOString().slice(0, 10) : null;
+  };
+  switch (rule.frequency) {
+    case "daily": {
+      for (let k = 0; ; k++) yield at(addDaysToKey(startKey, k * interval));
+    }
+    case "weekly": {
+      const startWeekday = weekdayOfKey(startKey);
+      const days = new Set<Weekday>(rule.days_of_week?.length ? rule.days_of_week : [weekdayOrder[startWeekday]]);
+      const offset = (startWeekday - weekStartIndex[weekStart] + 7) % 7;
+      const anchor = addDaysToKey(startKey, -offset);
+      for (let w = 0; ; w += interval) {
+        for (let i = 0; i < 7; i++) {
+          const key = addDaysToKey(anchor, w * 7 + i);
+          if (key < startKey) continue;
+          if (days.has(weekdayOrder[weekdayOfKey(key)])) yield at(key);
+        }
+      }
+    }
+    case "monthly": {
+      for (let k = 0; ; k++) {
+        const key = monthDay(year, month - 1 + k * interval);
+        if (key) yield at(key);
+      }
+    }
+    case "yearly": {
+      for (let k = 0; ; k++) {
+        const key = monthDay(year + k * interval, month - 1);
+        if (key) yield at(key);
+      }
+    }
+  }
+}
+
+type Walk = { date: Date; excluded: boolean };
+
+// يمر على تكرارات السلسلة مع احترام until و count (الاستثناءات تُحتسب ضمن count كما في RFC 5545)
+function* walkSeries(item: RecurringItem, weekStart: WeekStart, timeZone: string): Generator<Walk> {
+  const rule = item.recurrence;
+  const start = new Date(item.start_at);
+  if (!rule || isNaN(start.getTime())) return;
+  const until = rule.until ? endOfDayKey(rule.until, timeZone) : null;
+  const exceptions = new Set(rule.exceptions ?? []);
+  let index = 0;
+  for (const date of candidateStarts(start, rule, weekStart, timeZone)) {
+    if (index >= MAX_ITERATIONS) return;
+    if (until && date > until) return;
+    if (rule.count && index >= rule.count) return;
+    yield { date, excluded: exceptions.has(dayKeyOf(date, timeZone)) };
+    index++;
+  }
+}
+
+function durationMs(item: RecurringItem) {
+  if (!item.end_at) return null;
+  const d = new Date(item.end_at).getTime() - new Date(item.start_at).getTime();
+  return isNaN(d) ? null : d;
+}
+
+function toOccurrence<T extends RecurringItem>(item: T, date: Date, duration: number | null): Occurrence<T> {
+  const start_at = date.toISOString();
+  return {
+    ...item,
+    start_at,
+    end_at: duration !== null ? new Date(date.getTime() + duration).toISOString() : undefined,
+    occurrence_start: start_at,
+  };
+}
+
+export function isRecurring(item: { recurrence?: Recurrence | null }) {
+  return !!item.recurrence;
+}
+
+// يوسّع الموعد إلى تكراراته الواقعة ضمن [from, to]. الموعد غير المتكرر يعاد كما هو إن تقاطع مع النطاق.
+export function expandOccurrences<T extends RecurringItem>(item: T, from: Date, to: Date, weekStart: WeekStart, timeZone: string): Occurrence<T>[] {
+  const duration = durationMs(item);
+  const overlaps = (d: Date) => d <= to && d.getTime() + (duration ?? 0) >= from.getTime();
+  if (!item.recurrence) {
+    const start = new Date(item.start_at);
+    return overlaps(start) ? [{ ...item, occurrence_start: item.start_at }] : [];
+  }
+  const result: Occurrence<T>[] = [];
+  for (const step of walkSeries(item, weekStart, timeZone)) {
+    if (step.date > to) break;
+    if (!step.excluded && overlaps(step.date)) result.push(toOccurrence(item, step.date, duration));
+  }
+  return result;
+}
+
+// أول تكرار يبدأ عند from أو بعده
+export function nextOccurrence<T extends RecurringItem>(item: T, from: Date, weekStart: WeekStart, timeZone: string): Occurrence<T> | null {
+  if (!item.recurrence) {
+    return new Date(item.start_at) >= from ? { ...item, occurrence_start: item.start_at } : null;
+  }
+  for (const step of walkSeries(item, weekStart, timeZone)) {
+    if (!step.excluded && step.date >= from) return toOccurrence(item, step.date, durationMs(item));
+  }
+  return null;
+}
+
+function countBefore(item: RecurringItem, before: Date, weekStart: WeekStart, timeZone: string) {
+  let n = 0;
+  for (const step of walkSeries(item, weekStart, timeZone)) {
+    if (step.date >= before) break;
+    n++;
+  }
+  return n;
+}
+
+export function describeRecurrence(rule: Recurrence) {
+  const parts: string[] = [`يتكرر ${frequencyText[rule.frequency]}`];
+  if (rule.interval > 1) parts.push(`كل ${rule.interval}`);
+  if (rule.frequency === "weekly" && rule.days_of_week?.length) parts.push(`(${rule.days_of_week.map((d) => weekdayText[d]).join("، ")})`);
+  if (rule.until) parts.push(`حتى ${rule.until}`);
+  else if (rule.count) parts.push(`لمدة ${rule.count} مرات`);
+  return parts.join(" ");
+}
+
+// حقول التكرار كما تظهر في النماذج (قيم نصية مثل بقية الحقول)
+export type RecurrenceFormModel = {
+  frequency: RecurrenceFrequency | "none";
+  interval: string;
+  daysOfWeek: Weekday[];
+  endMode: "never" | "until" | "count";
+  until: string;
+  count: string;
+};
+
+export const emptyRecurrenceForm: RecurrenceFormModel = {
+  frequency: "none",
+  interval: "1",
+  daysOfWeek: [],
+  endMode: "never",
+  until: "",
+  count: "",
+};
+
+export function recurrenceToForm(rule?: Recurrence | null): RecurrenceFormModel {
+  if (!rule) return emptyRecurrenceForm;
+  return {
+    frequency: rule.frequency,
+    interval: String(rule.interval || 1),
+    daysOfWeek: rule.days_of_week ?? [],
+    endMode: rule.until ? "until" : rule.count ? "count" : "never",
+    until: rule.until ?? "",
+    count: rule.count ? String(rule.count) : "",
+  };
+}
+
+export function formToRecurrence(form: RecurrenceFormModel, exceptions?: string[]): Recurrence | null {
+  if (form.frequency === "none") return null;
+  const interval = parseInt(form.interval, 10);
+  const count = parseInt(form.count, 10);
+  return {
+    frequency: form.frequency,
+    interval: Number.isNaN(interval) || interval < 1 ? 1 : interval,
+    days_of_week: form.frequency === "weekly" && form.daysOfWeek.length ? form.daysOfWeek : undefined,
+    until: form.endMode === "until" && form.until ? form.until : null,
+    count: form.endMode === "count" && !Number.isNaN(count) && count > 0 ? count : null,
+    exceptions: exceptions?.length ? exceptions : undefined,
+  };
+}
+
+const atlasFrequencies: RecurrenceFrequency[] = ["daily", "weekly", "monthly", "yearly"];
+
+// يحوّل حقل recurrence كما يرجعه Atlas إلى قاعدة تكرار، أو null إذا لم يكن هناك تكرار.
+export function recurrenceFromAtlas(raw?: { pattern?: string; every?: number; days_of_week?: string[] } | null): Recurrence | null {
+  const pattern = (raw?.pattern ?? "").toLowerCase() as RecurrenceFrequency;
+  if (!atlasFrequencies.includes(pattern)) return null;
+  const days = (raw?.days_of_week ?? []).map((d) => d.toLowerCase().slice(0, 3)).filter((d): d is Weekday => (weekdayOrder as string[]).includes(d));
+  return {
+    frequency: pattern,
+    interval: raw?.every && raw.every > 0 ? Math.floor(raw.every) : 1,
+    days_of_week: pattern === "weekly" && days.length ? days : undefined,
+  };
+}
+
+// يستثني يوم تكرار واحد من السلسلة (حذفه أو فصله كموعد مستقل)
+export function excludeOccurrence(rule: Recurrence, occurrenceStart: string, timeZone: string): Recurrence {
+  const day = dayKeyOf(new Date(occurrenceStart), timeZone);
+  return { ...rule, exceptions: [...new Set([...(rule.exceptions ?? []), day])] };
+}
+
+type EditableItem = RecurringItem & Record<string, unknown>;
+
+// أعمدة تخص صف السلسلة وحده ولا تُنسخ إلى التكرار المنفصل (ics_uid فريد لكل مستخدم)
+const seriesOnlyColumns = ["ics_uid", "created_at", "updated_at", "reminders_until"];
+
+export type OccurrenceEditPlan<T extends EditableItem> = {
+  update?: { id: string; patch: Partial<T> };
+  insert?: Omit<T, "id">;
+};
+
+// يحدد العمليات اللازمة لتعديل تكرار واحد أو ما يليه أو السلسلة كاملة.
+export function planOccurrenceEdit<T extends EditableItem>(
+  series: T,
+  occurrenceStart: string,
+  patch: Partial<T>,
+  scope: EditScope,
+  weekStart: WeekStart,
+  timeZone: string
+): OccurrenceEditPlan<T> {
+  const rule = series.recurrence;
+  const occStart = new Date(occurrenceStart);
+  const { id, ...rest } = series;
+  const base = Object.fromEntries(Object.entries(rest).filter(([key]) => !seriesOnlyColumns.includes(key)));
+
+  if (!rule || scope === "all" || (scope === "following" && occurrenceStart === series.start_at)) {
+    // نزيح بداية السلسلة بمقدار إزاحة هذا التكرار حتى لا تقفز السلسلة إلى تاريخ التكرار المعدّل
+    const next: Partial<T> = { ...patch };
+    if (rule && patch.start_at) {
+      const delta = new Date(patch.start_at).getTime() - occStart.getTime();
+      const seriesStart = new Date(new Date(series.start_at).getTime() + delta);
+      next.start_at = seriesStart.toISOString();
+      if (patch.end_at) {
+        const duration = new Date(patch.end_at).getTime() - new Date(patch.start_at).getTime();
+        next.end_at = new Date(seriesStart.getTime() + duration).toISOString();
+      }
+    }
+    return { update: { id, patch: next } };
+  }
+
+  const exceptions = rule.exceptions ?? [];
+  const duration = durationMs(series);
+  // التكرار المنفصل يبدأ من موعده هو لا من بداية السلسلة ما لم يحدد التعديل غير ذلك
+  const detached = {
+    ...base,
+    start_at: occurrenceStart,
+    end_at: duration !== null ? new Date(occStart.getTime() + duration).toISOString() : undefined,
+    ...patch,
+  };
+
+  if (scope === "this") {
+    return {
+      update: { id, patch: { recurrence: excludeOccurrence(rule, occurrenceStart, timeZone) } as Partial<T> },
+      insert: { ...detached, recurrence: null } as Omit<T, "id">,
+    };
+  }
+
+  // this and following: نقفل السلسلة القديمة قبل هذا التكرار ونبدأ سلسلة جديدة منه
+  const before = countBefore(series, occStart, weekStart, timeZone);
+  const occKey = dayKeyOf(occStart, timeZone);
+  const dayBefore = addDaysToKey(occKey, -1);
+  const remaining = rule.count ? Math.max(1, rule.count - before) : null;
+  const nextRule = (patch.recurrence === undefined ? rule : patch.recurrence) as Recurrence | null;
+  return {
+    update: { id, patch: { recurrence: { ...rule, until: rule.count ? null : dayBefore, count: rule.count ? before : null } } as Partial<T> },
+    insert: {
+      ...detached,
+      recurrence: nextRule
+        ? {
+            ...nextRule,
+            count: nextRule.count && nextRule.count === rule.count ? remaining : nextRule.count,
+            exceptions: exceptions.filter((e) => e > occKey),
+          }
+        : null,
+    } as Omit<T, "id">,
+  };
+}
@@ -0,0 +1,157 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { expandOccurrences, type RecurringItem } from "./recurrence";
+import type { Reminder, ReminderChannel, WeekStart } from "../types";
+
+// كم يومًا مقدمًا نُنشئ تذكيرات المواعيد المتكررة؛ العامل يكمل الباقي مع مرور الوقت
+export const REMINDER_HORIZON_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReminderSource = RecurringItem & {
+  user_id?: string;
+  status: string;
+  reminder_minutes_before?: number | null;
+  reminder_offsets?: number[] | null;
+};
+
+export type ReminderRow = Omit<Reminder, "id">;
+
+export type ReminderOptions = {
+  channels: ReminderChannel[];
+  weekStart: WeekStart;
+  timeZone: string;
+  now?: Date;
+  horizonDays?: number;
+};
+
+export type DueReminder<A = Record<string, unknown>> = Reminder & { appointment: A | null };
+
+// قناة التطبيق دائمًا، والدفع والبريد حسب اشتراك المستخدم
+export function reminderChannelsFor(push: boolean, email: boolean) {
+  const channels: ReminderChannel[] = ["app"];
+  if (push) channels.push("webpush");
+  if (email) channels.push("email");
+  return channels;
+}
+
+export function reminderHorizon(options: Pick<ReminderOptions, "now" | "horizonDays">) {
+  return new Date((options.now ?? new Date()).getTime() + (options.horizonDays ?? REMINDER_HORIZON_DAYS) * DAY_MS);
+}
+
+export function reminderOffsets(a: Pick<ReminderSource, "reminder_minutes_before" | "reminder_offsets">) {
+  const all = [a.reminder_minutes_before, ...(a.reminder_offsets ?? [])].filter((m): m is number => typeof m === "number" && m > 0);
+  return [...new Set(all)].sort((x, y) => x - y);
+}
+
+// يحسب صفوف التذكير المطلوبة لموعد (أو لتكرارات سلسلته ضمن النطاق) لكل قناة.
+export function buildReminderRows(a: ReminderSource, options: ReminderOptions): ReminderRow[] {
+  if (a.status !== "scheduled" || !options.channels.length) return [];
+  const offsets = reminderOffsets(a);
+  if (!offsets.length) return [];
+  const now = options.now ?? new Date();
+  const horizon = reminderHorizon(options);
+  // الموعد المنفرد يحصل على تذكيراته مهما بعد تاريخه، أما السلسلة فتقتصر على النطاق
+  const occurrences = a.recurrence ? expandOccurrences(a, now, horizon, options.weekStart, options.timeZone) : [{ ...a, occurrence_start: a.start_at }];
+
+  const rows: ReminderRow[] = [];
+  for (const occ of occurrences) {
+    const start = new Date(occ.start_at);
+    if (isNaN(start.getTime()) || start <= now) continue;
+    for (const minutes of offsets) {
+      const remindAt = new Date(start.getTime() - minutes * 60 * 1000);
+      for (const channel of options.channels) {
+        rows.push({
+          appointment_id: a.id,
+          user_id: a.user_id,
+          occurrence_start: occ.start_at,
+          remind_at: remindAt.toISOString(),
+          channel,
+          sent: false,
+        });
+      }
+    }
+  }
+  return rows;
+}
+
+// يستبدل التذكيرات غير المرسلة للموعد بالصفوف المحسوبة حاليًا. المرسلة تبقى كما هي ولا تتكرر بفضل القيد الفريد،
+// والمؤجلة بطلب المستخدم تبقى ما دام الموعد مجدولًا.
+export async function syncReminders(client: SupabaseClient, a: ReminderSource, options: ReminderOptions) {
+  const unsent = client.from("reminders").delete().eq("appointment_id", a.id).eq("sent", false);
+  const { error: deleteError } = a.status === "scheduled" ? await unsent.eq("snoozed", false) : await unsent;
+  if (deleteError) throw deleteError;
+  await topUpReminders(client, a, options);
+}
+
+// يضيف الصفوف الناقصة فقط دون حذف؛ يستعمله العامل لتمديد نطاق السلاسل المتكررة.
+export async function topUpReminders(client: SupabaseClient, a: ReminderSource, options: ReminderOptions) {
+  const rows = buildReminderRows(a, options);
+  if (rows.length) {
+    const { error } = await client.from("reminders").upsert(rows, { onConflict: "appointment_id,occurrence_start,remind_at,channel", ignoreDuplicates: true });
+    if (error) throw error;
+  }
+  // السلسلة تسجل حد النطاق المغطى حتى لا يعيد العامل حسابها في كل دورة
+  if (a.recurrence) {
+    const { error } = await client.from("appointments").update({ reminders_until: reminderHorizon(options).toISOString() }).eq("id", a.id);
+    if (error) throw error;
+  }
+  return rows.length;
+}
+
+export async function fetchDueReminders<A = Record<string, unknown>>(
+  client: SupabaseClient,
+  {
+    channels,
+    userId,
+    now = new Date(),
+    limit = 50,
+    maxAttempts,
+  }: { channels: ReminderChannel[]; userId?: string; now?: Date; limit?: number; maxAttempts?: number }
+): Promise<DueReminder<A>[]> {
+  if (!channels.length) return [];
+  const query = client
+    .from("reminders")
+    .select("*, appointment:appointments(*)")
+    .eq("sent", false)
+    .in("channel", channels)
+    .lte("remind_at", now.toISOString())
+    .order("remind_at", { ascending: true })
+    .limit(limit);
+  const scoped = maxAttempts ? query.lt("attempts", maxAttempts) : query;
+  const { data, error } = userId ? await scoped.eq("user_id", userId) : await scoped;
+  if (error) throw error;
+  return (data ?? []) as DueReminder<A>[];
+}
+
+// يحجز التذكير بتحديث مشروط (sent = false) حتى لا يرسله جهازان أو عاملان معًا.
+export async function claimReminder(client: SupabaseClient, id: string) {
+  const { data, error } = await client
+    .from("reminders")
+    .update({ sent: true, sent_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("sent", false)
+    .select("id");
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+// يعيد التذكير إلى قائمة الانتظار بعد فشل الإرسال مع حفظ سبب الفشل.
+export async function releaseReminder(client: SupabaseClient, reminder: Pick<Reminder, "id" | "attempts">, reason: string) {
+  const { error } = await client
+    .from("reminders")
+    .update({ sent: false, sent_at: null, attempts: (reminder.attempts ?? 0) + 1, last_error: reason })
+    .eq("id", reminder.id);
+  if (error) throw error;
+}
+
+// يؤجل التذكير بإضافة صف جديد بعد عدد من الدقائق لنفس التكرار والقنوات.
+export async function snoozeReminder(
+  client: SupabaseClient,
+  target: Pick<Reminder, "appointment_id" | "user_id" | "occurrence_start">,
+  minutes: number,
+  channels: ReminderChannel[]
+) {
+  const remindAt = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+  const rows: ReminderRow[] = channels.map((channel) => ({ ...target, remind_at: remindAt, channel, sent: false, snoozed: true }));
+  const { error } = await client.from("reminders").upsert(rows, { onConflict: "appointment_id,occurrence_start,remind_at,channel", ignoreDuplicates: true });
+  if (error) throw error;
+}
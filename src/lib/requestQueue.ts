@@ -0,0 +1,193 @@
+// طابور طلبات يراعي حدود المعدل: تنفيذ متسلسل، إعادة محاولة بتأخير أسي مع عشوائية، دمج الطلبات المتطابقة، وتخزين مؤقت للنتائج.
+
+export type QueueStatus =
+  | { state: "queued"; position: number }
+  | { state: "running" }
+  | { state: "waiting"; until: number; attempt: number }
+  | { state: "cached" };
+
+export type QueueOptions = {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  cacheTtlMs?: number;
+  cacheSize?: number;
+  // يعيد مهلة الانتظار المطلوبة (أو 0 لاستخدام التأخير الأسي) إن كان الخطأ قابلًا لإعادة المحاولة، وnull إن لم يكن
+  retryDelay?: (err: unknown) => number | null;
+};
+
+type Subscriber = {
+  resolve: (value: unknown) => void;
+  reject: (err: unknown) => void;
+  // يزيل مستمع الإلغاء بعد انتهاء المهمة
+  detach?: () => void;
+};
+
+type Job = {
+  key: string;
+  task: (signal: AbortSignal) => Promise<unknown>;
+  listeners: ((status: QueueStatus) => void)[];
+  // كل من ينتظر الطلب (صاحبه والمنضمون إليه)؛ المهمة تُلغى حين يلغي آخرهم
+  subscribers: Subscriber[];
+  controller: AbortController;
+};
+
+// انتظار ينقطع فور إلغاء الطلب بدل إبقائه حتى نهاية مهلة 429
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function createRequestQueue(options: QueueOptions = {}) {
+  const concurrency = options.concurrency ?? 1;
+  const maxRetries = options.maxRetries ?? 4;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 60_000;
+  const cacheTtlMs = options.cacheTtlMs ?? 0;
+  const cacheSize = options.cacheSize ?? 20;
+  const retryDelay = options.retryDelay ?? (() => null);
+
+  const pending: Job[] = [];
+  const inflight = new Map<string, Job>();
+  const cache = new Map<string, { value: unknown; expires: number }>();
+  const running = new Set<Job>();
+  // بعد 429 يتوقف الطابور كله حتى انتهاء المهلة، لا الطلب الفاشل وحده
+  let pausedUntil = 0;
+
+  const emit = (job: Job, status: QueueStatus) => job.listeners.forEach((listener) => listener(status));
+
+  const announcePositions = () => pending.forEach((job, i) => emit(job, { state: "queued", position: i + 1 }));
+
+  const backoff = (attempt: number, requested: number) => {
+    if (requested > 0) return Math.min(requested, maxDelayMs);
+    const exp = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(exp / 2 + Math.random() * (exp / 2));
+  };
+
+  async function execute(job: Job) {
+    const { signal } = job.controller;
+    for (let attempt = 0; ; attempt++) {
+      signal.throwIfAborted();
+      const wait = pausedUntil - Date.now();
+      if (wait > 0) {
+        emit(job, { state: "waiting", until: pausedUntil, attempt });
+        await sleep(wait, signal);
+      }
+      emit(job, { state: "running" });
+      try {
+        return await job.task(signal);
+      } catch (err) {
+        const requested = retryDelay(err);
+        if (requested === null || attempt >= maxRetries || signal.aborted) throw err;
+        pausedUntil = Math.max(pausedUntil, Date.now() + backoff(attempt, requested));
+      }
+    }
+  }
+
+  function pump() {
+    while (running.size < concurrency && pending.length) {
+      const job = pending.shift()!;
+      running.add(job);
+      announcePositions();
+      execute(job)
+        .then((value) => {
+          if (cacheTtlMs > 0) {
+            cache.delete(job.key);
+            cache.set(job.key, { value, expires: Date.now() + cacheTtlMs });
+            if (cache.size > cacheSize) cache.delete(cache.keys().next().value!);
+          }
+          settle(job, (sub) => sub.resolve(value));
+        })
+        .catch((err) => settle(job, (sub) => sub.reject(err)))
+        .finally(() => {
+          if (inflight.get(job.key) === job) inflight.delete(job.key);
+          running.delete(job);
+          pump();
+        });
+    }
+  }
+
+  function settle(job: Job, notify: (sub: Subscriber) => void) {
+    for (const sub of job.subscribers.splice(0)) {
+      sub.detach?.();
+      notify(sub);
+    }
+  }
+
+  // إلغاء مشترك يرفض وعده وحده؛ حين لا يبقى من ينتظر الطلب يُزال من الطابور أو تُلغى مهمته الجارية
+  function subscribe(job: Job, signal: AbortSignal | undefined, resolve: (value: unknown) => void, reject: (err: unknown) => void) {
+    const sub: Subscriber = { resolve, reject };
+    job.subscribers.push(sub);
+    if (!signal) return;
+    const onAbort = () => {
+      job.subscribers.splice(job.subscribers.indexOf(sub), 1);
+      if (!job.subscribers.length) {
+        if (inflight.get(job.key) === job) inflight.delete(job.key);
+        const index = pending.indexOf(job);
+        if (index !== -1) {
+          pending.splice(index, 1);
+          announcePositions();
+        }
+        job.controller.abort(signal.reason);
+      }
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    sub.detach = () => signal.removeEventListener("abort", onAbort);
+  }
+
+  // signal يلغي انتظار المستدعي؛ المهمة تتلقى إشارة الطلب المشترك التي لا تُلغى إلا بإلغاء كل منتظريه
+  function run<T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    onStatus?: (status: QueueStatus) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const cached = cache.get(key);
+    if (cached && cached.expires > Date.now()) {
+      onStatus?.({ state: "cached" });
+      return Promise.resolve(cached.value as T);
+    }
+    if (cached) cache.delete(key);
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    // طلب مطابق قيد التنفيذ: ننضم إليه بدل إرسال طلب جديد
+    const existing = inflight.get(key);
+    if (existing) {
+      if (onStatus) existing.listeners.push(onStatus);
+      return new Promise<T>((resolve, reject) => subscribe(existing, signal, resolve as (value: unknown) => void, reject));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const job: Job = { key, task, listeners: onStatus ? [onStatus] : [], subscribers: [], controller: new AbortController() };
+      subscribe(job, signal, resolve as (value: unknown) => void, reject);
+      inflight.set(key, job);
+      pending.push(job);
+      announcePositions();
+      pump();
+    });
+  }
+
+  return {
+    run,
+    clearCache: () => cache.clear(),
+    get size() {
+      // المهمة الجارية التي ألغاها كل منتظريها لا تُحسب وإن لم تنتهِ بعد
+      return pending.length + [...running].filter((job) => job.subscribers.length).length;
+    },
+  };
+}
@@ -0,0 +1,188 @@
+// محرك قواعد التصنيف: شروط على العنوان والملاحظات والموقع والنوع والوسم تحدد الأولوية والوسم ومدة التذكير والإجراءات المقترحة.
+// القواعد تُقيَّم بالترتيب: أول قاعدة مطابقة تحدد كل قيمة مفردة، والإجراءات والملاحظات تتجمع من كل القواعد المطابقة.
+import { z } from "zod";
+import type { Priority } from "../types";
+
+export type RuleField = "title" | "notes" | "location" | "type" | "tag";
+export type RuleOperator = "contains" | "equals" | "matches";
+
+export type RuleCondition = { field: RuleField; operator: RuleOperator; values: string[] };
+
+export type RuleActions = {
+  priority?: Priority;
+  tag?: string;
+  reminderMinutes?: number;
+  actionsBefore?: string[];
+  actionsAfter?: string[];
+  note?: string;
+};
+
+export type ClassificationRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: "any" | "all";
+  conditions: RuleCondition[];
+  actions: RuleActions;
+};
+
+export type RuleSubject = Partial<Record<RuleField, string | null>>;
+
+export type RuleOutcome = {
+  priority?: Priority;
+  tag?: string;
+  reminderMinutes?: number;
+  actionsBefore: string[];
+  actionsAfter: string[];
+  notes: string[];
+  matched: string[];
+};
+
+export const ruleFieldText: Record<RuleField, string> = { title: "العنوان", notes: "الملاحظات", location: "الموقع", type: "النوع", tag: "الوسم" };
+export const ruleOperatorText: Record<RuleOperator, string> = { contains: "يحتوي على", equals: "يساوي", matches: "يطابق التعبير" };
+
+const medicalKeywords = ["مستشفى", "عيادة", "تحليل", "دواء", "مراجعة", "طبيب"];
+
+// تعيد السلوك السابق المضمّن في الكود: المواعيد الطبية أولًا ثم الأولوية حسب النوع
+export const defaultRules: ClassificationRule[] = [
+  {
+    id: "medical",
+    name: "مواعيد طبية",
+    enabled: true,
+    match: "any",
+    conditions: [
+      { field: "title", operator: "contains", values: medicalKeywords },
+      { field: "notes", operator: "contains", values: medicalKeywords },
+      { field: "location", operator: "contains", values: medicalKeywords },
+      { field: "type", operator: "contains", values: ["medical"] },
+    ],
+    actions: {
+      priority: "high",
+      reminderMinutes: 120,
+      actionsBefore: ["تحضير التحاليل أو الملفات الضرورية"],
+      actionsAfter: ["تدوين الملاحظات والتعليمات الطبية"],
+      note: "تنبيه مقترح: قبل 15 دقيقة على الأقل",
+    },
+  },
+  { id: "critical", name: "نوع حرج", enabled: true, match: "any", conditions: [{ field: "type", operator: "contains", values: ["critical"] }], actions: { priority: "critical" } },
+  { id: "medication", name: "أدوية", enabled: true, match: "any", conditions: [{ field: "type", operator: "contains", values: ["medication"] }], actions: { priority: "high" } },
+  { id: "work", name: "عمل", enabled: true, match: "any", conditions: [{ field: "type", operator: "contains", values: ["work"] }], actions: { priority: "medium" } },
+  { id: "personal", name: "شخصي", enabled: true, match: "any", conditions: [{ field: "type", operator: "contains", values: ["personal"] }], actions: { priority: "low" } },
+];
+
+function conditionMatches(condition: RuleCondition, subject: RuleSubject) {
+  const text = (subject[condition.field] ?? "").toLowerCase();
+  if (!text) return false;
+  return condition.values.some((raw) => {
+    const value = raw.trim().toLowerCase();
+    if (!value) return false;
+    if (condition.operator === "equals") return text === value;
+    if (condition.operator === "contains") return text.includes(value);
+    try {
+      return new RegExp(raw, "i").test(text);
+    } catch {
+      return false;
+    }
+  });
+}
+
+export function ruleMatches(rule: ClassificationRule, subject: RuleSubject) {
+  if (!rule.enabled || !rule.conditions.length) return false;
+  return rule.match === "all" ? rule.conditions.every((c) => conditionMatches(c, subject)) : rule.conditions.some((c) => conditionMatches(c, subject));
+}
+
+const unique = (values: string[]) => [...new Set(values.map((v) => v.trim()).filter(Boolean))];
+
+export function evaluateRules(rules: ClassificationRule[], subject: RuleSubject): RuleOutcome {
+  const outcome: RuleOutcome = { actionsBefore: [], actionsAfter: [], notes: [], matched: [] };
+  for (const rule of rules) {
+    if (!ruleMatches(rule, subject)) continue;
+    const { actions } = rule;
+    outcome.matched.push(rule.name);
+    outcome.priority ??= actions.priority;
+    outcome.tag ??= actions.tag || undefined;
+    outcome.reminderMinutes ??= actions.reminderMinutes;
+    outcome.actionsBefore = unique([...outcome.actionsBefore, ...(actions.actionsBefore ?? [])]);
+    outcome.actionsAfter = unique([...outcome.actionsAfter, ...(actions.actionsAfter ?? [])]);
+    if (actions.note) outcome.notes = unique([...outcome.notes, actions.note]);
+  }
+  return outcome;
+}
+
+type RuleTarget = {
+  priority: Priority;
+  tags?: string[];
+  reminder_minutes_before?: number | null;
+  actions_before?: string[] | null;
+  actions_after?: string[] | null;
+};
+
+// تملأ نتيجة القواعد الحقول الفارغة فقط؛ ما حدده المستخدم أو النموذج صراحة لا يُستبدل
+export function fillFromRules<T extends RuleTarget>(appt: T, outcome: RuleOutcome, options: { priority: boolean }): T {
+  return {
+    ...appt,
+    priority: options.priority && outcome.priority ? outcome.priority : appt.priority,
+    tags: appt.tags?.length ? appt.tags : outcome.tag ? [outcome.tag] : appt.tags,
+    reminder_minutes_before: appt.reminder_minutes_before ?? outcome.reminderMinutes ?? null,
+    actions_before: appt.actions_before?.length ? appt.actions_before : outcome.actionsBefore.length ? outcome.actionsBefore : null,
+    actions_after: appt.actions_after?.length ? appt.actions_after : outcome.actionsAfter.length ? outcome.actionsAfter : null,
+  };
+}
+
+export function newRule(): ClassificationRule {
+  return { id: crypto.randomUUID(), name: "قاعدة جديدة", enabled: true, match: "any", conditions: [{ field: "title", operator: "contains", values: [] }], actions: {} };
+}
+
+const ruleSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string(),
+  enabled: z.boolean().default(true),
+  match: z.enum(["any", "all"]).default("any"),
+  conditions: z.array(
+    z.object({
+      field: z.enum(["title", "notes", "location", "type", "tag"]),
+      operator: z.enum(["contains", "equals", "matches"]),
+      values: z.array(z.string()),
+    })
+  ),
+  actions: z.object({
+    priority: z.enum(["low", "medium", "high", "critical"]).optional(),
+    tag: z.string().optional(),
+    reminderMinutes: z.number().int().positive().optional(),
+    actionsBefore: z.array(z.string()).optional(),
+    actionsAfter: z.array(z.string()).optional(),
+    note: z.string().optional(),
+  }),
+});
+
+const ruleSetSchema = z.object({ version: z.literal(1), rules: z.array(ruleSchema) });
+
+export function exportRuleSet(rules: ClassificationRule[]) {
+  return JSON.stringify({ version: 1, rules }, null, 2);
+}
+
+// المعرّفات تُعاد توليدها عند غيابها حتى لا تتكرر بين مجموعات مستوردة
+export function parseRuleSet(json: string): ClassificationRule[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error("الملف ليس JSON صالحًا.");
+  }
+  const result = ruleSetSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`مجموعة قواعد غير صالحة: ${issue.path.join(".")} ${issue.message}`);
+  }
+  return result.data.rules.map((rule) => ({ ...rule, id: rule.id ?? crypto.randomUUID() }));
+}
+
+// تقبل الإعدادات المخزنة قبل وجود القواعد أو المعطوبة منها
+export function loadStoredRules(value: unknown): ClassificationRule[] {
+  if (!Array.isArray(value)) return defaultRules;
+  try {
+    return parseRuleSet(JSON.stringify({ version: 1, rules: value }));
+  } catch {
+    return defaultRules;
+  }
+}
@@ -0,0 +1,182 @@
+// إعدادات المستخدم: نموذج واحد يُحفظ في جدول settings (صف لكل مستخدم) ويُخزَّن محليًا للعمل دون اتصال.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { defaultRules, loadStoredRules, type ClassificationRule } from "./rules";
+import { stashLegacyTags } from "./tags";
+import { browserTimeZone, isValidTimeZone } from "./timezone";
+import type { WorkingHours } from "./conflicts";
+import type { Priority, Settings as SettingsRow, Theme, ToneName, WeekStart } from "../types";
+
+export type UserSettings = {
+  defaultPriority: Priority;
+  reminderWindowMinutes: number;
+  weekStart: WeekStart;
+  timezone: string;
+  theme: Theme;
+  tone: ToneName;
+  bufferMinutes: number;
+  workingHours: WorkingHours | null;
+  localParserFirst: boolean;
+  rules: ClassificationRule[];
+};
+
+// updatedAt: آخر تعديل محلي، syncedAt: updated_at الصف البعيد عند آخر مزامنة، userId: صاحب النسخة المحلية
+export type CachedSettings = { settings: UserSettings; updatedAt: string | null; syncedAt: string | null; userId: string | null };
+
+const CACHE_KEY = "nabiuhSettings";
+const LEGACY_TONE_KEY = "nabiuhTone";
+
+const settingsColumns = "default_reminder_minutes, timezone, week_start, theme, default_priority, tone, buffer_minutes, working_hours, local_parser_first, rules, updated_at";
+
+const priorities: Priority[] = ["low", "medium", "high", "critical"];
+const weekStarts: WeekStart[] = ["saturday", "sunday", "monday"];
+const themes: Theme[] = ["dark", "light", "auto"];
+export const toneNames: ToneName[] = ["soft", "bright", "digital", "calm", "alert"];
+
+export function defaultUserSettings(): UserSettings {
+  return {
+    defaultPriority: "medium",
+    reminderWindowMinutes: 15,
+    weekStart: "sunday",
+    timezone: browserTimeZone(),
+    theme: "auto",
+    tone: "soft",
+    bufferMinutes: 0,
+    workingHours: null,
+    localParserFirst: false,
+    rules: defaultRules,
+  };
+}
+
+function oneOf<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+function clampNumber(value: unknown, min: number, max: number, fallback: number) {
+  const n = typeof value === "number" ? value : parseInt(String(value), 10);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, Math.round(n))) : fallback;
+}
+
+function validWorkingHours(value: unknown): WorkingHours | null {
+  const v = value as Partial<WorkingHours> | null;
+  if (!v || typeof v.start !== "string" || typeof v.end !== "string" || !Array.isArray(v.days)) return null;
+  return { start: v.start, end: v.end, days: v.days };
+}
+
+// القيم الناقصة أو غير الصالحة تأخذ الافتراضي حتى لا تكسر نسخة قديمة أو صف ناقص الواجهة
+export function normalizeSettings(value: Partial<Record<keyof UserSettings, unknown>>): UserSettings {
+  const defaults = defaultUserSettings();
+  return {
+    defaultPriority: oneOf(value.defaultPriority, priorities, defaults.defaultPriority),
+    reminderWindowMinutes: clampNumber(value.reminderWindowMinutes, 5, 180, defaults.reminderWindowMinutes),
+    weekStart: oneOf(value.weekStart, weekStarts, defaults.weekStart),
+    timezone: typeof value.timezone === "string" && isValidTimeZone(value.timezone) ? value.timezone : defaults.timezone,
+    theme: oneOf(value.theme, themes, defaults.theme),
+    tone: oneOf(value.tone, toneNames, defaults.tone),
+    bufferMinutes: clampNumber(value.bufferMinutes, 0, 120, defaults.bufferMinutes),
+    workingHours: validWorkingHours(value.workingHours),
+    localParserFirst: value.localParserFirst === true,
+    rules: loadStoredRules(value.rules),
+  };
+}
+
+export function settingsFromRow(row: Partial<SettingsRow>): UserSettings {
+  return normalizeSettings({
+    defaultPriority: row.default_priority,
+    reminderWindowMinutes: row.default_reminder_minutes,
+    weekStart: row.week_start,
+    timezone: row.timezone,
+    theme: row.theme,
+    tone: row.tone,
+    bufferMinutes: row.buffer_minutes,
+    workingHours: row.working_hours,
+    localParserFirst: row.local_parser_first,
+    rules: row.rules ?? undefined,
+  });
+}
+
+export function settingsToRow(userId: string, s: UserSettings, updatedAt: string) {
+  return {
+    user_id: userId,
+    default_priority: s.defaultPriority,
+    default_reminder_minutes: s.reminderWindowMinutes,
+    week_start: s.weekStart,
+    timezone: s.timezone,
+    theme: s.theme,
+    tone: s.tone,
+    buffer_minutes: s.bufferMinutes,
+    working_hours: s.workingHours,
+    local_parser_first: s.localParserFirst,
+    rules: s.rules,
+    updated_at: updatedAt,
+  };
+}
+
+// updatedAt فارغ يعني صفًا لم تكتبه المزامنة بعد (أنشأته تفضيلات البريد أو صفحة الإعدادات القديمة)
+export type RemoteSettings = { settings: UserSettings; updatedAt: string | null };
+
+export async function loadRemoteSettings(client: SupabaseClient, userId: string): Promise<RemoteSettings | null> {
+  const { data, error } = await client.from("settings").select(settingsColumns).eq("user_id", userId).maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  return { settings: settingsFromRow(data as Partial<SettingsRow>), updatedAt: (data.updated_at as string | null) ?? null };
+}
+
+// أعمدة البريد في الصف نفسه يحفظها saveEmailPreferences؛ upsert هنا لا يلمسها
+export async function saveRemoteSettings(client: SupabaseClient, userId: string, settings: UserSettings, updatedAt: string) {
+  const { error } = await client.from("settings").upsert(settingsToRow(userId, settings, updatedAt), { onConflict: "user_id" });
+  if (error) throw error;
+}
+
+export function isDirty(cache: CachedSettings) {
+  return !!cache.updatedAt && (!cache.syncedAt || cache.updatedAt > cache.syncedAt);
+}
+
+export type Reconciled = { settings: UserSettings; updatedAt: string | null; push: boolean };
+
+// حل التعارض عند تسجيل الدخول:
+// - لا صف بعيد: تُرحَّل النسخة المحلية إلى الحساب.
+// - صف لم تكتبه المزامنة: تُرحَّل النسخة المحلية مع الإبقاء على المظهر الذي حفظته صفحة الإعدادات القديمة.
+// - تعديل محلي لم يُرفع وأحدث من البعيد: يفوز المحلي. وغير ذلك (أو نسخة محلية لحساب آخر) يفوز البعيد.
+export function reconcileSettings(cache: CachedSettings, remote: RemoteSettings | null, userId: string): Reconciled {
+  const ownCache = !cache.userId || cache.userId === userId;
+  const local = ownCache ? cache.settings : defaultUserSettings();
+  const now = new Date().toISOString();
+  if (!remote) return { settings: local, updatedAt: now, push: true };
+  if (!remote.updatedAt) return { settings: { ...local, theme: remote.settings.theme }, updatedAt: now, push: true };
+  if (ownCache && isDirty(cache) && (cache.updatedAt as string) > remote.updatedAt) return { settings: cache.settings, updatedAt: cache.updatedAt, push: true };
+  return { settings: remote.settings, updatedAt: remote.updatedAt, push: false };
+}
+
+// يقرأ النسخة المحلية ويرحّل الصيغ القديمة: إعدادات مسطحة في nabiuhSettings، النغمة في nabiuhTone، والوسوم كأسماء
+export function readCachedSettings(): CachedSettings {
+  const empty: CachedSettings = { settings: defaultUserSettings(), updatedAt: null, syncedAt: null, userId: null };
+  if (typeof window === "undefined") return empty;
+  try {
+    const raw = window.localStorage.getItem(CACHE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    const legacyTone = window.localStorage.getItem(LEGACY_TONE_KEY);
+    if (parsed?.settings) {
+      return {
+        settings: normalizeSettings(parsed.settings),
+        updatedAt: typeof parsed.updatedAt === "string" ? parsed.updatedAt : null,
+        syncedAt: typeof parsed.syncedAt === "string" ? parsed.syncedAt : null,
+        userId: typeof parsed.userId === "string" ? parsed.userId : null,
+      };
+    }
+    if (!parsed && !legacyTone) return empty;
+    const { tags: legacyTags, ...flat } = parsed ?? {};
+    stashLegacyTags(legacyTags);
+    // القيم المحلية القديمة تُعامل كتعديل لم يُرفع حتى تُرحَّل إلى الحساب إن لم يكن له صف بعد
+    const migrated: CachedSettings = { settings: normalizeSettings({ ...flat, tone: legacyTone ?? undefined }), updatedAt: new Date(0).toISOString(), syncedAt: null, userId: null };
+    writeCachedSettings(migrated);
+    window.localStorage.removeItem(LEGACY_TONE_KEY);
+    return migrated;
+  } catch (error) {
+    console.warn("تعذر قراءة إعدادات التخزين المحلي، سيتم استخدام القيم الافتراضية.", error);
+    return empty;
+  }
+}
+
+export function writeCachedSettings(cache: CachedSettings) {
+  if (typeof window !== "undefined") window.localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+}
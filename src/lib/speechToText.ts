@@ -0,0 +1,146 @@
+// تحويل الكلام إلى نص بمزود قابل للاستبدال، مثل طبقة مزودي النماذج: الوكيل (مفتاح الخادم)، خادم محلي متوافق مع Whisper، أو مزود وهمي للاختبار.
+type EnvLike = Record<string, string | undefined>;
+
+export type SttProviderKind = "proxy" | "local" | "mock";
+
+export type SttOptions = { language?: string; signal?: AbortSignal };
+
+export type SttProvider = {
+  name: SttProviderKind;
+  transcribe: (audio: Blob, options?: SttOptions) => Promise<string>;
+};
+
+export type SttConfig = { provider: SttProviderKind; url: string; model: string };
+
+const DEFAULT_LANGUAGE = "ar";
+
+// تُقرأ بأسمائها صراحةً: الوصول الديناميكي إلى import.meta.env يجعل Vite يضمّن كل متغيرات VITE_ في الحزمة
+const publicEnv: EnvLike = {
+  STT_PROXY_URL: import.meta.env.VITE_STT_PROXY_URL,
+  LLM_PROXY_URL: import.meta.env.VITE_LLM_PROXY_URL,
+  STT_PROVIDER: import.meta.env.VITE_STT_PROVIDER,
+  STT_API_URL: import.meta.env.VITE_STT_API_URL,
+  STT_MODEL: import.meta.env.VITE_STT_MODEL,
+  STT_MOCK_TRANSCRIPT: import.meta.env.VITE_STT_MOCK_TRANSCRIPT,
+};
+
+function readEnv(key: string) {
+  return publicEnv[key] || undefined;
+}
+
+// عنوان الوكيل يُشتق من VITE_LLM_PROXY_URL إن لم يُضبط صراحة (نفس الخادم، مسار /stt/transcribe)
+export function resolveSttConfig(): SttConfig | null {
+  const proxyUrl = readEnv("STT_PROXY_URL") ?? readEnv("LLM_PROXY_URL")?.replace(/\/llm\/chat\/?$/, "/stt/transcribe");
+  const requested = readEnv("STT_PROVIDER")?.toLowerCase();
+  const provider: SttProviderKind | null = requested === "local" || requested === "mock" || requested === "proxy" ? requested : proxyUrl ? "proxy" : null;
+  if (!provider) return null;
+  if (provider === "local") return { provider, url: readEnv("STT_API_URL") ?? "http://localhost:8080/inference", model: readEnv("STT_MODEL") ?? "whisper-1" };
+  if (provider === "proxy" && !proxyUrl) return null;
+  return { provider, url: proxyUrl ?? "", model: "" };
+}
+
+async function readTranscript(res: Response, label: string) {
+  if (!res.ok) throw new Error(`${label} STT error: ${res.status} ${await res.text()}`);
+  const json = (await res.json()) as { text?: string } | null;
+  return (json?.text ?? "").trim();
+}
+
+// الصوت يُرسل كما هو والوكيل يضيف المفتاح ويحوّله إلى طلب Whisper
+function createProxySttProvider(url: string, getAccessToken: () => Promise<string | null>): SttProvider {
+  return {
+    name: "proxy",
+    transcribe: async (audio, options = {}) => {
+      const token = await getAccessToken();
+      if (!token) throw new Error("سجّل الدخول لاستخدام الإدخال الصوتي.");
+      const endpoint = `${url}?language=${encodeURIComponent(options.language ?? DEFAULT_LANGUAGE)}`;
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": audio.type || "application/octet-stream" },
+        body: audio,
+        signal: options.signal,
+      });
+      return readTranscript(res, "Proxy");
+    },
+  };
+}
+
+// خادم whisper.cpp (/inference) وخوادم OpenAI المحلية (/v1/audio/transcriptions) تقبل الحقول نفسها
+function createLocalSttProvider(config: SttConfig): SttProvider {
+  return {
+    name: "local",
+    transcribe: async (audio, options = {}) => {
+      const form = new FormData();
+      form.append("file", audio, `recording.${audio.type.includes("ogg") ? "ogg" : "webm"}`);
+      form.append("model", config.model);
+      form.append("language", options.language ?? DEFAULT_LANGUAGE);
+      form.append("response_format", "json");
+      const res = await fetch(config.url, { method: "POST", body: form, signal: options.signal });
+      return readTranscript(res, "Local");
+    },
+  };
+}
+
+// نص ثابت (أو VITE_STT_MOCK_TRANSCRIPT) لتجربة المسار كاملًا دون ميكروفون حقيقي أو خادم
+export function createMockSttProvider(transcript = readEnv("STT_MOCK_TRANSCRIPT") ?? "موعد طبيب الأسنان غدًا الساعة ٤ عصرًا في عيادة النور"): SttProvider {
+  return {
+    name: "mock",
+    transcribe: async (_audio, options = {}) => {
+      options.signal?.throwIfAborted();
+      return transcript;
+    },
+  };
+}
+
+let activeProvider: SttProvider | null | undefined;
+
+export function getSttProvider() {
+  if (activeProvider !== undefined) return activeProvider;
+  const config = resolveSttConfig();
+  if (!config) activeProvider = null;
+  else if (config.provider === "mock") activeProvider = createMockSttProvider();
+  else if (config.provider === "local") activeProvider = createLocalSttProvider(config);
+  else
+    activeProvider = createProxySttProvider(config.url, async () => {
+      const { supabase } = await import("./supabase");
+      return (await supabase.auth.getSession()).data.session?.access_token ?? null;
+    });
+  return activeProvider;
+}
+
+export function setSttProvider(provider: SttProvider | null) {
+  activeProvider = provider;
+}
+
+export type Recording = {
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+};
+
+// يبدأ التسجيل من الميكروفون؛ stop تعيد الملف الصوتي وتحرر الميكروفون
+export async function startRecording(): Promise<Recording> {
+  if (typeof MediaRecorder === "undefined" || !navigator.mediaDevices?.getUserMedia) throw new Error("المتصفح لا يدعم التسجيل الصوتي.");
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"].find((t) => MediaRecorder.isTypeSupported(t));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+  const release = () => stream.getTracks().forEach((t) => t.stop());
+  recorder.start();
+  return {
+    stop: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          release();
+          resolve(new Blob(chunks, { type: recorder.mimeType || "audio/webm" }));
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = release;
+      if (recorder.state !== "inactive") recorder.stop();
+      else release();
+    },
+  };
+}
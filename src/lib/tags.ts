@@ -0,0 +1,130 @@
+// الوسوم: جدول tags لكل مستخدم بلون، وربطها بالمواعيد عبر appointment_tags (علاقة متعدد لمتعدد).
+// دوال القاعدة تتلقى العميل من المستدعي كما في reminders.ts.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Tag } from "../types";
+
+export type TagPatch = Partial<Pick<Tag, "name" | "color">>;
+
+// مطابقة للوحة الألوان في ترحيل db/tags.sql
+export const tagPalette = ["#0F62FE", "#9333ea", "#0891b2", "#ca8a04", "#db2777", "#4f46e5", "#059669", "#b45309"];
+
+// وسوم الإعدادات المحلية القديمة تُحفظ هنا حتى تُرحَّل إلى قاعدة البيانات بعد تسجيل الدخول
+const LEGACY_TAGS_KEY = "nabiuhLegacyTags";
+
+const tagColumns = "id, name, color, created_by, created_at";
+
+export function defaultTagColor(name: string) {
+  let hash = 0;
+  for (const ch of name.trim().toLowerCase()) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  return tagPalette[hash % tagPalette.length];
+}
+
+export function normalizeTagName(name: string) {
+  return name.replace(/\s+/g, " ").trim();
+}
+
+export function findTagByName(tags: Tag[], name: string) {
+  const key = normalizeTagName(name).toLowerCase();
+  return tags.find((t) => t.name.toLowerCase() === key);
+}
+
+// الوسوم بترتيب معرفاتها مع تجاهل المحذوف منها
+export function tagsByIds(tags: Tag[], ids: string[] | null | undefined) {
+  return (ids ?? []).map((id) => tags.find((t) => t.id === id)).filter((t): t is Tag => !!t);
+}
+
+export function tagNamesOf(tags: Tag[], ids: string[] | null | undefined) {
+  return tagsByIds(tags, ids).map((t) => t.name);
+}
+
+// الأسماء بعد التنظيف دون تكرار؛ المقارنة لا تفرق بين الأحرف الكبيرة والصغيرة كما في قيد قاعدة البيانات
+export function uniqueTagNames(values: string[]) {
+  const names: string[] = [];
+  for (const value of values) {
+    const name = normalizeTagName(value);
+    if (name && !names.some((n) => n.toLowerCase() === name.toLowerCase())) names.push(name);
+  }
+  return names;
+}
+
+// "عمل، عائلة, سفر" => ["عمل", "عائلة", "سفر"]
+export function parseTagList(value: string) {
+  return uniqueTagNames(value.split(/[,،]/));
+}
+
+export async function loadTags(client: SupabaseClient, userId: string): Promise<Tag[]> {
+  const { data, error } = await client.from("tags").select(tagColumns).eq("created_by", userId).order("name", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as Tag[];
+}
+
+export async function createTags(client: SupabaseClient, userId: string, entries: { name: string; color?: string }[]): Promise<Tag[]> {
+  const rows = entries.map((e) => ({ created_by: userId, name: normalizeTagName(e.name), color: e.color ?? defaultTagColor(e.name) })).filter((r) => r.name);
+  if (!rows.length) return [];
+  const { data, error } = await client.from("tags").insert(rows).select(tagColumns);
+  if (error) throw error;
+  return (data ?? []) as Tag[];
+}
+
+// الموعد يشير إلى الوسم بمعرفه، فإعادة التسمية تظهر في كل المواعيد دون تعديلها
+export async function updateTag(client: SupabaseClient, tags: Tag[], id: string, patch: TagPatch): Promise<Tag> {
+  const next: TagPatch = { ...patch };
+  if (patch.name !== undefined) {
+    next.name = normalizeTagName(patch.name);
+    if (!next.name) throw new Error("اسم الوسم مطلوب.");
+    const clash = findTagByName(tags, next.name);
+    if (clash && clash.id !== id) throw new Error(`يوجد وسم باسم "${clash.name}"، استخدم الدمج بدلًا من إعادة التسمية.`);
+  }
+  const { data, error } = await client.from("tags").update(next).eq("id", id).select(tagColumns).single();
+  if (error) throw error;
+  return data as Tag;
+}
+
+// ينقل مواعيد الوسم المصدر إلى الهدف ثم يحذف المصدر؛ الموعد الذي يحمل الوسمين يبقى بالهدف وحده
+export async function mergeTags(client: SupabaseClient, sourceId: string, targetId: string) {
+  if (sourceId === targetId) throw new Error("اختر وسمًا مختلفًا للدمج.");
+  const { data, error } = await client.from("appointment_tags").select("appointment_id").eq("tag_id", sourceId);
+  if (error) throw error;
+  const links = (data ?? []).map((row) => ({ appointment_id: row.appointment_id as string, tag_id: targetId }));
+  if (links.length) {
+    const { error: linkError } = await client.from("appointment_tags").upsert(links, { onConflict: "appointment_id,tag_id", ignoreDuplicates: true });
+    if (linkError) throw linkError;
+  }
+  await deleteTag(client, sourceId);
+}
+
+// حذف الوسم يزيل ربطه بالمواعيد (on delete cascade)، ومع reassignTo تنتقل مواعيده إلى وسم آخر
+export async function deleteTag(client: SupabaseClient, id: string, reassignTo?: string) {
+  if (reassignTo) return mergeTags(client, id, reassignTo);
+  const { error } = await client.from("tags").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export async function setAppointmentTags(client: SupabaseClient, appointmentId: string, tagIds: string[]) {
+  const { error } = await client.from("appointment_tags").delete().eq("appointment_id", appointmentId);
+  if (error) throw error;
+  const ids = [...new Set(tagIds)];
+  if (!ids.length) return;
+  const { error: insertError } = await client.from("appointment_tags").insert(ids.map((tag_id) => ({ appointment_id: appointmentId, tag_id })));
+  if (insertError) throw insertError;
+}
+
+export function stashLegacyTags(names: unknown) {
+  if (typeof window === "undefined" || !Array.isArray(names)) return;
+  const merged = uniqueTagNames([...readLegacyTags(), ...names.filter((n): n is string => typeof n === "string")]);
+  if (merged.length) window.localStorage.setItem(LEGACY_TAGS_KEY, JSON.stringify(merged));
+}
+
+export function readLegacyTags(): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(LEGACY_TAGS_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((n): n is string => typeof n === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function clearLegacyTags() {
+  if (typeof window !== "undefined") window.localStorage.removeItem(LEGACY_TAGS_KEY);
+}
@@ -0,0 +1,154 @@
+// أدوات المنطقة الزمنية المعتمدة على Intl فقط (بدون مكتبات إضافية).
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = الأحد كما في Date.getDay()
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const weekdayIndex: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let f = formatterCache.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    formatterCache.set(timeZone, f);
+  }
+  return f;
+}
+
+export function browserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const p of formatterFor(timeZone).formatToParts(date)) parts[p.type] = p.value;
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    weekday: weekdayIndex[parts.weekday] ?? 0,
+  };
+}
+
+// الفرق بين الوقت المحلي في المنطقة و UTC عند لحظة معينة
+export function timeZoneOffsetMs(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  const seconds = date.getUTCSeconds();
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, seconds);
+  return asUtc - (date.getTime() - date.getUTCMilliseconds());
+}
+
+// يحوّل وقتًا جداريًا في المنطقة إلى لحظة UTC. الإزاحة تُجرب كما كانت قبل اليوم وبعده: الوقت المكرر عند نهاية
+// التوقيت الصيفي يأخذ أول ظهور، ووقت الفجوة عند بدايته يُدفع إلى الأمام بإزاحة ما قبلها.
+export function zonedToUtc(parts: Pick<ZonedParts, "year" | "month" | "day" | "hour" | "minute">, timeZone: string) {
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const before = wall - timeZoneOffsetMs(new Date(wall - DAY_MS), timeZone);
+  const after = wall - timeZoneOffsetMs(new Date(wall + DAY_MS), timeZone);
+  const valid = [before, after].filter((t) => t + timeZoneOffsetMs(new Date(t), timeZone) === wall);
+  return new Date(valid.length ? Math.min(...valid) : before);
+}
+
+// مفاتيح الأيام YYYY-MM-DD مستقلة عن المنطقة، وتُحسب عليها العمليات بتوقيت UTC
+export function dayKeyOf(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+export function parseDayKey(key: string) {
+  const [year, month, day] = key.split("-").map((v) => parseInt(v, 10));
+  return { year, month, day };
+}
+
+export function addDaysToKey(key: string, n: number) {
+  const { year, month, day } = parseDayKey(key);
+  const d = new Date(Date.UTC(year, month - 1, day + n));
+  return d.toISOString().slice(0, 10);
+}
+
+export function weekdayOfKey(key: string) {
+  const { year, month, day } = parseDayKey(key);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// بداية اليوم (منتصف الليل) في المنطقة كلحظة UTC
+export function startOfZonedDay(key: string, timeZone: string) {
+  return zonedToUtc({ ...parseDayKey(key), hour: 0, minute: 0 }, timeZone);
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+const dayKeyPattern = /^\d{4}-\d{2}-\d{2}$/;
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// "HH:MM" كما تظهر اللحظة على ساعة المنطقة
+export function timeOfDayIn(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  return `${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+// تاريخ ووقت جداريان (كما في حقول النماذج) إلى لحظة UTC، أو null إن لم يكونا صالحين
+export function wallTimeToUtc(day: string, time: string, timeZone: string): Date | null {
+  if (!dayKeyPattern.test(day) || !timePattern.test(time)) return null;
+  const { year, month, day: d } = parseDayKey(day);
+  // 2025-02-30 وأمثاله يرفضها Date.UTC بانتقاله إلى الشهر التالي
+  if (new Date(Date.UTC(year, month - 1, d)).toISOString().slice(0, 10) !== day) return null;
+  const [hour, minute] = time.split(":").map((v) => parseInt(v, 10));
+  return zonedToUtc({ year, month, day: d, hour, minute }, timeZone);
+}
+
+export type WallTimes = { date: string; time: string; endTime: string };
+
+// حقول التاريخ والوقت لموعد محفوظ بتوقيت UTC كما يراها المستخدم في منطقته
+export function toWallTimes(a: { start_at: string; end_at?: string | null }, timeZone: string): WallTimes {
+  const start = new Date(a.start_at);
+  return {
+    date: dayKeyOf(start, timeZone),
+    time: timeOfDayIn(start, timeZone),
+    endTime: a.end_at ? timeOfDayIn(new Date(a.end_at), timeZone) : "",
+  };
+}
+
+// عكس toWallTimes. وقت انتهاء أبكر من البداية يعني أن الموعد يمتد بعد منتصف الليل إلى اليوم التالي
+export function fromWallTimes(w: WallTimes, timeZone: string): { start_at: string; end_at?: string } | null {
+  const start = wallTimeToUtc(w.date, w.time, timeZone);
+  if (!start) return null;
+  if (!w.endTime) return { start_at: start.toISOString() };
+  const end = wallTimeToUtc(w.endTime < w.time ? addDaysToKey(w.date, 1) : w.date, w.endTime, timeZone);
+  if (!end) return null;
+  return { start_at: start.toISOString(), end_at: end.toISOString() };
+}
+
+// لحظة تحمل حقولها المحلية (getDate، getHours...) تاريخ المنطقة ووقتها؛ للمحللات التي تحسب التواريخ النسبية بحقول Date المحلية
+export function wallClockDate(timeZone: string, now = new Date()) {
+  const p = zonedParts(now, timeZone);
+  return new Date(p.year, p.month - 1, p.day, p.hour, p.minute);
+}
@@ -0,0 +1,78 @@
+import { supabase } from "./supabase";
+
+export type ReminderAction = "snooze" | "done";
+
+export type ReminderActionMessage = {
+  type: "reminder-action";
+  action: ReminderAction;
+  appointmentId: string;
+  occurrenceStart?: string;
+};
+
+const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export function isPushSupported() {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && !!vapidPublicKey;
+}
+
+// مفتاح VAPID بصيغة base64url إلى Uint8Array كما يتطلبه pushManager.subscribe
+function urlBase64ToUint8Array(base64: string) {
+  const padding = "=".repeat((4 - (base64.length % 4)) % 4);
+  const raw = atob((base64 + padding).replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+}
+
+export async function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return null;
+  return navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+}
+
+export async function getPushSubscription() {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(import.meta.env.BASE_URL);
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+// يشترك هذا الجهاز في Web Push ويحفظ الاشتراك مرتبطًا بالمستخدم الحالي.
+export async function subscribeToPush(userId: string) {
+  if (!isPushSupported()) throw new Error("المتصفح لا يدعم إشعارات الدفع أو مفتاح VAPID غير مضبوط.");
+  const registration = await registerServiceWorker();
+  if (!registration) throw new Error("تعذر تسجيل Service Worker.");
+  await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(vapidPublicKey as string) }));
+  const json = subscription.toJSON();
+  const { error } = await supabase.from("push_subscriptions").upsert(
+    {
+      user_id: userId,
+      endpoint: subscription.endpoint,
+      p256dh: json.keys?.p256dh,
+      auth: json.keys?.auth,
+      user_agent: navigator.userAgent,
+    },
+    { onConflict: "endpoint" }
+  );
+  if (error) throw error;
+  return subscription;
+}
+
+export async function unsubscribeFromPush() {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  const { error } = await supabase.from("push_subscriptions").delete().eq("endpoint", subscription.endpoint);
+  if (error) throw error;
+  await subscription.unsubscribe();
+}
+
+export function isReminderActionMessage(data: unknown): data is ReminderActionMessage {
+  const msg = data as ReminderActionMessage | null;
+  return !!msg && msg.type === "reminder-action" && (msg.action === "snooze" || msg.action === "done") && typeof msg.appointmentId === "string";
+}
+
+// قناة webpush تبقى مفعّلة للمستخدم ما دام لديه اشتراك على أي جهاز
+export async function hasPushSubscriptions(userId: string) {
+  const { count, error } = await supabase.from("push_subscriptions").select("id", { count: "exact", head: true }).eq("user_id", userId);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+}
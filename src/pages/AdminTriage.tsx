@@ -0,0 +1,205 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "../lib/supabase";
+import { bugSeverityText, bugStatusText, type BugReport, type BugReportReply, type BugSeverity, type BugStatus } from "../lib/bugReports";
+import {
+  addInternalNote,
+  advanceReportStatus,
+  attachmentLink,
+  groupSimilarReports,
+  isAdminSession,
+  isReplyConfigured,
+  loadReportThread,
+  loadTriageReports,
+  sendReporterReply,
+  type BugReportNote,
+  type TriageFilters,
+} from "../lib/bugTriage";
+import { formatDate } from "../lib/format";
+import { ReportDetail } from "../components/admin/ReportDetail";
+
+const statuses = Object.keys(bugStatusText) as BugStatus[];
+const severities = Object.keys(bugSeverityText) as BugSeverity[];
+
+const severityClass: Record<BugSeverity, string> = {
+  low: "bg-slate-100 text-slate-600",
+  medium: "bg-blue-100 text-blue-700",
+  high: "bg-amber-100 text-amber-800",
+  critical: "bg-rose-100 text-rose-700",
+};
+
+// لوحة فرز البلاغات على /admin للمشرفين فقط (دور admin في app_metadata)
+export default function AdminTriage() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [filters, setFilters] = useState<TriageFilters>({ status: "open", severity: "all" });
+  const [reports, setReports] = useState<BugReport[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [thread, setThread] = useState<{ notes: BugReportNote[]; replies: BugReportReply[] }>({ notes: [], replies: [] });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const admin = isAdminSession(session);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setChecking(false);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!admin) return;
+    setLoading(true);
+    setError(null);
+    loadTriageReports(filters)
+      .then(setReports)
+      .catch((err) => setError(err instanceof Error ? err.message : "تعذر تحميل البلاغات."))
+      .finally(() => setLoading(false));
+  }, [admin, filters]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    loadReportThread(selectedId)
+      .then(setThread)
+      .catch((err) => setError(err instanceof Error ? err.message : "تعذر تحميل الملاحظات."));
+  }, [selectedId]);
+
+  const groups = useMemo(() => groupSimilarReports(reports), [reports]);
+  const selectedGroup = groups.find((g) => g.primary.id === selectedId || g.duplicates.some((d) => d.id === selectedId));
+  const selected = reports.find((r) => r.id === selectedId);
+
+  function select(id: string) {
+    setThread({ notes: [], replies: [] });
+    setSelectedId(id);
+  }
+
+  async function run<T>(task: () => Promise<T>, fallback: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      return await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function advance(report: BugReport) {
+    const updated = await run(() => advanceReportStatus(report), "تعذر تغيير الحالة.");
+    if (updated) setReports((list) => list.map((r) => (r.id === updated.id ? updated : r)));
+  }
+
+  async function addNote(body: string) {
+    if (!selected || !session) return false;
+    const note = await run(() => addInternalNote(selected.id, session.user.id, body), "تعذر حفظ الملاحظة.");
+    if (note) setThread((t) => ({ ...t, notes: [...t.notes, note] }));
+    return !!note;
+  }
+
+  async function reply(body: string) {
+    if (!selected) return false;
+    const sent = await run(() => sendReporterReply(selected.id, body), "تعذر إرسال الرد.");
+    if (sent) setThread((t) => ({ ...t, replies: [...t.replies, sent] }));
+    return !!sent;
+  }
+
+  async function openAttachment() {
+    if (!selected?.attachment_url) return;
+    const url = await run(() => attachmentLink(selected.attachment_url as string), "تعذر فتح المرفق.");
+    if (url) window.open(url, "_blank", "noopener");
+  }
+
+  if (checking) return <div className="min-h-screen flex items-center justify-center text-slate-700">يتم التحميل...</div>;
+
+  if (!admin) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-3 text-slate-700">
+        <p>هذه الصفحة للمشرفين فقط.</p>
+        <a href="/" className="btn-primary">
+          العودة للمواعيد
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      <div className="mx-auto max-w-6xl space-y-4 px-4 py-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">فرز البلاغات</h1>
+          <a href="/" className="text-sm text-blue-600 hover:underline">
+            العودة للمواعيد
+          </a>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <select className="select w-auto" value={filters.status} onChange={(e) => setFilters((f) => ({ ...f, status: e.target.value as TriageFilters["status"] }))}>
+            <option value="all">كل الحالات</option>
+            {statuses.map((s) => (
+              <option key={s} value={s}>
+                {bugStatusText[s]}
+              </option>
+            ))}
+          </select>
+          <select className="select w-auto" value={filters.severity} onChange={(e) => setFilters((f) => ({ ...f, severity: e.target.value as TriageFilters["severity"] }))}>
+            <option value="all">كل درجات الخطورة</option>
+            {severities.map((s) => (
+              <option key={s} value={s}>
+                {bugSeverityText[s]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="grid gap-4 lg:grid-cols-[1fr_1.4fr]">
+          <div className="space-y-2">
+            {loading && <p className="text-sm text-slate-500">جارٍ التحميل...</p>}
+            {!loading && !groups.length && <p className="text-sm text-slate-500">لا توجد بلاغات بهذه التصفية.</p>}
+            {groups.map(({ primary, duplicates }) => (
+              <button
+                key={primary.id}
+                className={`block w-full rounded-md border bg-white p-3 text-right shadow-sm ${selectedGroup?.primary.id === primary.id ? "border-blue-400" : "border-slate-200 hover:border-blue-200"}`}
+                onClick={() => select(primary.id)}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className="font-medium text-slate-900">{primary.title}</span>
+                  <span className={`shrink-0 rounded-full px-2 py-0.5 text-xs ${severityClass[primary.severity]}`}>{bugSeverityText[primary.severity]}</span>
+                </div>
+                <p className="mt-1 text-xs text-slate-500">
+                  {bugStatusText[primary.status]} · {formatDate(primary.created_at)}
+                  {duplicates.length > 0 && ` · +${duplicates.length} مشابه`}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className="rounded-md border border-slate-200 bg-white p-4 shadow-sm">
+            {selected && selectedGroup ? (
+              <ReportDetail
+                key={selected.id}
+                report={selected}
+                duplicates={[selectedGroup.primary, ...selectedGroup.duplicates].filter((r) => r.id !== selected.id)}
+                notes={thread.notes}
+                replies={thread.replies}
+                busy={busy}
+                replyEnabled={isReplyConfigured()}
+                onAdvance={() => advance(selected)}
+                onAddNote={addNote}
+                onReply={reply}
+                onOpenAttachment={openAttachment}
+                onSelect={(r) => select(r.id)}
+              />
+            ) : (
+              <p className="text-sm text-slate-500">اختر بلاغًا لعرض تفاصيله.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
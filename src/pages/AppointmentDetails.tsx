@@ -2,11 +2,14 @@
 import { useParams } from "react-router-dom";
 import { useEffect, useState } from "react";
 import { supabase } from "../lib/supabase";
+import { formatDate } from "../lib/format";
+import { useSettings } from "../store/useSettings";
 import type { Appointment } from "../types";
 
 export default function AppointmentDetails() {
   const { id } = useParams<{ id: string }>();
   const [appointment, setAppointment] = useState<Appointment | null>(null);
+  const timeZone = useSettings((s) => s.settings.timezone);
 
   useEffect(() => {
     supabase.from("appointments").select("*").eq("id", id).single().then(({ data }) => setAppointment(data));
@@ -19,7 +22,7 @@ export default function AppointmentDetails() {
       <h1 className="text-xl font-bold">{appointment.title}</h1>
       <p>{appointment.description}</p>
       <p>📍 {appointment.location}</p>
-      <p>⏰ {new Date(appointment.start_at).toLocaleString()}</p>
+      <p>⏰ {formatDate(appointment.start_at, "ar", timeZone)}</p>
       <p>🔑 الأهمية: {appointment.priority}</p>
       <div className="flex gap-2 mt-4">
         <button className="btn-primary">تعديل</button>
@@ -1,9 +1,12 @@
 import { useEffect } from "react";
 import { useAppointments } from "../store/useAppointments";
+import { useSettings } from "../store/useSettings";
+import { formatDate } from "../lib/format";
 import { Link } from "react-router-dom";
 
 export default function Dashboard() {
   const { items, fetch, remove, loading } = useAppointments();
+  const timeZone = useSettings((s) => s.settings.timezone);
 
   useEffect(() => {
     fetch();
@@ -36,7 +39,7 @@ export default function Dashboard() {
                 </div>
                 <p className="text-sm text-gray-600 mt-2">{a.description}</p>
                 <p className="text-xs text-gray-500 mt-1">
-                  {new Date(a.start_at).toLocaleString()}
+                  {formatDate(a.start_at, "ar", timeZone)}
                 </p>
               </div>
               <div className="mt-3 flex gap-3">
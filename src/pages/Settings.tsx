@@ -1,26 +1,36 @@
 // src/pages/Settings.tsx
+import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { supabase } from "../lib/supabase";
+import { normalizeSettings } from "../lib/settings";
+import { useSettings } from "../store/useSettings";
+import type { Theme, WeekStart } from "../types";
 
 type SettingsForm = {
-  default_reminder_minutes: number;
+  reminderWindowMinutes: number;
   timezone: string;
-  week_start: "saturday" | "sunday" | "monday";
-  theme: "dark" | "light" | "auto";
+  weekStart: WeekStart;
+  theme: Theme;
 };
 
 export default function SettingsPage() {
-  const { register, handleSubmit } = useForm<SettingsForm>({
-    defaultValues: {
-      default_reminder_minutes: 30,
-      timezone: "Asia/Riyadh",
-      week_start: "sunday",
-      theme: "auto",
-    },
-  });
+  const { settings, setSettings, hydrate, flush } = useSettings();
+  const { register, handleSubmit, reset } = useForm<SettingsForm>({ defaultValues: settings });
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => {
+      if (data.user) hydrate(data.user.id);
+    });
+  }, [hydrate]);
+
+  // بعد المزامنة قد تتغير القيم بما فاز من الحساب
+  useEffect(() => {
+    reset(settings);
+  }, [settings, reset]);
 
   const onSubmit = async (data: SettingsForm) => {
-    await supabase.from("settings").upsert(data);
+    setSettings((s) => normalizeSettings({ ...s, ...data }));
+    await flush();
     alert("تم حفظ الإعدادات ✅");
   };
 
@@ -29,13 +39,13 @@ export default function SettingsPage() {
       <h1 className="text-xl font-bold">إعدادات التطبيق</h1>
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
         <label>التذكير الافتراضي (بالدقائق)</label>
-        <input type="number" {...register("default_reminder_minutes")} className="input" />
+        <input type="number" {...register("reminderWindowMinutes", { valueAsNumber: true })} className="input" />
 
         <label>المنطقة الزمنية</label>
         <input type="text" {...register("timezone")} className="input" />
 
         <label>بداية الأسبوع</label>
-        <select {...register("week_start")} className="select">
+        <select {...register("weekStart")} className="select">
           <option value="saturday">السبت</option>
           <option value="sunday">الأحد</option>
           <option value="monday">الاثنين</option>
@@ -52,4 +62,4 @@ export default function SettingsPage() {
       </form>
     </div>
   );
-}
\ No newline at end of file
+}
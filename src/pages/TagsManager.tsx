@@ -1,48 +1,39 @@
 // src/pages/TagsManager.tsx
-import { useEffect, useState } from "react";
-import { supabase } from "../lib/supabase";
-
-type Tag = { id: string; name: string; color: string };
+import { useEffect, useMemo } from "react";
+import { TagManager } from "../components/tags/TagManager";
+import { useAppointments } from "../store/useAppointments";
+import { useTags } from "../store/useTags";
 
 export default function TagsManager() {
-  const [tags, setTags] = useState<Tag[]>([]);
-  const [newTag, setNewTag] = useState("");
+  const { tags, fetch, create, update, remove } = useTags();
+  const { items, fetch: fetchAppointments } = useAppointments();
 
   useEffect(() => {
-    supabase.from("tags").select("*").then(({ data }) => setTags(data ?? []));
-  }, []);
-
-  const addTag = async () => {
-    const { data } = await supabase.from("tags").insert({ name: newTag, color: "#0F62FE" }).select();
-    if (data) setTags([...tags, ...data]);
-    setNewTag("");
-  };
+    fetch();
+    fetchAppointments();
+  }, [fetch, fetchAppointments]);
 
-  const deleteTag = async (id: string) => {
-    await supabase.from("tags").delete().eq("id", id);
-    setTags(tags.filter((t) => t.id !== id));
-  };
+  const usage = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const a of items) for (const id of a.tag_ids ?? []) counts[id] = (counts[id] ?? 0) + 1;
+    return counts;
+  }, [items]);
 
   return (
     <div className="p-6 space-y-6">
       <h1 className="text-xl font-bold">إدارة الوسوم</h1>
-      <div className="flex gap-2">
-        <input
-          value={newTag}
-          onChange={(e) => setNewTag(e.target.value)}
-          className="input"
-          placeholder="اسم الوسم"
-        />
-        <button className="btn-primary" onClick={addTag}>إضافة</button>
-      </div>
-      <ul className="space-y-2">
-        {tags.map((tag) => (
-          <li key={tag.id} className="flex justify-between items-center border p-2 rounded">
-            <span className="tag" style={{ borderColor: tag.color }}>{tag.name}</span>
-            <button className="text-red-600" onClick={() => deleteTag(tag.id)}>حذف</button>
-          </li>
-        ))}
-      </ul>
+      <TagManager
+        tags={tags}
+        usage={usage}
+        onCreate={async (name, color) => {
+          await create(name, color);
+        }}
+        onUpdate={update}
+        onDelete={async (id, reassignTo) => {
+          await remove(id, reassignTo);
+          await fetchAppointments();
+        }}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
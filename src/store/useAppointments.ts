@@ -1,5 +1,12 @@
 import { create } from "zustand";
 import { supabase } from "../lib/supabase";
+import { excludeOccurrence, planOccurrenceEdit, type EditScope } from "../lib/recurrence";
+import { snoozeReminder, syncReminders, type ReminderOptions } from "../lib/reminders";
+import { recordDose } from "../lib/medications";
+import { setAppointmentTags } from "../lib/tags";
+import { browserTimeZone } from "../lib/timezone";
+import { useTags } from "./useTags";
+import type { Recurrence, ReminderChannel, WeekStart } from "../types";
 
 export type Priority = "low" | "medium" | "high" | "critical";
 export type Status = "scheduled" | "done" | "canceled";
@@ -14,31 +21,95 @@ export type Appointment = {
   priority: Priority;
   status: Status;
   location?: string;
-  tag?: string | null;
+  tag_ids?: string[];
   reminder_minutes_before?: number | null;
+  reminder_offsets?: number[] | null;
+  recurrence?: Recurrence | null;
+  actions_before?: string[] | null;
+  actions_after?: string[] | null;
+  ics_uid?: string | null;
+  medication_id?: string | null;
 };
 
+// الوسوم تُقرأ معرفات من appointment_tags وتُكتب بأسمائها (tags)؛ الأسماء الجديدة تُنشأ وسومًا تلقائيًا
+type TagInput = { tags?: string[] };
+export type NewAppointment = Omit<Appointment, "id" | "status" | "tag_ids"> & Partial<Pick<Appointment, "status">> & TagInput;
+export type AppointmentPatch = Partial<Omit<Appointment, "tag_ids">> & TagInput;
+
 type State = {
   items: Appointment[];
   loading: boolean;
+  reminderOptions: { channels: ReminderChannel[]; weekStart: WeekStart; timeZone: string };
+  configureReminders: (options: Partial<State["reminderOptions"]>) => void;
+  resyncReminders: () => Promise<void>;
   fetch: () => Promise<void>;
-  add: (a: Omit<Appointment, "id" | "status"> & Partial<Pick<Appointment, "status">>) => Promise<void>;
-  update: (id: string, a: Partial<Appointment>) => Promise<void>;
+  add: (a: NewAppointment) => Promise<void>;
+  addMany: (list: NewAppointment[]) => Promise<number>;
+  update: (id: string, a: AppointmentPatch) => Promise<void>;
   remove: (id: string) => Promise<void>;
+  removeMany: (ids: string[]) => Promise<void>;
+  removeOccurrence: (series: Appointment, occurrenceStart: string, timeZone: string) => Promise<void>;
+  updateOccurrence: (series: Appointment, occurrenceStart: string, a: AppointmentPatch, scope: EditScope, weekStart: WeekStart, timeZone: string) => Promise<void>;
+  markDone: (id: string, occurrenceStart?: string) => Promise<void>;
+  snooze: (id: string, occurrenceStart: string | undefined, minutes: number) => Promise<void>;
 };
 
+// تُحدَّث صفوف جدول reminders بعد كل إضافة أو تعديل؛ فشلها لا يلغي حفظ الموعد نفسه.
+async function syncAppointmentReminders(row: Appointment, options: ReminderOptions) {
+  try {
+    await syncReminders(supabase, row, options);
+  } catch (err) {
+    console.error("Sync reminders error:", err instanceof Error ? err.message : err);
+  }
+}
+
+const appointmentColumns = "*, appointment_tags(tag_id)";
+
+type AppointmentRow = Omit<Appointment, "tag_ids"> & { appointment_tags?: { tag_id: string }[] };
+
+function fromRow({ appointment_tags, ...row }: AppointmentRow): Appointment {
+  return { ...row, tag_ids: (appointment_tags ?? []).map((t) => t.tag_id) };
+}
+
+// يفصل حقول الوسوم عن أعمدة جدول appointments
+function splitTags<T extends { tag_ids?: string[]; tags?: string[] }>(input: T) {
+  const { tag_ids, tags, ...row } = input;
+  return { row, tag_ids, tags };
+}
+
+// الأسماء (tags) تسبق المعرفات المنسوخة من السلسلة (tag_ids)؛ غياب الاثنين يترك وسوم الموعد كما هي
+async function saveTags(appointmentId: string, input: { tag_ids?: string[]; tags?: string[] }) {
+  const ids = input.tags ? await useTags.getState().ensure(input.tags) : input.tag_ids;
+  if (ids) await setAppointmentTags(supabase, appointmentId, ids);
+}
+
+async function findAppointment(items: Appointment[], id: string) {
+  const cached = items.find((a) => a.id === id);
+  if (cached) return cached;
+  const { data, error } = await supabase.from("appointments").select(appointmentColumns).eq("id", id).single();
+  if (error) throw error;
+  return fromRow(data as AppointmentRow);
+}
+
 export const useAppointments = create<State>((set, get) => ({
   items: [],
   loading: false,
+  reminderOptions: { channels: ["app"], weekStart: "sunday", timeZone: browserTimeZone() },
+  configureReminders: (options) => set((s) => ({ reminderOptions: { ...s.reminderOptions, ...options } })),
+  // بعد تغيير القنوات (مثل تفعيل Web Push) نعيد حساب تذكيرات المواعيد المجدولة
+  resyncReminders: async () => {
+    const { items, reminderOptions } = get();
+    for (const a of items.filter((i) => i.status === "scheduled")) await syncAppointmentReminders(a, reminderOptions);
+  },
   fetch: async () => {
     set({ loading: true });
     // نحدد المستخدم لجلب مواعيده فقط (متوافق مع RLS)
     const { data: userData } = await supabase.auth.getUser();
     const userId = userData?.user?.id;
-    const query = supabase.from("appointments").select("*").order("start_at", { ascending: true });
+    const query = supabase.from("appointments").select(appointmentColumns).order("start_at", { ascending: true });
     const { data, error } = userId ? await query.eq("user_id", userId) : await query;
     if (!error && data) {
-      set({ items: data as Appointment[] });
+      set({ items: (data as AppointmentRow[]).map(fromRow) });
     } else if (error) {
       console.error("Fetch appointments error:", error.message);
     }
@@ -47,24 +118,132 @@ export const useAppointments = create<State>((set, get) => ({
   add: async (a) => {
     const { data: userData } = await supabase.auth.getUser();
     const userId = userData?.user?.id;
+    const { row, tags } = splitTags(a);
     const payload = {
-      ...a,
-      status: a.status ?? "scheduled",
+      ...row,
+      status: row.status ?? "scheduled",
       user_id: userId,
     };
-    const { error } = await supabase.from("appointments").insert(payload);
+    const { data, error } = await supabase.from("appointments").insert(payload).select().single();
     if (error) {
       console.error("Insert appointment error:", error.message);
       throw error;
     }
+    await saveTags(data.id, { tags });
+    await syncAppointmentReminders(data as Appointment, get().reminderOptions);
     await get().fetch();
   },
+  // إدراج دفعة واحدة: إما أن تُحفظ كل المواعيد أو لا شيء، فلا تتكرر عند إعادة المحاولة
+  addMany: async (list) => {
+    if (!list.length) return 0;
+    const { data: userData } = await supabase.auth.getUser();
+    const userId = userData?.user?.id;
+    const parts = list.map(splitTags);
+    const { data, error } = await supabase
+      .from("appointments")
+      .insert(parts.map(({ row }) => ({ ...row, status: row.status ?? "scheduled", user_id: userId })))
+      .select();
+    if (error) {
+      console.error("Insert appointments error:", error.message);
+      throw error;
+    }
+    try {
+      // الصفوف تعود بترتيب الإدراج
+      for (const [i, row] of (data as Appointment[]).entries()) {
+        await saveTags(row.id, { tags: parts[i].tags });
+        await syncAppointmentReminders(row, get().reminderOptions);
+      }
+    } finally {
+      await get().fetch();
+    }
+    return data.length;
+  },
   update: async (id, a) => {
-    const { error } = await supabase.from("appointments").update(a).eq("id", id);
-    if (!error) await get().fetch();
+    const { row, tags } = splitTags(a);
+    const { data, error } = await supabase.from("appointments").update(row).eq("id", id).select().single();
+    if (!error) {
+      await saveTags(id, { tags });
+      await syncAppointmentReminders(data as Appointment, get().reminderOptions);
+      await get().fetch();
+    }
   },
   remove: async (id) => {
     const { error } = await supabase.from("appointments").delete().eq("id", id);
     if (!error) await get().fetch();
   },
+  removeMany: async (ids) => {
+    if (!ids.length) return;
+    const { error } = await supabase.from("appointments").delete().in("id", ids);
+    if (error) {
+      console.error("Delete appointments error:", error.message);
+      throw error;
+    }
+    await get().fetch();
+  },
+  // حذف تكرار واحد يضيف يومه إلى استثناءات السلسلة، فتسقط تذكيراته عند إعادة حسابها
+  removeOccurrence: async (series, occurrenceStart, timeZone) => {
+    if (!series.recurrence) return get().remove(series.id);
+    const { data, error } = await supabase
+      .from("appointments")
+      .update({ recurrence: excludeOccurrence(series.recurrence, occurrenceStart, timeZone) })
+      .eq("id", series.id)
+      .select()
+      .single();
+    if (error) {
+      console.error("Remove occurrence error:", error.message);
+      throw error;
+    }
+    await syncAppointmentReminders(data as Appointment, get().reminderOptions);
+    await get().fetch();
+  },
+  // التكرار المنفصل يُدرج قبل تعديل السلسلة، ويُحذف إن فشل تعديلها حتى لا يختفي الموعد أو يتكرر
+  updateOccurrence: async (series, occurrenceStart, a, scope, weekStart, timeZone) => {
+    const plan = planOccurrenceEdit<Appointment & TagInput>(series, occurrenceStart, a, scope, weekStart, timeZone);
+    let inserted: { row: Appointment; tag_ids?: string[]; tags?: string[] } | undefined;
+    if (plan.insert) {
+      const { row, tag_ids, tags } = splitTags(plan.insert);
+      const { data, error } = await supabase.from("appointments").insert(row).select().single();
+      if (error) {
+        console.error("Insert occurrence error:", error.message);
+        throw error;
+      }
+      inserted = { row: data as Appointment, tag_ids, tags };
+    }
+    if (plan.update) {
+      const { row, tags } = splitTags(plan.update.patch);
+      const { data, error } = await supabase.from("appointments").update(row).eq("id", plan.update.id).select().single();
+      if (error) {
+        console.error("Update series error:", error.message);
+        if (inserted) await supabase.from("appointments").delete().eq("id", inserted.row.id);
+        throw error;
+      }
+      await saveTags(plan.update.id, { tags });
+      await syncAppointmentReminders(data as Appointment, get().reminderOptions);
+    }
+    // التكرار المنفصل يُنشأ بوسوم السلسلة ما لم يحدد التعديل غيرها
+    if (inserted) {
+      await saveTags(inserted.row.id, { tag_ids: inserted.tag_ids, tags: inserted.tags });
+      await syncAppointmentReminders(inserted.row, get().reminderOptions);
+    }
+    await get().fetch();
+  },
+  // إنهاء تكرار واحد من سلسلة يفصله كموعد منجز بدل إنهاء السلسلة كلها
+  markDone: async (id, occurrenceStart) => {
+    const appt = await findAppointment(get().items, id);
+    // جرعة الدواء تُسجل في سجل الالتزام بدل فصل التكرار عن سلسلة الجرعات
+    if (appt.medication_id && appt.user_id) {
+      await recordDose(appt.user_id, appt.medication_id, occurrenceStart ?? appt.start_at, "taken");
+      return;
+    }
+    if (appt.recurrence && occurrenceStart) {
+      const { weekStart, timeZone } = get().reminderOptions;
+      await get().updateOccurrence(appt, occurrenceStart, { status: "done" }, "this", weekStart, timeZone);
+    } else {
+      await get().update(id, { status: "done" });
+    }
+  },
+  snooze: async (id, occurrenceStart, minutes) => {
+    const appt = await findAppointment(get().items, id);
+    await snoozeReminder(supabase, { appointment_id: id, user_id: appt.user_id, occurrence_start: occurrenceStart ?? appt.start_at }, minutes, get().reminderOptions.channels);
+  },
 }));
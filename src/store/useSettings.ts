@@ -0,0 +1,88 @@
+import { create } from "zustand";
+import { supabase } from "../lib/supabase";
+import { isDirty, loadRemoteSettings, readCachedSettings, reconcileSettings, saveRemoteSettings, writeCachedSettings, type CachedSettings, type UserSettings } from "../lib/settings";
+
+// local: لم يُسجَّل الدخول بعد، pending: تعديل محلي ينتظر الرفع (دون اتصال أو فشل الحفظ)
+export type SettingsSyncStatus = "local" | "syncing" | "synced" | "pending";
+
+type State = {
+  settings: UserSettings;
+  syncStatus: SettingsSyncStatus;
+  syncError: string | null;
+  setSettings: (value: UserSettings | ((prev: UserSettings) => UserSettings)) => void;
+  hydrate: (userId: string) => Promise<void>;
+  flush: () => Promise<void>;
+  signOut: () => void;
+};
+
+// التعديلات المتتالية (كتابة رقم أو سحب قيمة) تُرفع مرة واحدة بعد توقفها
+const PUSH_DELAY_MS = 800;
+
+let cache: CachedSettings = readCachedSettings();
+// المستخدم المسجل الذي تُرفع إليه التعديلات؛ cache.userId يبقى بعد الخروج لمعرفة صاحب النسخة المحلية
+let activeUserId: string | null = null;
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function persist(next: Partial<CachedSettings>) {
+  cache = { ...cache, ...next };
+  writeCachedSettings(cache);
+}
+
+export const useSettings = create<State>((set, get) => ({
+  settings: cache.settings,
+  syncStatus: "local",
+  syncError: null,
+  // الحفظ محلي فورًا ثم يُرفع إلى جدول settings إن كان المستخدم مسجلًا
+  setSettings: (value) => {
+    const settings = typeof value === "function" ? value(get().settings) : value;
+    persist({ settings, updatedAt: new Date().toISOString() });
+    set({ settings });
+    if (!activeUserId) return;
+    set({ syncStatus: "pending" });
+    if (pushTimer) clearTimeout(pushTimer);
+    pushTimer = setTimeout(() => {
+      pushTimer = null;
+      get().flush();
+    }, PUSH_DELAY_MS);
+  },
+  hydrate: async (userId) => {
+    set({ syncStatus: "syncing", syncError: null });
+    try {
+      const remote = await loadRemoteSettings(supabase, userId);
+      const resolved = reconcileSettings(cache, remote, userId);
+      activeUserId = userId;
+      persist({ settings: resolved.settings, updatedAt: resolved.updatedAt, syncedAt: resolved.push ? cache.syncedAt : resolved.updatedAt, userId });
+      set({ settings: resolved.settings });
+      if (resolved.push) await get().flush();
+      else set({ syncStatus: "synced" });
+    } catch (err) {
+      // دون اتصال نعمل بالنسخة المحلية وتُرفع تعديلاتها عند عودة الاتصال، ما لم تكن لحساب آخر
+      if (!cache.userId || cache.userId === userId) {
+        activeUserId = userId;
+        persist({ userId });
+      }
+      set({ syncStatus: isDirty(cache) ? "pending" : "local", syncError: err instanceof Error ? err.message : "تعذر مزامنة الإعدادات." });
+    }
+  },
+  flush: async () => {
+    const userId = activeUserId;
+    const { updatedAt, settings } = cache;
+    if (!userId || !updatedAt || !isDirty(cache)) return;
+    set({ syncStatus: "syncing", syncError: null });
+    try {
+      await saveRemoteSettings(supabase, userId, settings, updatedAt);
+      persist({ syncedAt: updatedAt });
+      // تعديل جديد أثناء الرفع يبقى معلقًا ويُرفع في الدورة التالية
+      set({ syncStatus: isDirty(cache) ? "pending" : "synced" });
+    } catch (err) {
+      set({ syncStatus: "pending", syncError: err instanceof Error ? err.message : "تعذر حفظ الإعدادات في الحساب." });
+    }
+  },
+  // تبقى الإعدادات محليًا بعد الخروج لكنها لم تعد مرتبطة برفع تلقائي
+  signOut: () => {
+    if (pushTimer) clearTimeout(pushTimer);
+    pushTimer = null;
+    activeUserId = null;
+    set({ syncStatus: "local", syncError: null });
+  },
+}));
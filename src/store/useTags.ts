@@ -0,0 +1,77 @@
+import { create } from "zustand";
+import { supabase } from "../lib/supabase";
+import { clearLegacyTags, createTags, deleteTag, findTagByName, loadTags, readLegacyTags, uniqueTagNames, updateTag, type TagPatch } from "../lib/tags";
+import type { Tag } from "../types";
+
+type State = {
+  tags: Tag[];
+  loading: boolean;
+  fetch: () => Promise<void>;
+  create: (name: string, color?: string) => Promise<Tag>;
+  update: (id: string, patch: TagPatch) => Promise<void>;
+  remove: (id: string, reassignTo?: string) => Promise<void>;
+  ensure: (names: string[]) => Promise<string[]>;
+  migrateLegacy: () => Promise<void>;
+};
+
+async function currentUserId() {
+  const { data } = await supabase.auth.getUser();
+  const userId = data?.user?.id;
+  if (!userId) throw new Error("سجّل الدخول لإدارة الوسوم.");
+  return userId;
+}
+
+const byName = (a: Tag, b: Tag) => a.name.localeCompare(b.name, "ar");
+
+export const useTags = create<State>((set, get) => ({
+  tags: [],
+  loading: false,
+  fetch: async () => {
+    set({ loading: true });
+    try {
+      set({ tags: await loadTags(supabase, await currentUserId()) });
+    } catch (err) {
+      console.error("Fetch tags error:", err instanceof Error ? err.message : err);
+    }
+    set({ loading: false });
+  },
+  create: async (name, color) => {
+    if (findTagByName(get().tags, name)) throw new Error(`الوسم "${name.trim()}" موجود بالفعل.`);
+    const [tag] = await createTags(supabase, await currentUserId(), [{ name, color }]);
+    if (!tag) throw new Error("اسم الوسم مطلوب.");
+    set((s) => ({ tags: [...s.tags, tag].sort(byName) }));
+    return tag;
+  },
+  update: async (id, patch) => {
+    const tag = await updateTag(supabase, get().tags, id, patch);
+    set((s) => ({ tags: s.tags.map((t) => (t.id === id ? tag : t)).sort(byName) }));
+  },
+  // الحذف (أو الدمج عبر reassignTo) يغيّر وسوم المواعيد؛ على المستدعي إعادة جلب المواعيد بعده
+  remove: async (id, reassignTo) => {
+    await deleteTag(supabase, id, reassignTo);
+    set((s) => ({ tags: s.tags.filter((t) => t.id !== id) }));
+  },
+  // يعيد معرفات الوسوم بأسمائها وينشئ الناقص منها بلونه الافتراضي؛ القائمة تُحدَّث أولًا حتى لا يتكرر وسم أُنشئ من جهاز آخر
+  ensure: async (names) => {
+    const wanted = uniqueTagNames(names);
+    if (wanted.some((n) => !findTagByName(get().tags, n))) {
+      const userId = await currentUserId();
+      set({ tags: await loadTags(supabase, userId) });
+      const missing = wanted.filter((n) => !findTagByName(get().tags, n));
+      const created = await createTags(supabase, userId, missing.map((name) => ({ name })));
+      set((s) => ({ tags: [...s.tags, ...created].sort(byName) }));
+    }
+    return wanted.map((n) => findTagByName(get().tags, n)?.id).filter((id): id is string => !!id);
+  },
+  // وسوم الإعدادات المحلية القديمة تنتقل مرة واحدة إلى جدول tags؛ تبقى محفوظة محليًا إن فشل الترحيل
+  migrateLegacy: async () => {
+    const names = readLegacyTags();
+    if (!names.length) return;
+    try {
+      await get().ensure(names);
+      clearLegacyTags();
+    } catch (err) {
+      console.error("Migrate legacy tags error:", err instanceof Error ? err.message : err);
+    }
+  },
+}));
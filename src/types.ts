@@ -13,10 +13,30 @@ export interface Appointment {
   status: Status;
   location?: string;
   keys?: Record<string, string>; // مفاتيح إضافية
+  recurrence?: Recurrence | null; // قاعدة التكرار إن وُجدت
+  reminder_minutes_before?: number | null;
+  reminder_offsets?: number[] | null; // تذكيرات إضافية (دقائق قبل الموعد)
+  actions_before?: string[] | null; // خطوات قبل الموعد (من استخراج Atlas)
+  actions_after?: string[] | null; // خطوات بعد الموعد
+  ics_uid?: string | null; // معرّف الحدث عند الاستيراد من ملف .ics
+  medication_id?: string | null; // موعد جرعة مولّد من خطة دواء
   created_at?: string;
   updated_at?: string;
 }
 
+// قواعد التكرار
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+export type Weekday = "sat" | "sun" | "mon" | "tue" | "wed" | "thu" | "fri";
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;             // كل كم يوم/أسبوع/شهر/سنة
+  days_of_week?: Weekday[];     // للتكرار الأسبوعي فقط
+  until?: string | null;        // YYYY-MM-DD (شامل)
+  count?: number | null;        // عدد مرات التكرار الكلي
+  exceptions?: string[];        // تواريخ YYYY-MM-DD مستثناة من السلسلة
+}
+
 // أنواع الوسوم
 export interface Tag {
   id: string;
@@ -36,6 +56,9 @@ export interface AppointmentTag {
 export type WeekStart = "saturday" | "sunday" | "monday";
 export type Theme = "dark" | "light" | "auto";
 
+export type ToneName = "soft" | "bright" | "digital" | "calm" | "alert";
+
+// صف جدول settings؛ نموذج الواجهة المقابل UserSettings في lib/settings.ts
 export interface Settings {
   id: string;
   user_id: string;
@@ -43,6 +66,15 @@ export interface Settings {
   timezone: string;
   week_start: WeekStart;
   theme: Theme;
+  default_priority: Priority;
+  tone: ToneName;
+  buffer_minutes: number;
+  working_hours: { start: string; end: string; days: Weekday[] } | null; // start/end بصيغة HH:MM
+  local_parser_first: boolean;
+  rules: unknown[] | null; // قواعد التصنيف؛ null = القواعد الافتراضية
+  updated_at: string;
+  email_reminders?: boolean; // الاشتراك في تذكيرات البريد
+  email_locale?: "ar" | "en";
 }
 
 // التذكيرات
@@ -51,7 +83,13 @@ export type ReminderChannel = "app" | "email" | "webpush";
 export interface Reminder {
   id: string;
   appointment_id: string;
+  user_id?: string;
+  occurrence_start: string; // بداية الموعد (أو التكرار) الذي يخصه التذكير
   remind_at: string; // ISO Date string
   channel: ReminderChannel;
   sent: boolean;
+  sent_at?: string | null;
+  attempts?: number;
+  last_error?: string | null;
+  snoozed?: boolean; // أنشأه "ذكرني لاحقًا" فلا يُحذف عند إعادة حساب تذكيرات الموعد
 }
\ No newline at end of file